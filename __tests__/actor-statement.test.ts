@@ -0,0 +1,75 @@
+import { Project, Account, Actor, Transaction, actorStatement } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const AP = Account.Reserved.AccountsPayable
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function post(type: string, date: string, actorId: number, elements: any[]) {
+    const t = Transaction.construct({type, date, actorId, description: `${type} ${date}`})
+    await t.mergeElements(elements)
+    await t.save()
+    return t
+}
+
+test('statement of account', async done => {
+    const customer = Actor.construct({title: 'Alice', type: Actor.Customer, address: '1 Main St'})
+    await customer.save()
+    const other = Actor.construct({title: 'Bob', type: Actor.Customer})
+    await other.save()
+    const supplier = Actor.construct({title: 'Carol', type: Actor.Supplier})
+    await supplier.save()
+
+    const inv1 = await post(Transaction.Invoice, '2020-01-05', customer.id!, [
+        {accountId: AR, drcr: Debit, amount: 1000, currency: 'USD'},
+        {accountId: 400, drcr: Credit, amount: 1000, currency: 'USD'},
+    ])
+    const inv2 = await post(Transaction.Invoice, '2020-02-10', customer.id!, [
+        {accountId: AR, drcr: Debit, amount: 500, currency: 'USD'},
+        {accountId: 400, drcr: Credit, amount: 500, currency: 'USD'},
+        {accountId: AR, drcr: Debit, amount: 200, currency: 'EUR'},
+        {accountId: 400, drcr: Credit, amount: 200, currency: 'EUR'},
+    ])
+    const pay = await post(Transaction.InvoicePayment, '2020-02-15', customer.id!, [
+        {accountId: Cash, drcr: Debit, amount: 1000, currency: 'USD'},
+        {accountId: AR, drcr: Credit, amount: 1000, currency: 'USD', settleId: inv1.id},
+    ])
+    await post(Transaction.Invoice, '2020-02-20', other.id!, [
+        {accountId: AR, drcr: Debit, amount: 999, currency: 'USD'},
+        {accountId: 400, drcr: Credit, amount: 999, currency: 'USD'},
+    ])
+    await post(Transaction.Bill, '2020-02-20', supplier.id!, [
+        {accountId: 506, drcr: Debit, amount: 300, currency: 'USD'},
+        {accountId: AP, drcr: Credit, amount: 300, currency: 'USD'},
+    ])
+
+    const s = await actorStatement(customer.id!, '2020-02-01', '2020-02-29')
+    expect(s).toMatchObject({actorTitle: 'Alice', actorAddress: '1 Main St', accountId: AR})
+    expect(s.currencies.map(c => c.currency)).toEqual(['EUR', 'USD'])
+    expect(s.currencies[0]).toMatchObject({openingBalance: 0, closingBalance: 200})
+    expect(s.currencies[1].openingBalance).toBe(1000)
+    expect(s.currencies[1].items).toMatchObject([
+        {transactionId: inv2.id, amount: 500, balance: 1500},
+        {transactionId: pay.id, txnType: Transaction.InvoicePayment, amount: -1000, balance: 500},
+    ])
+    expect(s.currencies[1].closingBalance).toBe(500)
+
+    // Payables are positive when owed to the supplier
+    const s2 = await actorStatement(supplier.id!, '2020-01-01', '2020-12-31')
+    expect(s2.accountId).toBe(AP)
+    expect(s2.currencies).toMatchObject([{currency: 'USD', openingBalance: 0, closingBalance: 300}])
+
+    await expect(actorStatement(999, '2020-01-01', '2020-12-31')).rejects.toBeTruthy()
+
+    done()
+})
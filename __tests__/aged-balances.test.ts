@@ -0,0 +1,93 @@
+import { Project, Account, Actor, Transaction, agedBalances } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const AP = Account.Reserved.AccountsPayable
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function invoice(actorId: number, date: string, due: string, amount: number, currency = 'USD') {
+    const t = Transaction.construct({type: Transaction.Invoice, date, due, actorId})
+    await t.mergeElements([
+        {accountId: AR, drcr: Debit, amount, currency},
+        {accountId: 400, drcr: Credit, amount, currency},
+    ])
+    await t.save()
+    return t
+}
+
+test('aged balances', async done => {
+    const alice = Actor.construct({title: 'Alice', type: Actor.Customer})
+    await alice.save()
+    const bob = Actor.construct({title: 'Bob', type: Actor.Customer})
+    await bob.save()
+    const carol = Actor.construct({title: 'Carol', type: Actor.Supplier})
+    await carol.save()
+
+    const inv1 = await invoice(bob.id!, '2020-01-01', '', 100)                 // 90+ days
+    const inv2 = await invoice(alice.id!, '2020-03-01', '2020-03-31', 200)     // 31-60 days
+    await invoice(alice.id!, '2020-04-20', '2020-05-20', 300)                  // not yet due
+    await invoice(alice.id!, '2020-04-25', '', 400, 'EUR')                     // 1-30 days
+    await invoice(alice.id!, '2020-06-01', '', 999)                            // after the date
+
+    // Partly pay one, fully pay another
+    for (let [t, amount] of [[inv2, 50], [inv1, 100]] as [Transaction, number][]) {
+        const payment = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-05-01', actorId: t.actorId})
+        await payment.mergeElements([
+            {accountId: Cash, drcr: Debit, amount, currency: 'USD'},
+            {accountId: AR, drcr: Credit, amount, currency: 'USD', settleId: t.id},
+        ])
+        await payment.save()
+    }
+
+    const report = await agedBalances('2020-05-10')
+    expect(report.accountId).toBe(AR)
+    expect(report.actors).toHaveLength(2)
+    expect(report.actors[0]).toMatchObject({actorTitle: 'Alice', currency: 'EUR', buckets: [0, 400, 0, 0, 0], total: 400})
+    expect(report.actors[1]).toMatchObject({actorTitle: 'Alice', currency: 'USD', buckets: [300, 0, 150, 0, 0], total: 450})
+    expect(report.actors[1].items).toMatchObject([
+        {transactionId: inv2.id, amount: 150, days: 40, bucket: 2},
+        {amount: 300, days: -10, bucket: 0},
+    ])
+    expect(report.totals).toMatchObject([
+        {currency: 'EUR', amount: 400},
+        {currency: 'USD', amount: 450, buckets: [300, 0, 150, 0, 0]},
+    ])
+
+    // A payment made after the date doesn't count
+    const later = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-05-20', actorId: alice.id})
+    await later.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 150, currency: 'USD'},
+        {accountId: AR, drcr: Credit, amount: 150, currency: 'USD', settleId: inv2.id},
+    ])
+    await later.save()
+    expect((await agedBalances('2020-05-10')).actors[1]).toMatchObject({buckets: [300, 0, 150, 0, 0], total: 450})
+    expect((await agedBalances('2020-05-20')).actors[1]).toMatchObject({buckets: [300, 0, 0, 0, 0], total: 300})
+
+    // Before any payments, including of invoices which are now fully paid
+    expect((await agedBalances('2020-04-30')).actors.map(a => [a.actorTitle, a.currency, a.total])).toEqual([
+        ['Alice', 'EUR', 400], ['Alice', 'USD', 500], ['Bob', 'USD', 100],
+    ])
+
+    // Payables
+    const bill = Transaction.construct({type: Transaction.Bill, date: '2020-01-15', actorId: carol.id})
+    await bill.mergeElements([
+        {accountId: 506, drcr: Debit, amount: 70, currency: 'USD'},
+        {accountId: AP, drcr: Credit, amount: 70, currency: 'USD'},
+    ])
+    await bill.save()
+    const payables = await agedBalances('2020-05-10', true)
+    expect(payables.accountId).toBe(AP)
+    expect(payables.actors).toMatchObject([{actorTitle: 'Carol', buckets: [0, 0, 0, 0, 70], total: 70}])
+
+    done()
+})
@@ -0,0 +1,72 @@
+import { Project, Transaction, Attachment, AuditLog, MAX_ATTACHMENT_SIZE } from '../src/core'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('attachments', async done => {
+    const t = Transaction.construct({date: '2020-01-01', type: Transaction.Purchase, description: 'Paper'})
+    await t.mergeElements([
+        {accountId: 507, drcr: Transaction.Debit, amount: 100, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Credit, amount: 100, currency: 'USD'},
+    ])
+    await t.save()
+
+    const data = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34, 0x0a, 0x00, 0xff])   // '%PDF-1.4\n\0\xff'
+    const receipt = Attachment.construct({transactionId: t.id, filename: 'receipt.pdf', mimeType: 'application/pdf',
+        size: data.length, data})
+    await receipt.save()
+    expect(receipt.isPdf).toBe(true)
+    expect(receipt.isImage).toBe(false)
+    const photo = Attachment.construct({transactionId: t.id, filename: 'receipt.jpg', mimeType: 'image/jpeg',
+        size: 3, data: new Uint8Array([0, 0, 0])})
+    await photo.save()
+    expect(photo.isImage).toBe(true)
+
+    // Listing leaves out the content
+    const list = await Attachment.list({transactionId: t.id})
+    expect(list.map(a => a.filename)).toEqual(['receipt.pdf', 'receipt.jpg'])
+    expect(list[0].data).toBeUndefined()
+    expect(list[0].size).toBe(data.length)
+
+    // Content is stored as text and comes back unchanged
+    const stored = (await Attachment.query().findById(receipt.id!))!.data!
+    expect(Array.from(stored)).toEqual(Array.from(data))
+    expect((await Project.knex.raw('SELECT `data` FROM `attachment` WHERE `id` = ?', [receipt.id!]))[0].data)
+        .toBe('JVBERi0xLjQKAP8=')
+    for (let length of [0, 1, 2, 3, 4, 255]) {
+        const bytes = new Uint8Array(length).map((_, i) => (i * 37 + length) & 255)
+        const a = Attachment.construct({transactionId: t.id, filename: 'bytes', size: length, data: bytes})
+        await a.save()
+        expect(Array.from((await Attachment.query().findById(a.id!))!.data!)).toEqual(Array.from(bytes))
+        await a.delete()
+    }
+
+    // So does the audit log
+    const entries = await AuditLog.query().where('target', Attachment.tableName).where('targetId', String(receipt.id))
+    expect(entries).toHaveLength(1)
+    expect(JSON.parse(entries[0].after!)).toMatchObject({filename: 'receipt.pdf'})
+    expect(JSON.parse(entries[0].after!).data).toBeUndefined()
+
+    await expect(Attachment.construct({filename: 'orphan.pdf', size: 1, data: new Uint8Array([0])}).save())
+        .rejects.toMatch('must belong to')
+    await expect(Attachment.construct({transactionId: t.id, filename: 'huge.pdf', size: MAX_ATTACHMENT_SIZE + 1,
+        data: new Uint8Array()}).save()).rejects.toMatch('too large')
+
+    await photo.delete()
+    expect(await Attachment.list({transactionId: t.id}).resultSize()).toBe(1)
+
+    // Attachments go with their transaction, which is audited
+    await t.delete()
+    expect(await Attachment.query().resultSize()).toBe(0)
+    const removed = await AuditLog.query().where('target', Attachment.tableName).where('targetId', String(receipt.id))
+        .where('action', AuditLog.Delete)
+    expect(removed).toHaveLength(1)
+    expect(JSON.parse(removed[0].before!)).toMatchObject({filename: 'receipt.pdf'})
+    done()
+})
@@ -0,0 +1,78 @@
+import { Project, Transaction, Actor, Account, AuditLog } from '../src/core'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+function history(target: string, targetId: any) {
+    return AuditLog.query().where('target', target).where('targetId', String(targetId)).orderBy('id')
+}
+
+test('audit log', async done => {
+    AuditLog.user = 'Alice'
+
+    // Transactions, including elements
+    const t = Transaction.construct({date: '2020-01-01', type: Transaction.Raw, description: 'one'})
+    await t.mergeElements([
+        {accountId: 400, drcr: Transaction.Credit, amount: 100, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 100, currency: 'USD'},
+    ])
+    await t.save()
+
+    AuditLog.user = 'Bob'
+    t.description = 'two'
+    t.elements![0].amount = 150
+    t.elements![1].amount = 150
+    await t.save()
+    await t.delete()
+
+    let entries = await history('txn', t.id)
+    expect(entries).toHaveLength(3)
+    expect(entries[0]).toMatchObject({action: AuditLog.Insert, user: 'Alice', before: ''})
+    expect(JSON.parse(entries[0].after!)).toMatchObject({description: 'one', elements: [{amount: 100}, {amount: 100}]})
+    expect(entries[1]).toMatchObject({action: AuditLog.Patch, user: 'Bob'})
+    expect(JSON.parse(entries[1].before!)).toMatchObject({description: 'one', elements: [{amount: 100}, {amount: 100}]})
+    expect(JSON.parse(entries[1].after!)).toMatchObject({description: 'two', elements: [{amount: 150}, {amount: 150}]})
+    expect(entries[1].changedFields).toEqual(['description', 'elements'])
+    expect(entries[2]).toMatchObject({action: AuditLog.Delete, after: ''})
+    expect(JSON.parse(entries[2].before!)).toMatchObject({description: 'two'})
+    expect(entries[2].createdAt).toBeInstanceOf(Date)
+
+    // Elements are not recorded separately
+    expect(await AuditLog.query().where('target', 'txnElement')).toHaveLength(0)
+
+    // Actors and accounts
+    const actor = Actor.construct({title: 'Carol', type: Actor.Customer})
+    await actor.save()
+    actor.title = 'Caroline'
+    await actor.save()
+    entries = await history('actor', actor.id)
+    expect(entries.map(e => e.action)).toEqual([AuditLog.Insert, AuditLog.Patch])
+    expect(JSON.parse(entries[1].after!)).toMatchObject({title: 'Caroline'})
+
+    const account = Account.construct({title: 'Savings', type: Account.Asset})
+    await account.save()
+    account.title = 'Savings account'
+    await account.save()
+    entries = await history('account', account.id)
+    expect(entries.map(e => e.action)).toEqual([AuditLog.Insert, AuditLog.Patch])
+    expect(entries[1].changedFields).toEqual(['title'])
+
+    // Variables. Unchanged values and session-only values aren't recorded
+    await Project.variables.set('title', 'Foo')
+    await Project.variables.set('title', 'Foo')
+    await Project.variables.setMultiple({title: 'Bar', address: ''})
+    await Project.variables.set('title', 'Baz', true)
+    entries = await history('variable', 'title')
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toMatchObject({before: '""', after: '"Foo"'})
+    expect(entries[1]).toMatchObject({before: '"Foo"', after: '"Bar"'})
+    expect(await history('variable', 'address')).toHaveLength(0)
+
+    done()
+})
@@ -0,0 +1,134 @@
+import { Project, Transaction, Statement, StatementLine, parseCsv, parseStatementDate, parseStatementAmount,
+    csvStatementLines, parseOfx, parseQif } from '../src/core'
+import { createLineTransaction, lineTransactionTypes } from '../src/components/statement'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('parse dates and amounts', () => {
+    expect(parseStatementDate('2020-01-31')).toBe('2020-01-31')
+    expect(parseStatementDate('20200131')).toBe('2020-01-31')
+    expect(parseStatementDate('31/01/2020', 'dmy')).toBe('2020-01-31')
+    expect(parseStatementDate("1/31'20", 'mdy')).toBe('2020-01-31')
+    expect(parseStatementDate('31/01/2020', 'mdy')).toBe('')
+    expect(parseStatementDate('foo')).toBe('')
+
+    expect(parseStatementAmount('1,234.56', 'USD')).toBe(123456)
+    expect(parseStatementAmount('-1.234,5', 'EUR')).toBe(-123450)
+    expect(parseStatementAmount('(12.00)', 'USD')).toBe(-1200)
+    expect(parseStatementAmount('$5', 'USD')).toBe(500)
+    expect(parseStatementAmount('1,234', 'JPY')).toBe(1234)
+    expect(parseStatementAmount('1,234', 'USD')).toBe(123400)
+    expect(parseStatementAmount('1,234', 'KWD')).toBe(1234)
+    expect(parseStatementAmount('-1.234,567', 'BHD')).toBe(-1234567)
+    expect(parseStatementAmount('1,234,567', 'KWD')).toBe(1234567000)
+    expect(() => parseStatementAmount('abc', 'USD')).toThrow()
+})
+
+test('parse statements', () => {
+    expect(parseCsv('a,"b,c"\r\n"d ""e""",f\n\n')).toEqual([['a', 'b,c'], ['d "e"', 'f']])
+
+    const csv = 'Date,Details,In,Out\n31/01/2020,Client payment,100.00,\n01/02/2020,"Rent, Feb",,50.00\n'
+    expect(csvStatementLines(parseCsv(csv), {
+        date: 0, description: 1, reference: -1, amount: -1, moneyIn: 2, moneyOut: 3, dateOrder: 'dmy', header: true,
+    }, 'USD')).toEqual([
+        {date: '2020-01-31', description: 'Client payment', reference: '', amount: 10000},
+        {date: '2020-02-01', description: 'Rent, Feb', reference: '', amount: -5000},
+    ])
+
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>AUD
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20200131120000<TRNAMT>100.00<FITID>A1<NAME>Client payment
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20200201<TRNAMT>-50.5<FITID>A2<NAME>Rent<MEMO>February
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+    expect(parseOfx(ofx)).toEqual({currency: 'AUD', lines: [
+        {date: '2020-01-31', description: 'Client payment', reference: 'A1', amount: 10000},
+        {date: '2020-02-01', description: 'Rent February', reference: 'A2', amount: -5050},
+    ]})
+
+    const qif = '!Type:Bank\nD01/31/2020\nT100.00\nPClient payment\n^\nD02/01/2020\nT-50.00\nN101\nPRent\n^\n'
+    expect(parseQif(qif, 'USD')).toEqual([
+        {date: '2020-01-31', description: 'Client payment', reference: '', amount: 10000},
+        {date: '2020-02-01', description: 'Rent', reference: '101', amount: -5000},
+    ])
+})
+
+test('match statement lines', async done => {
+    async function createTransaction(date: string, description: string, elements: any[]) {
+        const t = Transaction.construct({date, type: Transaction.Raw, description})
+        await t.mergeElements(elements)
+        await t.save()
+        return t
+    }
+
+    // Two identical receipts, a payment
+    const t1 = await createTransaction('2020-01-29', 'Invoice 1', [
+        {accountId: 10, drcr: Transaction.Debit, amount: 10000, currency: 'USD'},
+        {accountId: 400, drcr: Transaction.Credit, amount: 10000, currency: 'USD'},
+    ])
+    const t2 = await createTransaction('2020-01-31', 'Client payment', [
+        {accountId: 10, drcr: Transaction.Debit, amount: 10000, currency: 'USD'},
+        {accountId: 400, drcr: Transaction.Credit, amount: 10000, currency: 'USD'},
+    ])
+
+    const statement = Statement.construct({accountId: 10, title: 'test', format: Statement.Csv, currency: 'USD'})
+    await statement.save()
+    const lines = [
+        {date: '2020-01-31', description: 'Client payment', amount: 10000},
+        {date: '2020-01-31', description: 'Another payment', amount: 10000},
+        {date: '2020-02-01', description: 'Rent', amount: -5000},
+        {date: '2020-03-31', description: 'Too late', amount: 10000},
+    ]
+    for (let line of lines) {
+        await StatementLine.construct({...line, statementId: statement.id, currency: 'USD', elementId: 0, reconciled: 0}).save()
+    }
+
+    const [line1, line2, line3, line4] = await StatementLine.query().where('statementId', statement.id!).orderBy('id')
+    expect((await line1.candidates(10)).map(c => c.transactionId)).toEqual([t2.id, t1.id])
+    expect(await line3.candidates(10)).toEqual([])
+    expect(await line4.candidates(10)).toEqual([])
+
+    // Each element is only matched once
+    expect(await statement.autoMatch()).toBe(2)
+    const matched = await StatementLine.query().where('statementId', statement.id!).orderBy('id')
+    expect(matched.map(line => line.reconciled)).toEqual([1, 1, 0, 0])
+    expect(matched[0].elementId).toBe(t2.getFirstDrElement()!.id)
+    expect(matched[1].elementId).toBe(t1.getFirstDrElement()!.id)
+    expect(await line4.candidates(10)).toEqual([])
+
+    // Create a purchase for an unmatched line
+    expect(lineTransactionTypes(statement, line3)).toEqual([Transaction.Purchase, Transaction.Raw])
+    await expect(createLineTransaction(statement, line3, Transaction.Sale, 509, 0)).rejects.toMatch('Cannot create')
+    const id = await createLineTransaction(statement, line3, Transaction.Purchase, 509, 0)
+    const t3 = await Transaction.query().findById(id).withGraphFetched('elements')
+    expect(t3).toMatchObject({type: Transaction.Purchase, date: '2020-02-01', description: 'Rent'})
+    expect(t3.elements).toMatchObject([
+        {accountId: 509, drcr: Transaction.Debit, amount: 5000},
+        {accountId: 10, drcr: Transaction.Credit, amount: 5000},
+    ])
+    expect((await StatementLine.query().findById(line3.id!))).toMatchObject({reconciled: 1, elementId: t3.elements![1].id})
+
+    // Unmatching makes the element available again
+    await matched[0].unmatch()
+    expect((await matched[0].candidates(10)).map(c => c.transactionId)).toEqual([t2.id])
+
+    // Raw entry for a line
+    const rawId = await createLineTransaction(statement, line4, Transaction.Raw, 404, 0)
+    const t4 = await Transaction.query().findById(rawId).withGraphFetched('elements')
+    expect(t4.elements).toMatchObject([
+        {accountId: 10, drcr: Transaction.Debit, amount: 10000},
+        {accountId: 404, drcr: Transaction.Credit, amount: 10000},
+    ])
+
+    await statement.delete()
+    expect(await StatementLine.query().where('statementId', statement.id!)).toHaveLength(0)
+
+    done()
+})
@@ -0,0 +1,62 @@
+import { Project, Account, Transaction, Budget, budgetVsActual } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(async () => {
+    await Project.create(':memory:')
+    return Project.variables.set('fiscalYear', '0107')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('budgets', async done => {
+    const months = Budget.months('2020-03-15')
+    expect(months).toHaveLength(12)
+    expect(months[0]).toEqual(['2019-07-01', '2019-07-31'])
+    expect(months[11]).toEqual(['2020-06-01', '2020-06-30'])
+
+    const zeros = months.map(() => 0)
+    await Budget.saveYear('2020-03-15', 'USD', {
+        400: zeros.map((_, i) => i < 6 ? 1000 : 2000),
+        506: zeros.map(() => 300),
+    })
+    expect(await Budget.query()).toHaveLength(24)
+
+    // Changes, removals and other currencies
+    await Budget.saveYear('2019-07-01', 'USD', {506: zeros.map((_, i) => i == 0 ? 500 : 0)})
+    await Budget.saveYear('2019-07-01', 'EUR', {401: zeros.map((_, i) => i == 1 ? 70 : 0)})
+    expect(await Budget.query()).toHaveLength(14)
+    const loaded = await Budget.loadYear('2019-12-31', 'USD')
+    expect(Object.keys(loaded)).toEqual(['400', '506'])
+    expect(loaded[506]).toEqual([500, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0])
+    expect(await Budget.loadYear('2020-12-31', 'USD')).toEqual({})
+
+    const t = Transaction.construct({type: Transaction.Sale, date: '2019-07-15'})
+    await t.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1200, currency: 'USD'},
+        {accountId: 400, drcr: Credit, amount: 1200, currency: 'USD'},
+        {accountId: 506, drcr: Debit, amount: 400, currency: 'USD'},
+        {accountId: Cash, drcr: Credit, amount: 400, currency: 'USD'},
+    ])
+    await t.save()
+
+    const report = await budgetVsActual('2019-07-01', '2019-08-31')
+    expect(report.revenues.lines).toMatchObject([
+        {accountId: 400, currency: 'USD', actual: 1200, budget: 2000, variance: {amount: -800, percent: -40}},
+        {accountId: 401, currency: 'EUR', actual: 0, budget: 70, variance: {amount: -70}},
+    ])
+    expect(report.expenses.lines).toMatchObject([
+        {accountId: 506, actual: 400, budget: 500, variance: {amount: -100, percent: -20}},
+    ])
+    expect(report.netProfit).toMatchObject([
+        {currency: 'EUR', actual: 0, budget: 70},
+        {currency: 'USD', actual: 800, budget: 1500},
+    ])
+
+    done()
+})
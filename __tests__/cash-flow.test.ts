@@ -0,0 +1,104 @@
+import { Project, Account, Transaction, cashFlow, closeYear } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const AP = Account.Reserved.AccountsPayable
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function post(type: string, date: string, elements: any[]) {
+    const t = Transaction.construct({type, date})
+    await t.mergeElements(elements.map(e => ({currency: 'USD', ...e})))
+    await t.save()
+    return t
+}
+
+test('cash flow statement', async done => {
+    // Opening cash
+    await post(Transaction.Contribution, '2019-06-01', [
+        {accountId: Cash, drcr: Debit, amount: 1000},
+        {accountId: Account.Reserved.Equity, drcr: Credit, amount: 1000},
+    ])
+
+    // Revenue of 500, of which 200 is still owing
+    await post(Transaction.Invoice, '2020-01-10', [
+        {accountId: AR, drcr: Debit, amount: 500},
+        {accountId: 400, drcr: Credit, amount: 500},
+    ])
+    await post(Transaction.InvoicePayment, '2020-02-10', [
+        {accountId: Cash, drcr: Debit, amount: 300},
+        {accountId: AR, drcr: Credit, amount: 300},
+    ])
+    // Expense of 120, unpaid
+    await post(Transaction.Bill, '2020-02-15', [
+        {accountId: 506, drcr: Debit, amount: 120},
+        {accountId: AP, drcr: Credit, amount: 120},
+    ])
+    // Equipment bought with a loan and some cash
+    await post(Transaction.Raw, '2020-03-01', [
+        {accountId: 12, drcr: Debit, amount: 800},
+        {accountId: 21, drcr: Credit, amount: 600},
+        {accountId: Cash, drcr: Credit, amount: 200},
+    ])
+    // Contribution in another currency
+    await post(Transaction.Contribution, '2020-04-01', [
+        {accountId: Cash, drcr: Debit, amount: 50, currency: 'EUR'},
+        {accountId: Account.Reserved.Equity, drcr: Credit, amount: 50, currency: 'EUR'},
+    ])
+    // Closing transactions should not count twice
+    await closeYear('2020-12-31')
+
+    const report = await cashFlow('2020-01-01', '2020-12-31')
+    expect(report.operating.netProfit).toEqual([{currency: 'USD', amount: 380}])
+    expect(report.operating.lines).toMatchObject([
+        {accountId: AP, amounts: [{currency: 'USD', amount: 120}]},
+        {accountId: AR, amounts: [{currency: 'USD', amount: -200}]},
+    ])
+    expect(report.operating.totals).toEqual([{currency: 'USD', amount: 300}])
+    expect(report.investing.totals).toEqual([{currency: 'USD', amount: -800}])
+    expect(report.financing.lines).toMatchObject([
+        {accountId: Account.Reserved.Equity, amounts: [{currency: 'EUR', amount: 50}]},
+        {accountId: 21, amounts: [{currency: 'USD', amount: 600}]},
+    ])
+    expect(report.netChange).toEqual([{currency: 'EUR', amount: 50}, {currency: 'USD', amount: 100}])
+    expect(report.openingCash).toEqual([{currency: 'USD', amount: 1000}])
+    expect(report.closingCash).toEqual([{currency: 'EUR', amount: 50}, {currency: 'USD', amount: 1100}])
+
+    done()
+})
+
+test('transfers between own accounts', async done => {
+    const savings = Account.construct({title: 'Savings', type: Account.Asset})
+    await savings.save()
+
+    // Moving money between cash accounts is not a cash flow, but the fee is
+    await post(Transaction.Transfer, '2021-01-10', [
+        {accountId: savings.id, drcr: Debit, amount: 400},
+        {accountId: Cash, drcr: Credit, amount: 405},
+        {accountId: 500, drcr: Debit, amount: 5},
+    ])
+    // Paying off a credit card reduces a liability
+    await post(Transaction.Transfer, '2021-01-20', [
+        {accountId: 200, drcr: Debit, amount: 100},
+        {accountId: Cash, drcr: Credit, amount: 100},
+    ])
+
+    const report = await cashFlow('2021-01-01', '2021-12-31')
+    expect(report.operating.netProfit).toEqual([{currency: 'USD', amount: -5}])
+    expect(report.operating.lines).toMatchObject([
+        {accountId: 200, amounts: [{currency: 'USD', amount: -100}]},
+    ])
+    expect(report.netChange).toEqual([{currency: 'USD', amount: -105}])
+    expect(report.closingCash).toEqual([{currency: 'EUR', amount: 50}, {currency: 'USD', amount: 995}])
+
+    done()
+})
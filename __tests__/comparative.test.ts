@@ -0,0 +1,48 @@
+import { Project, Account, Transaction, profitAndLoss, comparisonDates, comparativeLines, comparativeTotals, variance } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function sale(date: string, accountId: number, amount: number, currency = 'USD') {
+    const t = Transaction.construct({type: Transaction.Sale, date})
+    await t.mergeElements([
+        {accountId: Cash, drcr: Debit, amount, currency},
+        {accountId, drcr: Credit, amount, currency},
+    ])
+    await t.save()
+}
+
+test('comparative profit and loss', async done => {
+    await sale('2020-01-10', 400, 100)
+    await sale('2020-02-10', 400, 150)
+    await sale('2020-02-11', 401, 70, 'EUR')
+
+    const periods = comparisonDates('2020-02-01', '2020-02-29', 'prev-period')
+    const reports = await Promise.all(periods.map(([start, end]) => profitAndLoss(start, end)))
+
+    const lines = comparativeLines(reports.map(r => r.operations.revenues.groups))
+    expect(lines).toEqual([
+        {accountId: 400, accountTitle: 'Consulting Revenue', currency: 'USD', amounts: [150, 100]},
+        {accountId: 401, accountTitle: 'Project Revenue', currency: 'EUR', amounts: [70, 0]},
+    ])
+    expect(comparativeTotals(reports.map(r => r.netProfit))).toEqual([
+        {currency: 'EUR', amounts: [70, 0]},
+        {currency: 'USD', amounts: [150, 100]},
+    ])
+
+    expect(variance(150, 100)).toEqual({amount: 50, percent: 50})
+    expect(variance(-50, -100)).toEqual({amount: 50, percent: 50})
+    expect(variance(70, 0)).toEqual({amount: 70})
+
+    done()
+})
@@ -0,0 +1,106 @@
+import { Project, Account, Transaction, taxItems } from '../src/core'
+import * as Sale from '../src/components/Sale'
+import * as Purchase from '../src/components/Purchase'
+
+const AR = Account.Reserved.AccountsReceivable
+const AP = Account.Reserved.AccountsPayable
+const TaxPayable = Account.Reserved.TaxPayable
+const TaxReceivable = Account.Reserved.TaxReceivable
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('credit note', async done => {
+    const inv = Transaction.construct({})
+    await Sale.saveFormData(inv, {type: Transaction.Invoice, actorId: 1, date: new Date('2020-01-10'), elements: [
+        {accountId: 400, amount: '100', currency: 'USD', useGross: 0, grossAmount: '110', description: 'one', taxes: [
+            {baseCode: '::', tag: '', rate: '10', amount: '10'},
+        ]},
+        {accountId: 400, amount: '50', currency: 'USD', useGross: 0, grossAmount: '50', description: 'two', taxes: []},
+    ]})
+
+    // Reverse the first line only
+    const data = Sale.creditNoteFormValues(await Transaction.query().findById(inv.id!).withGraphFetched('elements'))
+    expect(data).toMatchObject({type: Transaction.CreditNote, actorId: 1, settleId: inv.id})
+    expect(data.elements[0].eId).toBeUndefined()
+    expect(data.elements[0].taxes![0].eId).toBeUndefined()
+    data.elements.pop()
+    data.date = new Date('2020-01-20')
+
+    const cn = Transaction.construct({})
+    await Sale.saveFormData(cn, data)
+    expect(cn.elements).toHaveLength(3)
+    expect(cn.elements![0]).toMatchObject({accountId: 400, drcr: Debit, amount: 10000})
+    expect(cn.elements![1]).toMatchObject({accountId: AR, drcr: Credit, amount: 11000, settleId: inv.id})
+    expect(cn.elements![2]).toMatchObject({accountId: TaxPayable, drcr: Debit, amount: 1000, parentId: cn.elements![0].id})
+
+    // Round trip
+    const cn1 = await Transaction.query().findById(cn.id!).withGraphFetched('elements')
+    const values = Sale.extractFormValues(cn1)
+    expect(values).toMatchObject({type: Transaction.CreditNote, settleId: inv.id})
+    expect(values.elements).toHaveLength(1)
+    expect(values.elements[0].taxes).toHaveLength(1)
+
+    // The invoice is still unpaid (50 left), until it is paid
+    let unpaid = await Transaction.query().where(Transaction.unpaidInvoices)
+    expect(unpaid.map(t => t.id)).toEqual([inv.id])
+    const payment = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-01-25', actorId: 1})
+    await payment.mergeElements([
+        {accountId: Account.Reserved.Cash, drcr: Debit, amount: 5000, currency: 'USD'},
+        {accountId: AR, drcr: Credit, amount: 5000, currency: 'USD', settleId: inv.id},
+    ])
+    await payment.save()
+    unpaid = await Transaction.query().where(Transaction.unpaidInvoices)
+    expect(unpaid).toHaveLength(0)
+
+    // Taxes: the credit note is a negative sale, whether accrual or cash
+    for (let accrual of [true, false]) {
+        const items = await taxItems('2020-01-01', '2020-01-31', accrual)
+        expect(items).toHaveLength(2)
+        expect(items.find(item => item.txnId == inv.id)).toMatchObject({drcr: Credit, amount: 1000, grossAmount: 11000})
+        expect(items.find(item => item.txnId == cn.id)).toMatchObject({drcr: Credit, amount: -1000, grossAmount: -11000})
+    }
+
+    // Must be for the same customer
+    const other = Sale.creditNoteFormValues(await Transaction.query().findById(inv.id!).withGraphFetched('elements'))
+    other.actorId = 2
+    await expect(Sale.saveFormData(Transaction.construct({}), other)).rejects.toBe('Invoice is for a different customer')
+
+    done()
+})
+
+test('debit note', async done => {
+    const bill = Transaction.construct({})
+    await Purchase.saveFormData(bill, {type: Transaction.Bill, actorId: 2, date: new Date('2020-02-10'), elements: [
+        {accountId: 506, amount: '200', currency: 'USD', useGross: 0, grossAmount: '220', taxes: [
+            {baseCode: '::', tag: '', rate: '10', amount: '20'},
+        ]},
+    ]})
+
+    const data = Purchase.debitNoteFormValues(await Transaction.query().findById(bill.id!).withGraphFetched('elements'))
+    data.elements[0].amount = '100'
+    data.elements[0].taxes![0].amount = '10'
+    const dn = Transaction.construct({})
+    await Purchase.saveFormData(dn, data)
+    expect(dn.elements).toHaveLength(3)
+    expect(dn.elements![0]).toMatchObject({accountId: 506, drcr: Credit, amount: 10000})
+    expect(dn.elements![1]).toMatchObject({accountId: AP, drcr: Debit, amount: 11000, settleId: bill.id})
+    expect(dn.elements![2]).toMatchObject({accountId: TaxReceivable, drcr: Credit, amount: 1000})
+
+    const unpaid = await Transaction.query().where(q => Transaction.unpaidInvoices(q, Transaction.Bill, AP))
+    expect(unpaid.map(t => t.id)).toEqual([bill.id])
+
+    const items = await taxItems('2020-02-01', '2020-02-28', true)
+    expect(items).toHaveLength(2)
+    expect(items[1]).toMatchObject({txnId: dn.id, drcr: Debit, amount: -1000, grossAmount: -11000})
+
+    done()
+})
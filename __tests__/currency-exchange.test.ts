@@ -0,0 +1,68 @@
+import { Project, Account, Transaction } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const AR = Account.Reserved.AccountsReceivable
+const Trading = Account.Reserved.CurrencyTrading
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(async () => {
+    await Project.create(':memory:')
+    return Project.variables.setMultiple({
+        currency: 'AUD',
+        otherCurrencies: ['EUR', 'JPY'],
+    })
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('currency exchange', async done => {
+    // Received EUR 1,000 into an AUD bank account as AUD 1,620
+    const t = Transaction.construct({type: Transaction.Exchange, date: '2020-01-15'})
+    await t.mergeElements([
+        {accountId: AR, drcr: Credit, amount: 100000, currency: 'EUR'},
+        {accountId: Cash, drcr: Debit, amount: 162000, currency: 'AUD'},
+    ])
+    expect(t.elements!.map(e => [e.accountId, e.drcr, e.amount, e.currency, e.description])).toEqual([
+        [AR, Credit, 100000, 'EUR', undefined],
+        [Cash, Debit, 162000, 'AUD', undefined],
+        [Trading, Debit, 100000, 'EUR', '1 EUR = 1.62 AUD'],
+        [Trading, Credit, 162000, 'AUD', '1 EUR = 1.62 AUD'],
+    ])
+    await t.save()
+
+    // Trading elements are re-used when amounts change
+    const ids = t.elements!.filter(e => e.accountId == Trading).map(e => e.id)
+    await t.mergeElements([{id: t.elements![1].id, accountId: Cash, drcr: Debit, amount: 160000, currency: 'AUD'}])
+    await t.save()
+    t.condenseElements()
+    const trading = t.elements!.filter(e => e.accountId == Trading)
+    expect(trading.map(e => e.id)).toEqual(ids)
+    expect(trading.map(e => [e.amount, e.description])).toEqual([
+        [100000, '1 EUR = 1.6 AUD'], [160000, '1 EUR = 1.6 AUD'],
+    ])
+
+    // Currencies with different decimal places
+    const t2 = Transaction.construct({type: Transaction.Exchange, date: '2020-01-15'})
+    await t2.mergeElements([
+        {accountId: 506, drcr: Debit, amount: 1000, currency: 'JPY'},
+        {accountId: 200, drcr: Credit, amount: 1450, currency: 'AUD'},
+    ])
+    expect(t2.elements![2].description).toBe('1 AUD = 68.9655 JPY')
+
+    // Only two currencies, converted one into the other
+    const t3 = Transaction.construct({type: Transaction.Exchange, date: '2020-01-15'})
+    await expect(t3.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1000, currency: 'AUD'},
+        {accountId: 400, drcr: Credit, amount: 1000, currency: 'AUD'},
+    ])).rejects.toBe('A currency exchange must convert one currency into another')
+    await expect(t3.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1000, currency: 'AUD'},
+        {accountId: Cash, drcr: Debit, amount: 1000, currency: 'EUR'},
+    ])).rejects.toBe('A currency exchange must convert one currency into another')
+    expect(t3.elements).toBeUndefined()
+    done()
+})
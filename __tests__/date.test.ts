@@ -1,4 +1,4 @@
-import { Project, datePresetDates } from '../src/core'
+import { Project, datePresetDates, comparisonDates } from '../src/core'
 
 beforeAll(async () => {
     await Project.create(':memory:')
@@ -66,3 +66,18 @@ test('date presets UK', async done => {
 
     done()
 })
+
+test('comparison dates', () => {
+    expect(comparisonDates('2020-02-01', '2020-02-29', 'prev-period', 2)).toEqual([
+        ['2020-02-01', '2020-02-29'], ['2020-01-01', '2020-01-31'], ['2019-12-01', '2019-12-31']])
+    expect(comparisonDates('2020-01-01', '2020-03-31', 'prev-period')).toEqual([
+        ['2020-01-01', '2020-03-31'], ['2019-10-01', '2019-12-31']])
+    expect(comparisonDates('2020-03-10', '2020-03-19', 'prev-period')).toEqual([
+        ['2020-03-10', '2020-03-19'], ['2020-02-29', '2020-03-09']])
+    expect(comparisonDates('2020-02-01', '2020-02-29', 'prev-year')).toEqual([
+        ['2020-02-01', '2020-02-29'], ['2019-02-01', '2019-02-28']])
+    expect(comparisonDates('2020-01-01', '2020-03-15', 'month')).toEqual([
+        ['2020-01-01', '2020-01-31'], ['2020-02-01', '2020-02-29'], ['2020-03-01', '2020-03-15']])
+    expect(comparisonDates('2019-07-01', '2020-06-30', 'quarter')).toEqual([
+        ['2019-07-01', '2019-09-30'], ['2019-10-01', '2019-12-31'], ['2020-01-01', '2020-03-31'], ['2020-04-01', '2020-06-30']])
+})
@@ -0,0 +1,77 @@
+import { Project, Account, Transaction, IElement, balanceSheet, cashFlow, closeYear } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const Equity = Account.Reserved.Equity
+const RE = Account.Reserved.RetainedEarnings
+const Drawings = Account.Reserved.Drawings
+const Dividends = Account.Reserved.Dividends
+const DividendsPayable = Account.Reserved.DividendsPayable
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function post(type: Transaction['type'], date: string, elements: IElement[]) {
+    const t = Transaction.construct({type, date})
+    await t.mergeElements(elements.map(e => ({currency: 'USD', ...e})))
+    await t.save()
+    return t
+}
+
+test('drawings and dividends', async done => {
+    await post(Transaction.Contribution, '2020-01-01', [
+        {accountId: Cash, drcr: Debit, amount: 1000},
+        {accountId: Equity, drcr: Credit, amount: 1000},
+    ])
+    await post(Transaction.Sale, '2020-02-01', [
+        {accountId: Cash, drcr: Debit, amount: 500},
+        {accountId: 400, drcr: Credit, amount: 500},
+    ])
+    await post(Transaction.Drawing, '2020-03-01', [
+        {accountId: Cash, drcr: Credit, amount: 100},
+        {accountId: Drawings, drcr: Debit, amount: 100},
+    ])
+    // Declared, and only partly paid by the end of the year
+    const declared = await post(Transaction.Dividend, '2020-06-01', [
+        {accountId: DividendsPayable, drcr: Credit, amount: 200},
+        {accountId: Dividends, drcr: Debit, amount: 200},
+    ])
+    await post(Transaction.Dividend, '2020-07-01', [
+        {accountId: Cash, drcr: Credit, amount: 150},
+        {accountId: DividendsPayable, drcr: Debit, amount: 150, settleId: declared.id},
+    ])
+
+    // Drawings and dividends are deductions from equity, listed last
+    const bs = await balanceSheet('2020-01-01', '2020-12-31')
+    expect(bs.equity.accounts.groups.map(g => [g.accountId, g.closingBalance])).toEqual([
+        [Equity, [{currency: 'USD', amount: 1000}]],
+        [RE, [{currency: 'USD', amount: 500}]],
+        [Dividends, [{currency: 'USD', amount: -200}]],
+        [Drawings, [{currency: 'USD', amount: -100}]],
+    ])
+    expect(bs.liabilities.current.totals).toEqual([{currency: 'USD', amount: 50}])
+    expect(bs.equity.accounts.totals).toEqual([{currency: 'USD', amount: 1200}])
+
+    // Paid dividends and drawings are financing activities
+    const cf = await cashFlow('2020-01-01', '2020-12-31')
+    expect(cf.operating.lines).toEqual([])
+    expect(cf.financing.totals).toEqual([{currency: 'USD', amount: 750}])
+
+    // Closing the year moves drawings into Equity and dividends into Retained Earnings
+    await closeYear('2020-12-31')
+    const bs2 = await balanceSheet('2021-01-01', '2021-12-31')
+    expect(bs2.equity.accounts.groups.map(g => [g.accountId, g.closingBalance])).toEqual([
+        [Equity, [{currency: 'USD', amount: 900}]],
+        [RE, [{currency: 'USD', amount: 300}]],
+        [Dividends, [{currency: 'USD', amount: 0}]],
+        [Drawings, [{currency: 'USD', amount: 0}]],
+    ])
+    done()
+})
@@ -0,0 +1,142 @@
+import { Project, Account, Transaction, ExchangeRate, IElement,
+    unrealisedGains, revalue, removeRevaluation } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const AR = Account.Reserved.AccountsReceivable
+const AP = Account.Reserved.AccountsPayable
+const Trading = Account.Reserved.CurrencyTrading
+const Gain = Account.Reserved.ExchangeGain
+const Loss = Account.Reserved.ExchangeLoss
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+let invoice: Transaction
+let bill: Transaction
+let payment: Transaction
+
+async function post(type: Transaction['type'], date: string, elements: IElement[]) {
+    const t = Transaction.construct({type, date})
+    await t.mergeElements(elements)
+    await t.save()
+    t.condenseElements()
+    return t
+}
+
+function exchangeElements(t: Transaction) {
+    return t.elements!.filter(e => Account.isExchangeAccount(e.accountId!))
+        .map(e => [e.accountId, e.drcr, e.amount, e.currency])
+}
+
+beforeAll(async () => {
+    await Project.create(':memory:')
+    await Project.variables.setMultiple({
+        currency: 'USD',
+        otherCurrencies: ['EUR'],
+        exchangeRates: {USD: {EUR: '0.5'}},
+    })
+    await ExchangeRate.import([
+        {date: '2020-01-01', from: 'EUR', to: 'USD', rate: '1.1'},
+        {date: '2020-01-31', from: 'EUR', to: 'USD', rate: '1.3'},
+        {date: '2020-02-01', from: 'EUR', to: 'USD', rate: '1.2'},
+    ])
+
+    invoice = await post(Transaction.Invoice, '2020-01-15', [
+        {accountId: AR, drcr: Debit, amount: 1000, currency: 'EUR'},
+        {accountId: 400, drcr: Credit, amount: 1000, currency: 'EUR'},
+    ])
+    bill = await post(Transaction.Bill, '2020-01-15', [
+        {accountId: 506, drcr: Debit, amount: 500, currency: 'EUR'},
+        {accountId: AP, drcr: Credit, amount: 500, currency: 'EUR'},
+    ])
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('realised gains and losses', async done => {
+    // Received at 1.2 what was invoiced at 1.1
+    payment = await post(Transaction.InvoicePayment, '2020-02-15', [
+        {accountId: Cash, drcr: Debit, amount: 1000, currency: 'EUR'},
+        {accountId: AR, drcr: Credit, amount: 1000, currency: 'EUR', settleId: invoice.id},
+    ])
+    expect(exchangeElements(payment)).toEqual([
+        [Trading, Debit, 100, 'USD'],
+        [Gain, Credit, 100, 'USD'],
+    ])
+
+    // Paid at 1.2 what was billed at 1.1
+    const billPayment = await post(Transaction.BillPayment, '2020-02-15', [
+        {accountId: AP, drcr: Debit, amount: 500, currency: 'EUR', settleId: bill.id},
+        {accountId: Cash, drcr: Credit, amount: 500, currency: 'EUR'},
+    ])
+    expect(exchangeElements(billPayment)).toEqual([
+        [Loss, Debit, 50, 'USD'],
+        [Trading, Credit, 50, 'USD'],
+    ])
+
+    // Unchanged rates have no gain. Exchange elements are updated when saved.
+    payment.date = '2020-01-20'
+    await payment.save()
+    payment.condenseElements()
+    expect(exchangeElements(payment)).toEqual([])
+
+    payment.date = '2020-02-15'
+    await payment.save()
+    payment.condenseElements()
+    expect(exchangeElements(payment)).toEqual([
+        [Trading, Debit, 100, 'USD'],
+        [Gain, Credit, 100, 'USD'],
+    ])
+    done()
+})
+
+test('revaluation', async done => {
+    // Unpaid at the end of January
+    expect(await unrealisedGains('2020-01-31')).toEqual([
+        {description: `Invoice ${invoice.id} (EUR)`, gain: 200},
+        {description: `Bill ${bill.id} (EUR)`, gain: -100},
+    ])
+
+    const id = await revalue('2020-01-31')
+    const t = await Transaction.query().findById(id).withGraphFetched('elements')
+    expect(t.elements!.map(e => [e.accountId, e.drcr, e.amount, e.description])).toEqual([
+        [Trading, Debit, 200, 'Unrealised exchange gain'],
+        [Gain, Credit, 200, `Invoice ${invoice.id} (EUR)`],
+        [Loss, Debit, 100, `Bill ${bill.id} (EUR)`],
+        [Trading, Credit, 100, 'Unrealised exchange loss'],
+    ])
+
+    // Reversed on the next day
+    const reversal = await Transaction.query().where('type', Transaction.Revaluation)
+        .where(t.settlements()).withGraphFetched('elements').first()
+    expect(reversal.date).toBe('2020-02-01')
+    expect(reversal.elements!.map(e => [e.accountId, e.drcr, e.amount, e.settleId])).toEqual([
+        [Trading, Credit, 200, id],
+        [Gain, Debit, 200, id],
+        [Loss, Credit, 100, id],
+        [Trading, Debit, 100, id],
+    ])
+
+    // Revaluing again replaces the previous revaluation
+    await revalue('2020-01-31')
+    expect(await Transaction.query().where('type', Transaction.Revaluation).resultSize()).toBe(2)
+
+    // Once paid, only the cash balance (received and paid at 1.2) is revalued
+    await ExchangeRate.import([{date: '2020-02-29', from: 'EUR', to: 'USD', rate: '1.25'}])
+    expect(await unrealisedGains('2020-02-29')).toEqual([
+        {description: 'Cash (EUR)', gain: 25},
+    ])
+    expect(await revalue('2020-02-29')).toBeGreaterThan(0)
+    expect(await Transaction.query().where('type', Transaction.Revaluation).resultSize()).toBe(4)
+
+    await removeRevaluation('2020-01-31')
+    expect(await Transaction.query().where('type', Transaction.Revaluation).resultSize()).toBe(2)
+
+    // A missing rate is an error
+    await Project.variables.set('exchangeRates', {USD: {}})
+    await ExchangeRate.query().delete()
+    await expect(revalue('2020-01-31')).rejects.toThrow('No exchange rate for converting EUR to USD')
+    done()
+})
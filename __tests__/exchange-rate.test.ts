@@ -0,0 +1,126 @@
+import { Project, Account, Transaction, ExchangeRate, RateHistory, parseExchangeRates,
+    convertCurrency, profitAndLoss, balanceSheet, taxItems, trialBalance, generalLedger, cashFlow, closeYear } from '../src/core'
+
+const Cash = Account.Reserved.Cash
+const TaxPayable = Account.Reserved.TaxPayable
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(async () => {
+    await Project.create(':memory:')
+    return Project.variables.setMultiple({
+        currency: 'USD',
+        otherCurrencies: ['EUR', 'AUD'],
+        exchangeRates: {USD: {EUR: '0.5', AUD: '2'}},
+    })
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('rate history', () => {
+    const history = new RateHistory([
+        {date: '2020-02-01', from: 'USD', to: 'EUR', rate: '0.8'},
+        {date: '2020-01-01', from: 'USD', to: 'EUR', rate: '0.9'},
+        {date: '2020-03-01', from: 'EUR', to: 'USD', rate: '1.25'},
+    ])
+    expect(history.rate('USD', 'EUR', '2020-01-15')).toBe(0.9)
+    expect(history.rate('USD', 'EUR', '2020-02-01')).toBe(0.8)
+    expect(history.rate('EUR', 'USD', '2020-02-15')).toBe(1.25)
+    expect(history.rate('USD', 'EUR', '2020-03-15')).toBe(0.8)
+
+    // Settings are used before the first dated rate and when there is no date
+    expect(history.rate('USD', 'EUR', '2019-12-31')).toBe(0.5)
+    expect(history.rate('USD', 'EUR')).toBe(0.5)
+    expect(history.rate('AUD', 'USD', '2020-01-15')).toBe(0.5)
+    expect(history.rate('EUR', 'AUD', '2020-01-15')).toBeUndefined()
+
+    // Via the primary currency
+    expect(convertCurrency({amount: 900, currency: 'EUR'}, 'AUD', '2020-01-15', history)).toEqual({amount: 2000, currency: 'AUD'})
+    expect(history.usedRates()).toEqual([
+        {date: '', from: 'USD', to: 'AUD', rate: '2'},
+        {date: '', from: 'USD', to: 'EUR', rate: '0.5'},
+        {date: '2020-01-01', from: 'USD', to: 'EUR', rate: '0.9'},
+        {date: '2020-02-01', from: 'USD', to: 'EUR', rate: '0.8'},
+        {date: '2020-03-01', from: 'EUR', to: 'USD', rate: '1.25'},
+    ])
+})
+
+test('parse and import rates', async done => {
+    const rates = parseExchangeRates('Date,From,To,Rate\n2020-01-01,USD,EUR,0.9\n2020-02-01,usd,eur,0.8\n')
+    expect(rates).toEqual([
+        {date: '2020-01-01', from: 'USD', to: 'EUR', rate: '0.9'},
+        {date: '2020-02-01', from: 'USD', to: 'EUR', rate: '0.8'},
+    ])
+    expect(() => parseExchangeRates('2020-01-01,USD,EUR,abc')).toThrow('Invalid rate on row 1')
+    expect(() => parseExchangeRates('Date,From,To,Rate\n2020-13-01,USD,EUR,1')).toThrow('Invalid date on row 2')
+
+    expect(await ExchangeRate.import(rates)).toBe(2)
+    // Unchanged rates are skipped and a rate on the same date replaces the old one
+    expect(await ExchangeRate.import([rates[0], {...rates[1], rate: '0.75'}])).toBe(1)
+    expect((await ExchangeRate.query().orderBy('date')).map(r => r.rate)).toEqual(['0.9', '0.75'])
+
+    await expect(ExchangeRate.construct({date: '2020-01-01', from: 'USD', to: 'USD', rate: '1'}).save())
+        .rejects.toBe('Currencies must be different')
+    await expect(ExchangeRate.construct({date: '2020-01-01', from: 'USD', to: 'XYZ', rate: '1'}).save())
+        .rejects.toBe('Unknown currency: XYZ')
+    await expect(ExchangeRate.construct({date: '2020-01-01', from: 'USD', to: 'EUR', rate: '-1'}).save())
+        .rejects.toBe('Invalid rate: -1')
+    done()
+})
+
+test('reports use dated rates', async done => {
+    for (let [date, amount] of [['2020-01-10', 900], ['2020-02-10', 750]] as [string, number][]) {
+        const t = Transaction.construct({type: Transaction.Sale, date})
+        await t.mergeElements([
+            {accountId: Cash, drcr: Debit, amount: amount + 75, currency: 'EUR'},
+            {accountId: 400, drcr: Credit, amount, currency: 'EUR'},
+            {accountId: TaxPayable, drcr: Credit, amount: 75, currency: 'EUR', taxCode: 'AU:GST:10', parentId: -1},
+        ])
+        await t.save()
+    }
+
+    // Each sale is converted at the rate on its date
+    const pl = await profitAndLoss('2020-01-01', '2020-03-31', 'USD')
+    expect(pl.netProfit).toEqual([{amount: 2000, currency: 'USD'}])
+    expect(pl.rates).toEqual([
+        {date: '2020-01-01', from: 'USD', to: 'EUR', rate: '0.9'},
+        {date: '2020-02-01', from: 'USD', to: 'EUR', rate: '0.75'},
+    ])
+
+    // Or at a chosen date
+    const bs = await balanceSheet('2020-01-01', '2020-03-31', 'USD', '2020-01-31')
+    const cash = bs.assets.current.groups.find(g => g.accountId == Cash)!
+    expect(cash.closingBalance).toEqual([{amount: 2000, currency: 'USD'}])
+    expect(bs.rates).toHaveLength(1)
+
+    const items = await taxItems('2020-01-01', '2020-03-31', true, ['AU:'], 'USD')
+    expect(items.map(item => [item.amount, item.parentAmount, item.currency])).toEqual([
+        [83, 1000, 'USD'], [100, 1000, 'USD'],
+    ])
+
+    // As do the other reports
+    const tb = await trialBalance('2020-03-31', 'USD')
+    expect(tb.lines.find(line => line.accountId == 400)!.credit).toBe(2000)
+    expect(tb.rates).toEqual(pl.rates)
+    const gl = await generalLedger('2020-01-01', '2020-03-31', 400, 'USD')
+    expect(gl.accounts[0].items.map(item => item.credit)).toEqual([1000, 1000])
+    expect(gl.rates).toEqual(pl.rates)
+    const cf = await cashFlow('2020-01-01', '2020-03-31', 'USD')
+    expect(cf.closingCash).toEqual([{amount: 2183, currency: 'USD'}])
+    expect(cf.rates).toEqual(pl.rates)
+
+    // Closing the year zeroes revenue at the rates it was converted at, not the year end rate
+    await closeYear('2020-06-30')
+    const tb2 = await trialBalance('2020-12-31', 'USD')
+    expect(tb2.lines.find(line => line.accountId == 400)).toBeUndefined()
+    expect(tb2.lines.find(line => line.accountId == Account.Reserved.RetainedEarnings)!.credit).toBe(2000)
+    const revenue = await generalLedger('2020-01-01', '2020-12-31', 400, 'USD')
+    expect(revenue.accounts[0].items.map(item => [item.debit, item.credit])).toEqual([[0, 1000], [0, 1000], [2000, 0]])
+    expect(revenue.accounts[0].closingBalance).toBe(0)
+    const re = await generalLedger('2020-01-01', '2020-12-31', Account.Reserved.RetainedEarnings, 'USD')
+    expect(re.accounts[0].closingBalance).toBe(-2000)
+    done()
+})
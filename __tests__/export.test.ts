@@ -0,0 +1,102 @@
+import { Project, Account, Transaction, toCsv, toXlsx, profitAndLoss, profitAndLossRows,
+    balanceSheet, balanceSheetRows } from '../src/core'
+import { columnName, crc32, utf8Encode } from '../src/core/spreadsheet'
+
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('csv', () => {
+    expect(toCsv([
+        ['Account', 'Amount'],
+        ['Sales, retail', 12.5],
+        ['Say "hi"', -3],
+        ['Two\nlines', undefined],
+        [' padded', null, NaN],
+    ])).toBe('Account,Amount\r\n' +
+        '"Sales, retail",12.5\r\n' +
+        '"Say ""hi""",-3\r\n' +
+        '"Two\nlines",\r\n' +
+        '" padded",,\r\n')
+})
+
+test('xlsx', () => {
+    expect(columnName(0)).toBe('A')
+    expect(columnName(25)).toBe('Z')
+    expect(columnName(26)).toBe('AA')
+    expect(columnName(27)).toBe('AB')
+    expect(columnName(701)).toBe('ZZ')
+    expect(columnName(702)).toBe('AAA')
+
+    expect(crc32(utf8Encode('123456789'))).toBe(0xcbf43926)
+    expect(Array.from(utf8Encode('a€😀'))).toEqual([0x61, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80])
+
+    const data = toXlsx([['Account', 'Amount'], ['Fish & chips', 1.5]], 'Profit/Loss')
+    const view = new DataView(data.buffer)
+
+    // Walk the local file headers
+    const files: Record<string, string> = {}
+    let offset = 0
+    while (view.getUint32(offset, true) == 0x04034b50) {
+        const size = view.getUint32(offset + 18, true)
+        const nameLength = view.getUint16(offset + 26, true)
+        const name = String.fromCharCode(...Array.from(data.subarray(offset + 30, offset + 30 + nameLength)))
+        const content = data.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size)
+        expect(crc32(content)).toBe(view.getUint32(offset + 14, true))
+        files[name] = String.fromCharCode(...Array.from(content))
+        offset += 30 + nameLength + size
+    }
+
+    expect(Object.keys(files)).toEqual(['[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels', 'xl/worksheets/sheet1.xml'])
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Profit Loss"')
+    expect(files['xl/worksheets/sheet1.xml']).toContain(
+        '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Fish &amp; chips</t></is></c><c r="B2"><v>1.5</v></c></row>')
+
+    // Central directory and end of central directory record
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const end = data.length - 22
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+    expect(view.getUint16(end + 10, true)).toBe(5)
+    expect(view.getUint32(end + 16, true)).toBe(offset)
+})
+
+test('report rows', async done => {
+    const t = Transaction.construct({type: Transaction.Sale, date: '2020-03-01', description: 'Widgets'})
+    await t.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1234, currency: 'USD'},
+        {accountId: 400, drcr: Credit, amount: 1234, currency: 'USD', description: 'blue'},
+    ])
+    await t.save()
+
+    const pl = await profitAndLoss('2020-01-01', '2020-12-31')
+    const summary = profitAndLossRows(pl)
+    expect(summary[0]).toEqual(['Account', 'Currency', 'Amount'])
+    expect(summary).toContainEqual(['Consulting Revenue', 'USD', 12.34])
+    expect(summary[summary.length - 1]).toEqual(['Net profit', 'USD', 12.34])
+
+    const detail = profitAndLossRows(pl, true)
+    expect(detail).toContainEqual(['Consulting Revenue', `${Transaction.TypeInfo[Transaction.Sale].shortLabel} ${t.id}`,
+        '2020-03-01', null, 'Widgets: blue', 'USD', 12.34])
+    expect(detail).toContainEqual(['Total Consulting Revenue', '', '', '', '', 'USD', 12.34])
+
+    const bs = await balanceSheet('2020-01-01', '2020-12-31')
+    const bsRows = balanceSheetRows(bs)
+    expect(bsRows).toContainEqual(['Cash', 'USD', 12.34])
+    expect(bsRows).toContainEqual(['TOTAL ASSETS', 'USD', 12.34])
+    expect(bsRows[bsRows.length - 1]).toEqual(['TOTAL EQUITY', 'USD', 12.34])
+
+    const log = balanceSheetRows(bs, true)
+    expect(log).toContainEqual(['Cash', 'Opening balance', '2020-01-01', '', '', 'USD', 0])
+    expect(log).toContainEqual(['Cash', 'Closing balance', '2020-12-31', '', '', 'USD', 12.34])
+    done()
+})
@@ -0,0 +1,263 @@
+/**
+ * @jest-environment jsdom
+ */
+import initSqlJs from 'sql.js/dist/sql-asm.js'
+import { Project, Account, Actor, Transaction, foreignFormat, parseLedger, parseIif, parseGnucashXml,
+    parseGnucashSqlite, importInterchange, validateInterchange } from '../src/core'
+
+const Equity = Account.Reserved.Equity
+const AR = Account.Reserved.AccountsReceivable
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+const journal = `; Sample journal
+account Assets:Savings  ; type: A
+year 2020
+
+2020-01-01 * Opening balances
+    Assets:Checking       $1,000.00
+    Equity
+
+2020/01/10 Acme Corp | Widgets
+    Assets:Checking        $110.00
+    Income:Sales
+
+2020-01-15 ! (42) Staples  ; office stuff
+    Expenses:Office Supplies    $25.50  ; paper
+    Liabilities:Credit Card
+
+01/20 Transfer
+    [Assets:Savings]   100 EUR @ $1.10
+    Assets:Checking    $-110.00
+    (Budget:Food)      $-50
+
+~ monthly
+    Expenses:Rent   $500
+    Assets:Checking
+
+2020-01-31 Misc
+    Stuff:Thing        5.00
+    Assets:Checking    = $969.50
+`
+
+test('ledger', async done => {
+    expect(foreignFormat('books.journal')).toBe('ledger')
+    expect(foreignFormat('books.IIF')).toBe('iif')
+    expect(foreignFormat('books.gnucash')).toBe('gnucash')
+    expect(foreignFormat('books.txt')).toBeUndefined()
+
+    const {document, unmapped} = parseLedger(journal, 'USD')
+    await expect(validateInterchange(document)).resolves.toBeTruthy()
+    expect(document.accounts).toEqual([
+        {id: Equity, title: 'Equity', type: Account.Equity},
+        {id: 1000, title: 'Checking', type: Account.Asset},
+        {id: 1001, title: 'Sales', type: Account.Revenue},
+        {id: 1002, title: 'Office Supplies', type: Account.Expense},
+        {id: 1003, title: 'Credit Card', type: Account.Liability},
+        {id: 1004, title: 'Savings', type: Account.Asset},
+        {id: 1005, title: 'Stuff:Thing', type: Account.Asset},
+    ])
+    expect(unmapped).toEqual([{id: 1005, name: 'Stuff:Thing', foreignType: 'Stuff'}])
+    expect(document.actors).toEqual([
+        {id: 1, title: 'Acme Corp', type: Actor.Customer},
+        {id: 2, title: 'Staples', type: Actor.Supplier},
+    ])
+
+    const [opening, sale, purchase, transfer, misc] = document.transactions
+    expect(document.transactions.length).toBe(5)
+    expect(opening).toEqual({id: 1, type: Transaction.Raw, date: '2020-01-01', description: 'Opening balances',
+        elements: [
+            {accountId: 1000, drcr: Debit, amount: 100000, currency: 'USD'},
+            {accountId: Equity, drcr: Credit, amount: 100000, currency: 'USD'},
+        ]})
+    expect(sale.type).toBe(Transaction.Sale)
+    expect(sale.actorId).toBe(1)
+    expect(sale.description).toBe('Widgets')
+    expect(purchase.type).toBe(Transaction.Purchase)
+    expect(purchase.actorId).toBe(2)
+    expect(purchase.elements[0]).toEqual({accountId: 1002, drcr: Debit, amount: 2550, currency: 'USD',
+        description: 'paper'})
+    expect(transfer.type).toBe(Transaction.Raw)
+    expect(transfer.date).toBe('2020-01-20')
+    expect(transfer.elements).toEqual([
+        {accountId: 1004, drcr: Debit, amount: 11000, currency: 'USD'},
+        {accountId: 1000, drcr: Credit, amount: 11000, currency: 'USD'},
+    ])
+    expect(misc.type).toBe(Transaction.Raw)
+    expect(misc.elements[1]).toEqual({accountId: 1000, drcr: Credit, amount: 500, currency: 'USD'})
+
+    expect(() => parseLedger('2020-01-01 Oops\n  Assets:Cash  $1\n  Expenses:Food  $2\n', 'USD'))
+        .toThrow('Line 1: Transaction is not balanced')
+    expect(() => parseLedger('2020-01-01 Shares\n  Assets:Broker  10 AAPL\n  Assets:Cash\n', 'USD'))
+        .toThrow('Unknown currency')
+
+    // Import
+    unmapped.forEach(u => {
+        document.accounts.find(a => a.id == u.id)!.type = Account.Expense
+    })
+    const result = await importInterchange(document, true)
+    // 'Office Supplies' and 'Credit Card' already exist
+    expect(result).toEqual({accounts: 4, actors: 2, transactions: 5})
+    expect(await Account.query().where('title', 'Credit Card').resultSize()).toBe(1)
+    const thing = await Account.query().where('title', 'Stuff:Thing').first()
+    expect(thing.type).toBe(Account.Expense)
+    done()
+})
+
+const iif = [
+    '!ACCNT\tNAME\tACCNTTYPE\tDESC',
+    'ACCNT\tChecking\tBANK\t',
+    'ACCNT\tAccounts Receivable\tAR\t',
+    'ACCNT\tSales\tINC\t',
+    'ACCNT\tPurchase Orders\tNONPOSTING\t',
+    '!CUST\tNAME\tBADDR1\tBADDR2',
+    'CUST\t"Acme, Inc"\t1 Main St\tSpringfield',
+    '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS',
+    'TRNS\t\tCASH SALE\t7/1/2020\tChecking\t"Acme, Inc"\t110.00\t\tWidgets',
+    'SPL\t\tCASH SALE\t7/1/2020\tSales\t"Acme, Inc"\t-110.00\t\tBlue',
+    'ENDTRNS',
+    'TRNS\t\tINVOICE\t7/2/20\tAccounts Receivable\t"Acme, Inc"\t"1,000.00"\t\t',
+    'SPL\t\tINVOICE\t7/2/20\tSales\t"Acme, Inc"\t-1000.00\t\t',
+    'ENDTRNS',
+].join('\r\n')
+
+test('iif', async done => {
+    const {document, unmapped} = parseIif(iif, 'USD')
+    await expect(validateInterchange(document)).resolves.toBeTruthy()
+    expect(unmapped).toEqual([])
+    expect(document.accounts).toEqual([
+        {id: AR, title: 'Accounts Receivable', type: Account.Asset},
+        {id: 1000, title: 'Checking', type: Account.Asset},
+        {id: 1001, title: 'Sales', type: Account.Revenue},
+    ])
+    expect(document.actors).toEqual([
+        {id: 1, title: 'Acme, Inc', type: Actor.Customer, address: '1 Main St\nSpringfield'},
+    ])
+    expect(document.transactions).toEqual([
+        {id: 1, type: Transaction.Sale, date: '2020-07-01', description: 'Widgets', actorId: 1, elements: [
+            {accountId: 1000, drcr: Debit, amount: 11000, currency: 'USD'},
+            {accountId: 1001, drcr: Credit, amount: 11000, currency: 'USD', description: 'Blue'},
+        ]},
+        {id: 2, type: Transaction.Raw, date: '2020-07-02', description: 'Acme, Inc', elements: [
+            {accountId: AR, drcr: Debit, amount: 100000, currency: 'USD'},
+            {accountId: 1001, drcr: Credit, amount: 100000, currency: 'USD'},
+        ]},
+    ])
+
+    expect(() => parseIif(iif.replace('-110.00', '-100.00'), 'USD')).toThrow('Line 13: Transaction is not balanced')
+    done()
+})
+
+// A small GnuCash book: Accounts, one transaction and one scheduled (template) transaction
+const accounts = [
+    {id: 'root', name: 'Root Account', type: 'ROOT', parent: ''},
+    {id: 'assets', name: 'Assets', type: 'ASSET', parent: 'root'},
+    {id: 'bank', name: 'Cheque Account', type: 'BANK', parent: 'assets'},
+    {id: 'income', name: 'Income', type: 'INCOME', parent: 'root'},
+    {id: 'salary', name: 'Salary', type: 'INCOME', parent: 'income'},
+    {id: 'trading', name: 'CURRENCY', type: 'TRADING', parent: 'root'},
+    {id: 'troot', name: 'Template Root', type: 'ROOT', parent: ''},
+    {id: 'tbank', name: 'tbank', type: 'BANK', parent: 'troot'},
+]
+
+const splits = [
+    {tx: 'tx1', account: 'bank', memo: 'March', value: '123456/100'},
+    {tx: 'tx1', account: 'salary', memo: '', value: '-100000/100'},
+    {tx: 'tx1', account: 'trading', memo: '', value: '-23456/100'},
+    {tx: 'tx2', account: 'tbank', memo: '', value: '100/100'},
+    {tx: 'tx2', account: 'tbank', memo: '', value: '-100/100'},
+]
+
+function expectGnucash({document, unmapped}: ReturnType<typeof parseGnucashXml>) {
+    expect(document.accounts).toEqual([
+        {id: 1000, title: 'Cheque Account', type: Account.Asset},
+        {id: 1001, title: 'Salary', type: Account.Revenue},
+        {id: 1002, title: 'CURRENCY', type: Account.Asset},
+    ])
+    expect(unmapped).toEqual([{id: 1002, name: 'CURRENCY', foreignType: 'TRADING'}])
+    expect(document.actors).toEqual([{id: 1, title: 'Widget Co', type: Actor.Supplier}])
+    expect(document.transactions).toEqual([
+        {id: 1, type: Transaction.Raw, date: '2020-03-31', description: 'Employer', elements: [
+            {accountId: 1000, drcr: Debit, amount: 123456, currency: 'AUD', description: 'March'},
+            {accountId: 1001, drcr: Credit, amount: 100000, currency: 'AUD'},
+            {accountId: 1002, drcr: Credit, amount: 23456, currency: 'AUD'},
+        ]},
+    ])
+}
+
+test('gnucash xml', async done => {
+    const commodity = '<cmdty:space>CURRENCY</cmdty:space><cmdty:id>AUD</cmdty:id>'
+    const account = (a: any) => `<gnc:account version="2.0.0"><act:name>${a.name}</act:name>` +
+        `<act:id type="guid">${a.id}</act:id><act:type>${a.type}</act:type>` +
+        (a.parent ? `<act:parent type="guid">${a.parent}</act:parent>` : '') + '</gnc:account>'
+    const transaction = (id: string, date: string, description: string) => `<gnc:transaction version="2.0.0">` +
+        `<trn:id type="guid">${id}</trn:id><trn:currency>${commodity}</trn:currency>` +
+        `<trn:date-posted><ts:date>${date}</ts:date></trn:date-posted><trn:description>${description}</trn:description>` +
+        '<trn:splits>' + splits.filter(s => s.tx == id).map(s => '<trn:split>' +
+            `<split:memo>${s.memo}</split:memo><split:value>${s.value}</split:value>` +
+            `<split:account type="guid">${s.account}</split:account></trn:split>`).join('') +
+        '</trn:splits></gnc:transaction>'
+
+    const xml = `<?xml version="1.0" encoding="utf-8" ?>
+<gnc-v2 xmlns:gnc="http://www.gnucash.org/XML/gnc" xmlns:act="http://www.gnucash.org/XML/act"
+    xmlns:trn="http://www.gnucash.org/XML/trn" xmlns:split="http://www.gnucash.org/XML/split"
+    xmlns:ts="http://www.gnucash.org/XML/ts" xmlns:cmdty="http://www.gnucash.org/XML/cmdty"
+    xmlns:vendor="http://www.gnucash.org/XML/vendor">
+<gnc:book version="2.0.0">
+<gnc:commodity version="2.0.0">${commodity}</gnc:commodity>
+${accounts.filter(a => a.id[0] != 't' || a.id == 'trading').map(account).join('\n')}
+<gnc:GncVendor version="2.0.0"><vendor:name>Widget Co</vendor:name></gnc:GncVendor>
+${transaction('tx1', '2020-03-31 10:59:00 +0000', 'Employer')}
+<gnc:template-transactions>
+${accounts.filter(a => a.id[0] == 't' && a.id != 'trading').map(account).join('\n')}
+${transaction('tx2', '2020-04-01 10:59:00 +0000', 'Scheduled')}
+</gnc:template-transactions>
+</gnc:book>
+</gnc-v2>`
+
+    expectGnucash(parseGnucashXml(xml))
+    expect(() => parseGnucashXml('<html></html>')).toThrow('Not a GnuCash XML file')
+    done()
+})
+
+test('gnucash sqlite', async done => {
+    const SQL = await initSqlJs()
+    const db = new SQL.Database()
+    db.run(`CREATE TABLE books (guid text, root_account_guid text, root_template_guid text);
+        CREATE TABLE commodities (guid text, namespace text, mnemonic text);
+        CREATE TABLE accounts (guid text, name text, account_type text, commodity_guid text, parent_guid text);
+        CREATE TABLE transactions (guid text, currency_guid text, num text, post_date text, enter_date text,
+            description text);
+        CREATE TABLE splits (guid text, tx_guid text, account_guid text, memo text, value_num bigint,
+            value_denom bigint);
+        CREATE TABLE vendors (guid text, name text);
+        INSERT INTO books VALUES ('book', 'root', 'troot');
+        INSERT INTO commodities VALUES ('aud', 'CURRENCY', 'AUD');
+        INSERT INTO vendors VALUES ('v1', 'Widget Co');
+        INSERT INTO transactions VALUES ('tx2', 'aud', '', '2020-04-01 10:59:00', '2020-04-01 10:59:00', 'Scheduled');
+        INSERT INTO transactions VALUES ('tx1', 'aud', '', '2020-03-31 10:59:00', '2020-03-31 10:59:00', 'Employer');`)
+    accounts.forEach(a => {
+        db.run('INSERT INTO accounts VALUES (?, ?, ?, ?, ?)', [a.id, a.name, a.type, 'aud', a.parent || null])
+    })
+    splits.forEach((s, index) => {
+        const [num, denom] = s.value.split('/').map(Number)
+        db.run('INSERT INTO splits VALUES (?, ?, ?, ?, ?, ?)', [`s${index}`, s.tx, s.account, s.memo, num, denom])
+    })
+    const data = db.export()
+    db.close()
+
+    expectGnucash(await parseGnucashSqlite(data))
+    await expect(parseGnucashSqlite(new Uint8Array(0))).rejects.toThrow('Not a GnuCash file')
+    done()
+})
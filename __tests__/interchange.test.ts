@@ -0,0 +1,108 @@
+import { Project, Account, Actor, Transaction, Element,
+    exportInterchange, validateInterchange, importInterchange } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const TaxPayable = Account.Reserved.TaxPayable
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+// Strips ids so that documents can be compared
+function strip(doc: any, fromId = 0) {
+    return doc.transactions.filter((t: any) => t.id > fromId).map((t: any) => {
+        const {id, actorId, ...rest} = t
+        return {...rest, elements: t.elements.map((e: any) => {
+            const {settleId, ...others} = e
+            return {...others, settles: !!settleId}
+        })}
+    })
+}
+
+test('interchange export and import', async done => {
+    const customer = Actor.construct({title: 'Acme', type: Actor.Customer, taxIdLabel: 'ABN', taxId: '123'})
+    await customer.save()
+    const account = Account.construct({title: 'Widget Sales', type: Account.Revenue})
+    await account.save()
+
+    const invoice = Transaction.construct({type: Transaction.Invoice, date: '2020-01-10', due: '2020-02-10',
+        description: 'Widgets', actorId: customer.id})
+    await invoice.mergeElements([
+        {accountId: AR, drcr: Debit, amount: 1100, currency: 'USD'},
+        {accountId: account.id, drcr: Credit, amount: 1000, currency: 'USD', description: 'blue'},
+        {accountId: TaxPayable, drcr: Credit, amount: 100, currency: 'USD', taxCode: 'AU:GST:10', parentId: -1},
+    ])
+    await invoice.save()
+
+    const payment = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-01-20', actorId: customer.id})
+    await payment.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1100, currency: 'USD', settleId: invoice.id},
+        {accountId: AR, drcr: Credit, amount: 1100, currency: 'USD', settleId: invoice.id},
+    ])
+    await payment.save()
+
+    const doc = await exportInterchange()
+    expect(doc.format).toBe('gigobooks')
+    expect(doc.version).toBe(1)
+    expect(doc.variables.mru).toBeUndefined()
+    expect(doc.actors).toEqual([{id: customer.id, title: 'Acme', type: 'customer', taxIdLabel: 'ABN', taxId: '123'}])
+    expect(doc.transactions.length).toBe(2)
+    expect(doc.transactions[0].elements[1]).toEqual({accountId: account.id, drcr: Credit, amount: 1000,
+        currency: 'USD', description: 'blue', taxes: [
+            {accountId: TaxPayable, drcr: Credit, amount: 100, currency: 'USD', taxCode: 'AU:GST:10'},
+        ]})
+    expect(doc.transactions[1].elements[0].settleId).toBe(invoice.id)
+
+    // A JSON round trip should validate
+    const json = JSON.parse(JSON.stringify(doc))
+    await expect(validateInterchange(json)).resolves.toBeTruthy()
+
+    // Problems are detected
+    const unbalanced = JSON.parse(JSON.stringify(doc))
+    unbalanced.transactions[0].elements[0].amount = 1000
+    await expect(validateInterchange(unbalanced)).rejects.toMatch('Not balanced')
+    const unknown = JSON.parse(JSON.stringify(doc))
+    unknown.transactions[1].elements[0].settleId = 999
+    await expect(validateInterchange(unknown)).rejects.toMatch('Unknown settled transaction')
+    await expect(validateInterchange({format: 'other'})).rejects.toBeTruthy()
+    await expect(validateInterchange({...json, version: 99})).rejects.toMatch('Unsupported version')
+
+    // Can't replace if there are existing transactions
+    await expect(importInterchange(json)).rejects.toMatch('already has transactions')
+
+    // Merge: Accounts and actors are matched, transactions are added
+    json.transactions.reverse()     // Settlements may refer forward
+    const result = await importInterchange(json, true)
+    expect(result).toEqual({accounts: 0, actors: 0, transactions: 2})
+    expect(await Actor.query().resultSize()).toBe(1)
+
+    const after = await exportInterchange()
+    expect(after.transactions.length).toBe(4)
+    expect(strip(after, payment.id)).toEqual(strip(doc).reverse())
+    const newInvoice = after.transactions.find(t => t.id > payment.id! && t.type == Transaction.Invoice)!
+    const newPayment = after.transactions.find(t => t.id > payment.id! && t.type == Transaction.InvoicePayment)!
+    expect(newPayment.elements[0].settleId).toBe(newInvoice.id)
+    expect(newInvoice.actorId).toBe(customer.id)
+
+    // Replace into an empty project: Missing accounts are created and settings are applied
+    await Element.query().delete()
+    await Transaction.query().delete()
+    await Account.query().delete().where('id', account.id!)
+    json.variables.title = 'Imported Ltd'
+    json.accounts.find((a: any) => a.id == account.id).title = 'Gadget Sales'
+    const result2 = await importInterchange(json)
+    expect(result2).toEqual({accounts: 1, actors: 0, transactions: 2})
+    expect(Project.variables.get('title')).toBe('Imported Ltd')
+    const gadgets = await Account.query().where('title', 'Gadget Sales')
+    expect(gadgets.length).toBe(1)
+    expect(gadgets[0].type).toBe(Account.Revenue)
+    done()
+})
@@ -0,0 +1,121 @@
+import { Project, Account, Actor, Transaction, exportLedger, ledgerAmount, parseLedger, balanceSheet } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const Cash = Account.Reserved.Cash
+const TaxPayable = Account.Reserved.TaxPayable
+const RetainedEarnings = Account.Reserved.RetainedEarnings
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('ledger amount', () => {
+    expect(ledgerAmount(123456, 'USD')).toBe('1234.56 USD')
+    expect(ledgerAmount(-5, 'USD')).toBe('-0.05 USD')
+    expect(ledgerAmount(-1200, 'JPY')).toBe('-1200 JPY')
+    expect(ledgerAmount(1, 'BHD')).toBe('0.001 BHD')
+})
+
+test('ledger export', async done => {
+    const customer = Actor.construct({title: 'Acme', type: Actor.Customer})
+    await customer.save()
+    const account = Account.construct({title: 'Widget  Sales', type: Account.Revenue})
+    await account.save()
+
+    const invoice = Transaction.construct({type: Transaction.Invoice, date: '2020-01-10', due: '2020-02-10',
+        description: 'Widgets', actorId: customer.id})
+    await invoice.mergeElements([
+        {accountId: AR, drcr: Debit, amount: 1100, currency: 'USD'},
+        {accountId: account.id, drcr: Credit, amount: 1000, currency: 'USD', description: 'blue'},
+        {accountId: TaxPayable, drcr: Credit, amount: 100, currency: 'USD', taxCode: 'AU:GST:10', parentId: -1},
+    ])
+    await invoice.save()
+
+    const payment = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-01-20', actorId: customer.id})
+    await payment.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 1100, currency: 'USD', settleId: invoice.id},
+        {accountId: AR, drcr: Credit, amount: 1100, currency: 'USD', settleId: invoice.id},
+    ])
+    await payment.save()
+
+    const capital = Transaction.construct({type: Transaction.Raw, date: '2020-02-01', description: 'Capital'})
+    await capital.mergeElements([
+        {accountId: Cash, drcr: Debit, amount: 50000, currency: 'EUR'},
+        {accountId: Account.Reserved.Equity, drcr: Credit, amount: 50000, currency: 'EUR'},
+    ])
+    await capital.save()
+
+    const purchase = Transaction.construct({type: Transaction.Purchase, date: '2020-03-05'})
+    await purchase.mergeElements([
+        {accountId: 500, drcr: Debit, amount: 250, currency: 'USD'},
+        {accountId: Cash, drcr: Credit, amount: 250, currency: 'USD'},
+    ])
+    await purchase.save()
+
+    const full = await exportLedger()
+    expect(full).toContain('account Asset:Cash  ; type: A')
+    expect(full).toContain('account Revenue:Widget Sales  ; type: R')
+    expect(full).toContain(`2020-01-10 (${invoice.id}) Acme | Widgets  ; type:invoice, due:2020-02-10`)
+    expect(full).toMatch(/\n    Revenue:Widget Sales +-10.00 USD  ; blue\n/)
+    expect(full).toMatch(/\n    Liability:Tax Payable +-1.00 USD  ; tax:AU:GST:10\n/)
+    expect(full).toContain(`2020-02-01 (${capital.id}) Capital  ; type:raw`)
+    expect(full).not.toContain('Opening balances')
+
+    // Date range: Earlier balances are brought forward
+    const ranged = await exportLedger('2020-02-01', '2020-12-31')
+    expect(ranged).not.toContain('type:invoice')
+    expect(ranged).toMatch(/\n2020-02-01 Opening balances\n    Asset:Cash +11.00 USD\n    Liability:Tax Payable +-1.00 USD\n    Equity:Retained Earnings +-10.00 USD\n/)
+    expect(ranged).toContain(`\n2020-03-05 (${purchase.id})  ; type:purchase\n`)
+
+    // The journal's balances match the balance sheet
+    const {document} = parseLedger(ranged, 'USD')
+    const balances: Record<string, Record<string, number>> = {}
+    const profit: Record<string, number> = {}
+    document.transactions.forEach(t => t.elements.forEach(e => {
+        const a = document.accounts.find(a => a.id == e.accountId)!
+        const group = Account.TypeInfo[a.type].group
+        const sign = group == Account.Asset ? e.drcr : -e.drcr
+        const target = group == Account.Revenue || group == Account.Expense ? profit :
+            (balances[a.title] = balances[a.title] || {})
+        target[e.currency] = (target[e.currency] || 0) + sign * e.amount
+    }))
+    Object.keys(profit).forEach(currency => {
+        const re = balances['Retained Earnings']
+        re[currency] = (re[currency] || 0) + profit[currency]
+    })
+
+    const bs = await balanceSheet('2020-02-01', '2020-12-31')
+    const expected: Record<string, Record<string, number>> = {}
+    ;[...bs.assets.current.groups, ...bs.assets.nonCurrent.groups, ...bs.liabilities.current.groups,
+        ...bs.liabilities.nonCurrent.groups, ...bs.equity.accounts.groups].forEach(g => {
+        g.closingBalance.filter(m => m.amount != 0).forEach(m => {
+            expected[g.accountTitle] = expected[g.accountTitle] || {}
+            expected[g.accountTitle][m.currency] = m.amount
+        })
+    })
+    expect(balances).toEqual(expected)
+    expect(balances['Cash']).toEqual({USD: 850, EUR: 50000})
+    expect(expected['Retained Earnings']).toEqual({USD: 750})
+    expect(document.accounts.find(a => a.id == RetainedEarnings)).toBeTruthy()
+    done()
+})
+
+test('ledger account names', async done => {
+    const first = Account.construct({title: 'Fees: Bank', type: Account.Expense})
+    await first.save()
+    const second = Account.construct({title: 'Fees - Bank', type: Account.Expense})
+    await second.save()
+
+    const journal = await exportLedger()
+    expect(journal).toContain(`account Expense:Fees - Bank (${first.id})  ; type: X`)
+    expect(journal).toContain(`account Expense:Fees - Bank (${second.id})  ; type: X`)
+    expect(journal).toContain('account Asset:Cash  ; type: A')
+    done()
+})
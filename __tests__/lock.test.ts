@@ -0,0 +1,70 @@
+import { Project, Transaction, Element } from '../src/core'
+import { saveFormData, validateFormData } from '../src/components/Sale'
+import { MockForm } from '../src/test/MockForm'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('lock date', async done => {
+    const elements = [
+        {accountId: 400, drcr: Transaction.Credit, amount: 100, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 100, currency: 'USD'},
+    ]
+
+    // Create some transactions before locking
+    const t0 = Transaction.construct({date: '2020-01-31', type: Transaction.Raw})
+    await t0.mergeElements(elements)
+    await t0.save()
+
+    const t1 = Transaction.construct({date: '2020-02-01', type: Transaction.Raw})
+    await t1.mergeElements(elements)
+    await t1.save()
+
+    await Project.variables.set('lockDate', '2020-01-31')
+
+    // Can't create, modify or delete transactions on or before the lock date
+    const t2 = Transaction.construct({date: '2020-01-15', type: Transaction.Raw})
+    await t2.mergeElements(elements)
+    await expect(t2.save()).rejects.toMatch(/lock date/)
+    expect(await Transaction.query().where('date', '2020-01-15')).toHaveLength(0)
+
+    t0.description = 'changed'
+    await expect(t0.save()).rejects.toMatch(/lock date/)
+    await expect(t0.delete()).rejects.toMatch(/lock date/)
+    await expect(t0.elements![0].delete()).rejects.toMatch(/lock date/)
+    expect(await Element.query().where('transactionId', t0.id!)).toHaveLength(2)
+
+    // Can't move an unlocked transaction into a locked period, and vice versa
+    t1.date = '2020-01-31'
+    await expect(t1.save()).rejects.toMatch(/lock date/)
+    t0.date = '2020-02-01'
+    await expect(t0.save()).rejects.toMatch(/lock date/)
+
+    // Transactions after the lock date are unaffected
+    t1.date = '2020-02-02'
+    await t1.save()
+    expect(await Transaction.query().findById(t1.id!)).toMatchObject({date: '2020-02-02'})
+
+    // Forms
+    const data = {type: Transaction.Sale, actorId: 1, date: new Date(2020, 0, 31), elements: [
+        {accountId: 400, amount: '10', currency: 'USD', useGross: 0, grossAmount: ''},
+    ]}
+    expect(validateFormData(MockForm.clear(), data)).toBe(false)
+    expect(MockForm.errorField).toEqual('date')
+    expect(MockForm.errorMessage).toMatch(/lock date/)
+    await expect(saveFormData(Transaction.construct({}), data)).rejects.toMatch(/lock date/)
+
+    // Unlock
+    await Project.variables.set('lockDate', '')
+    t0.date = '2020-01-30'
+    await t0.save()
+    expect(await Transaction.query().findById(t0.id!)).toMatchObject({date: '2020-01-30', description: 'changed'})
+
+    done()
+})
@@ -0,0 +1,90 @@
+import { Project, Transaction, Element, Statement, StatementLine,
+    reconciliation, setCleared, reconcile, reconciliationReport } from '../src/core'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function createTransaction(date: string, elements: any[]) {
+    const t = Transaction.construct({date, type: Transaction.Raw})
+    await t.mergeElements(elements)
+    await t.save()
+    return t
+}
+
+test('reconciliation', async done => {
+    // Credit card (a liability): Two charges and a repayment
+    const t1 = await createTransaction('2020-01-05', [
+        {accountId: 509, drcr: Transaction.Debit, amount: 10000, currency: 'USD'},
+        {accountId: 200, drcr: Transaction.Credit, amount: 10000, currency: 'USD'},
+    ])
+    const t2 = await createTransaction('2020-01-20', [
+        {accountId: 507, drcr: Transaction.Debit, amount: 2500, currency: 'USD'},
+        {accountId: 200, drcr: Transaction.Credit, amount: 2500, currency: 'USD'},
+    ])
+    const t3 = await createTransaction('2020-02-10', [
+        {accountId: 200, drcr: Transaction.Debit, amount: 10000, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Credit, amount: 10000, currency: 'USD'},
+    ])
+    const [e1, e2, e3] = [t1, t2, t3].map(t => t.elements!.find(e => e.accountId == 200)!)
+
+    let info = await reconciliation(200, 'USD', '2020-01-31')
+    expect(info.items.map(item => item.amount)).toEqual([10000, 2500])
+    expect(info).toMatchObject({openingBalance: 0, clearedBalance: 0})
+
+    // Only the first charge is on the January statement
+    await setCleared([e1.id!], true)
+    info = await reconciliation(200, 'USD', '2020-01-31')
+    expect(info.clearedBalance).toBe(10000)
+    await expect(reconcile(200, 'USD', '2020-01-31', 12500)).rejects.toMatch('differs')
+    const s1 = await reconcile(200, 'USD', '2020-01-31', 10000)
+    expect(await Element.query().findById(e1.id!)).toMatchObject({
+        reconcileStatus: Element.Reconciled, reconcileDate: '2020-01-31', statementId: s1})
+
+    // Reconciled items can't be uncleared
+    await setCleared([e1.id!], false)
+    expect((await Element.query().findById(e1.id!)).reconcileStatus).toBe(Element.Reconciled)
+
+    // February statement
+    await expect(reconcile(200, 'USD', '2020-01-15', 10000)).rejects.toMatch('after the last reconciliation')
+    info = await reconciliation(200, 'USD', '2020-02-29')
+    expect(info.openingBalance).toBe(10000)
+    expect(info.items.map(item => item.id)).toEqual([e2.id, e3.id])
+    await setCleared([e2.id!, e3.id!], true)
+    expect((await reconciliation(200, 'USD', '2020-02-29')).clearedBalance).toBe(2500)
+    const s2 = await reconcile(200, 'USD', '2020-02-29', 2500)
+
+    // Report as of each date
+    let report = await reconciliationReport(200, 'USD', '2020-01-31')
+    expect(report).toMatchObject({bookBalance: 12500, reconciledBalance: 10000, statement: {id: s1, balance: 10000}})
+    expect(report.outstanding.map(item => item.id)).toEqual([e2.id])
+    report = await reconciliationReport(200, 'USD', '2020-03-31')
+    expect(report).toMatchObject({bookBalance: 2500, reconciledBalance: 2500, outstanding: [], statement: {id: s2}})
+
+    // Only the most recent reconciliation can be deleted
+    await expect((await Statement.query().findById(s1)).delete()).rejects.toMatch('Only the most recent reconciliation')
+    expect(await Statement.query().findById(s1)).toBeDefined()
+
+    // Deleting a reconciliation reverts it's items to cleared
+    await (await Statement.query().findById(s2)).delete()
+    expect((await Element.query().findById(e2.id!)).reconcileStatus).toBe(Element.Cleared)
+    expect((await reconciliation(200, 'USD', '2020-02-29')).openingBalance).toBe(10000)
+
+    // Matching an imported statement line clears the element
+    const statement = Statement.construct({accountId: 10, title: 'test', format: Statement.Csv, currency: 'USD'})
+    await statement.save()
+    const line = StatementLine.construct({statementId: statement.id, date: '2020-02-10', amount: -10000, currency: 'USD'})
+    await line.save()
+    const e4 = t3.elements!.find(e => e.accountId == 10)!
+    await line.match(e4.id!)
+    expect((await Element.query().findById(e4.id!)).reconcileStatus).toBe(Element.Cleared)
+    await line.unmatch()
+    expect((await Element.query().findById(e4.id!)).reconcileStatus || Element.Uncleared).toBe(Element.Uncleared)
+
+    done()
+})
@@ -0,0 +1,85 @@
+import { Project, Transaction, Recurring } from '../src/core'
+import { saveFormData } from '../src/components/Sale'
+import { recurringFromTransaction, generateDueTransactions } from '../src/components/recurring'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('recurring schedule', async done => {
+    const r = Recurring.construct({frequency: Recurring.Monthly, startDate: '2020-01-31'})
+    expect([0, 1, 2, 12].map(n => r.occurrence(n))).toEqual(['2020-01-31', '2020-02-29', '2020-03-31', '2021-01-31'])
+    r.frequency = Recurring.Quarterly
+    expect([0, 1, 4].map(n => r.occurrence(n))).toEqual(['2020-01-31', '2020-04-30', '2021-01-31'])
+    r.frequency = Recurring.Yearly
+    expect(r.occurrence(1)).toEqual('2021-01-31')
+    r.frequency = Recurring.Days
+    r.interval = 10
+    expect(r.occurrence(2)).toEqual('2020-02-20')
+
+    expect(r.dueDates('2020-02-10')).toEqual(['2020-01-31', '2020-02-10'])
+    r.count = 1
+    expect(r.dueDates('2020-02-25')).toEqual(['2020-02-10', '2020-02-20'])
+    r.endDate = '2020-02-15'
+    expect(r.dueDates('2020-02-25')).toEqual(['2020-02-10'])
+    r.count = 2
+    expect(r.nextDate).toEqual('')
+    expect(r.dueDates('2020-02-25')).toEqual([])
+
+    done()
+})
+
+test('generate due transactions', async done => {
+    // An invoice due 14 days after it's date
+    const t = Transaction.construct({})
+    await saveFormData(t, {type: Transaction.Invoice, actorId: 1, date: new Date(2020, 0, 15), due: new Date(2020, 0, 29),
+        description: 'Rent', elements: [
+        {accountId: 400, amount: '100', currency: 'USD', useGross: 0, grossAmount: '110', description: 'one', taxes: [
+            {baseCode: '::10', tag: '', rate: '10', amount: '10'},
+        ]},
+    ]})
+
+    const r = recurringFromTransaction(t)!
+    expect(r).toMatchObject({title: 'Rent', type: Transaction.Invoice, startDate: '2020-01-15', dueDays: 14, count: 0})
+    expect(JSON.stringify(r.data)).not.toMatch(/eId|date|due/)
+
+    // The template's start date is the original transaction, so skip it
+    r.count = 1
+    r.endDate = '2020-03-31'
+    await r.save()
+
+    let result = await generateDueTransactions('2020-04-30')
+    expect(result.errors).toEqual([])
+    expect(result.transactions).toHaveLength(2)
+    const t1 = await Transaction.query().findById(result.transactions[1].id).withGraphFetched('elements')
+    expect(t1).toMatchObject({type: Transaction.Invoice, date: '2020-03-15', due: '2020-03-29', actorId: 1, description: 'Rent'})
+    expect(Transaction.getDebitBalances(t1.elements!)).toEqual([{amount: 0, currency: 'USD'}])
+    expect(t1.elements!.filter(e => e.parentId! > 0)).toMatchObject([{amount: 1000, taxCode: '::10'}])
+    expect((await Recurring.query().findById(r.id!)).count).toBe(3)
+
+    // Nothing more to generate
+    result = await generateDueTransactions('2020-04-30')
+    expect(result.transactions).toHaveLength(0)
+
+    // Locked dates are reported and the template stops there
+    const r1 = await Recurring.query().findById(r.id!)
+    r1.endDate = ''
+    await r1.save()
+    await Project.variables.set('lockDate', '2020-04-30')
+    result = await generateDueTransactions('2020-05-31')
+    expect(result.transactions).toHaveLength(0)
+    expect(result.errors).toHaveLength(1)
+    expect((await Recurring.query().findById(r.id!)).count).toBe(3)
+
+    await Project.variables.set('lockDate', '')
+    result = await generateDueTransactions('2020-05-31')
+    expect(result.transactions).toHaveLength(2)
+    expect(result.errors).toEqual([])
+
+    done()
+})
@@ -0,0 +1,68 @@
+import { Project, Account, Transaction, taxItems } from '../src/core'
+import { extractFormValues, saveFormData } from '../src/components/Sale'
+import * as Purchase from '../src/components/Purchase'
+
+const AR = Account.Reserved.AccountsReceivable
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('settlement account', async done => {
+    const bank = Account.construct({title: 'Bank', type: Account.Asset})
+    await bank.save()
+    const card = Account.construct({title: 'Credit card', type: Account.Liability})
+    await card.save()
+
+    const ids = (await Account.settlementAccounts()).map(a => a.id)
+    expect(ids).toContain(bank.id)
+    expect(ids).toContain(card.id)
+    expect(ids).toContain(Account.Reserved.Cash)
+    expect(ids).not.toContain(AR)
+    expect(ids).not.toContain(Account.Reserved.TaxPayable)
+
+    // Cash sale into a chosen account
+    const t0 = Transaction.construct({})
+    await saveFormData(t0, {type: Transaction.Sale, actorId: 1, date: new Date('2020-01-10'),
+        settlementAccountId: bank.id, elements: [
+        {accountId: 400, amount: '10', currency: 'USD', useGross: 0, grossAmount: '10', taxes: []},
+    ]})
+    expect(t0.elements!.find(e => e.drcr == Transaction.Debit)).toMatchObject({accountId: bank.id, amount: 1000})
+    const t1 = await Transaction.query().findById(t0.id!).withGraphFetched('elements')
+    expect(extractFormValues(t1).settlementAccountId).toBe(bank.id)
+
+    // Cash purchase defaults to the project setting
+    await Project.variables.set('settlementAccountId', card.id)
+    const t2 = Transaction.construct({})
+    await Purchase.saveFormData(t2, {type: Transaction.Purchase, actorId: 2, date: new Date('2020-01-10'), elements: [
+        {accountId: 506, amount: '5', currency: 'USD', useGross: 0, grossAmount: '5', taxes: []},
+    ]})
+    expect(t2.elements!.find(e => e.drcr == Transaction.Credit)).toMatchObject({accountId: card.id, amount: 500})
+
+    // Cash-basis taxes of an invoice which is paid into a bank account
+    const inv = Transaction.construct({})
+    await saveFormData(inv, {type: Transaction.Invoice, actorId: 1, date: new Date('2020-01-15'), elements: [
+        {accountId: 400, amount: '100', currency: 'USD', useGross: 0, grossAmount: '110', taxes: [
+            {baseCode: '::', tag: '', rate: '10', amount: '10'},
+        ]},
+    ]})
+    expect(await taxItems('2020-02-01', '2020-02-28', false)).toHaveLength(0)
+
+    const payment = Transaction.construct({type: Transaction.InvoicePayment, date: '2020-02-10', actorId: 1})
+    await payment.mergeElements([
+        {accountId: bank.id, drcr: Transaction.Debit, amount: 11000, currency: 'USD'},
+        {accountId: AR, drcr: Transaction.Credit, amount: 11000, currency: 'USD', settleId: inv.id},
+    ])
+    await payment.save()
+
+    const items = await taxItems('2020-02-01', '2020-02-28', false)
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({txnId: inv.id, txnDate: '2020-02-10', amount: 1000})
+
+    done()
+})
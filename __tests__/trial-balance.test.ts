@@ -0,0 +1,75 @@
+import { Project, Account, Transaction, trialBalance, generalLedger } from '../src/core'
+
+const AR = Account.Reserved.AccountsReceivable
+const Cash = Account.Reserved.Cash
+const Debit = Transaction.Debit
+const Credit = Transaction.Credit
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function post(type: string, date: string, elements: any[]) {
+    const t = Transaction.construct({type, date, description: `${type} ${date}`})
+    await t.mergeElements(elements.map(e => ({currency: 'USD', ...e})))
+    await t.save()
+    return t
+}
+
+test('trial balance and general ledger', async done => {
+    await post(Transaction.Contribution, '2019-12-01', [
+        {accountId: Cash, drcr: Debit, amount: 1000},
+        {accountId: Account.Reserved.Equity, drcr: Credit, amount: 1000},
+    ])
+    const inv = await post(Transaction.Invoice, '2020-01-10', [
+        {accountId: AR, drcr: Debit, amount: 500},
+        {accountId: 400, drcr: Credit, amount: 500},
+    ])
+    const pay = await post(Transaction.InvoicePayment, '2020-02-10', [
+        {accountId: Cash, drcr: Debit, amount: 300},
+        {accountId: AR, drcr: Credit, amount: 300},
+    ])
+    await post(Transaction.Purchase, '2020-02-15', [
+        {accountId: 506, drcr: Debit, amount: 120},
+        {accountId: Cash, drcr: Credit, amount: 120},
+        {accountId: 506, drcr: Debit, amount: 40, currency: 'EUR'},
+        {accountId: Cash, drcr: Credit, amount: 40, currency: 'EUR'},
+    ])
+
+    const tb = await trialBalance('2020-12-31')
+    expect(tb.lines).toMatchObject([
+        {accountId: Cash, currency: 'EUR', debit: 0, credit: 40},
+        {accountId: Cash, currency: 'USD', debit: 1180, credit: 0},
+        {accountId: AR, debit: 200, credit: 0},
+        {accountId: Account.Reserved.Equity, debit: 0, credit: 1000},
+        {accountId: 400, debit: 0, credit: 500},
+        {accountId: 506, currency: 'EUR', debit: 40, credit: 0},
+        {accountId: 506, currency: 'USD', debit: 120, credit: 0},
+    ])
+    expect(tb.totals).toEqual([
+        {currency: 'EUR', debit: 40, credit: 40},
+        {currency: 'USD', debit: 1500, credit: 1500},
+    ])
+
+    const gl = await generalLedger('2020-01-01', '2020-12-31')
+    expect(gl.accounts.map(a => `${a.accountId}-${a.currency}`)).toEqual(
+        ['10-EUR', '10-USD', '11-USD', '30-USD', '400-USD', '506-EUR', '506-USD'])
+    expect(gl.accounts[1]).toMatchObject({openingBalance: 1000, closingBalance: 1180, totalDebits: 300, totalCredits: 120})
+    expect(gl.accounts[1].items).toMatchObject([
+        {txnId: pay.id, debit: 300, credit: 0, balance: 1300},
+        {debit: 0, credit: 120, balance: 1180},
+    ])
+    // Equity has no activity in the period but still has a balance
+    expect(gl.accounts[3]).toMatchObject({openingBalance: -1000, items: [], closingBalance: -1000})
+
+    const ar = await generalLedger('2020-01-01', '2020-01-31', AR)
+    expect(ar.accounts).toHaveLength(1)
+    expect(ar.accounts[0].items).toMatchObject([{txnId: inv.id, txnDescription: 'invoice 2020-01-10', debit: 500, balance: 500}])
+
+    done()
+})
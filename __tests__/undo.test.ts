@@ -0,0 +1,127 @@
+import { Project, Transaction, Element, Actor, AuditLog } from '../src/core'
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+test('undo and redo', async done => {
+    const history = Project.project!.history!
+    expect(await Project.undo()).toBe(false)
+
+    // Step 1: Create a transaction
+    const t = Transaction.construct({date: '2020-01-01', type: Transaction.Raw, description: 'one'})
+    await t.mergeElements([
+        {accountId: 400, drcr: Transaction.Credit, amount: 100, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 100, currency: 'USD'},
+    ])
+    await t.save()
+    expect(history.canUndo).toBe(true)
+    await history.checkpoint()
+
+    // Step 2: Modify it, remove an element and add another
+    t.description = 'two'
+    t.elements![1].amount = 0
+    await t.mergeElements([
+        {accountId: 10, drcr: Transaction.Debit, amount: 60, currency: 'USD'},
+        {accountId: 11, drcr: Transaction.Debit, amount: 40, currency: 'USD'},
+    ])
+    await t.save()
+    t.condenseElements()
+    await history.checkpoint()
+
+    // Step 3 (not checkpointed): Create a customer and change a variable
+    await Project.variables.set('title', 'Foo')
+    const actor = Actor.construct({title: 'Alice', type: Actor.Customer})
+    await actor.save()
+
+    // Undo step 3
+    expect(await Project.undo()).toBe(true)
+    expect(history.undoStack).toHaveLength(2)
+    expect(await Actor.query().findById(actor.id!)).toBeUndefined()
+    expect(Project.variables.get('title')).toBe('')
+
+    // Undo step 2
+    expect(await Project.undo()).toBe(true)
+    let t1 = await Transaction.query().findById(t.id!).withGraphFetched('elements')
+    expect(t1.description).toBe('one')
+    expect(t1.elements).toMatchObject([{accountId: 400, amount: 100}, {accountId: 10, amount: 100}])
+
+    // Undo step 1
+    expect(await Project.undo()).toBe(true)
+    expect(await Transaction.query().findById(t.id!)).toBeUndefined()
+    expect(await Element.query().where('transactionId', t.id!)).toHaveLength(0)
+    expect(await Project.undo()).toBe(false)
+
+    // Redo steps 1 and 2
+    expect(await Project.redo()).toBe(true)
+    expect(await Project.redo()).toBe(true)
+    t1 = await Transaction.query().findById(t.id!).withGraphFetched('elements')
+    expect(t1.description).toBe('two')
+    expect(t1.elements).toMatchObject([{accountId: 400, amount: 100}, {accountId: 10, amount: 60}, {accountId: 11, amount: 40}])
+    expect(history.canRedo).toBe(true)
+
+    // A new change discards what is left to redo
+    await Project.variables.set('title', 'Bar')
+    await history.checkpoint()
+    expect(history.canRedo).toBe(false)
+    expect(await Project.redo()).toBe(false)
+    expect(Project.variables.get('title')).toBe('Bar')
+    expect(await Actor.query().findById(actor.id!)).toBeUndefined()
+
+    expect(await Project.undo()).toBe(true)
+    expect(Project.variables.get('title')).toBe('')
+    expect((await Transaction.query().findById(t.id!)).description).toBe('two')
+
+    done()
+})
+
+test('undo is recorded in the audit log and respects the lock date', async done => {
+    const history = Project.project!.history!
+    await history.checkpoint()
+    const t = Transaction.construct({date: '2020-03-01', type: Transaction.Raw, description: 'locked'})
+    await t.mergeElements([
+        {accountId: 400, drcr: Transaction.Credit, amount: 100, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 100, currency: 'USD'},
+    ])
+    await t.save()
+    await history.checkpoint()
+    const entries = (await AuditLog.query()).length
+
+    // Undo and redo are audited against the transaction, rather than being undone themselves
+    expect(await Project.undo()).toBe(true)
+    expect(await Project.redo()).toBe(true)
+    const audit = await AuditLog.query().orderBy('id')
+    expect(audit).toHaveLength(entries + 2)
+    expect(audit.slice(-2).map(a => [a.action, a.target, a.targetId])).toEqual([
+        [AuditLog.Undo, 'txn', String(t.id)],
+        [AuditLog.Redo, 'txn', String(t.id)],
+    ])
+    expect(JSON.parse(audit[entries].before!)).toMatchObject({description: 'locked', elements: [{amount: 100}, {amount: 100}]})
+    expect(audit[entries].after).toBe('')
+    expect(audit[entries + 1].before).toBe('')
+    expect(JSON.parse(audit[entries + 1].after!)).toMatchObject({description: 'locked'})
+
+    // Session state and the lock date are not undoable
+    await Project.variables.set('mru', '/sales', false, true)
+    await Project.variables.set('lockDate', '2020-03-31')
+    await history.checkpoint()
+
+    // Not when the transaction is dated on or before the lock date
+    await expect(Project.undo()).rejects.toMatch('can not be changed')
+    expect((await Transaction.query().findById(t.id!)).description).toBe('locked')
+    expect(history.canUndo).toBe(true)
+    expect(Project.variables.get('lockDate')).toBe('2020-03-31')
+
+    await Project.variables.set('lockDate', '2020-02-29')
+    await history.checkpoint()
+    expect(await Project.undo()).toBe(true)
+    expect(await Transaction.query().findById(t.id!)).toBeUndefined()
+    expect(Project.variables.get('lockDate')).toBe('2020-02-29')
+    expect(Project.variables.get('mru')).toBe('/sales')
+    done()
+})
@@ -0,0 +1,88 @@
+import { Project, Account, Transaction, closeYear, reopenYear, closingTransaction,
+    profitAndLoss, balanceSheet } from '../src/core'
+
+const RetainedEarnings = Account.Reserved.RetainedEarnings
+
+beforeAll(() => {
+    return Project.create(':memory:')
+})
+
+afterAll(() => {
+    Project.knex.destroy()
+    return Project.close()
+})
+
+async function createTransaction(date: string, elements: any[]) {
+    const t = Transaction.construct({date, type: Transaction.Raw})
+    await t.mergeElements(elements)
+    await t.save()
+    return t
+}
+
+test('year-end close', async done => {
+    await Project.variables.set('fiscalYear', '0107')
+
+    // Revenue of 100 USD and 50 EUR, expense of 30 USD
+    await createTransaction('2020-03-01', [
+        {accountId: 400, drcr: Transaction.Credit, amount: 10000, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 10000, currency: 'USD'},
+    ])
+    await createTransaction('2020-04-01', [
+        {accountId: 400, drcr: Transaction.Credit, amount: 5000, currency: 'EUR'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 5000, currency: 'EUR'},
+    ])
+    await createTransaction('2020-05-01', [
+        {accountId: 500, drcr: Transaction.Debit, amount: 3000, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Credit, amount: 3000, currency: 'USD'},
+    ])
+    // Next fiscal year
+    await createTransaction('2020-07-01', [
+        {accountId: 400, drcr: Transaction.Credit, amount: 1000, currency: 'USD'},
+        {accountId: 10, drcr: Transaction.Debit, amount: 1000, currency: 'USD'},
+    ])
+
+    const bs0 = await balanceSheet('2020-07-01', '2020-07-31')
+
+    const id = await closeYear('2020-03-01')
+    const t = await Transaction.query().findById(id).withGraphFetched('elements')
+    expect(t).toMatchObject({type: Transaction.Closing, date: '2020-06-30'})
+    expect(t.elements!.length).toBe(5)
+    expect(t.elements).toEqual(expect.arrayContaining([
+        expect.objectContaining({accountId: 400, drcr: Transaction.Debit, amount: 10000, currency: 'USD'}),
+        expect.objectContaining({accountId: 400, drcr: Transaction.Debit, amount: 5000, currency: 'EUR'}),
+        expect.objectContaining({accountId: 500, drcr: Transaction.Credit, amount: 3000, currency: 'USD'}),
+        expect.objectContaining({accountId: RetainedEarnings, drcr: Transaction.Credit, amount: 7000, currency: 'USD'}),
+        expect.objectContaining({accountId: RetainedEarnings, drcr: Transaction.Credit, amount: 5000, currency: 'EUR'}),
+    ]))
+    expect((await closingTransaction('2019-12-31'))!.id).toBe(id)
+
+    // Profit and loss ignores the closing transaction
+    const pl = await profitAndLoss('2019-07-01', '2020-06-30')
+    expect(pl.netProfit).toEqual([{amount: 5000, currency: 'EUR'}, {amount: 7000, currency: 'USD'}])
+
+    // Balance sheet (of the next year) is unchanged
+    const bs1 = await balanceSheet('2020-07-01', '2020-07-31')
+    expect(bs1.netAssets).toEqual(bs0.netAssets)
+    expect(bs1.equity.accounts.totals).toEqual(bs0.equity.accounts.totals)
+    const re = bs1.equity.accounts.groups.find(g => g.accountId == RetainedEarnings)!
+    expect(re.openingBalance).toEqual([{amount: 5000, currency: 'EUR'}, {amount: 7000, currency: 'USD'}])
+
+    // Can't close twice
+    await expect(closeYear('2020-06-30')).rejects.toMatch(/already closed/)
+
+    // Close the next year. Can't reopen the earlier year until the later year is reopened
+    const id2 = await closeYear('2020-07-01')
+    await expect(reopenYear('2020-03-01')).rejects.toMatch(/later fiscal year/)
+    await reopenYear('2020-07-01')
+    expect(await Transaction.query().findById(id2)).toBeUndefined()
+
+    // Reopen
+    await reopenYear('2020-03-01')
+    expect(await Transaction.query().findById(id)).toBeUndefined()
+    expect(await closingTransaction('2020-03-01')).toBeUndefined()
+    await expect(reopenYear('2020-03-01')).rejects.toMatch(/not closed/)
+
+    const bs2 = await balanceSheet('2020-07-01', '2020-07-31')
+    expect(bs2.netAssets).toEqual(bs0.netAssets)
+    done()
+})
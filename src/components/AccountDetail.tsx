@@ -78,6 +78,11 @@ export default function AccountDetail(props: Props) {
                 <h1 className='title inline'>
                     {account.id ? `Account ${account.id}` : 'New account'}
                 </h1>
+                {!!account.id && <span className='tasks'>
+                    {(account.typeGroup == Account.Asset || account.typeGroup == Account.Liability) &&
+                        <><Link to={`/accounts/${account.id}/reconcile`}>Reconcile</Link>&nbsp;|&nbsp;</>}
+                    <Link to={`/reports/general-ledger/${account.id}`}>Ledger</Link>
+                </span>}
             </div>
             <form onSubmit={form.handleSubmit(onSubmit)}>
                 <table className='horizontal-table-form'><tbody><tr className='row row-title'>
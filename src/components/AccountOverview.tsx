@@ -4,7 +4,7 @@
 
 import * as React from 'react'
 import { Account } from '../core'
-import { Column, ReactTable, filterQuery, Filter, sortQuery } from './ReactTable'
+import { Column, ReactTable, State, filterQuery, Filter, sortQuery } from './ReactTable'
 import { Link } from 'react-router-dom'
 
 function LinkToItem(data: any) {
@@ -29,11 +29,7 @@ export default function AccountOverview() {
     const [pageCount, setPageCount] = React.useState<number>(0)
 
     const fetchData = React.useCallback(state => {
-        const q = Account.query()
-        if (state.filters) {
-            state.filters.forEach((f: Filter) => filterQuery(q, f))
-        }
-
+        const q = query(state)
         q.clone().resultSize().then(total => {
             setPageCount(Math.ceil(total / state.pageSize))
         })
@@ -46,6 +42,23 @@ export default function AccountOverview() {
 
     return <div>
         <h1 className='title'>List of accounts</h1>
-        <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState}} />
+        <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState, exportData}}
+            exportFilename='accounts' />
     </div>
 }
+
+function query(state: State) {
+    const q = Account.query()
+    if (state.filters) {
+        state.filters.forEach((f: Filter) => filterQuery(q, f))
+    }
+    return q
+}
+
+async function exportData(state: State) {
+    const accounts = await sortQuery(query(state), state.sortBy)
+    return [
+        ['ID', 'Title', 'Type'],
+        ...accounts.map((a: Account) => [a.id, a.title, Account.TypeInfo[a.type!] ? Account.TypeInfo[a.type!].label : a.type]),
+    ]
+}
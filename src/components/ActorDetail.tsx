@@ -100,6 +100,9 @@ export default function ActorDetail(props: Props) {
                 <h1 className='title inline'>
                     {actor.id ? actor.title : `New ${isCustomer ? 'customer' : 'supplier'}`}
                 </h1>
+                {!!actor.id && <span className='tasks'>
+                    <Link to={`/${actorType}s/${actor.id}/statement`}>Statement</Link>
+                </span>}
             </div>
             <form onSubmit={form.handleSubmit(onSubmit)}>
                 <table className='horizontal-table-form'><tbody><tr className='row row-title'>
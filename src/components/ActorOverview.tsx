@@ -4,7 +4,7 @@
 
 import * as React from 'react'
 import { Actor } from '../core'
-import { Column, ReactTable, filterQuery, Filter, sortQuery, SelectFilter } from './ReactTable'
+import { Column, ReactTable, State, filterQuery, Filter, sortQuery, SelectFilter } from './ReactTable'
 import { Link } from 'react-router-dom'
 
 const ActorTypeOptions = <>
@@ -45,11 +45,7 @@ export default function ActorOverview() {
     const [pageCount, setPageCount] = React.useState<number>(0)
 
     const fetchData = React.useCallback(state => {
-        const q = Actor.query()
-        if (state.filters) {
-            state.filters.forEach((f: Filter) => filterQuery(q, f))
-        }
-
+        const q = query(state)
         q.clone().resultSize().then(total => {
             setPageCount(Math.ceil(total / state.pageSize))
         })
@@ -62,6 +58,24 @@ export default function ActorOverview() {
 
     return <div>
         <h1 className='title'>List of customers and suppliers</h1>
-        <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState}} />
+        <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState, exportData}}
+            exportFilename='customers-and-suppliers' />
     </div>
 }
+
+function query(state: State) {
+    const q = Actor.query()
+    if (state.filters) {
+        state.filters.forEach((f: Filter) => filterQuery(q, f))
+    }
+    return q
+}
+
+async function exportData(state: State) {
+    const actors = await sortQuery(query(state), state.sortBy)
+    return [
+        ['ID', 'Name', 'Type', 'Tax id'],
+        ...actors.map((a: Actor) => [a.id, a.title, Actor.TypeInfo[a.type!] ? Actor.TypeInfo[a.type!].label : a.type,
+            a.taxId ? `${a.taxIdLabel} ${a.taxId}` : '']),
+    ]
+}
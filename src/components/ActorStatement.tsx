@@ -0,0 +1,191 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Document, Page, View } from '@react-pdf/renderer'
+import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { Actor, Transaction, ActorStatement as Statement, actorStatement,
+    DatePreset, datePresetDates, formatDateOnly, toFormatted } from '../core'
+import { DateRange, ReportHeader } from './Reports'
+import { datePresetSelectOptions } from './SelectOptions'
+import { transactionUrl } from './TransactionOverview'
+
+type Props = {
+    arg1?: string
+    customer?: boolean
+    supplier?: boolean
+}
+
+export default function ActorStatement(props: Props) {
+    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+    const actorType = props.supplier ? Actor.Supplier : Actor.Customer
+    const [preset, setPreset] = React.useState<string>('this-year')
+    const [startDate, setStartDate] = React.useState<string>(datePresetDates('this-year')[0])
+    const [endDate, setEndDate] = React.useState<string>(datePresetDates('this-year')[1])
+    const [pdf, setPdf] = React.useState<boolean>(false)
+    const [info, setInfo] = React.useState<Statement>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    function onPresetChange(e: any) {
+        const value = e.target.value
+        setPreset(value)
+
+        if (value != 'custom') {
+            const range = datePresetDates(value as DatePreset)
+            setStartDate(range[0])
+            setEndDate(range[1])
+        }
+    }
+
+    function onDateChange(startDate: string, endDate: string) {
+        setStartDate(startDate)
+        setEndDate(endDate)
+    }
+
+    React.useEffect(() => {
+        if (argId && startDate && endDate) {
+            actorStatement(argId, startDate, endDate).then(data => {
+                if (data.actorType != actorType) {
+                    return Promise.reject('Not found')
+                }
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [argId, startDate, endDate])
+
+    const report = React.useMemo(() => {
+        return info && pdf ? renderReport(info) : null
+    }, [info && nonce ? nonce : 0, pdf])
+
+    return <div>
+        <div className='title-pane'>
+            <span className='breadcrumb'><Link to='/actors'>Customers and Suppliers</Link> » {info &&
+                <><Link to={`/${actorType}s/${argId}`}>{info.actorTitle}</Link> » </>}</span>
+            <h1 className='title inline'>Statement</h1>
+        </div>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date-preset'>
+            <th scope='row'>
+                <label htmlFor='preset'>Date:</label>
+            </th><td>
+                <select name='preset' value={preset} onChange={onPresetChange}>
+                    {datePresetSelectOptions()}
+                </select>
+                {preset == 'custom' && <DateRange onChange={onDateChange} startDate={startDate} endDate={endDate} />}
+            </td>
+        </tr><tr className='row row-pdf'>
+            <th scope='row'>
+                <label htmlFor='pdf'>PDF:</label>
+            </th><td>
+                <input type='checkbox' name='pdf' checked={pdf} onChange={e => {setPdf(e.target.checked)}} />
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && !pdf && <StatementTables info={info} />}
+        {report && <PDFView _key={nonce} filename={`statement-${argId}.pdf`}>{report}</PDFView>}
+    </div>
+}
+
+function StatementTables({info}: {info: Statement}) {
+    if (info.currencies.length == 0) {
+        return <div>No transactions</div>
+    }
+
+    return <>{info.currencies.map(c => {
+        const format = (amount: number) => toFormatted(amount, c.currency)
+        return <table key={c.currency} className='data-table actor-statement'><thead><tr>
+            <th>Date</th>
+            <th>Item</th>
+            <th>Description</th>
+            <th>Due</th>
+            <th>Amount ({c.currency})</th>
+            <th>Balance ({c.currency})</th>
+        </tr></thead><tbody><tr className='opening'>
+            <td>{formatDateOnly(info.startDate)}</td>
+            <td colSpan={4}>Opening balance</td>
+            <td>{format(c.openingBalance)}</td>
+        </tr>
+        {c.items.map(item => {
+            const url = transactionUrl({id: item.transactionId, type: item.txnType})
+            const label = `${Transaction.TypeInfo[item.txnType] ? Transaction.TypeInfo[item.txnType].label : ''} ${item.transactionId}`
+            return <tr key={item.transactionId}>
+                <td>{formatDateOnly(item.date)}</td>
+                <td>{url ? <Link to={url}>{label}</Link> : label}</td>
+                <td>{item.description}</td>
+                <td>{item.due ? formatDateOnly(item.due) : ''}</td>
+                <td>{format(item.amount)}</td>
+                <td>{format(item.balance)}</td>
+            </tr>
+        })}
+        <tr className='closing'>
+            <td>{formatDateOnly(info.endDate)}</td>
+            <td colSpan={4}>Closing balance</td>
+            <td>{format(c.closingBalance)}</td>
+        </tr></tbody></table>
+    })}</>
+}
+
+function renderReport(info: Statement) {
+    const isCustomer = info.actorType == Actor.Customer
+
+    return <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} title='Statement of Account' />
+        </View>
+
+        <Tr key='actor' style={{marginBottom: 3}}>
+            <ThLeft width={15}>{isCustomer ? 'Customer:' : 'Supplier:'}</ThLeft>
+            <TdLeft width={85}>{info.actorTitle}</TdLeft>
+        </Tr>
+        {!!info.actorAddress && <Tr key='address' style={{marginBottom: 3}}>
+            <ThLeft width={15}></ThLeft>
+            <TdLeft width={85}>{info.actorAddress}</TdLeft>
+        </Tr>}
+
+        {info.currencies.length == 0 && <Tr key='none' style={{marginTop: 12}}>
+            <TdLeft width={100}><T>No transactions</T></TdLeft>
+        </Tr>}
+
+        {info.currencies.map(c => {
+            const format = (amount: number) => `${toFormatted(amount, c.currency)} ${c.currency}`
+            return <View key={c.currency} style={{marginTop: 12}}>
+                <Tr key='header' style={{marginBottom: 6}}>
+                    <ThLeft width={12} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
+                    <ThLeft width={14} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
+                    <Th width={32} innerStyle={{borderBottomWidth: 1}}>Description</Th>
+                    <ThLeft width={12} innerStyle={{borderBottomWidth: 1}}>Due</ThLeft>
+                    <ThRight width={15} innerStyle={{borderBottomWidth: 1}}>Amount</ThRight>
+                    <ThRight width={15} innerStyle={{borderBottomWidth: 1}}>Balance</ThRight>
+                </Tr>
+                <Tr key='opening'>
+                    <TdLeft width={12}>{formatDateOnly(info.startDate)}</TdLeft>
+                    <TdLeft width={73}>Opening balance</TdLeft>
+                    <TdRight width={15}>{format(c.openingBalance)}</TdRight>
+                </Tr>
+                {c.items.map(item => <Tr key={item.transactionId}>
+                    <TdLeft width={12}>{formatDateOnly(item.date)}</TdLeft>
+                    <TdLeft width={14}>
+                        {!!Transaction.TypeInfo[item.txnType] && Transaction.TypeInfo[item.txnType].shortLabel} {item.transactionId}
+                    </TdLeft>
+                    <TdLeft width={32} innerStyle={{maxLines: 2}}>{item.description}</TdLeft>
+                    <TdLeft width={12}>{item.due ? formatDateOnly(item.due) : ''}</TdLeft>
+                    <TdRight width={15}>{format(item.amount)}</TdRight>
+                    <TdRight width={15}>{format(item.balance)}</TdRight>
+                </Tr>)}
+                <Tr key='closing' style={{marginTop: 3}}>
+                    <ThLeft width={85}>{isCustomer ? 'Amount owing' : 'Amount owed'}</ThLeft>
+                    <ThRight width={15} innerStyle={{borderTopWidth: 1, borderBottomWidth: 2, paddingVertical: 3}}>
+                        {format(c.closingBalance)}
+                    </ThRight>
+                </Tr>
+            </View>
+        })}
+    </Page></Document>
+}
@@ -0,0 +1,165 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Document, Page, View } from '@react-pdf/renderer'
+import DatePicker from 'react-datepicker'
+import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { Transaction, AgedBuckets, AgedBalances as Report, agedBalances,
+    dateFormatString as dfs, toDateOnly, parseISO, formatDateOnly, toFormatted, agedBalancesRows } from '../core'
+import { ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
+
+export function AgedBalances({payables}: {payables?: boolean}) {
+    const [date, setDate] = React.useState<string>(toDateOnly(new Date()))
+    const [detail, setDetail] = React.useState<boolean>(false)
+    const [pdf, setPdf] = React.useState<boolean>(false)
+    const [info, setInfo] = React.useState<Report>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+    const title = payables ? 'Aged Payables' : 'Aged Receivables'
+
+    React.useEffect(() => {
+        if (date) {
+            agedBalances(date, payables).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [date, payables])
+
+    const report = React.useMemo(() => {
+        return info && pdf ? renderReport(info, title, detail) : null
+    }, [info && nonce ? nonce : 0, pdf, detail])
+
+    return <div>
+        <h1 className='title'>{title}</h1>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date'>
+            <th scope='row'>
+                <label htmlFor='date'>As at:</label>
+            </th><td>
+                <DatePicker
+                    name='date'
+                    selected={date ? parseISO(date) : null}
+                    onChange={(date: Date) => setDate(date ? toDateOnly(date) : '')}
+                    dateFormat={dfs()}
+                />
+            </td>
+        </tr><tr className='row row-detail'>
+            <th scope='row'>
+                <label htmlFor='detail'>Detail:</label>
+            </th><td>
+                <input type='checkbox' name='detail' checked={detail} onChange={e => {setDetail(e.target.checked)}} />
+            </td>
+        </tr><tr className='row row-pdf'>
+            <th scope='row'>
+                <label htmlFor='pdf'>PDF:</label>
+            </th><td>
+                <input type='checkbox' name='pdf' checked={pdf} onChange={e => {setPdf(e.target.checked)}} />
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename={payables ? 'aged-payables' : 'aged-receivables'} rows={() => agedBalancesRows(info)} />}
+        {info && !pdf && <AgedTable info={info} detail={detail} payables={payables} />}
+        {report && <PDFView _key={nonce} filename={payables ? 'aged-payables.pdf' : 'aged-receivables.pdf'}>{report}</PDFView>}
+    </div>
+}
+
+function AgedTable({info, detail, payables}: {info: Report, detail: boolean, payables?: boolean}) {
+    if (info.actors.length == 0) {
+        return <div>Nothing outstanding</div>
+    }
+
+    const actorType = payables ? 'supplier' : 'customer'
+    const urlPart = payables ? 'purchase' : 'sale'
+
+    return <table className='data-table aged-balances'><thead><tr>
+        <th>{payables ? 'Supplier' : 'Customer'}</th>
+        <th>Currency</th>
+        {AgedBuckets.map(label => <th key={label}>{label}</th>)}
+        <th>Total</th>
+    </tr></thead><tbody>
+    {info.actors.map(group => <React.Fragment key={`${group.actorId}-${group.currency}`}>
+        <tr className='actor'>
+            <td><Link to={`/${actorType}s/${group.actorId}/statement`}>{group.actorTitle}</Link></td>
+            <td>{group.currency}</td>
+            {group.buckets.map((amount, index) => <td key={index}>{toFormatted(amount, group.currency)}</td>)}
+            <td>{toFormatted(group.total, group.currency)}</td>
+        </tr>
+        {detail && group.items.map(item => <tr key={item.transactionId} className='item'>
+            <td colSpan={2}>
+                <Link to={`/${urlPart}s/${item.transactionId}`}>
+                    {Transaction.TypeInfo[item.txnType].label} {item.transactionId}
+                </Link> {formatDateOnly(item.due || item.date)}
+            </td>
+            {AgedBuckets.map((label, index) =>
+                <td key={label}>{index == item.bucket ? toFormatted(item.amount, item.currency) : ''}</td>)}
+            <td></td>
+        </tr>)}
+    </React.Fragment>)}
+    {info.totals.map(money => <tr key={money.currency} className='total'>
+        <th>Total</th>
+        <th>{money.currency}</th>
+        {money.buckets.map((amount, index) => <th key={index}>{toFormatted(amount, money.currency)}</th>)}
+        <th>{toFormatted(money.amount, money.currency)}</th>
+    </tr>)}
+    </tbody></table>
+}
+
+function renderReport(info: Report, title: string, detail: boolean) {
+    const bucketWidth = 11
+
+    return <Document><Page size='A4' orientation='landscape' style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader endDate={info.date} title={title} />
+            <Tr key='header' style={{marginBottom: 6}}>
+                <ThLeft width={25} innerStyle={{borderBottomWidth: 1}}>Name</ThLeft>
+                <ThLeft width={8} innerStyle={{borderBottomWidth: 1}}>Currency</ThLeft>
+                {AgedBuckets.map(label =>
+                    <ThRight key={label} width={bucketWidth} innerStyle={{borderBottomWidth: 1}}>{label}</ThRight>)}
+                <ThRight width={12} innerStyle={{borderBottomWidth: 1}}>Total</ThRight>
+            </Tr>
+        </View>
+
+        {info.actors.length == 0 && <Tr key='none'><TdLeft width={100}><T>Nothing outstanding</T></TdLeft></Tr>}
+
+        {info.actors.map(group => <View key={`${group.actorId}-${group.currency}`} wrap={false}
+            style={{marginBottom: detail ? 6 : 0}}>
+            <Tr key='actor'>
+                <TdLeft width={25} innerStyle={{maxLines: 1}}>{group.actorTitle}</TdLeft>
+                <TdLeft width={8}>{group.currency}</TdLeft>
+                {group.buckets.map((amount, index) =>
+                    <TdRight key={index} width={bucketWidth}>{toFormatted(amount, group.currency)}</TdRight>)}
+                <TdRight width={12}>{toFormatted(group.total, group.currency)}</TdRight>
+            </Tr>
+            {detail && group.items.map(item => <Tr key={item.transactionId}>
+                <TdLeft width={33} indent={2}>
+                    {Transaction.TypeInfo[item.txnType].shortLabel} {item.transactionId}, {formatDateOnly(item.due || item.date)}
+                </TdLeft>
+                {AgedBuckets.map((label, index) =>
+                    <TdRight key={label} width={bucketWidth}>
+                        {index == item.bucket ? toFormatted(item.amount, item.currency) : ''}
+                    </TdRight>)}
+                <TdRight width={12}></TdRight>
+            </Tr>)}
+        </View>)}
+
+        {info.totals.map((money, index) => <Tr key={money.currency} style={index == 0 ? {marginTop: 6} : {}}>
+            <ThLeft width={25}>{index == 0 ? 'Total' : ''}</ThLeft>
+            <ThLeft width={8}>{money.currency}</ThLeft>
+            {money.buckets.map((amount, index) =>
+                <ThRight key={index} width={bucketWidth} innerStyle={{borderTopWidth: 1, paddingTop: 3}}>
+                    {toFormatted(amount, money.currency)}
+                </ThRight>)}
+            <ThRight width={12} innerStyle={{borderTopWidth: 1, paddingTop: 3}}>
+                {toFormatted(money.amount, money.currency)}
+            </ThRight>
+        </Tr>)}
+    </Page></Document>
+}
@@ -6,7 +6,7 @@ import * as React from 'react'
 import Menu, { MenuItem, SubMenu, Divider } from 'rc-menu'
 import { HashRouter, Route, Switch, useParams, Redirect } from 'react-router-dom'
 import { ErrorBoundary, FallbackProps } from 'react-error-boundary'
-import { Project } from '../core'
+import { Project, Preferences, AuditLog } from '../core'
 import { newHistorySegment, NavBar } from './NavBar'
 import { fileMenu, fileMenuAction } from './FileMenu'
 import ErrorPane from './ErrorPane'
@@ -20,16 +20,37 @@ import AccountOverview from './AccountOverview'
 import AccountDetail from './AccountDetail'
 import ActorOverview from './ActorOverview'
 import ActorDetail from './ActorDetail'
+import ActorStatement from './ActorStatement'
 import ContributeCapital from './ContributeCapital'
-import { TransactionOverview, SalesOverview, PurchasesOverview } from './TransactionOverview'
+import Distribution from './Distribution'
+import Transfer from './Transfer'
+import YearEndClose from './YearEndClose'
+import ExchangeRevaluation from './ExchangeRevaluation'
+import Interchange from './Interchange'
+import RecurringOverview from './RecurringOverview'
+import RecurringDetail from './RecurringDetail'
+import StatementOverview from './StatementOverview'
+import StatementImport from './StatementImport'
+import StatementDetail from './StatementDetail'
+import Reconcile from './Reconcile'
+import ReconciliationReport from './ReconciliationReport'
+import { TransactionOverview, SalesOverview, PurchasesOverview, TransfersOverview } from './TransactionOverview'
 import TransactionDetail from './TransactionDetail'
 import 'react-datepicker/dist/react-datepicker.css'
 import Sale from './Sale'
 import SalePDF from './SalePDF'
 import Purchase from './Purchase'
 import { refreshWindowTitle } from '../util/util'
+import { playAlert } from '../util/sound'
 import { mruList, mruInsert, mruClear, mruDir } from '../util/mru'
 import { ProfitAndLoss } from './ProfitAndLoss'
+import { AgedBalances } from './AgedBalances'
+import { CashFlow } from './CashFlow'
+import { TrialBalance } from './TrialBalance'
+import GeneralLedger from './GeneralLedger'
+import Budgets from './Budgets'
+import ExchangeRateHistory from './ExchangeRateHistory'
+import { BudgetVsActual } from './BudgetVsActual'
 import { BalanceSheet } from './BalanceSheet'
 import { TransactionTaxesDetail } from './TransactionTaxes'
 import { taxReportsMenuItems, TaxReportsRouter } from './TaxReports'
@@ -81,6 +102,7 @@ function App() {
     React.useEffect(() => {
         newHistorySegment()
         refresh()
+        AuditLog.user = Preferences.get('userName') || ''
 
         window.addEventListener('beforeunload', beforeUnloadListener)
         window.addEventListener('rejectionhandled', rejectionLogger)
@@ -240,6 +262,8 @@ function AppMenu(props: {open: boolean, hasFilename: boolean, mru: string[], ref
     const [redirect, setRedirect] = React.useState<RedirectSpec>({path: ''})
     const [trigger, setTrigger] = React.useState<'hover' | 'click'>('hover')
     const [nonce, setNonce] = React.useState<number>(0)
+    // Re-render whenever a submenu opens so that Undo/Redo are enabled correctly
+    const [, setOpenCount] = React.useState<number>(0)
 
     useParams()     // This is needed somehow. Don't know why.
 
@@ -267,10 +291,25 @@ function AppMenu(props: {open: boolean, hasFilename: boolean, mru: string[], ref
                 }
             })
         }
+        else if (info.keyPath.length > 1 && info.keyPath[info.keyPath.length - 1] == 'edit') {
+            Project.undo(key == 'redo').then(changed => {
+                // Re-create the current page so it shows the restored data
+                props.refreshApp(changed)
+            }).catch(e => {
+                playAlert()
+                if (__WEB__) {
+                    window.alert(e.toString())
+                }
+                else {
+                    dialog.error(e.toString())
+                }
+            })
+        }
         setNonce(nonce + 1)
     }
 
     const path = window.location.hash.substring(1)
+    const history = props.open ? Project.project!.history : undefined
     if (redirect.path != '' && redirect.path != path) {
         return <Redirect push={redirect.push} to={`${redirect.path}`} />
     }
@@ -281,8 +320,13 @@ function AppMenu(props: {open: boolean, hasFilename: boolean, mru: string[], ref
         key={nonce}
         mode='horizontal'
         triggerSubMenuAction={trigger}
-        onClick={onClick}>
+        onClick={onClick}
+        onOpenChange={() => setOpenCount(count => count + 1)}>
         {fileMenu(props)}
+        {props.open && <SubMenu key='edit' title="Edit">
+            <MenuItem key='undo' disabled={!history || !history.canUndo}>Undo</MenuItem>
+            <MenuItem key='redo' disabled={!history || !history.canRedo}>Redo</MenuItem>
+        </SubMenu>}
         {props.open && <SubMenu key='1' title="Sales">
             <MenuItem key='/sales'>List</MenuItem>
             <MenuItem key='/sales/new'>New sale</MenuItem>
@@ -301,19 +345,40 @@ function AppMenu(props: {open: boolean, hasFilename: boolean, mru: string[], ref
             <MenuItem key='/accounts/new'>New account</MenuItem>
             <Divider />
             <MenuItem key='/contributions/new'>New contribution</MenuItem>
+            <MenuItem key='/distributions/new'>New drawing or dividend</MenuItem>
+            <MenuItem key='/transfers'>Transfers</MenuItem>
+            <MenuItem key='/transfers/new'>New transfer</MenuItem>
             <Divider />
             <MenuItem key='/transactions'>Journal</MenuItem>
             <MenuItem key='/transactions/new'>New raw journal entry</MenuItem>
+            <MenuItem key='/transactions/exchange'>New currency exchange</MenuItem>
+            <MenuItem key='/recurring'>Recurring transactions</MenuItem>
+            <MenuItem key='/budgets'>Budgets</MenuItem>
+            <Divider />
+            <MenuItem key='/statements'>Bank statements</MenuItem>
+            <MenuItem key='/statements/import'>Import bank statement</MenuItem>
+            <Divider />
+            <MenuItem key='/year-end'>Year-end close</MenuItem>
+            <MenuItem key='/revaluation'>Exchange revaluation</MenuItem>
+            <MenuItem key='/interchange'>Import / Export</MenuItem>
             <Divider />
             <MenuItem key='/settings'>Settings</MenuItem>
             <MenuItem key='/settings/tax'>Tax Settings</MenuItem>
+            <MenuItem key='/exchange-rates'>Exchange rates</MenuItem>
         </SubMenu>}
         {props.open && <SubMenu key='reports' title="Reports">
             <MenuItem key='/reports/pl-summary'>Profit and Loss: Summary</MenuItem>
             <MenuItem key='/reports/pl-detail'>Profit and Loss: Detail</MenuItem>
             <MenuItem key='/reports/bs'>Balance Sheet</MenuItem>
             <MenuItem key='/reports/bs-log'>Balance Sheet: Log</MenuItem>
+            <MenuItem key='/reports/cash-flow'>Cash Flow Statement</MenuItem>
+            <MenuItem key='/reports/trial-balance'>Trial Balance</MenuItem>
+            <MenuItem key='/reports/general-ledger'>General Ledger</MenuItem>
+            <MenuItem key='/reports/budget'>Budget vs Actual</MenuItem>
+            <MenuItem key='/reports/aged-receivables'>Aged Receivables</MenuItem>
+            <MenuItem key='/reports/aged-payables'>Aged Payables</MenuItem>
             <MenuItem key='/reports/tax-detail'>Transaction Tax: Detail</MenuItem>
+            <MenuItem key='/reports/reconciliation'>Reconciliation</MenuItem>
             {taxReportsMenuItems()}
         </SubMenu>}
         <SubMenu key='help' title="Help">
@@ -352,6 +417,36 @@ function Main({open, refreshApp}: {open: boolean, refreshApp: (newMain?: boolean
         <Route path='/reports/bs'>
             <BalanceSheet summary />
         </Route>
+        <Route path='/reports/cash-flow'>
+            <CashFlow />
+        </Route>
+        <Route path='/reports/trial-balance'>
+            <TrialBalance />
+        </Route>
+        <Route path='/reports/general-ledger/:arg1'>
+            <DispatchWithParams element={GeneralLedger} />
+        </Route>
+        <Route path='/reports/general-ledger'>
+            <GeneralLedger />
+        </Route>
+        <Route path='/reports/budget'>
+            <BudgetVsActual />
+        </Route>
+        <Route path='/reports/aged-receivables'>
+            <AgedBalances />
+        </Route>
+        <Route path='/reports/aged-payables'>
+            <AgedBalances payables />
+        </Route>
+        <Route path='/reports/reconciliation/:arg1'>
+            <DispatchWithParams element={ReconciliationReport} />
+        </Route>
+        <Route path='/reports/reconciliation'>
+            <ReconciliationReport />
+        </Route>
+        <Route path='/purchases/reverse/:arg1'>
+            <DispatchWithParams element={Purchase} reverse />
+        </Route>
         <Route path='/purchases/:arg1'>
             <DispatchWithParams element={Purchase} />
         </Route>
@@ -361,6 +456,9 @@ function Main({open, refreshApp}: {open: boolean, refreshApp: (newMain?: boolean
         <Route path='/sales/:arg1/pdf'>
             <DispatchWithParams element={SalePDF} />
         </Route>
+        <Route path='/sales/reverse/:arg1'>
+            <DispatchWithParams element={Sale} reverse />
+        </Route>
         <Route path='/sales/:arg1'>
             <DispatchWithParams element={Sale} />
         </Route>
@@ -370,21 +468,72 @@ function Main({open, refreshApp}: {open: boolean, refreshApp: (newMain?: boolean
         <Route path='/contributions/:arg1'>
             <DispatchWithParams element={ContributeCapital} />
         </Route>
+        <Route path='/distributions/:arg1'>
+            <DispatchWithParams element={Distribution} />
+        </Route>
+        <Route path='/transfers/:arg1'>
+            <DispatchWithParams element={Transfer} />
+        </Route>
+        <Route path='/transfers'>
+            <TransfersOverview />
+        </Route>
+        <Route path='/recurring/from/:arg1'>
+            <DispatchWithParams element={RecurringDetail} fromTransaction />
+        </Route>
+        <Route path='/recurring/:arg1'>
+            <DispatchWithParams element={RecurringDetail} />
+        </Route>
+        <Route path='/recurring'>
+            <RecurringOverview />
+        </Route>
+        <Route path='/statements/import'>
+            <StatementImport />
+        </Route>
+        <Route path='/statements/:arg1'>
+            <DispatchWithParams element={StatementDetail} />
+        </Route>
+        <Route path='/statements'>
+            <StatementOverview />
+        </Route>
+        <Route path='/year-end'>
+            <YearEndClose />
+        </Route>
+        <Route path='/revaluation'>
+            <ExchangeRevaluation />
+        </Route>
+        <Route path='/interchange'>
+            <Interchange />
+        </Route>
         <Route path='/transactions/:arg1'>
             <DispatchWithParams element={TransactionDetail} />
         </Route>
         <Route path='/transactions'>
             <TransactionOverview />
         </Route>
+        <Route path='/suppliers/:arg1/statement'>
+            <DispatchWithParams element={ActorStatement} supplier />
+        </Route>
+        <Route path='/customers/:arg1/statement'>
+            <DispatchWithParams element={ActorStatement} customer />
+        </Route>
         <Route path='/suppliers/:arg1'>
             <DispatchWithParams element={ActorDetail} supplier />
         </Route>
         <Route path='/customers/:arg1'>
             <DispatchWithParams element={ActorDetail} customer />
         </Route>
+        <Route path='/budgets'>
+            <Budgets />
+        </Route>
+        <Route path='/exchange-rates'>
+            <ExchangeRateHistory />
+        </Route>
         <Route path='/actors'>
             <ActorOverview />
         </Route>
+        <Route path='/accounts/:arg1/reconcile'>
+            <DispatchWithParams element={Reconcile} />
+        </Route>
         <Route path='/accounts/:arg1'>
             <DispatchWithParams element={AccountDetail} />
         </Route>
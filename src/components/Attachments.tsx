@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Attachment, MAX_ATTACHMENT_SIZE } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { saveFile } from './Export'
+
+// The PDF viewer is only loaded when it is needed
+const Viewer = React.lazy(() => import('./PDFView').then(module => ({default: module.Viewer})))
+
+type Props = {
+    transactionId?: number
+    actorId?: number
+}
+
+// Reads a file and returns it's content
+function readFile(file: File): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+        reader.onerror = () => reject(`Unable to read ${file.name}`)
+        reader.readAsArrayBuffer(file)
+    })
+}
+
+function toBlob(attachment: Attachment) {
+    return new Blob([attachment.data!], {type: attachment.mimeType || 'application/octet-stream'})
+}
+
+function formatSize(size: number) {
+    return size < 1024 ? `${size} bytes` : size < 1024 * 1024 ?
+        `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Lists, adds and removes the files attached to a transaction (or a customer
+// or supplier). PDFs and images can be viewed inline.
+export default function Attachments(props: Props) {
+    const [attachments, setAttachments] = React.useState<Attachment[]>()
+    const [viewing, setViewing] = React.useState<{attachment: Attachment, blob: Blob, url: string}>()
+    const [nonce, setNonce] = React.useState<number>(0)
+    const [error, setError] = React.useState<string>('')
+    const target = {transactionId: props.transactionId, actorId: props.actorId}
+
+    React.useEffect(() => {
+        let mounted = true
+        Attachment.list(target).then(rows => {
+            if (mounted) {
+                setAttachments(rows)
+            }
+        })
+        return () => {mounted=false}
+    }, [props.transactionId, props.actorId, nonce])
+
+    // Release the object url of the viewed file
+    React.useEffect(() => {
+        return () => {
+            if (viewing) {
+                URL.revokeObjectURL(viewing.url)
+            }
+        }
+    }, [viewing])
+
+    async function addFiles(files: File[]) {
+        for (let file of files) {
+            if (file.size > MAX_ATTACHMENT_SIZE) {
+                return Promise.reject(`${file.name} is too large. The maximum is ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB.`)
+            }
+            const data = await readFile(file)
+            await Attachment.construct({...target, filename: file.name, mimeType: file.type, size: file.size, data}).save()
+        }
+    }
+
+    function onFiles(e: React.ChangeEvent<HTMLInputElement>) {
+        const input = e.target
+        addFiles(Array.from(input.files || [])).then(() => {
+            playSuccess()
+            setError('')
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        }).finally(() => {
+            input.value = ''
+            setNonce(nonce + 1)
+        })
+    }
+
+    function onView(e: any, info: Attachment) {
+        e.preventDefault()
+        Attachment.query().findById(info.id!).then(attachment => {
+            const blob = toBlob(attachment)
+            if (attachment.isPdf || attachment.isImage) {
+                setViewing({attachment, blob, url: URL.createObjectURL(blob)})
+            }
+            else {
+                return saveFile(attachment.filename!, blob, 'Save attachment as')
+            }
+        }).then(() => {
+            setError('')
+        }).catch(e => {
+            setError(e.toString())
+        })
+    }
+
+    function onRemove(attachment: Attachment) {
+        attachment.delete().then(() => {
+            if (viewing && viewing.attachment.id == attachment.id) {
+                setViewing(undefined)
+            }
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    return attachments ? <div className='attachments'>
+        <h2>Attachments</h2>
+        {attachments.length > 0 && <table className='data-table'><tbody>
+            {attachments.map(attachment => <tr key={attachment.id}>
+                <td><a href='#' onClick={e => onView(e, attachment)}>{attachment.filename}</a></td>
+                <td>{formatSize(attachment.size!)}</td>
+                <td><button type='button' onClick={() => onRemove(attachment)}>Remove</button></td>
+            </tr>)}
+        </tbody></table>}
+        <div className='attachments-add'>
+            <label htmlFor='attachments'>Attach files:</label>
+            <input type='file' name='attachments' multiple onChange={onFiles} />
+        </div>
+        <div className='error'>
+            {error}
+        </div>
+        {viewing && <div className='attachment-viewer'>
+            <div className='attachment-viewer-title'>
+                {viewing.attachment.filename}&nbsp;
+                <button type='button' onClick={() => setViewing(undefined)}>Close</button>
+            </div>
+            {viewing.attachment.isPdf ? <React.Suspense fallback={null}>
+                <Viewer key={viewing.url} blob={viewing.blob} url={viewing.url} loading={false} error={null}
+                    filename={viewing.attachment.filename} />
+            </React.Suspense> :
+                <img className='attachment-image' src={viewing.url} alt={viewing.attachment.filename} />}
+        </div>}
+    </div> : null
+}
@@ -6,8 +6,11 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, B, T, Tr, Th, ThLeft, ThRight, Td, TdLeft, TdRight } from './PDFView'
 import { Transaction, formatDateOnly, toFormatted,
-    Money, BalanceSheet, balanceSheet, datePresetDates } from '../core'
-import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader, ExchangeRates } from './Reports'
+    Money, BalanceSheet, balanceSheet, datePresetDates,
+    DatedRate, DateComparison, comparisonDates, comparativeLines, comparativeTotals, balanceSheetRows } from '../core'
+import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader } from './Reports'
+import { ComparativeDocument, ComparativeRow, ComparisonSelect, comparativeExportRows } from './ComparativeReport'
+import { ExportLinks } from './Export'
 import { currencySelectOptions, datePresetSelectOptions } from './SelectOptions'
 
 const Debit = Transaction.Debit
@@ -18,7 +21,11 @@ export function BalanceSheet({summary}: {summary?: boolean}) {
     const [startDate, setStartDate] = React.useState<string>('')
     const [endDate, setEndDate] = React.useState<string>('')
     const [currency, setCurrency] = React.useState<string>('')
+    const [rateDate, setRateDate] = React.useState<string>('')
+    const [comparison, setComparison] = React.useState<string>('')
+    const [count, setCount] = React.useState<number>(1)
     const [info, setInfo] = React.useState<BalanceSheet>()
+    const [compared, setCompared] = React.useState<{periods: string[][], reports: BalanceSheet[]}>()
     const [error, setError] = React.useState<string>('')
     const [nonce, setNonce] = React.useState<number>(0)
 
@@ -42,22 +49,43 @@ export function BalanceSheet({summary}: {summary?: boolean}) {
         setCurrency(e.target.value)
     }
 
+    function onComparisonChange(comparison: string, count: number) {
+        setComparison(comparison)
+        setCount(count)
+    }
+
     React.useEffect(() => {
         if (startDate && endDate) {
-            balanceSheet(startDate, endDate, currency).then(data => {
-                setInfo(data)
+            // Comparisons only apply to the summary
+            const periods = summary && comparison ?
+                comparisonDates(startDate, endDate, comparison as DateComparison, count) : [[startDate, endDate]]
+
+            Promise.all(periods.map(([start, end]) => balanceSheet(start, end, currency, rateDate == 'end' ? end : undefined))).then(reports => {
+                setInfo(reports[0])
+                setCompared(summary && comparison ? {periods, reports} : undefined)
                 setError('')
                 setNonce(Date.now())
             }).catch(e => {
                 setError(e.toString())
             })
         }
-    }, [startDate, endDate, currency])
+    }, [startDate, endDate, currency, rateDate, summary, comparison, count])
 
     const report = React.useMemo(() => {
+        if (info && compared) {
+            return <ComparativeDocument
+                title='Balance Sheet'
+                periods={compared.periods}
+                comparison={comparison as DateComparison}
+                asAt={true}
+                rows={comparativeRows(compared.reports)}
+                rates={usedRates(compared.reports)}
+            />
+        }
+
         return info ? <Document>{summary ? <Page size='A4' style={[Styles.page, {fontSize: 9}]}>
             <View fixed={true}>
-                <ReportHeader endDate={info.endDate} title='Balance Sheet' />
+                <ReportHeader endDate={info.endDate} rates={info.rates} title='Balance Sheet' />
             </View>
 
             <Tr key='assets' style={{marginBottom: 3}}><Th width={50}>ASSETS</Th></Tr>
@@ -79,11 +107,10 @@ export function BalanceSheet({summary}: {summary?: boolean}) {
             <Tr key='label' style={{marginBottom: 3}}><Th width={50}>EQUITY</Th></Tr>
             <Subdivision label={false} subdivision={info.equity.accounts} drcr={Credit} />
             <Totals totals={info.equity.accounts.totals} label='TOTAL EQUITY' width={50} />
-            <ExchangeRates rates={info.exchangeRates} />
         </Page> :
         <Page size='A4' style={[Styles.page, {fontSize: 9}]}>
             <View fixed={true}>
-                <ReportHeader startDate={info.startDate} endDate={info.endDate} title='Balance Sheet: Log' />
+                <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='Balance Sheet: Log' />
                 <Tr key='header' style={{marginBottom: 6}}>
                     <ThLeft width={18} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
                     <ThLeft width={11} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
@@ -113,7 +140,6 @@ export function BalanceSheet({summary}: {summary?: boolean}) {
             <Tr key='label' style={{marginBottom: 3}}><Th width={100}>EQUITY</Th></Tr>
             <SubdivisionLog label={false} subdivision={info.equity.accounts} drcr={Credit} />
             <Totals totals={info.equity.accounts.totals} label='TOTAL EQUITY' />
-            <ExchangeRates rates={info.exchangeRates} />
         </Page>}</Document> : null
     }, [summary, info && nonce ? nonce : 0])
 
@@ -138,13 +164,66 @@ export function BalanceSheet({summary}: {summary?: boolean}) {
                     {currencySelectOptions()}
                 </select>
             </td>
-        </tr></tbody></table>
+        </tr>{currency && <tr className='row row-rate-date'>
+            <th scope='row'>
+                <label htmlFor='rateDate'>Exchange rates:</label>
+            </th><td>
+                <select name='rateDate' value={rateDate} onChange={e => {setRateDate(e.target.value)}}>
+                    <option key='' value=''>On each transaction date</option>
+                    <option key='end' value='end'>On the end date</option>
+                </select>
+            </td>
+        </tr>}{summary && <tr className='row row-comparison'>
+            <th scope='row'>
+                <label htmlFor='comparison'>Compare:</label>
+            </th><td>
+                <ComparisonSelect comparison={comparison} count={count} onChange={onComparisonChange} />
+            </td>
+        </tr>}</tbody></table>
 
         {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename={`balance-sheet${summary ? '' : '-log'}`} rows={() => compared ?
+            comparativeExportRows({
+                periods: compared.periods,
+                comparison: comparison as DateComparison,
+                asAt: true,
+                rows: comparativeRows(compared.reports),
+            }) : balanceSheetRows(info, !summary)} />}
         {report && <PDFView _key={nonce} filename={`balance-sheet${summary ? '' : '-log'}.pdf`}>{report}</PDFView>}
     </div>
 }
 
+// Exchange rates which were used by any of the reports
+function usedRates(reports: BalanceSheet[]): DatedRate[] {
+    const rates: Record<string, DatedRate> = {}
+    reports.forEach(report => report.rates.forEach(rate => {
+        rates[`${rate.date} ${rate.from} ${rate.to}`] = rate
+    }))
+    return Object.keys(rates).sort().map(key => rates[key])
+}
+
+// Rows of the multi-column summary
+function comparativeRows(reports: BalanceSheet[]): ComparativeRow[] {
+    const rows: ComparativeRow[] = []
+
+    ;([['assets', 'ASSETS', 'assets'], ['liabilities', 'LIABILITIES', 'liabilities']] as const).forEach(([key, label, name]) => {
+        rows.push({heading: label})
+        ;([['current', 'Current'], ['nonCurrent', 'Non-current']] as const).forEach(([subkey, sublabel]) => {
+            const lines = comparativeLines(reports.map(r => r[key][subkey].groups))
+            if (lines.length > 0) {
+                rows.push({heading: `${sublabel} ${name}`, indent: 2}, {lines},
+                    {label: `Total ${sublabel.toLowerCase()} ${name}`, totals: comparativeTotals(reports.map(r => r[key][subkey].totals))})
+            }
+        })
+        rows.push({label: `TOTAL ${label}`, totals: comparativeTotals(reports.map(r => r[key].totals)), grand: true})
+    })
+    rows.push({label: 'NET ASSETS', totals: comparativeTotals(reports.map(r => r.netAssets)), grand: true})
+
+    rows.push({heading: 'EQUITY'}, {lines: comparativeLines(reports.map(r => r.equity.accounts.groups))})
+    rows.push({label: 'TOTAL EQUITY', totals: comparativeTotals(reports.map(r => r.equity.accounts.totals)), grand: true})
+    return rows
+}
+
 function SubdivisionLog({label, subdivision, drcr}: {label: string | false, subdivision: BalanceSheet['assets']['current'], drcr: number}) {
     return <>
         {subdivision.groups.length > 0 && label && <Tr key={label} style={{marginBottom: 3}}><Th indent={2} width={98}>{label}</Th></Tr>}
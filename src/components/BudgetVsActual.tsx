@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Document, Page, View } from '@react-pdf/renderer'
+import { PDFView, Styles, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { BudgetVsActual as Report, BudgetLine, BudgetTotal, budgetVsActual,
+    DatePreset, datePresetDates, toFormatted, budgetVsActualRows } from '../core'
+import { DateRange, ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
+import { currencySelectOptions, datePresetSelectOptions } from './SelectOptions'
+
+export function BudgetVsActual() {
+    const [preset, setPreset] = React.useState<string>('this-year')
+    const [startDate, setStartDate] = React.useState<string>(datePresetDates('this-year')[0])
+    const [endDate, setEndDate] = React.useState<string>(datePresetDates('this-year')[1])
+    const [currency, setCurrency] = React.useState<string>('')
+    const [pdf, setPdf] = React.useState<boolean>(false)
+    const [info, setInfo] = React.useState<Report>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    function onPresetChange(e: any) {
+        const value = e.target.value
+        setPreset(value)
+
+        if (value != 'custom') {
+            const range = datePresetDates(value as DatePreset)
+            setStartDate(range[0])
+            setEndDate(range[1])
+        }
+    }
+
+    function onDateChange(startDate: string, endDate: string) {
+        setStartDate(startDate)
+        setEndDate(endDate)
+    }
+
+    React.useEffect(() => {
+        if (startDate && endDate) {
+            budgetVsActual(startDate, endDate, currency).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [startDate, endDate, currency])
+
+    const report = React.useMemo(() => {
+        return info && pdf ? renderReport(info) : null
+    }, [info && nonce ? nonce : 0, pdf])
+
+    return <div>
+        <div className='title-pane'>
+            <h1 className='title inline'>Budget vs Actual</h1>
+            <span className='tasks'>
+                <Link to='/budgets'>Edit budgets</Link>
+            </span>
+        </div>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date-preset'>
+            <th scope='row'>
+                <label htmlFor='preset'>Date:</label>
+            </th><td>
+                <select name='preset' value={preset} onChange={onPresetChange}>
+                    {datePresetSelectOptions()}
+                </select>
+                {preset == 'custom' && <DateRange onChange={onDateChange} startDate={startDate} endDate={endDate} />}
+            </td>
+        </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={e => {setCurrency(e.target.value)}}>
+                    <option key='' value=''>All currencies</option>
+                    {currencySelectOptions()}
+                </select>
+            </td>
+        </tr><tr className='row row-pdf'>
+            <th scope='row'>
+                <label htmlFor='pdf'>PDF:</label>
+            </th><td>
+                <input type='checkbox' name='pdf' checked={pdf} onChange={e => {setPdf(e.target.checked)}} />
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename='budget-vs-actual' rows={() => budgetVsActualRows(info)} />}
+        {info && !pdf && <BudgetTable info={info} />}
+        {report && <PDFView _key={nonce} filename='budget-vs-actual.pdf'>{report}</PDFView>}
+    </div>
+}
+
+function percent(line: BudgetLine | BudgetTotal) {
+    return line.variance.percent == undefined ? '' : `${line.variance.percent.toFixed(1)}%`
+}
+
+function BudgetTable({info}: {info: Report}) {
+    const cells = (line: BudgetLine | BudgetTotal) => <>
+        <td>{toFormatted(line.actual, line.currency)}</td>
+        <td>{toFormatted(line.budget, line.currency)}</td>
+        <td>{toFormatted(line.variance.amount, line.currency)}</td>
+        <td>{percent(line)}</td>
+    </>
+
+    return <table className='data-table budget-vs-actual'><thead><tr>
+        <th>Account</th>
+        <th>Currency</th>
+        <th>Actual</th>
+        <th>Budget</th>
+        <th>Variance</th>
+        <th>%</th>
+    </tr></thead><tbody>
+    {([['revenues', 'Revenue'], ['expenses', 'Expenses']] as const).map(([half, label]) => <React.Fragment key={half}>
+        <tr className='heading'><th colSpan={6}>{label}</th></tr>
+        {info[half].lines.map(line => <tr key={`${line.accountId}-${line.currency}`}>
+            <td>{line.accountTitle}</td>
+            <td>{line.currency}</td>
+            {cells(line)}
+        </tr>)}
+        {info[half].totals.map(total => <tr key={total.currency} className='total'>
+            <td>Total {label}</td>
+            <td>{total.currency}</td>
+            {cells(total)}
+        </tr>)}
+    </React.Fragment>)}
+    {info.netProfit.map(total => <tr key={total.currency} className='total'>
+        <th>Net profit</th>
+        <th>{total.currency}</th>
+        {cells(total)}
+    </tr>)}
+    </tbody></table>
+}
+
+function renderReport(info: Report) {
+    const cells = (line: BudgetLine | BudgetTotal, style: any = {}, Cell: any = TdRight) => <>
+        <Cell width={15} innerStyle={style}>{toFormatted(line.actual, line.currency)}</Cell>
+        <Cell width={15} innerStyle={style}>{toFormatted(line.budget, line.currency)}</Cell>
+        <Cell width={15} innerStyle={style}>{toFormatted(line.variance.amount, line.currency)}</Cell>
+        <Cell width={9} innerStyle={style}>{percent(line)}</Cell>
+    </>
+
+    return <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='Budget vs Actual' />
+            <Tr key='header' style={{marginBottom: 6}}>
+                <ThLeft width={38} innerStyle={{borderBottomWidth: 1}}>Account</ThLeft>
+                <ThLeft width={8} innerStyle={{borderBottomWidth: 1}}>Currency</ThLeft>
+                <ThRight width={15} innerStyle={{borderBottomWidth: 1}}>Actual</ThRight>
+                <ThRight width={15} innerStyle={{borderBottomWidth: 1}}>Budget</ThRight>
+                <ThRight width={15} innerStyle={{borderBottomWidth: 1}}>Variance</ThRight>
+                <ThRight width={9} innerStyle={{borderBottomWidth: 1}}>%</ThRight>
+            </Tr>
+        </View>
+
+        {([['revenues', 'Revenue'], ['expenses', 'Expenses']] as const).map(([half, label]) => <View key={half} style={{marginBottom: 12}}>
+            <Tr key='label' style={{marginBottom: 3}}><Th width={100}>{label}</Th></Tr>
+            {info[half].lines.map(line => <Tr key={`${line.accountId}-${line.currency}`}>
+                <TdLeft width={36} indent={2} innerStyle={{maxLines: 1}}>{line.accountTitle}</TdLeft>
+                <TdLeft width={8}>{line.currency}</TdLeft>
+                {cells(line)}
+            </Tr>)}
+            {info[half].totals.map((total, index) => <Tr key={total.currency} style={index == 0 ? {marginTop: 3} : {}}>
+                <ThLeft width={36} indent={2}>{index == 0 ? `Total ${label}` : ''}</ThLeft>
+                <ThLeft width={8}>{total.currency}</ThLeft>
+                {cells(total, index == 0 ? {borderTopWidth: 1, paddingTop: 3} : {}, ThRight)}
+            </Tr>)}
+        </View>)}
+
+        {info.netProfit.map((total, index) => <Tr key={total.currency}>
+            <ThLeft width={38}>{index == 0 ? 'Net profit' : ''}</ThLeft>
+            <ThLeft width={8}>{total.currency}</ThLeft>
+            {cells(total, {
+                borderTopWidth: index == 0 ? 2 : 0,
+                paddingTop: index == 0 ? 3 : 0,
+                borderBottomWidth: index == info.netProfit.length - 1 ? 2 : 0,
+                paddingBottom: index == info.netProfit.length - 1 ? 3 : 0,
+            }, ThRight)}
+        </Tr>)}
+    </Page></Document>
+}
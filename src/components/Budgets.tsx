@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { useForm, FormContextValues as FCV } from 'react-hook-form'
+import { Link } from 'react-router-dom'
+import { addYears } from 'date-fns'
+import { Project, Account, Budget, LOCALE,
+    toDateOnly, parseISO, formatDateOnly, fiscalYearDates, toFormatted, parseFormatted } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { currencySelectOptions } from './SelectOptions'
+
+type FormData = {
+    accounts: {
+        accountId: string
+        amounts: string[]
+    }[]
+    submit?: string    // Only for displaying general submit error messages
+}
+
+export default function Budgets() {
+    const thisYear = fiscalYearDates(toDateOnly(new Date()))[0]
+    const [year, setYear] = React.useState<string>(thisYear)
+    const [currency, setCurrency] = React.useState<string>(Project.variables.get('currency'))
+    const [accounts, setAccounts] = React.useState<Account[]>()
+    const [nonce, setNonce] = React.useState<number>(0)
+    const form = useForm<FormData>()
+    const months = Budget.months(year)
+
+    React.useEffect(() => {
+        Promise.all([
+            Account.query()
+                .whereIn('type', [...Account.TypeGroupInfo[Account.Revenue].types, ...Account.TypeGroupInfo[Account.Expense].types])
+                .orderBy('id'),
+            Budget.loadYear(year, currency),
+        ]).then(([rows, amounts]) => {
+            setAccounts(rows)
+            form.reset(extractFormValues(rows, amounts, currency, months.length))
+        })
+    }, [year, currency, nonce])
+
+    const onSubmit = (data: FormData) => {
+        const amounts = validateFormData(form, data, currency)
+        if (!amounts) {
+            playAlert()
+            return
+        }
+
+        Budget.saveYear(year, currency, amounts).then(() => {
+            playSuccess()
+            setNonce(Date.now())
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    // Offer the previous two and next two fiscal years
+    const years = [-2, -1, 0, 1, 2].map(n => toDateOnly(addYears(parseISO(thisYear), n)))
+
+    return <div>
+        <div className='title-pane'>
+            <h1 className='title inline'>Budgets</h1>
+            <span className='tasks'>
+                <Link to='/reports/budget'>Budget vs Actual</Link>
+            </span>
+        </div>
+        <table className='horizontal-table-form'><tbody><tr className='row row-year'>
+            <th scope='row'>
+                <label htmlFor='year'>Fiscal year:</label>
+            </th><td>
+                <select name='year' value={year} onChange={e => {setYear(e.target.value)}}>
+                    {years.map(date => <option key={date} value={date}>
+                        {formatDateOnly(date)} to {formatDateOnly(fiscalYearDates(date)[1])}
+                    </option>)}
+                </select>
+            </td>
+        </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={e => {setCurrency(e.target.value)}}>
+                    {currencySelectOptions(currency)}
+                </select>
+            </td>
+        </tr></tbody></table>
+
+        {accounts && <form onSubmit={form.handleSubmit(onSubmit)}>
+            <table className='data-table budget-grid'><thead><tr>
+                <th>Account</th>
+                {months.map(([startDate]) => <th key={startDate}>
+                    {parseISO(startDate).toLocaleDateString(LOCALE, {month: 'short'})}
+                </th>)}
+                <th>Total</th>
+            </tr></thead><tbody>
+            {accounts.map((account, index) => <tr key={account.id}>
+                <td>
+                    <input type='hidden' name={`accounts[${index}].accountId`} ref={form.register()} />
+                    {account.title}
+                </td>
+                {months.map(([startDate], month) => <td key={startDate}>
+                    <input name={`accounts[${index}].amounts[${month}]`} ref={form.register()} size={8} />
+                </td>)}
+                <td className='total'><RowTotal form={form} index={index} currency={currency} /></td>
+            </tr>)}
+            </tbody></table>
+            <div className='error'>{form.errors.submit && form.errors.submit.message}</div>
+            <input type='submit' value='Save' />
+        </form>}
+    </div>
+}
+
+function RowTotal({form, index, currency}: {form: FCV<FormData>, index: number, currency: string}) {
+    const amounts: string[] = form.watch(`accounts[${index}].amounts` as any) || []
+    try {
+        const total = amounts.reduce((acc, amount) => acc + parseFormatted(amount, currency), 0)
+        return <>{toFormatted(total, currency)}</>
+    }
+    catch (e) {
+        return null
+    }
+}
+
+function extractFormValues(accounts: Account[], amounts: Record<number, number[]>, currency: string, months: number): FormData {
+    return {
+        accounts: accounts.map(account => {
+            const list = amounts[account.id!] || []
+            return {
+                accountId: `${account.id}`,
+                amounts: Array.from({length: months}, (_, month) => list[month] ? toFormatted(list[month], currency) : ''),
+            }
+        })
+    }
+}
+
+// Returns parsed amounts (keyed by account id) if validation succeeded, false otherwise
+function validateFormData(form: FCV<FormData>, data: FormData, currency: string): Record<number, number[]> | false {
+    const result: Record<number, number[]> = {}
+    for (let account of data.accounts || []) {
+        const amounts: number[] = []
+        for (let amount of account.amounts || []) {
+            try {
+                amounts.push(parseFormatted(amount, currency))
+            }
+            catch (e) {
+                form.setError('submit', '', `Invalid amount: ${amount}`)
+                return false
+            }
+        }
+        result[Number(account.accountId)] = amounts
+    }
+    return result
+}
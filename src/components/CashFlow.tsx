@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Document, Page, View } from '@react-pdf/renderer'
+import { PDFView, Styles, B, Tr, Th, ThLeft, TdLeft, TdRight } from './PDFView'
+import { toFormatted, Money, CashFlow, cashFlow, cashFlowRows, datePresetDates } from '../core'
+import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
+import { currencySelectOptions, datePresetSelectOptions } from './SelectOptions'
+
+export function CashFlow() {
+    const [preset, setPreset] = React.useState<string>('')
+    const [startDate, setStartDate] = React.useState<string>('')
+    const [endDate, setEndDate] = React.useState<string>('')
+    const [currency, setCurrency] = React.useState<string>('')
+    const [info, setInfo] = React.useState<CashFlow>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    function onPresetChange(e: any) {
+        const value = e.target.value
+        setPreset(value)
+
+        if (value != 'custom') {
+            const range = datePresetDates(value)
+            setStartDate(range[0])
+            setEndDate(range[1])
+        }
+    }
+
+    function onDateChange(startDate: string, endDate: string) {
+        setStartDate(startDate)
+        setEndDate(endDate)
+    }
+
+    function onCurrencyChange(e: any) {
+        setCurrency(e.target.value)
+    }
+
+    React.useEffect(() => {
+        if (startDate && endDate) {
+            cashFlow(startDate, endDate, currency).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [startDate, endDate, currency])
+
+    const report = React.useMemo(() => {
+        return info ? <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+            <View fixed={true}>
+                <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='Cash Flow Statement' />
+            </View>
+
+            <Tr key='operating' style={{marginBottom: 3}}><Th width={60}>Cash flows from operating activities</Th></Tr>
+            <Line key='netProfit' title='Net profit' amounts={info.operating.netProfit} />
+            {info.operating.lines.length > 0 &&
+                <Tr key='adjustments' style={{marginBottom: 3}}><Th indent={2} width={58}>Changes in:</Th></Tr>}
+            {info.operating.lines.map(line => <Line key={line.accountId} title={line.accountTitle} amounts={line.amounts} />)}
+            <Totals key='operatingTotals' totals={info.operating.totals} label='Net cash from operating activities' />
+
+            <Section key='investing' label='Cash flows from investing activities'
+                netLabel='Net cash from investing activities' section={info.investing} />
+            <Section key='financing' label='Cash flows from financing activities'
+                netLabel='Net cash from financing activities' section={info.financing} />
+
+            <Totals key='netChange' totals={info.netChange} label='Net increase (decrease) in cash' />
+            <Totals key='openingCash' totals={info.openingCash} label='Cash at beginning of period' />
+            <Totals key='closingCash' totals={info.closingCash} label='Cash at end of period' />
+        </Page></Document> : null
+    }, [info && nonce ? nonce : 0])
+
+    return <div>
+        <h1 className='title'>Cash Flow Statement</h1>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date-preset'>
+            <th scope='row'>
+                <label htmlFor='preset'>Date:</label>
+            </th><td>
+                <select name='preset' value={preset} onChange={onPresetChange}>
+                    {!preset && <option key='' value=''></option>}
+                    {datePresetSelectOptions()}
+                </select>
+                {preset == 'custom' && <DateRange onChange={onDateChange} startDate={startDate} endDate={endDate} />}
+            </td>
+            </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={onCurrencyChange}>
+                    <option key='' value=''>All currencies</option>
+                    {currencySelectOptions()}
+                </select>
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename='cash-flow' rows={() => cashFlowRows(info)} />}
+        {report && <PDFView _key={nonce} filename='cash-flow.pdf'>{report}</PDFView>}
+    </div>
+}
+
+function Line({title, amounts}: {title: string, amounts: Money[]}) {
+    return <>{amounts.map((money, index) => {
+        return <Tr key={money.currency} style={index == amounts.length - 1 ? {marginBottom: 6} : {}}>
+            <TdLeft width={43} indent={4}>
+                {index == 0 ? <B>{title}</B> : ''}
+            </TdLeft>
+            <TdRight width={17}>
+                {toFormatted(money.amount, money.currency)} {money.currency}
+            </TdRight>
+        </Tr>
+    })}</>
+}
+
+function Section({label, netLabel, section}: {label: string, netLabel: string, section: CashFlow['investing']}) {
+    return <>
+        <Tr key='label' style={{marginBottom: 3}}><Th width={60}>{label}</Th></Tr>
+        {section.lines.length == 0 && <Tr key='none' style={{marginBottom: 6}}><TdLeft indent={4} width={56}>No items</TdLeft></Tr>}
+        {section.lines.map(line => <Line key={line.accountId} title={line.accountTitle} amounts={line.amounts} />)}
+        {section.totals.length > 0 && <Totals totals={section.totals} label={netLabel} />}
+    </>
+}
+
+function Totals({label, totals}: {label: string, totals: Money[]}) {
+    return <View wrap={totals.length > CURRENCY_TOTALS_WRAP} style={{marginBottom: 12}}>
+        {totals.map((money, index) => {
+            return <Tr key={money.currency}>
+                <ThLeft width={45} style={index == 0 ? {
+                    paddingTop: 3,
+                    borderTopWidth: 1,
+                    borderColor: '#fff', // transparent
+                } : {}} innerStyle={index == 0 ? {
+                    paddingTop: 3,
+                    borderTopWidth: 1,
+                    borderColor: '#fff', // transparent
+                    position: 'absolute',
+                } : {}}>{index == 0 ? `${label}` : ''}</ThLeft>
+                <TdRight width={15} style={{
+                    borderTopWidth: index == 0 ? 1 : 0,
+                    paddingTop: index == 0 ? 3 : 0,
+                    borderBottomWidth: index == totals.length-1 ? 1 : 0,
+                    paddingBottom: index == totals.length-1 ? 3 : 0,
+                }}>
+                    {toFormatted(money.amount, money.currency)} {money.currency}
+                </TdRight>
+            </Tr>
+        })}
+    </View>
+}
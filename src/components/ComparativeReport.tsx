@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Document, Page, View } from '@react-pdf/renderer'
+import { isFirstDayOfMonth, isLastDayOfMonth, isSameMonth } from 'date-fns'
+import { Styles, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { LOCALE, Cell, ComparativeLine, DatedRate, DateComparison, variance, formatDateOnly, parseISO, toFormatted, toNumber } from '../core'
+import { CURRENCY_TOTALS_WRAP, ReportHeader } from './Reports'
+import { comparisonSelectOptions } from './SelectOptions'
+
+// Rows of a multi-column report, in order
+export type ComparativeRow = {
+    heading: string
+    indent?: number
+} | {
+    lines: ComparativeLine[]
+} | {
+    label: string
+    totals: {currency: string, amounts: number[]}[]
+    // Grand totals have heavier borders
+    grand?: boolean
+}
+
+type Props = {
+    title: string
+    // One [startDate, endDate] pair per column
+    periods: string[][]
+    comparison: DateComparison
+    // Balance sheets show the end date only
+    asAt?: boolean
+    rows: ComparativeRow[]
+    // Exchange rates which were used for currency conversion
+    rates: DatedRate[]
+}
+
+// Variance columns compare the first two columns (ie. the current period and the one before it)
+export function hasVariance(comparison: DateComparison, periods: string[][]) {
+    return (comparison == 'prev-period' || comparison == 'prev-year') && periods.length > 1
+}
+
+function periodLabel(startDate: string, endDate: string, asAt?: boolean) {
+    const start = parseISO(startDate)
+    const end = parseISO(endDate)
+    if (asAt) {
+        return formatDateOnly(endDate)
+    }
+    if (isSameMonth(start, end) && isFirstDayOfMonth(start) && isLastDayOfMonth(end)) {
+        return start.toLocaleDateString(LOCALE, {month: 'short', year: 'numeric'})
+    }
+    return `${formatDateOnly(startDate)} - ${formatDateOnly(endDate)}`
+}
+
+export function ComparativeDocument({title, periods, comparison, asAt, rows, rates}: Props) {
+    const showVariance = hasVariance(comparison, periods)
+    const columns = periods.length + (showVariance ? 2 : 0)
+    const landscape = columns > 5
+    const labelWidth = landscape ? 22 : 30
+    const currencyWidth = 6
+    const width = (100 - labelWidth - currencyWidth) / columns
+
+    function amountCells(amounts: number[], currency: string, style: any = {}, Cell: any = TdRight) {
+        const cells = amounts.map((amount, index) =>
+            <Cell key={index} width={width} innerStyle={style}>{toFormatted(amount, currency)}</Cell>)
+        if (showVariance) {
+            const v = variance(amounts[0], amounts[1])
+            cells.push(<Cell key='variance' width={width} innerStyle={style}>{toFormatted(v.amount, currency)}</Cell>)
+            cells.push(<Cell key='percent' width={width} innerStyle={style}>
+                {v.percent == undefined ? '' : `${v.percent.toFixed(1)}%`}
+            </Cell>)
+        }
+        return cells
+    }
+
+    return <Document><Page size='A4' orientation={landscape ? 'landscape' : 'portrait'} style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader startDate={asAt ? undefined : periods[0][0]} endDate={periods[0][1]} rates={rates} title={title} />
+            <Tr key='header' style={{marginBottom: 6}}>
+                <ThLeft width={labelWidth + currencyWidth} innerStyle={{borderBottomWidth: 1}}>&nbsp;</ThLeft>
+                {periods.map(([startDate, endDate], index) => <ThRight key={index} width={width} innerStyle={{borderBottomWidth: 1}}>
+                    {periodLabel(startDate, endDate, asAt)}
+                </ThRight>)}
+                {showVariance && <ThRight key='variance' width={width} innerStyle={{borderBottomWidth: 1}}>Variance</ThRight>}
+                {showVariance && <ThRight key='percent' width={width} innerStyle={{borderBottomWidth: 1}}>%</ThRight>}
+            </Tr>
+        </View>
+
+        {rows.map((row, index) => {
+            if ('heading' in row) {
+                const indent = row.indent || 0
+                return <Tr key={index} style={{marginBottom: 3}}><Th indent={indent} width={100 - indent}>{row.heading}</Th></Tr>
+            }
+            else if ('lines' in row) {
+                return <View key={index} style={{marginBottom: 3}}>
+                    {row.lines.map(line => <Tr key={`${line.accountId}-${line.currency}`}>
+                        <TdLeft width={labelWidth - 4} indent={4} innerStyle={{maxLines: 1}}>{line.accountTitle}</TdLeft>
+                        <TdLeft width={currencyWidth}>{line.currency}</TdLeft>
+                        {amountCells(line.amounts, line.currency)}
+                    </Tr>)}
+                </View>
+            }
+            else {
+                const border = row.grand ? 2 : 1
+                return <View key={index} wrap={row.totals.length > CURRENCY_TOTALS_WRAP} style={{marginBottom: 12}}>
+                    {row.totals.map((total, i) => <Tr key={total.currency}>
+                        <ThLeft width={labelWidth - 2} indent={2}>{i == 0 ? row.label : ''}</ThLeft>
+                        <ThLeft width={currencyWidth}>{total.currency}</ThLeft>
+                        {amountCells(total.amounts, total.currency, {
+                            borderTopWidth: i == 0 ? border : 0,
+                            paddingTop: i == 0 ? 3 : 0,
+                            borderBottomWidth: row.grand && i == row.totals.length - 1 ? border : 0,
+                            paddingBottom: row.grand && i == row.totals.length - 1 ? 3 : 0,
+                        }, ThRight)}
+                    </Tr>)}
+                    {row.totals.length == 0 && <Tr key='none'>
+                        <ThLeft width={labelWidth - 2} indent={2}>{row.label}</ThLeft>
+                    </Tr>}
+                </View>
+            }
+        })}
+    </Page></Document>
+}
+
+// Spreadsheet version of ComparativeDocument
+export function comparativeExportRows({periods, comparison, asAt, rows}: Pick<Props, 'periods' | 'comparison' | 'asAt' | 'rows'>): Cell[][] {
+    const showVariance = hasVariance(comparison, periods)
+    const result: Cell[][] = [[
+        'Account', 'Currency',
+        ...periods.map(([startDate, endDate]) => periodLabel(startDate, endDate, asAt)),
+        ...(showVariance ? ['Variance', '%'] : []),
+    ]]
+
+    function amountCells(amounts: number[], currency: string): Cell[] {
+        const cells: Cell[] = amounts.map(amount => toNumber(amount, currency))
+        if (showVariance) {
+            const v = variance(amounts[0], amounts[1])
+            cells.push(toNumber(v.amount, currency), v.percent == undefined ? '' : Math.round(v.percent * 10) / 10)
+        }
+        return cells
+    }
+
+    rows.forEach(row => {
+        if ('heading' in row) {
+            result.push([row.heading])
+        }
+        else if ('lines' in row) {
+            row.lines.forEach(line => result.push([line.accountTitle, line.currency, ...amountCells(line.amounts, line.currency)]))
+        }
+        else {
+            row.totals.forEach(total => result.push([row.label, total.currency, ...amountCells(total.amounts, total.currency)]))
+        }
+    })
+    return result
+}
+
+export function ComparisonSelect({comparison, count, onChange}: {
+    comparison: string, count: number, onChange: (comparison: string, count: number) => void}) {
+    return <>
+        <select name='comparison' value={comparison} onChange={e => onChange(e.target.value, count)}>
+            <option key='' value=''>None</option>
+            {comparisonSelectOptions()}
+        </select>
+        {(comparison == 'prev-period' || comparison == 'prev-year') && <>
+            <label htmlFor='count'>&nbsp;Periods:</label>
+            <input type='number' name='count' min={1} max={11} value={count}
+                onChange={e => onChange(comparison, Math.max(1, Math.min(11, Number(e.target.value) || 1)))} />
+        </>}
+    </>
+}
@@ -0,0 +1,381 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Controller, useForm, useFieldArray, ArrayField, FormContextValues as FCV } from 'react-hook-form'
+import { Redirect } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { TransactionOrKnex, Model,
+    Project, Transaction, Account, Element, IElement,
+    dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate, formatDateOnly,
+    toFormatted, parseFormatted } from '../core'
+import { validateElementAmounts, validateLockDate } from '../util/util'
+import { playSuccess, playAlert } from '../util/sound'
+import { MaybeSelect, flatSelectOptions, currencySelectOptions } from './SelectOptions'
+
+type Props = {
+    arg1?: string
+}
+
+// A dividend can be paid when it is declared, or declared now and paid later
+enum Stage {
+    Paid = 'paid',
+    Declared = 'declared',
+    Payment = 'payment',
+}
+
+type FormData = {
+    type: string
+    stage: string
+    // The declared dividend which is being paid
+    settleId?: number
+    date: Date
+    description?: string
+    elements: {
+        // `.id` is used by the form system so we have eId to store 'our' id
+        eId?: number
+        accountId: number
+        amount: string
+        currency: string
+        description?: string
+    }[]
+    submit?: string    // Only for displaying general submit error messages
+}
+
+export default function Distribution(props: Props) {
+    // argId == 0 means creating a new transaction
+    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+
+    const [transaction, setTransaction] = React.useState<Transaction>()
+    const [assetOptions, setAssetOptions] = React.useState<{}>()
+    const [declaredOptions, setDeclaredOptions] = React.useState<{}>()
+    const [redirectId, setRedirectId] = React.useState<number>(-1)
+
+    const form = useForm<FormData>()
+    const {fields, append} = useFieldArray({control: form.control, name: 'elements'})
+    const type = form.watch('type')
+    const stage = type == Transaction.Dividend ? form.watch('stage') : Stage.Paid
+
+    // Initialise a lot of stuff
+    React.useEffect(() => {
+        // Clear redirectId
+        setRedirectId(-1)
+
+        // Load asset accounts
+        Account.query().select()
+        .whereIn('type', [Account.Asset, Account.LongTermAsset])
+        .whereNotIn('id', [Account.Reserved.AccountsReceivable, Account.Reserved.TaxReceivable])
+        .orderBy(['type', 'title'])
+        .then(rows => {
+            setAssetOptions(flatSelectOptions(rows))
+        })
+
+        // Load dividends which were declared (and not paid at the same time)
+        Transaction.query().where('type', Transaction.Dividend)
+        .whereIn('id', Element.query().select('transactionId')
+            .where('accountId', Account.Reserved.DividendsPayable).where('drcr', Transaction.Credit))
+        .orderBy([{column: 'date', order: 'desc'}, {column: 'id', order: 'desc'}])
+        .then(rows => {
+            setDeclaredOptions(flatSelectOptions([{id: 0, title: ''}, ...rows.map(row => {
+                return {id: row.id, title: `${Transaction.TypeInfo[Transaction.Dividend].label} ${row.id}: ${formatDateOnly(row.date!)}`}
+            })]))
+        })
+
+        // Load transaction (if exists) and initialise form accordingly
+        if (argId > 0) {
+            Transaction.query().findById(argId).whereIn('type', [Transaction.Drawing, Transaction.Dividend])
+            .withGraphFetched('elements')
+            .then(t => {
+                setTransaction(t)
+                if (t) {
+                    form.reset(extractFormValues(t))
+                }
+            })
+        }
+        else {
+            setTransaction(Transaction.construct({}))
+            const currency = Project.variables.get('currency')
+            form.reset({
+                type: Transaction.Drawing,
+                stage: Stage.Paid,
+                settleId: 0,
+                date: lastSavedDate(),
+                elements: [{currency}, {currency}],
+            })
+        }
+    }, [props.arg1, transaction && transaction.id && transaction.updatedAt ? transaction.updatedAt.toString() : 0])
+
+    const onSubmit = (data: FormData) => {
+        if (!validateFormData(form, data)) {
+            playAlert()
+            return
+        }
+
+        Model.transaction(trx => saveFormData(transaction!, data, trx)).then(savedId => {
+            if (savedId) {
+                playSuccess()
+                form.reset(extractFormValues(transaction!))
+                if (argId != savedId) {
+                    setRedirectId(savedId)
+                }
+            }
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    if (redirectId >= 0 && redirectId != argId) {
+        return <Redirect to={`/distributions/${redirectId ? redirectId : 'new'}`} />
+    }
+    else if (transaction && assetOptions && declaredOptions) {
+        const label = transaction.type ? Transaction.TypeInfo[transaction.type].label : ''
+        return <div>
+            <h1 className='title'>
+                {transaction.id ? `${label} ${transaction.id}` : 'Owner drawing or dividend'}
+            </h1>
+            <form onSubmit={form.handleSubmit(onSubmit)} className='transaction-form'>
+                <table className='horizontal-table-form transaction-fields'><tbody><tr className='row row-type'>
+                    <th scope='row'>
+                        <label htmlFor='type'>Type:</label>
+                    </th><td>
+                        <select name='type' ref={form.register}>
+                            <option value={Transaction.Drawing}>Owner drawing</option>
+                            <option value={Transaction.Dividend}>Dividend</option>
+                        </select>
+                        <span style={type == Transaction.Dividend ? {} : {display: 'none'}}>
+                            <select name='stage' ref={form.register}>
+                                <option value={Stage.Paid}>Declared and paid</option>
+                                <option value={Stage.Declared}>Declared, to be paid later</option>
+                                <option value={Stage.Payment}>Payment of a declared dividend</option>
+                            </select>
+                        </span>
+                        <span style={stage == Stage.Payment ? {} : {display: 'none'}}>
+                            <select name='settleId' ref={form.register}>
+                                {declaredOptions}
+                            </select>
+                            {form.errors.settleId && <span className='error'>
+                                {form.errors.settleId.message}
+                            </span>}
+                        </span>
+                    </td>
+                </tr><tr className='row row-date'>
+                    <th scope='row'>
+                        <label htmlFor='date'>Date:</label>
+                    </th><td>
+                        <Controller
+                            // No-op for DatePicker.onChange()
+                            as={<DatePicker dateFormat={dfs()} onChange={() => {}} />}
+                            control={form.control}
+                            register={form.register()}
+                            name='date'
+                            valueName='selected'
+                            onChange={([selected]) => selected}
+                        />
+                        {form.errors.date && <span className='error'>
+                            {form.errors.date.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-description'>
+                    <th scope='row'>
+                        <label htmlFor='description'>Description:</label>
+                    </th><td>
+                        <input name='description' ref={form.register} />
+                    </td>
+                </tr></tbody></table>
+                <table className='transaction-elements'><thead><tr>
+                    <th>
+                        {stage == Stage.Declared ? '' : 'Paid from'}
+                    </th><th>
+                        Description
+                    </th><th>
+                        Currency
+                    </th><th>
+                        Amount
+                    </th>
+                </tr></thead><tbody>
+                {fields.map((item, index) =>
+                    <ElementFamily key={item.id} {...{form, item, index, assetOptions}} declared={stage == Stage.Declared} />
+                )}
+                </tbody></table>
+                <div className='more'>
+                    <button type='button' onClick={() => append({name: 'elements'})}>
+                        More rows
+                    </button>
+                </div><div className='error'>
+                    {form.errors.submit && <span className='error'>{form.errors.submit.message}</span>}
+                </div><div className='buttons'>
+                    <input type='submit' value='Save' />
+                </div>
+            </form>
+        </div>
+    }
+
+    return null
+}
+
+type ElementFamilyProps = {
+    form: FCV<FormData>
+    item: Partial<ArrayField<Record<string, any>, "id">>
+    index: number
+    assetOptions: {}
+    // A declared dividend is owed, rather than paid from an account
+    declared: boolean
+}
+
+function ElementFamily(props: ElementFamilyProps) {
+    const {form, item, index, assetOptions, declared} = props
+    return <tr className={`element element-${index}`} key={item.id}><td className='account'>
+        {!!item.eId &&
+        <input type='hidden' name={`elements[${index}].eId`} value={item.eId} ref={form.register()} />}
+        <select
+            name={`elements[${index}].accountId`}
+            defaultValue={item.accountId}
+            style={declared ? {display: 'none'} : {}}
+            ref={form.register()}>
+            {assetOptions}
+        </select>
+    </td><td className='description'>
+        <input
+            name={`elements[${index}].description`}
+            defaultValue={item.description}
+            ref={form.register()}
+        />
+    </td><td className='currency'>
+        {index == 0 ?
+        <MaybeSelect
+            name={`elements[${index}].currency`}
+            defaultValue={item.currency}
+            forwardRef={form.register()}>
+            {currencySelectOptions(item.currency)}
+        </MaybeSelect> :
+        <input
+            type='hidden'
+            name={`elements[${index}].currency`}
+            value={item.currency}
+            ref={form.register()}
+        />}
+    </td><td className='amount'>
+        <input
+            name={`elements[${index}].amount`}
+            defaultValue={item.amount}
+            ref={form.register()}
+        />
+        {form.errors.elements && form.errors.elements[index] &&
+            form.errors.elements[index].amount &&
+            <div className='error'>{form.errors.elements[index].amount!.message}</div>}
+    </td></tr>
+}
+
+function extractFormValues(t: Transaction): FormData {
+    const payable = (drcr: number) => t.elements!.find(e => e.drcr == drcr && e.accountId == Account.Reserved.DividendsPayable)
+    const declared = payable(Transaction.Credit)
+    const payment = payable(Transaction.Debit)
+    const values: FormData = {
+        type: t.type!,
+        stage: declared ? Stage.Declared : payment ? Stage.Payment : Stage.Paid,
+        settleId: payment ? payment.settleId : 0,
+        date: parseISO(t.date!),
+        description: t.description,
+        elements: [],
+    }
+
+    if (t.elements) {
+        for (let e of t.elements) {
+            if (e.drcr == Transaction.Credit) {
+                // Only populate credit elements
+                values.elements.push({
+                    eId: e.id,
+                    accountId: e.accountId!,
+                    amount: toFormatted(e.amount!, e.currency!),
+                    currency: e.currency!,
+                    description: e.description,
+                })
+            }
+        }
+    }
+
+    return values
+}
+
+// Returns true if validation succeeded, false otherwise
+function validateFormData(form: FCV<FormData>, data: FormData) {
+    if (!data.date) {
+        form.setError('date', '', 'Date is required')
+        return false
+    }
+    if (!validateLockDate(form, data)) {
+        return false
+    }
+    if (data.type == Transaction.Dividend && data.stage == Stage.Payment && !Number(data.settleId)) {
+        form.setError('settleId', '', 'Select a declared dividend')
+        return false
+    }
+    if (!data.elements || data.elements.length == 0) {
+        form.setError('submit', '', 'Nothing to save')
+        return false
+    }
+    return validateElementAmounts(form, data)
+}
+
+// Owner drawings are debited to Drawings. Dividends are debited to Dividends
+// when they are declared, and owed as Dividends Payable until they are paid.
+// Returns: id of the transaction that was saved/created, 0 otherwise
+async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+    const stage = data.type == Transaction.Dividend ? data.stage : Stage.Paid
+    Object.assign(transaction, {
+        description: data.description,
+        type: data.type == Transaction.Dividend ? Transaction.Dividend : Transaction.Drawing,
+        date: toDateOnly(data.date)
+    })
+
+    // Convert form data to elements
+    const elements: IElement[] = data.elements.map(e0 => {
+        return {
+            id: e0.eId ? Number(e0.eId) : undefined,
+            accountId: stage == Stage.Declared ? Account.Reserved.DividendsPayable : Number(e0.accountId),
+            drcr: Transaction.Credit,
+            // Note: Use the currency value of the first item
+            amount: parseFormatted(e0.amount, data.elements[0].currency),
+            currency: data.elements[0].currency,
+            description: e0.description,
+            settleId: 0,
+        }
+    })
+
+    // Generate balancing elements. Try to re-use IDs if available
+    const sums = Transaction.getSums(elements)
+    const ids = transaction.getDrElementIds()
+    const accountId = data.type != Transaction.Dividend ? Account.Reserved.Drawings :
+        stage == Stage.Payment ? Account.Reserved.DividendsPayable : Account.Reserved.Dividends
+
+    for (let money of sums) {
+        elements.push({
+            id: ids.shift(),
+            accountId,
+            drcr: Transaction.Debit,
+            amount: money.amount,
+            currency: money.currency,
+            description: '',
+            settleId: stage == Stage.Payment ? Number(data.settleId) : 0,
+        })
+    }
+
+    // If there are any remaining old IDs/elements, zero them out
+    for (let id of ids) {
+        elements.push({
+            id: id,
+            drcr: Transaction.Debit,
+            amount: 0,
+            currency: '',
+        })
+    }
+
+    // Merge and save.
+    await transaction.mergeElements(elements)
+    await transaction.save(trx)
+    transaction.condenseElements()
+
+    return transaction.id!
+}
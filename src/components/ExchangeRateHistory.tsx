@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { Link } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { Project, ExchangeRate, parseExchangeRates,
+    formatDateOnly, dateFormatString as dfs, toDateOnly } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { currencySelectOptions } from './SelectOptions'
+
+type FormData = {
+    date: Date
+    from: string
+    to: string
+    rate: string
+    submit?: string    // Only for displaying general submit error messages
+}
+
+export default function ExchangeRateHistory() {
+    const [rates, setRates] = React.useState<ExchangeRate[]>()
+    const [message, setMessage] = React.useState<string>('')
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+    const primary: string = Project.variables.get('currency')
+    const form = useForm<FormData>({
+        defaultValues: {date: new Date(), from: primary, to: '', rate: ''}
+    })
+
+    React.useEffect(() => {
+        ExchangeRate.query().orderBy([{column: 'date', order: 'desc'}, 'from', 'to']).then(rows => {
+            setRates(rows)
+        })
+    }, [nonce])
+
+    const onSubmit = (data: FormData) => {
+        const rate = {date: toDateOnly(data.date), from: data.from, to: data.to, rate: data.rate.trim()}
+        ExchangeRate.import([rate]).then(() => {
+            playSuccess()
+            form.reset({...data, rate: ''})
+            setNonce(Date.now())
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const input = e.target
+        const file = input.files && input.files[0]
+        if (file) {
+            const reader = new FileReader()
+            reader.onload = () => {
+                Promise.resolve().then(() => {
+                    return ExchangeRate.import(parseExchangeRates(reader.result as string))
+                }).then(count => {
+                    playSuccess()
+                    setMessage(`${count} rate${count == 1 ? '' : 's'} imported from ${file.name}`)
+                    setError('')
+                    setNonce(Date.now())
+                }).catch(e => {
+                    playAlert()
+                    setMessage('')
+                    setError(e instanceof Error ? e.message : e.toString())
+                })
+                input.value = ''
+            }
+            reader.readAsText(file)
+        }
+    }
+
+    function onDelete(rate: ExchangeRate) {
+        rate.delete().then(() => {
+            setNonce(Date.now())
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    return <div>
+        <div className='title-pane'>
+            <h1 className='title inline'>Exchange Rates</h1>
+            <span className='tasks'>
+                <Link to='/settings'>Settings</Link>
+            </span>
+        </div>
+        <p>
+            A rate applies to transactions from its date until the next rate for the same currencies.
+            Rates in settings are used when there is no dated rate.
+        </p>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className='exchange-rate-form'>
+            <Controller
+                // No-op for DatePicker.onChange()
+                as={<DatePicker dateFormat={dfs()} onChange={() => {}} />}
+                control={form.control}
+                register={form.register({required: true})}
+                name='date'
+                valueName='selected'
+                onChange={([selected]) => selected}
+            />
+            {'1 '}
+            <select name='from' ref={form.register()}>
+                {currencySelectOptions()}
+            </select>
+            {' = '}
+            <input name='rate' ref={form.register({required: 'Rate is required'})} size={10} />
+            <select name='to' ref={form.register()}>
+                <option key='' value=''></option>
+                {currencySelectOptions()}
+            </select>
+            <input type='submit' value='Add' />
+            <div className='error'>
+                {form.errors.rate && form.errors.rate.message}
+                {form.errors.submit && form.errors.submit.message}
+            </div>
+        </form>
+
+        <div className='exchange-rate-import'>
+            <label htmlFor='file'>Import CSV (date, from, to, rate):</label>
+            <input type='file' name='file' accept='.csv,.txt' onChange={onFile} />
+        </div>
+        {message && <div>{message}</div>}
+        {error && <div className='error'>{error}</div>}
+
+        {rates && <table className='data-table exchange-rates'><thead><tr>
+            <th>Date</th>
+            <th>Rate</th>
+            <th></th>
+        </tr></thead><tbody>
+            {rates.map(rate => <tr key={rate.id}>
+                <td>{formatDateOnly(rate.date!)}</td>
+                <td>1 {rate.from} = {rate.rate} {rate.to}</td>
+                <td><button type='button' onClick={() => onDelete(rate)}>Delete</button></td>
+            </tr>)}
+            {rates.length == 0 && <tr><td colSpan={3}>No exchange rates</td></tr>}
+        </tbody></table>}
+    </div>
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { endOfMonth, subMonths } from 'date-fns'
+import { Project, Transaction, Element, RevaluationItem, toDateOnly, formatDateOnly, toFormatted,
+    dateFormatString as dfs, unrealisedGains, revalue, removeRevaluation } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+
+export default function ExchangeRevaluation() {
+    const [date, setDate] = React.useState<Date>(endOfMonth(subMonths(new Date(), 1)))
+    const [items, setItems] = React.useState<RevaluationItem[]>()
+    const [revaluations, setRevaluations] = React.useState<Transaction[]>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+    const primary: string = Project.variables.get('currency')
+
+    // Reversals settle the revaluation they reverse, so they are excluded
+    React.useEffect(() => {
+        Transaction.query().where('type', Transaction.Revaluation)
+            .whereNotIn('id', Element.query().select('transactionId').where('settleId', '>', 0))
+            .orderBy('date', 'desc').then(rows => {
+            setRevaluations(rows)
+        })
+    }, [nonce])
+
+    React.useEffect(() => {
+        unrealisedGains(toDateOnly(date)).then(rows => {
+            setItems(rows)
+            setError('')
+        }).catch(e => {
+            setItems(undefined)
+            setError(e instanceof Error ? e.message : e.toString())
+        })
+    }, [date.getTime(), nonce])
+
+    function onRevalue() {
+        revalue(toDateOnly(date)).then(id => {
+            if (id) {
+                playSuccess()
+                setError('')
+            }
+            else {
+                playAlert()
+                setError('Nothing to revalue')
+            }
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e instanceof Error ? e.message : e.toString())
+        })
+    }
+
+    function onRemove(t: Transaction) {
+        removeRevaluation(t.date!).then(() => {
+            playSuccess()
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    return <div>
+        <h1 className='title'>Exchange revaluation</h1>
+        <p>
+            Revaluation posts the unrealised exchange gains and losses on unpaid
+            foreign currency invoices and bills, and on foreign currency cash
+            and bank balances. It is reversed on the following day.
+        </p>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date'>
+            <th scope='row'>
+                <label htmlFor='date'>As at:</label>
+            </th><td>
+                <DatePicker
+                    name='date'
+                    selected={date}
+                    onChange={(date: Date) => date && setDate(date)}
+                    dateFormat={dfs()}
+                />
+                <button type='button' onClick={onRevalue}>Revalue</button>
+            </td>
+        </tr></tbody></table>
+        {items && <table className='data-table revaluation-items'><thead><tr>
+            <th>Balance</th>
+            <th>Gain (loss)</th>
+        </tr></thead><tbody>
+            {items.map((item, index) => <tr key={index}>
+                <td>{item.description}</td>
+                <td className='currency'>{toFormatted(item.gain, primary)} {primary}</td>
+            </tr>)}
+            {items.length == 0 && <tr><td colSpan={2}>Nothing to revalue</td></tr>}
+        </tbody></table>}
+        <div className='error'>
+            {error}
+        </div>
+
+        {revaluations && revaluations.length > 0 && <>
+            <h2>Revaluations</h2>
+            <table className='data-table'><tbody>
+                {revaluations.map(t => <tr key={t.id}>
+                    <td><Link to={`/transactions/${t.id}`}>{formatDateOnly(t.date!)}</Link></td>
+                    <td><button type='button' onClick={() => onRemove(t)}>Remove</button></td>
+                </tr>)}
+            </tbody></table>
+        </>}
+    </div>
+}
@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Cell, toCsv, toXlsx } from '../core'
+import { basename, dirname } from '../util/util'
+
+const EXPORTDIR = 'exportDir'
+
+const mimeTypes: Record<string, string> = {
+    csv: 'text/csv',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+// Saves a file: The desktop edition asks where to save it, the web edition downloads it
+export async function saveFile(filename: string, blob: Blob, title = 'Save as') {
+    if (__WEB__) {
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = filename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        setTimeout(() => URL.revokeObjectURL(url), 1000)
+        return
+    }
+
+    let pathname
+    try {
+        pathname = await dialog.file({type: 'save', title, startDir: localStorage.getItem(EXPORTDIR) || undefined})
+    }
+    catch (e) {
+        if (e.toString() != 'Cancelled') {
+            throw e
+        }
+    }
+
+    if (pathname) {
+        // Add the extension if it was left out
+        if (!basename(pathname).includes('.') && filename.includes('.')) {
+            pathname += filename.substring(filename.lastIndexOf('.'))
+        }
+        await native.writeFile(pathname, blob)
+        localStorage.setItem(EXPORTDIR, dirname(pathname))
+    }
+}
+
+// Saves rows as a CSV or XLSX file. `filename` excludes the extension.
+export function exportRows(filename: string, format: 'csv' | 'xlsx', rows: Cell[][]) {
+    const data = format == 'csv' ? toCsv(rows) : toXlsx(rows, filename)
+    const blob = new Blob([data], {type: mimeTypes[format]})
+    return saveFile(`${filename}.${format}`, blob, `Export ${format.toUpperCase()} as`)
+}
+
+type Props = {
+    // Excluding the extension
+    filename: string
+    // Rows are only generated when needed
+    rows: () => Cell[][] | Promise<Cell[][]>
+}
+
+export function ExportLinks({filename, rows}: Props) {
+    const [error, setError] = React.useState<string>('')
+
+    function onClick(e: any, format: 'csv' | 'xlsx') {
+        e.preventDefault()
+        Promise.resolve(rows()).then(data => exportRows(filename, format, data)).then(() => {
+            setError('')
+        }).catch(e => {
+            setError(e.toString())
+        })
+    }
+
+    return <div className='export-links'>
+        Export:&nbsp;
+        <a href='#' onClick={e => onClick(e, 'csv')}>CSV</a>
+        &nbsp;|&nbsp;
+        <a href='#' onClick={e => onClick(e, 'xlsx')}>XLSX</a>
+        {error && <span className='error'>&nbsp;{error}</span>}
+    </div>
+}
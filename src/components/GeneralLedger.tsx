@@ -0,0 +1,214 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Document, Page, View } from '@react-pdf/renderer'
+import { PDFView, Styles, B, T, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { Account, Transaction, GeneralLedger as Report, generalLedger,
+    DatePreset, datePresetDates, formatDateOnly, toFormatted, generalLedgerRows } from '../core'
+import { DateRange, ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
+import { accountSelectOptions, currencySelectOptions, datePresetSelectOptions } from './SelectOptions'
+import { transactionUrl } from './TransactionOverview'
+
+type Props = {
+    arg1?: string
+}
+
+export default function GeneralLedger(props: Props) {
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [accountId, setAccountId] = React.useState<number>(/^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0)
+    const [preset, setPreset] = React.useState<string>('this-year')
+    const [startDate, setStartDate] = React.useState<string>(datePresetDates('this-year')[0])
+    const [endDate, setEndDate] = React.useState<string>(datePresetDates('this-year')[1])
+    const [currency, setCurrency] = React.useState<string>('')
+    const [pdf, setPdf] = React.useState<boolean>(false)
+    const [info, setInfo] = React.useState<Report>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    function onPresetChange(e: any) {
+        const value = e.target.value
+        setPreset(value)
+
+        if (value != 'custom') {
+            const range = datePresetDates(value as DatePreset)
+            setStartDate(range[0])
+            setEndDate(range[1])
+        }
+    }
+
+    function onDateChange(startDate: string, endDate: string) {
+        setStartDate(startDate)
+        setEndDate(endDate)
+    }
+
+    React.useEffect(() => {
+        Account.query().select().orderBy('id').then(rows => {
+            setAccountOptions(accountSelectOptions(rows))
+        })
+    }, [])
+
+    React.useEffect(() => {
+        if (startDate && endDate) {
+            generalLedger(startDate, endDate, accountId, currency).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [accountId, startDate, endDate, currency])
+
+    const report = React.useMemo(() => {
+        return info && pdf ? renderReport(info) : null
+    }, [info && nonce ? nonce : 0, pdf])
+
+    return <div>
+        <h1 className='title'>General Ledger</h1>
+        <table className='horizontal-table-form'><tbody><tr className='row row-account'>
+            <th scope='row'>
+                <label htmlFor='accountId'>Account:</label>
+            </th><td>
+                <select name='accountId' value={accountId} onChange={e => {setAccountId(Number(e.target.value))}}>
+                    <option key={0} value={0}>All accounts</option>
+                    {accountOptions}
+                </select>
+            </td>
+        </tr><tr className='row row-date-preset'>
+            <th scope='row'>
+                <label htmlFor='preset'>Date:</label>
+            </th><td>
+                <select name='preset' value={preset} onChange={onPresetChange}>
+                    {datePresetSelectOptions()}
+                </select>
+                {preset == 'custom' && <DateRange onChange={onDateChange} startDate={startDate} endDate={endDate} />}
+            </td>
+        </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={e => {setCurrency(e.target.value)}}>
+                    <option key='' value=''>All currencies</option>
+                    {currencySelectOptions()}
+                </select>
+            </td>
+        </tr><tr className='row row-pdf'>
+            <th scope='row'>
+                <label htmlFor='pdf'>PDF:</label>
+            </th><td>
+                <input type='checkbox' name='pdf' checked={pdf} onChange={e => {setPdf(e.target.checked)}} />
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename='general-ledger' rows={() => generalLedgerRows(info)} />}
+        {info && !pdf && <LedgerTables info={info} />}
+        {report && <PDFView _key={nonce} filename='general-ledger.pdf'>{report}</PDFView>}
+    </div>
+}
+
+function LedgerTables({info}: {info: Report}) {
+    if (info.accounts.length == 0) {
+        return <div>No transactions</div>
+    }
+
+    return <>{info.accounts.map(account => {
+        const format = (amount: number) => toFormatted(amount, account.currency)
+        return <React.Fragment key={`${account.accountId}-${account.currency}`}>
+            <h2><Link to={`/accounts/${account.accountId}`}>{account.accountId} {account.accountTitle}</Link> ({account.currency})</h2>
+            <table className='data-table general-ledger'><thead><tr>
+                <th>Date</th>
+                <th>Item</th>
+                <th>Name</th>
+                <th>Description</th>
+                <th>Debit</th>
+                <th>Credit</th>
+                <th>Balance</th>
+            </tr></thead><tbody><tr className='opening'>
+                <td>{formatDateOnly(info.startDate)}</td>
+                <td colSpan={5}>Opening balance</td>
+                <td>{format(account.openingBalance)}</td>
+            </tr>
+            {account.items.map(item => {
+                const url = transactionUrl({id: item.txnId, type: item.txnType})
+                const label = `${Transaction.TypeInfo[item.txnType] ? Transaction.TypeInfo[item.txnType].label : ''} ${item.txnId}`
+                return <tr key={item.id}>
+                    <td>{formatDateOnly(item.txnDate)}</td>
+                    <td>{url ? <Link to={url}>{label}</Link> : label}</td>
+                    <td>{item.actorTitle}</td>
+                    <td>{describe(item)}</td>
+                    <td>{item.debit ? format(item.debit) : ''}</td>
+                    <td>{item.credit ? format(item.credit) : ''}</td>
+                    <td>{format(item.balance)}</td>
+                </tr>
+            })}
+            <tr className='closing'>
+                <td>{formatDateOnly(info.endDate)}</td>
+                <td colSpan={3}>Closing balance</td>
+                <td>{format(account.totalDebits)}</td>
+                <td>{format(account.totalCredits)}</td>
+                <td>{format(account.closingBalance)}</td>
+            </tr></tbody></table>
+        </React.Fragment>
+    })}</>
+}
+
+function describe(item: Report['accounts'][0]['items'][0]) {
+    return !item.txnDescription ? item.description :
+        !item.description ? item.txnDescription :
+        `${item.txnDescription}: ${item.description}`
+}
+
+function renderReport(info: Report) {
+    return <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='General Ledger' />
+            <Tr key='header' style={{marginBottom: 6}}>
+                <ThLeft width={11} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
+                <ThLeft width={12} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
+                <ThLeft width={14} innerStyle={{borderBottomWidth: 1}}>Name</ThLeft>
+                <Th width={21} innerStyle={{borderBottomWidth: 1}}>Description</Th>
+                <ThRight width={14} innerStyle={{borderBottomWidth: 1}}>Debit</ThRight>
+                <ThRight width={14} innerStyle={{borderBottomWidth: 1}}>Credit</ThRight>
+                <ThRight width={14} innerStyle={{borderBottomWidth: 1}}>Balance</ThRight>
+            </Tr>
+        </View>
+
+        {info.accounts.length == 0 && <Tr key='none'><TdLeft width={100}><T>No transactions</T></TdLeft></Tr>}
+
+        {info.accounts.map(account => {
+            const format = (amount: number) => toFormatted(amount, account.currency)
+            return <View key={`${account.accountId}-${account.currency}`} style={{marginBottom: 12}}>
+                <Tr key='opening' style={{marginBottom: 3}}>
+                    <TdLeft width={86}>
+                        <T><B>{account.accountId} {account.accountTitle}</B> ({account.currency}) opening balance</T>
+                    </TdLeft>
+                    <TdRight width={14}>{format(account.openingBalance)}</TdRight>
+                </Tr>
+                {account.items.map(item => <Tr key={item.id}>
+                    <TdLeft width={11}>{formatDateOnly(item.txnDate)}</TdLeft>
+                    <TdLeft width={12}>
+                        {!!Transaction.TypeInfo[item.txnType] && Transaction.TypeInfo[item.txnType].shortLabel} {item.txnId}
+                    </TdLeft>
+                    <TdLeft width={14} innerStyle={{maxLines: 1}}>{item.actorTitle}</TdLeft>
+                    <TdLeft width={21} innerStyle={{maxLines: 2}}>{describe(item)}</TdLeft>
+                    <TdRight width={14}>{item.debit ? format(item.debit) : ''}</TdRight>
+                    <TdRight width={14}>{item.credit ? format(item.credit) : ''}</TdRight>
+                    <TdRight width={14}>{format(item.balance)}</TdRight>
+                </Tr>)}
+                <Tr key='closing' style={{marginTop: 3}}>
+                    <ThLeft width={58}>Closing balance</ThLeft>
+                    <ThRight width={14} innerStyle={{borderTopWidth: 1, paddingTop: 3}}>{format(account.totalDebits)}</ThRight>
+                    <ThRight width={14} innerStyle={{borderTopWidth: 1, paddingTop: 3}}>{format(account.totalCredits)}</ThRight>
+                    <ThRight width={14} innerStyle={{borderTopWidth: 1, borderBottomWidth: 2, paddingVertical: 3}}>
+                        {format(account.closingBalance)}
+                    </ThRight>
+                </Tr>
+            </View>
+        })}
+    </Page></Document>
+}
@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { AuditLog, LOCALE } from '../core'
+
+type Props = {
+    target: string
+    targetId: number | string
+    // Changing this causes a reload
+    nonce?: any
+}
+
+// A read-only list of changes to a record, most recent first
+export default function History(props: Props) {
+    const [entries, setEntries] = React.useState<AuditLog[]>()
+
+    React.useEffect(() => {
+        AuditLog.query()
+            .where('target', props.target)
+            .where('targetId', String(props.targetId))
+            .orderBy('id', 'desc')
+            .then(rows => setEntries(rows))
+    }, [props.target, props.targetId, props.nonce])
+
+    return entries && entries.length > 0 ? <div className='history'>
+        <h2>History</h2>
+        <table className='data-table'><thead><tr>
+            <th>Date</th>
+            <th>User</th>
+            <th>Action</th>
+            <th>Changes</th>
+        </tr></thead><tbody>
+        {entries.map(entry => <tr key={entry.id}>
+            <td>{entry.createdAt!.toLocaleString(LOCALE)}</td>
+            <td>{entry.user}</td>
+            <td>{entry.action}</td>
+            <td>{entry.action == AuditLog.Patch ? entry.changedFields.join(', ') : ''}
+                <details>
+                    <summary>Details</summary>
+                    {entry.before && <><div>Before:</div><pre>{pretty(entry.before)}</pre></>}
+                    {entry.after && <><div>After:</div><pre>{pretty(entry.after)}</pre></>}
+                </details>
+            </td>
+        </tr>)}
+        </tbody></table>
+    </div> : null
+}
+
+function pretty(json: string) {
+    try {
+        return JSON.stringify(JSON.parse(json), null, 2)
+    }
+    catch (e) {
+        return json
+    }
+}
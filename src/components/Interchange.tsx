@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Project, Account, AccountType, InterchangeDocument, InterchangeImportResult, exportInterchange,
+    validateInterchange, importInterchange, ForeignFormat, ForeignFormatInfo, UnmappedAccount, foreignFormat,
+    parseForeign, exportLedger, DatePreset, datePresetDates, toDateOnly, formatDateOnly } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { saveFile } from './Export'
+import { DateRange } from './Reports'
+import { datePresetSelectOptions } from './SelectOptions'
+
+const accept = Object.values(ForeignFormatInfo).reduce((list, info) => [...list, ...info.extensions], ['json'])
+    .map(extension => `.${extension}`).join(',')
+
+export default function Interchange() {
+    const [doc, setDoc] = React.useState<InterchangeDocument>()
+    // Format of a file from other software. Undefined for our own format.
+    const [source, setSource] = React.useState<ForeignFormat>()
+    const [unmapped, setUnmapped] = React.useState<UnmappedAccount[]>([])
+    const [merge, setMerge] = React.useState<boolean>(false)
+    const [result, setResult] = React.useState<InterchangeImportResult>()
+    const [error, setError] = React.useState<string>('')
+    // Date range of the Ledger export. An empty preset means all dates.
+    const [preset, setPreset] = React.useState<string>('')
+    const [startDate, setStartDate] = React.useState<string>('')
+    const [endDate, setEndDate] = React.useState<string>('')
+
+    function onPresetChange(e: any) {
+        const value = e.target.value
+        setPreset(value)
+
+        if (value != 'custom') {
+            const range = value ? datePresetDates(value as DatePreset) : ['', '']
+            setStartDate(range[0])
+            setEndDate(range[1])
+        }
+    }
+
+    function onExport() {
+        exportInterchange().then(data => {
+            const blob = new Blob([JSON.stringify(data, null, 2)], {type: 'application/json'})
+            return saveFile(`books-${toDateOnly(new Date())}.json`, blob, 'Export books as')
+        }).then(() => {
+            setError('')
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    function onExportLedger() {
+        exportLedger(startDate || undefined, endDate || undefined).then(text => {
+            const blob = new Blob([text], {type: 'text/plain'})
+            return saveFile(`books-${endDate || toDateOnly(new Date())}.journal`, blob, 'Export journal as')
+        }).then(() => {
+            setError('')
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files && e.target.files[0]
+        setDoc(undefined)
+        setResult(undefined)
+        if (file) {
+            const format = foreignFormat(file.name)
+            const reader = new FileReader()
+            reader.onload = () => {
+                const data = new Uint8Array(reader.result as ArrayBuffer)
+                Promise.resolve().then(() => {
+                    return format ? parseForeign(format, data, Project.variables.get('currency')) :
+                        validateInterchange(JSON.parse(new TextDecoder().decode(data))).then(document => ({
+                            document, unmapped: [],
+                        }))
+                }).then(({document, unmapped}) => {
+                    setDoc(document)
+                    setSource(format)
+                    setUnmapped(unmapped)
+                    setError('')
+                }).catch(e => {
+                    playAlert()
+                    setError(e.toString())
+                })
+            }
+            reader.readAsArrayBuffer(file)
+        }
+    }
+
+    // Sets the type of an account which couldn't be mapped
+    function onAccountType(id: number, type: AccountType) {
+        const account = doc!.accounts.find(a => a.id == id)!
+        account.type = type
+        setDoc({...doc!})
+    }
+
+    function onImport() {
+        // Books from other software are always added to the existing books
+        importInterchange(doc, merge || !!source).then(data => {
+            playSuccess()
+            setDoc(undefined)
+            setSource(undefined)
+            setUnmapped([])
+            setResult(data)
+            setError('')
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    const dates = doc ? doc.transactions.map(t => t.date).sort() : []
+
+    return <div>
+        <h1 className='title'>Import / Export</h1>
+        <p>
+            Books can be exported to, and imported from, an open JSON format.
+            The file contains settings, accounts, customers, suppliers and all transactions.
+        </p>
+        <p>
+            Books can also be imported from {Object.values(ForeignFormatInfo).map(info => info.label).join(', ')} files.
+            Recognisable cash sales and purchases are imported as such. Everything else is imported as raw journal entries.
+        </p>
+
+        <h2>Export</h2>
+        <button type='button' onClick={onExport}>Export books</button>
+
+        <h3>Ledger journal</h3>
+        <p>
+            Transactions can also be exported as a plain-text journal for Ledger or hledger.
+            If there is a start date, earlier balances are brought forward as opening balances.
+        </p>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date-preset'>
+            <th scope='row'>
+                <label htmlFor='preset'>Date:</label>
+            </th><td>
+                <select name='preset' value={preset} onChange={onPresetChange}>
+                    <option key='' value=''>All dates</option>
+                    {datePresetSelectOptions()}
+                </select>
+                {preset == 'custom' && <DateRange onChange={(start, end) => {setStartDate(start); setEndDate(end)}}
+                    startDate={startDate} endDate={endDate} />}
+            </td>
+        </tr></tbody></table>
+        <button type='button' onClick={onExportLedger}>Export journal</button>
+
+        <h2>Import</h2>
+        <table className='horizontal-table-form'><tbody><tr className='row row-file'>
+            <th scope='row'>
+                <label htmlFor='file'>File:</label>
+            </th><td>
+                <input type='file' name='file' accept={accept} onChange={onFile} />
+            </td>
+        </tr>{!source && <tr className='row row-merge'>
+            <th scope='row'>
+                <label htmlFor='merge'>Merge:</label>
+            </th><td>
+                <input type='checkbox' name='merge' checked={merge} onChange={e => {setMerge(e.target.checked)}} />
+                &nbsp;Add to existing transactions and keep existing settings
+            </td>
+        </tr>}</tbody></table>
+
+        {doc && <div className='interchange-preview'>
+            <table className='data-table'><tbody>
+                {source && <tr><th scope='row'>Source</th><td>{ForeignFormatInfo[source].label}</td></tr>}
+                <tr><th scope='row'>Accounts</th><td>{doc.accounts.length}</td></tr>
+                <tr><th scope='row'>Customers and suppliers</th><td>{doc.actors.length}</td></tr>
+                <tr><th scope='row'>Transactions</th><td>{doc.transactions.length}</td></tr>
+                {dates.length > 0 && <tr><th scope='row'>Dates</th><td>
+                    {formatDateOnly(dates[0])} to {formatDateOnly(dates[dates.length - 1])}
+                </td></tr>}
+            </tbody></table>
+
+            {unmapped.length > 0 && <div className='interchange-unmapped'>
+                <p>The type of these accounts could not be worked out. Please choose a type for each one.</p>
+                <table className='data-table'><thead><tr>
+                    <th>Account</th><th>Original type</th><th>Type</th>
+                </tr></thead><tbody>
+                {unmapped.map(u => <tr key={u.id}>
+                    <td>{u.name}</td>
+                    <td>{u.foreignType}</td>
+                    <td><select value={doc.accounts.find(a => a.id == u.id)!.type}
+                        onChange={e => onAccountType(u.id, e.target.value as AccountType)}>
+                        {Object.keys(Account.TypeInfo).map(type =>
+                            <option key={type} value={type}>{Account.TypeInfo[type].label}</option>
+                        )}
+                    </select></td>
+                </tr>)}
+                </tbody></table>
+            </div>}
+            <button type='button' onClick={onImport}>Import</button>
+        </div>}
+
+        {result && <div className='interchange-result'>
+            Imported {result.transactions} transactions
+            ({result.accounts} new accounts, {result.actors} new customers and suppliers).
+            See the <Link to='/transactions'>journal</Link>.
+        </div>}
+        <div className='error'>
+            {error}
+        </div>
+    </div>
+}
@@ -4,13 +4,14 @@
 
 import * as React from 'react'
 import { Controller, useForm, useFieldArray, FormContextValues as FCV } from 'react-hook-form'
+import { Link } from 'react-router-dom'
 import DatePicker from 'react-datepicker'
 import {  TransactionOrKnex, Model,
-    Transaction, Account, IElement,
-    dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate,
+    Project, Transaction, Account, IElement,
+    dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate, formatDateOnly,
     toFormatted, parseFormatted } from '../core'
 import { playSuccess, playAlert } from '../util/sound'
-import { MaybeSelect, currencySelectOptions } from './SelectOptions'
+import { MaybeSelect, currencySelectOptions, flatSelectOptions } from './SelectOptions'
 
 type Props = {
     transaction: Transaction
@@ -21,6 +22,7 @@ type FormData = {
         tId?: number
         date: Date
         description?: string
+        accountId: number
         amount: string
         currency: string
         submit?: string    // Only for displaying general submit error messages
@@ -31,6 +33,8 @@ type FormData = {
 export default function InvoicePayment(props: Props) {
     const transaction = props.transaction
     const [settlements, setSettlements] = React.useState<Transaction[]>([])
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [notes, setNotes] = React.useState<Transaction[]>([])
 
     const form = useForm<FormData>()
     const {fields} = useFieldArray({control: form.control, name: 'payments'})
@@ -39,6 +43,13 @@ export default function InvoicePayment(props: Props) {
     React.useEffect(() => {
         let mounted = true
 
+        Account.settlementAccounts()
+        .then(rows => {
+            if (mounted) {
+                setAccountOptions(flatSelectOptions(rows))
+            }
+        })
+
         Transaction.query().where('type', Transaction.InvoicePayment)
         .where(transaction.settlements()).orderBy(['date', 'id'])
         .withGraphFetched('elements')
@@ -49,6 +60,15 @@ export default function InvoicePayment(props: Props) {
             }
         })
 
+        Transaction.query().where('type', Transaction.CreditNote)
+        .where(transaction.settlements()).orderBy(['date', 'id'])
+        .withGraphFetched('elements')
+        .then(rows => {
+            if (mounted) {
+                setNotes(rows)
+            }
+        })
+
         return () => {mounted=false}
     }, [transaction.updatedAt ? transaction.updatedAt.toString() : 0])
 
@@ -69,7 +89,7 @@ export default function InvoicePayment(props: Props) {
         })
     }
 
-    if (settlements) {
+    if (settlements && accountOptions) {
         const paymentsForm = <div>
             <h2>Payments</h2>
             <form>
@@ -80,6 +100,8 @@ export default function InvoicePayment(props: Props) {
                         Date
                     </th><th>
                         Description
+                    </th><th>
+                        Account
                     </th><th>
                         Amount
                     </th><th>
@@ -117,6 +139,13 @@ export default function InvoicePayment(props: Props) {
                             ref={form.register()}
                             onKeyPress={keyboardSubmit}
                         />
+                    </td><td className='account'>
+                        <select
+                            name={`payments[${index}].accountId`}
+                            defaultValue={item.accountId}
+                            ref={form.register()}>
+                            {accountOptions}
+                        </select>
                     </td><td className='amount'>
                         <MaybeSelect
                             name={`payments[${index}].currency`}
@@ -156,11 +185,39 @@ export default function InvoicePayment(props: Props) {
         // Collect all the entries to AccountsReceivable together and calculate
         // the unpaid portion of the invoice.
         const allElements: IElement[] = []
-        const allTransactions = [transaction, ...settlements]
-        allTransactions.forEach(t => allElements.push(...t.elements!))
+        const allTransactions = [transaction, ...settlements, ...notes]
+        allTransactions.forEach(t => allElements.push(...t.elements!.filter(
+            e => e.transactionId == transaction.id || e.settleId == transaction.id)))
         const balances = Transaction.getDebitBalances(allElements.filter(
             e => e.accountId == Account.Reserved.AccountsReceivable))
 
+        const notesPane = notes.length > 0 ? <div>
+            <h2>Credit notes</h2>
+            <table className='transaction-notes'><thead><tr><th>
+                    Id
+                </th><th>
+                    Date
+                </th><th>
+                    Description
+                </th><th>
+                    Amount
+            </th></tr></thead>
+            <tbody>
+            {notes.map(t => {
+                const e = t.elements!.find(e => e.settleId == transaction.id)
+                return <tr key={t.id} className={`note note-${t.id}`}><td className='id'>
+                    <Link to={`/sales/${t.id}`}>{t.id}</Link>
+                </td><td className='date'>
+                    {formatDateOnly(t.date!)}
+                </td><td className='description'>
+                    {t.description}
+                </td><td className='amount'>
+                    {e ? toFormatted(e.amount!, e.currency!) : ''}
+                </td></tr>
+            })}
+            </tbody></table>
+        </div> : null
+
         const balancesPane = <div>
             <h2>Balance</h2>
             <table className='transaction-balances'><thead><tr><th>
@@ -181,6 +238,7 @@ export default function InvoicePayment(props: Props) {
 
         return <>
             {paymentsForm}
+            {notesPane}
             {balancesPane}
         </>
     }
@@ -195,12 +253,16 @@ function extractFormValues(transaction: Transaction, settlements: Transaction[])
     }
 
     settlements.forEach(s => {
+        // The other side of the payment is the bank/cash account
+        const other = s.elements!.find(e => e.drcr == Transaction.Debit && e.accountId != Account.Reserved.AccountsReceivable &&
+            !Account.isExchangeAccount(e.accountId!))
         s.elements!.forEach(e => {
             if (e.drcr == Transaction.Credit && e.accountId == Account.Reserved.AccountsReceivable) {
                 values.payments.push({
                     tId: s.id,
                     date: parseISO(s.date!),
                     description: s.description,
+                    accountId: other ? other.accountId! : Project.variables.get('settlementAccountId'),
                     amount: toFormatted(e.amount!, e.currency!),
                     currency: e.currency!,
                 })
@@ -210,6 +272,7 @@ function extractFormValues(transaction: Transaction, settlements: Transaction[])
 
     values.payments.push({
         date: lastSavedDate(),
+        accountId: Project.variables.get('settlementAccountId'),
         amount: '',
         currency: transaction.elements![0].currency!
     })
@@ -244,6 +307,7 @@ async function saveFormData(
 
     const item = data.payments[data.index]
     const amount = parseFormatted(item.amount, item.currency)
+    const accountId = Number(item.accountId || Project.variables.get('settlementAccountId'))
     if (item.tId) {
         // Modify an existing payment transaction
         const payment = settlements[data.index]
@@ -252,7 +316,7 @@ async function saveFormData(
 
         const elements: IElement[] = [{
             id: payment.getFirstDrElement()!.id,
-            accountId: Account.Reserved.Cash,
+            accountId,
             drcr: Transaction.Debit,
             amount,
             currency: item.currency,
@@ -283,7 +347,7 @@ async function saveFormData(
         })
 
         const elements: IElement[] = [{
-            accountId: Account.Reserved.Cash,
+            accountId,
             drcr: Transaction.Debit,
             amount,
             currency: item.currency,
@@ -3,9 +3,39 @@
  */
 
 import * as React from 'react'
+import { useForm } from 'react-hook-form'
+import { Preferences, AuditLog } from '../core'
+import { playSuccess } from '../util/sound'
+
+type FormData = {
+    userName: string
+}
 
 export default function PreferencesPage() {
+    const form = useForm<FormData>({
+        defaultValues: {userName: Preferences.get('userName') || ''}
+    })
+
+    const onSubmit = (data: FormData) => {
+        Preferences.set('userName', data.userName.trim())
+        AuditLog.user = data.userName.trim()
+        playSuccess()
+    }
+
     return <div>
         <h1 className='title'>Preferences</h1>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+            <table className='horizontal-table-form'><tbody><tr className='row row-user-name'>
+                <th scope='row'>
+                    <label htmlFor='userName'>Your name:</label>
+                </th><td>
+                    <input name='userName' ref={form.register} />
+                    <span>This is recorded in the history of changes</span>
+                </td>
+            </tr></tbody></table>
+            <div className='buttons'>
+                <input type='submit' value='Save' />
+            </div>
+        </form>
     </div>
 }
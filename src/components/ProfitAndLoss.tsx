@@ -6,8 +6,11 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, Tr, Th, ThLeft, ThRight, Td, TdLeft, TdRight } from './PDFView'
 import { Transaction, formatDateOnly, toFormattedAbs,
-    Money, ProfitAndLoss, profitAndLoss, datePresetDates } from '../core'
-import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader, ExchangeRates } from './Reports'
+    Money, ProfitAndLoss, profitAndLoss, datePresetDates,
+    DatedRate, DateComparison, comparisonDates, comparativeLines, comparativeTotals, profitAndLossRows } from '../core'
+import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader } from './Reports'
+import { ComparativeDocument, ComparativeRow, ComparisonSelect, comparativeExportRows } from './ComparativeReport'
+import { ExportLinks } from './Export'
 import { currencySelectOptions, datePresetSelectOptions } from './SelectOptions'
 
 export function ProfitAndLoss({summary}: {summary?: boolean}) {
@@ -15,7 +18,11 @@ export function ProfitAndLoss({summary}: {summary?: boolean}) {
     const [startDate, setStartDate] = React.useState<string>('')
     const [endDate, setEndDate] = React.useState<string>('')
     const [currency, setCurrency] = React.useState<string>('')
+    const [rateDate, setRateDate] = React.useState<string>('')
+    const [comparison, setComparison] = React.useState<string>('')
+    const [count, setCount] = React.useState<number>(1)
     const [info, setInfo] = React.useState<ProfitAndLoss>()
+    const [compared, setCompared] = React.useState<{periods: string[][], reports: ProfitAndLoss[]}>()
     const [error, setError] = React.useState<string>('')
     const [nonce, setNonce] = React.useState<number>(0)
 
@@ -39,22 +46,42 @@ export function ProfitAndLoss({summary}: {summary?: boolean}) {
         setCurrency(e.target.value)
     }
 
+    function onComparisonChange(comparison: string, count: number) {
+        setComparison(comparison)
+        setCount(count)
+    }
+
     React.useEffect(() => {
         if (startDate && endDate) {
-            profitAndLoss(startDate, endDate, currency).then(data => {
-                setInfo(data)
+            // Comparisons only apply to the summary
+            const periods = summary && comparison ?
+                comparisonDates(startDate, endDate, comparison as DateComparison, count) : [[startDate, endDate]]
+
+            Promise.all(periods.map(([start, end]) => profitAndLoss(start, end, currency, rateDate == 'end' ? end : undefined))).then(reports => {
+                setInfo(reports[0])
+                setCompared(summary && comparison ? {periods, reports} : undefined)
                 setError('')
                 setNonce(Date.now())
             }).catch(e => {
                 setError(e.toString())
             })
         }
-    }, [startDate, endDate, currency])
+    }, [startDate, endDate, currency, rateDate, summary, comparison, count])
 
     const report = React.useMemo(() => {
+        if (info && compared) {
+            return <ComparativeDocument
+                title='Profit and Loss: Summary'
+                periods={compared.periods}
+                comparison={comparison as DateComparison}
+                rows={comparativeRows(compared.reports)}
+                rates={usedRates(compared.reports)}
+            />
+        }
+
         return info ? <Document>{summary ? <Page size="A4" style={[Styles.page, {fontSize: 9}]}>
             <View fixed={true}>
-                <ReportHeader startDate={info.startDate} endDate={info.endDate} title='Profit and Loss: Summary' />
+                <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='Profit and Loss: Summary' />
             </View>
 
             {info.hasOperations ? <DivisionSummary
@@ -79,11 +106,10 @@ export function ProfitAndLoss({summary}: {summary?: boolean}) {
                 division={info.interestTax}
             />}
             <Totals key='netProfit' totals={info.netProfit} width={60} label='Net profit' />
-            <ExchangeRates rates={info.exchangeRates} />
         </Page> :
         <Page size="A4" style={[Styles.page, {fontSize: 9}]}>
             <View fixed={true}>
-                <ReportHeader startDate={info.startDate} endDate={info.endDate} title='Profit and Loss: Detail' />
+                <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title='Profit and Loss: Detail' />
                 <Tr key='header' style={{marginBottom: 6}}>
                     <ThLeft width={18} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
                     <ThLeft width={11} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
@@ -115,7 +141,6 @@ export function ProfitAndLoss({summary}: {summary?: boolean}) {
                 division={info.interestTax}
             />}
             <Totals key='netProfit' totals={info.netProfit} label='Net profit' />
-            <ExchangeRates rates={info.exchangeRates} />
         </Page>}</Document> : null
     }, [summary, info && nonce ? nonce : 0])
 
@@ -140,13 +165,80 @@ export function ProfitAndLoss({summary}: {summary?: boolean}) {
                     {currencySelectOptions()}
                 </select>
             </td>
-        </tr></tbody></table>
+        </tr>{currency && <tr className='row row-rate-date'>
+            <th scope='row'>
+                <label htmlFor='rateDate'>Exchange rates:</label>
+            </th><td>
+                <select name='rateDate' value={rateDate} onChange={e => {setRateDate(e.target.value)}}>
+                    <option key='' value=''>On each transaction date</option>
+                    <option key='end' value='end'>On the end date</option>
+                </select>
+            </td>
+        </tr>}{summary && <tr className='row row-comparison'>
+            <th scope='row'>
+                <label htmlFor='comparison'>Compare:</label>
+            </th><td>
+                <ComparisonSelect comparison={comparison} count={count} onChange={onComparisonChange} />
+            </td>
+        </tr>}</tbody></table>
 
         {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename={`profit-and-loss-${summary ? 'summary' : 'detail'}`} rows={() => compared ?
+            comparativeExportRows({
+                periods: compared.periods,
+                comparison: comparison as DateComparison,
+                rows: comparativeRows(compared.reports),
+            }) : profitAndLossRows(info, !summary)} />}
         {report && <PDFView _key={nonce} filename={`profit-and-loss-${summary ? 'summary' : 'detail'}.pdf`}>{report}</PDFView>}
     </div>
 }
 
+// Exchange rates which were used by any of the reports
+function usedRates(reports: ProfitAndLoss[]): DatedRate[] {
+    const rates: Record<string, DatedRate> = {}
+    reports.forEach(report => report.rates.forEach(rate => {
+        rates[`${rate.date} ${rate.from} ${rate.to}`] = rate
+    }))
+    return Object.keys(rates).sort().map(key => rates[key])
+}
+
+// Rows of the multi-column summary
+function comparativeRows(reports: ProfitAndLoss[]): ComparativeRow[] {
+    const rows: ComparativeRow[] = []
+    const divisions: [keyof ProfitAndLoss, string, string][] = [
+        ['operations', 'Ordinary revenue / expense', 'Earnings before interest, tax, depreciation and amortisation (EBITDA)'],
+        ['depreciation', 'Depreciation and amortisation', 'Net depreciation and amortisation'],
+        ['interestTax', 'Interest and tax', 'Net interest and tax'],
+    ]
+
+    divisions.forEach(([key, label, netLabel]) => {
+        const divisionList = reports.map(r => r[key] as ProfitAndLoss['operations'])
+        const revenues = comparativeLines(divisionList.map(d => d.revenues.groups))
+        const expenses = comparativeLines(divisionList.map(d => d.expenses.groups))
+        if (key != 'operations' && revenues.length == 0 && expenses.length == 0) {
+            return
+        }
+
+        rows.push({heading: label})
+        if (revenues.length > 0) {
+            rows.push({heading: 'Revenue', indent: 2}, {lines: revenues},
+                {label: 'Total Revenue', totals: comparativeTotals(divisionList.map(d => d.revenues.totals))})
+        }
+        if (expenses.length > 0) {
+            rows.push({heading: 'Expenses', indent: 2}, {lines: expenses},
+                {label: 'Total Expenses', totals: comparativeTotals(divisionList.map(d => d.expenses.totals))})
+        }
+        rows.push({label: netLabel, totals: comparativeTotals(divisionList.map(d => d.netTotals)), grand: true})
+
+        if (key == 'depreciation' || (key == 'operations' && !reports.some(r => r.hasDepreciation))) {
+            rows.push({label: 'Earnings before interest and tax (EBIT)', totals: comparativeTotals(reports.map(r => r.ebit)), grand: true})
+        }
+    })
+
+    rows.push({label: 'Net profit', totals: comparativeTotals(reports.map(r => r.netProfit)), grand: true})
+    return rows
+}
+
 type DivisionProps = {
     label: string
     netLabel: string
@@ -10,14 +10,18 @@ import { TransactionOrKnex, Model,
     Project, Transaction, TransactionType, Account, Actor, IElement,
     dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate,
     toFormatted, parseFormatted, TaxCodeInfo, hasActiveTaxAuthority } from '../core'
-import { validateElementAmounts, validateElementTaxAmounts } from '../util/util'
+import { validateElementAmounts, validateElementTaxAmounts, validateLockDate } from '../util/util'
 import { playSuccess, playAlert } from '../util/sound'
 import { MaybeSelect, hashSelectOptions, flatSelectOptions, accountSelectOptions, currencySelectOptions, taxSelectOptions } from './SelectOptions'
 import { formCalculateTaxes } from './form'
 import BillPayment from './BillPayment'
+import Attachments from './Attachments'
+import History from './History'
 
 type Props = {
     arg1?: string
+    // If true, arg1 is the id of a bill to be reversed by a new debit note
+    reverse?: boolean
 }
 
 export type FormData = {
@@ -27,6 +31,10 @@ export type FormData = {
     date: Date
     due?: Date | ''
     description?: string
+    // Only for cash sales/purchases
+    settlementAccountId?: number
+    // Only for debit notes: The bill which is reversed
+    settleId?: number
     elements: {
         // `.id` is used by the form system so we have eId to store 'our' id
         eId?: number
@@ -52,7 +60,7 @@ export type FormData = {
 
 export default function Purchase(props: Props) {
     // argId == 0 means creating a new transaction
-    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+    const argId = !props.reverse && /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
 
     const [transaction, setTransaction] = React.useState<Transaction>()
     const [prevId, setPrevId] = React.useState<number>(-1)
@@ -60,6 +68,8 @@ export default function Purchase(props: Props) {
     const [accountOptions, setAccountOptions] = React.useState<{}>()
     const [supplierOptions, setSupplierOptions] = React.useState<{}>()
     const [actorTitleEnable, setActorTitleEnable] = React.useState<boolean>(false)
+    const [settlementOptions, setSettlementOptions] = React.useState<{}>()
+    const [billOptions, setBillOptions] = React.useState<{}>()
     const [redirectId, setRedirectId] = React.useState<number>(-1)
     let action = ''
 
@@ -72,6 +82,7 @@ export default function Purchase(props: Props) {
         form.reset({
             actorId: 0,
             date: lastSavedDate(),
+            settlementAccountId: Project.variables.get('settlementAccountId'),
             elements: [{currency}],
         })
     }
@@ -109,9 +120,30 @@ export default function Purchase(props: Props) {
             }
         })
 
+        // Load bank/cash accounts
+        Account.settlementAccounts()
+        .then(rows => {
+            if (mounted) {
+                setSettlementOptions(flatSelectOptions(rows))
+            }
+        })
+
+        // Load bills which can be reversed
+        Transaction.query().leftJoin('actor', 'txn.actorId', 'actor.id')
+        .select('txn.*', 'actor.title as actorTitle')
+        .where('txn.type', Transaction.Bill)
+        .orderBy([{column: 'date', order: 'desc'}, {column: 'id', order: 'desc'}])
+        .then((rows: any[]) => {
+            if (mounted) {
+                setBillOptions(flatSelectOptions([{id: 0, title: ''}, ...rows.map(row => {
+                    return {id: row.id, title: `${Transaction.TypeInfo[Transaction.Bill].label} ${row.id}: ${row.actorTitle}`}
+                })]))
+            }
+        })
+
         // Load transaction (if exists) and initialise form accordingly
         if (argId > 0) {
-            Transaction.query().findById(argId).whereIn('type', [Transaction.Purchase, Transaction.Bill])
+            Transaction.query().findById(argId).whereIn('type', [Transaction.Purchase, Transaction.Bill, Transaction.DebitNote])
             .withGraphFetched('elements')
             .then(t => {
                 if (t && mounted) {
@@ -124,14 +156,14 @@ export default function Purchase(props: Props) {
                         form.reset(extractFormValues(t))
 
                         // Prev
-                        Transaction.prevId(t, [Transaction.Purchase, Transaction.Bill]).then(id => {
+                        Transaction.prevId(t, [Transaction.Purchase, Transaction.Bill, Transaction.DebitNote]).then(id => {
                             if (mounted) {
                                 setPrevId(id)
                             }
                         })
 
                         // Next
-                        Transaction.nextId(t, [Transaction.Purchase, Transaction.Bill]).then(id => {
+                        Transaction.nextId(t, [Transaction.Purchase, Transaction.Bill, Transaction.DebitNote]).then(id => {
                             if (mounted) {
                                 setNextId(id)
                             }
@@ -145,7 +177,7 @@ export default function Purchase(props: Props) {
             clearForm()
 
             // Prev
-            Transaction.prevId(undefined, [Transaction.Purchase, Transaction.Bill]).then(id => {
+            Transaction.prevId(undefined, [Transaction.Purchase, Transaction.Bill, Transaction.DebitNote]).then(id => {
                 if (mounted) {
                     setPrevId(id)
                 }
@@ -153,6 +185,17 @@ export default function Purchase(props: Props) {
 
             // Next
             setNextId(0)
+
+            // Prefill a debit note with the lines of the bill
+            if (props.reverse) {
+                Transaction.query().findById(Number(props.arg1)).where('type', Transaction.Bill)
+                .withGraphFetched('elements')
+                .then(t => {
+                    if (t && mounted) {
+                        form.reset(debitNoteFormValues(t))
+                    }
+                })
+            }
         }
 
         return () => {mounted=false}
@@ -192,7 +235,7 @@ export default function Purchase(props: Props) {
     if (redirectId >= 0 && redirectId != argId) {
         return <Redirect to={`/purchases/${redirectId ? redirectId : 'new'}`} />
     }
-    else if (transaction && prevId >= 0 && nextId >= 0 && accountOptions && supplierOptions) {
+    else if (transaction && prevId >= 0 && nextId >= 0 && billOptions && accountOptions && settlementOptions && supplierOptions) {
         const purchaseForm = <div>
             <div className='title-pane'>
                 <span className='breadcrumb'><Link to='/purchases'>Purchases</Link> » </span>
@@ -200,6 +243,10 @@ export default function Purchase(props: Props) {
                     {transaction.id ? `${Transaction.TypeInfo[transaction.type!].label} ${transaction.id}` : 'New purchase'}
                 </h1>
                 <span className='tasks'>
+                    {transaction.id && transaction.type == Transaction.Bill &&
+                        <><Link to={`/purchases/reverse/${transaction.id}`}>Debit note</Link>&nbsp;|&nbsp;</>}
+                    {transaction.id && transaction.type != Transaction.DebitNote &&
+                        <><Link to={`/recurring/from/${transaction.id}`}>Make recurring</Link>&nbsp;|&nbsp;</>}
                     {prevId ? <Link to={`/purchases/${prevId}`}>Prev</Link> : <span className='disabled'>Prev</span>}
                     &nbsp;|&nbsp;
                     {argId == 0 ? <span className='disabled'>Next</span> : <Link to={`/purchases/${nextId ? nextId : 'new'}`}>Next</Link>}
@@ -218,6 +265,9 @@ export default function Purchase(props: Props) {
                             <option key={Transaction.Bill} value={Transaction.Bill}>
                                 {Transaction.TypeInfo[Transaction.Bill].label}
                             </option>
+                            <option key={Transaction.DebitNote} value={Transaction.DebitNote}>
+                                {Transaction.TypeInfo[Transaction.DebitNote].label}
+                            </option>
                         </select>
                         {form.errors.type && <span className='error'>
                             {form.errors.type.message}
@@ -288,7 +338,26 @@ export default function Purchase(props: Props) {
                     </th><td>
                         <input name='description' ref={form.register} />
                     </td>
-                </tr></tbody></table>
+                </tr>{type == TransactionType.Purchase && <tr className='row row-settlement-account'>
+                    <th scope='row'>
+                        <label htmlFor='settlementAccountId'>Paid from:</label>
+                    </th><td>
+                        <select name='settlementAccountId' ref={form.register}>
+                            {settlementOptions}
+                        </select>
+                    </td>
+                </tr>}{type == TransactionType.DebitNote && <tr className='row row-settle'>
+                    <th scope='row'>
+                        <label htmlFor='settleId'>Reverses bill:</label>
+                    </th><td>
+                        <select name='settleId' ref={form.register}>
+                            {billOptions}
+                        </select>
+                        {form.errors.settleId && <span className='error'>
+                            {form.errors.settleId.message}
+                        </span>}
+                    </td>
+                </tr>}</tbody></table>
                 <table className='transaction-elements'><thead><tr>
                     <th rowSpan={2}>
                         Account
@@ -336,6 +405,12 @@ export default function Purchase(props: Props) {
             {!!transaction.id && transaction.type == Transaction.Bill &&
             transaction.elements && transaction.elements.length > 0 &&
             <BillPayment transaction={transaction} />}
+            {!!transaction.id && <Attachments transactionId={transaction.id} />}
+            {!!transaction.id && <History
+                target={Transaction.tableName}
+                targetId={transaction.id}
+                nonce={transaction.updatedAt ? transaction.updatedAt.toString() : 0}
+            />}
         </div>
     }
 
@@ -546,14 +621,17 @@ export function extractFormValues(t: Transaction): FormData {
         description: t.description,
         actorId: t.actorId!,
         actorTitle: '',
+        settlementAccountId: Project.variables.get('settlementAccountId'),
         elements: [],
     }
 
     if (t.elements) {
+        // Debit notes are the reverse of bills
+        const drcr = t.type == Transaction.DebitNote ? Transaction.Credit : Transaction.Debit
         const children = []
         for (let e of t.elements) {
-            if (e.drcr == Transaction.Debit) {
-                // Only populate debit elements
+            if (e.drcr == drcr) {
+                // Only populate debit elements (or the opposite for debit notes)
                 if (e.parentId == 0) {
                     values.elements.push({
                         eId: e.id,
@@ -571,6 +649,13 @@ export function extractFormValues(t: Transaction): FormData {
                     children.push(e)
                 }
             }
+            else if (t.type == Transaction.Purchase && e.parentId == 0 && e.amount) {
+                // The balancing element is the bank/cash account
+                values.settlementAccountId = e.accountId!
+            }
+            else if (e.settleId) {
+                values.settleId = e.settleId
+            }
         }
 
         // Now populate child elements. Any orphans are promoted.
@@ -628,6 +713,24 @@ export function extractFormValues(t: Transaction): FormData {
     return values
 }
 
+// Returns form values for a new debit note which reverses all lines of a bill
+export function debitNoteFormValues(t: Transaction): FormData {
+    const values = extractFormValues(t)
+    values.elements.forEach(e => {
+        delete e.eId
+        if (e.taxes) {
+            e.taxes.forEach(sub => delete sub.eId)
+        }
+    })
+
+    return {...values,
+        type: Transaction.DebitNote,
+        date: lastSavedDate(),
+        due: undefined,
+        settleId: t.id,
+    }
+}
+
 // Returns true if validation succeeded, false otherwise
 export function validateFormData(form: FCV<FormData>, data: FormData) {
     if (!data.type) {
@@ -646,6 +749,9 @@ export function validateFormData(form: FCV<FormData>, data: FormData) {
         form.setError('date', '', 'Date is required')
         return false
     }
+    if (!validateLockDate(form, data)) {
+        return false
+    }
     if (!data.elements || data.elements.length == 0) {
         form.setError('submit', '', 'Nothing to save')
         return false
@@ -682,14 +788,32 @@ export function validateFormData(form: FCV<FormData>, data: FormData) {
 
 // Returns: id of the transaction that was saved/created, 0 otherwise
 export async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+    // Check before creating anything (eg. a new actor)
+    await Transaction.checkLock(toDateOnly(data.date))
+    await Transaction.checkLock(transaction.date)
+
     if (data.actorId == Actor.NewSupplier) {
         const actor = Actor.construct({title: data.actorTitle!.trim(), type: Actor.Supplier})
         await actor.save(trx)
         data.actorId = actor.id!
     }
 
+    // Debit notes are the reverse of bills
+    const [lineDrcr, balanceDrcr] = data.type == Transaction.DebitNote ?
+        [Transaction.Credit, Transaction.Debit] : [Transaction.Debit, Transaction.Credit]
+    const settleId = data.type == Transaction.DebitNote ? Number(data.settleId || 0) : 0
+    if (settleId) {
+        const original = await Transaction.query(trx).findById(settleId).where('type', Transaction.Bill)
+        if (!original) {
+            return Promise.reject('Bill not found')
+        }
+        if (data.actorId != Actor.NewSupplier && original.actorId != data.actorId) {
+            return Promise.reject('Bill is for a different supplier')
+        }
+    }
+
     // Get a list of balancing IDs. Re-use them if available
-    const ids = transaction.getCrElementIds()
+    const ids = transaction.getCrElementIds(balanceDrcr)
 
     Object.assign(transaction, {
         description: data.description,
@@ -705,7 +829,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
         elements.push({
             id: e0.eId ? Number(e0.eId) : undefined,
             accountId: Number(e0.accountId),
-            drcr: Transaction.Debit,
+            drcr: lineDrcr,
             // Note: Use the currency value of the first item
             amount: parseFormatted(e0.amount, data.elements[0].currency),
             currency: data.elements[0].currency,
@@ -734,7 +858,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
                 elements.push({
                     id: sub.eId ? Number(sub.eId) : undefined,
                     accountId: useTax ? Number(e0.accountId) : Account.Reserved.TaxReceivable,
-                    drcr: Transaction.Debit,
+                    drcr: lineDrcr,
                     // Note: Use the currency value of the first item
                     amount: parseFormatted(sub.amount, data.elements[0].currency),
                     currency: data.elements[0].currency,
@@ -750,7 +874,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
                     elements.push({
                         id: ids.shift(),
                         accountId: Account.Reserved.TaxPayable,
-                        drcr: Transaction.Credit,
+                        drcr: balanceDrcr,
                         // Note: Use the currency value of the first item
                         amount: parseFormatted(sub.amount, data.elements[0].currency),
                         currency: data.elements[0].currency,
@@ -766,16 +890,19 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
     })
 
     // Generate balancing elements.
-    for (let money of Transaction.getDebitBalances(elements)) {
+    const settlementAccountId = Number(data.settlementAccountId || Project.variables.get('settlementAccountId'))
+    const balances = lineDrcr == Transaction.Credit ?
+        Transaction.getCreditBalances(elements) : Transaction.getDebitBalances(elements)
+    for (let money of balances) {
         elements.push({
             id: ids.shift(),
-            accountId: data.type == Transaction.Purchase ? Account.Reserved.Cash : Account.Reserved.AccountsPayable,
-            drcr: Transaction.Credit,
+            accountId: data.type == Transaction.Purchase ? settlementAccountId : Account.Reserved.AccountsPayable,
+            drcr: balanceDrcr,
             amount: money.amount,
             currency: money.currency,
             useGross: 0,
             description: '',
-            settleId: 0,
+            settleId,
             taxCode: '',
         })
     }
@@ -784,7 +911,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
     for (let id of ids) {
         elements.push({
             id: id,
-            drcr: Transaction.Credit,
+            drcr: balanceDrcr,
             amount: 0,
             currency: '',
         })
@@ -7,7 +7,8 @@ import { Row, Column, useTable, useFilters, useSortBy, usePagination } from 'rea
 export { Column } from 'react-table'
 import { QueryBuilder } from 'objection'
 import DatePicker from 'react-datepicker'
-import { dateFormatString as dfs, toDateOnly, parseISO } from '../core'
+import { Cell, dateFormatString as dfs, toDateOnly, parseISO } from '../core'
+import { ExportLinks } from './Export'
 
 // This is some integration magic
 // If a row has .id, use that as the unique id.
@@ -26,7 +27,7 @@ export type Filter = {
     value: string
 }
 
-type State = {
+export type State = {
     pageSize: number
     pageIndex: number
     sortBy: SortBy[]
@@ -41,6 +42,9 @@ type Props<D extends object> = {
     initialState?: State
     className?: string
     style?: object
+    // If provided, offer to export all rows (ie. not just the current page)
+    exportFilename?: string
+    exportData?: (state: State) => Promise<Cell[][]>
 }
 
 export function ReactTable<D extends object>(props: Props<D>) {
@@ -151,9 +155,15 @@ export function ReactTable<D extends object>(props: Props<D>) {
         </select>
     </div> : null
 
+    const exportPane = props.exportData ? <ExportLinks
+        filename={props.exportFilename || 'export'}
+        rows={() => props.exportData!(table.state as State)}
+    /> : null
+
     return <>
         {tablePane}
         {paginationPane}
+        {exportPane}
     </>
 }
 
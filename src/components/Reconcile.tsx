@@ -0,0 +1,178 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { Project, Account, Transaction, Element, Reconciliation, reconciliation, setCleared, reconcile,
+    dateFormatString as dfs, toDateOnly, parseISO, formatDateOnly, toFormatted, parseFormatted } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { currencySelectOptions } from './SelectOptions'
+import { transactionUrl } from './TransactionOverview'
+
+type Props = {
+    arg1?: string
+}
+
+// Reconciles an account against a statement: tick off (ie. clear) items which
+// appear on the statement until the cleared balance agrees with the statement
+export default function Reconcile(props: Props) {
+    const accountId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+
+    const [account, setAccount] = React.useState<Account>()
+    const [currency, setCurrency] = React.useState<string>(Project.variables.get('currency'))
+    const [endDate, setEndDate] = React.useState<string>(toDateOnly(new Date()))
+    const [balance, setBalance] = React.useState<string>('')
+    const [info, setInfo] = React.useState<Reconciliation>()
+    const [error, setError] = React.useState<string>('')
+    const [message, setMessage] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    React.useEffect(() => {
+        Account.query().findById(accountId).then(a => setAccount(a))
+    }, [props.arg1])
+
+    React.useEffect(() => {
+        if (account && endDate) {
+            reconciliation(accountId, currency, endDate).then(data => {
+                setInfo(data)
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [account, currency, endDate, nonce])
+
+    function onCleared(ids: number[], cleared: boolean) {
+        setCleared(ids, cleared).then(() => {
+            setNonce(nonce + 1)
+        }).catch(e => {
+            setError(e.toString())
+        })
+    }
+
+    function onFinish() {
+        let amount
+        try {
+            amount = parseFormatted(balance, currency)
+        }
+        catch (e) {
+            playAlert()
+            setError(e.toString())
+            return
+        }
+
+        reconcile(accountId, currency, endDate, amount).then(() => {
+            playSuccess()
+            setError('')
+            setMessage(`Reconciled to ${formatDateOnly(endDate)}`)
+            setBalance('')
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    if (account && info) {
+        let statementBalance: number | undefined
+        try {
+            statementBalance = balance ? parseFormatted(balance, currency) : undefined
+        }
+        catch (e) {
+            statementBalance = undefined
+        }
+        const difference = statementBalance == undefined ? undefined : statementBalance - info.clearedBalance
+        const format = (amount: number) => `${toFormatted(amount, currency)} ${currency}`
+
+        return <div>
+            <div className='title-pane'>
+                <span className='breadcrumb'><Link to={`/accounts/${account.id}`}>{account.title}</Link> » </span>
+                <h1 className='title inline'>Reconcile</h1>
+                <span className='tasks'>
+                    <Link to={`/reports/reconciliation/${account.id}`}>Reconciliation report</Link>
+                </span>
+            </div>
+            <table className='horizontal-table-form'><tbody><tr className='row row-currency'>
+                <th scope='row'>
+                    <label htmlFor='currency'>Currency:</label>
+                </th><td>
+                    <select name='currency' value={currency} onChange={e => setCurrency(e.target.value)}>
+                        {currencySelectOptions(currency)}
+                    </select>
+                </td>
+            </tr><tr className='row row-end-date'>
+                <th scope='row'>
+                    <label htmlFor='endDate'>Statement date:</label>
+                </th><td>
+                    <DatePicker
+                        name='endDate'
+                        selected={endDate ? parseISO(endDate) : null}
+                        onChange={(date: Date) => setEndDate(date ? toDateOnly(date) : '')}
+                        dateFormat={dfs()}
+                    />
+                    {info.lastStatement && <span> (last reconciled to {formatDateOnly(info.lastStatement.endDate!)})</span>}
+                </td>
+            </tr><tr className='row row-balance'>
+                <th scope='row'>
+                    <label htmlFor='balance'>Statement closing balance:</label>
+                </th><td>
+                    <input name='balance' value={balance} onChange={e => setBalance(e.target.value)} />
+                </td>
+            </tr></tbody></table>
+
+            <table className='data-table reconcile-items'><thead><tr>
+                <th>
+                    <input type='checkbox' title='All'
+                        checked={info.items.length > 0 && info.items.every(item => item.status == Element.Cleared)}
+                        onChange={e => onCleared(info.items.map(item => item.id), e.target.checked)} />
+                </th>
+                <th>Date</th>
+                <th>Transaction</th>
+                <th>Name</th>
+                <th>Description</th>
+                <th>Increase</th>
+                <th>Decrease</th>
+            </tr></thead><tbody>
+            {info.items.map(item => {
+                const url = transactionUrl({id: item.transactionId, type: item.txnType})
+                return <tr key={item.id}>
+                    <td>
+                        <input type='checkbox' checked={item.status == Element.Cleared}
+                            onChange={e => onCleared([item.id], e.target.checked)} />
+                    </td>
+                    <td>{formatDateOnly(item.date)}</td>
+                    <td>{Transaction.TypeInfo[item.txnType] ? Transaction.TypeInfo[item.txnType].shortLabel : ''}&nbsp;
+                        {url ? <Link to={url}>{item.transactionId}</Link> : item.transactionId}</td>
+                    <td>{item.actorTitle}</td>
+                    <td>{item.description}</td>
+                    <td className='amount'>{item.amount > 0 ? toFormatted(item.amount, currency) : ''}</td>
+                    <td className='amount'>{item.amount < 0 ? toFormatted(-item.amount, currency) : ''}</td>
+                </tr>
+            })}
+            </tbody></table>
+
+            <table className='horizontal-table-form reconcile-summary'><tbody><tr>
+                <th scope='row'>Opening balance:</th><td className='amount'>{format(info.openingBalance)}</td>
+            </tr><tr>
+                <th scope='row'>Cleared items:</th><td className='amount'>{format(info.clearedBalance - info.openingBalance)}</td>
+            </tr><tr>
+                <th scope='row'>Cleared balance:</th><td className='amount'>{format(info.clearedBalance)}</td>
+            </tr><tr>
+                <th scope='row'>Statement balance:</th><td className='amount'>{statementBalance == undefined ? '' : format(statementBalance)}</td>
+            </tr><tr>
+                <th scope='row'>Difference:</th><td className='amount'>{difference == undefined ? '' : format(difference)}</td>
+            </tr></tbody></table>
+
+            <div className='error'>
+                {error}
+            </div>
+            {message && <div className='message'>{message}</div>}
+            <div className='buttons'>
+                <input type='button' value='Finish reconciliation' onClick={onFinish} disabled={difference !== 0} />
+            </div>
+        </div>
+    }
+
+    return null
+}
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Document, Page, View } from '@react-pdf/renderer'
+import DatePicker from 'react-datepicker'
+import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { Project, Account, Transaction, ReconciliationReport as Report, reconciliationReport,
+    dateFormatString as dfs, toDateOnly, parseISO, formatDateOnly, toFormatted } from '../core'
+import { ReportHeader } from './Reports'
+import { flatSelectOptions, currencySelectOptions } from './SelectOptions'
+
+type Props = {
+    arg1?: string
+}
+
+export default function ReconciliationReport(props: Props) {
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [accountId, setAccountId] = React.useState<number>(
+        /^\d+$/.test(props.arg1!) ? Number(props.arg1) : Account.Reserved.Cash)
+    const [currency, setCurrency] = React.useState<string>(Project.variables.get('currency'))
+    const [date, setDate] = React.useState<string>(toDateOnly(new Date()))
+    const [info, setInfo] = React.useState<Report>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    React.useEffect(() => {
+        Account.query().select()
+        .whereIn('type', [...Account.TypeGroupInfo[Account.Asset].types, ...Account.TypeGroupInfo[Account.Liability].types])
+        .orderBy(['type', 'title'])
+        .then(rows => {
+            setAccountOptions(flatSelectOptions(rows))
+        })
+    }, [])
+
+    React.useEffect(() => {
+        if (accountId && date) {
+            reconciliationReport(accountId, currency, date).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [accountId, currency, date])
+
+    const report = React.useMemo(() => {
+        if (!info) {
+            return null
+        }
+
+        const format = (amount: number) => `${toFormatted(amount, info.currency)} ${info.currency}`
+        const outstanding = info.bookBalance - info.reconciledBalance
+
+        return <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+            <View fixed={true}>
+                <ReportHeader endDate={info.date} title={`Reconciliation: ${info.accountTitle}`} />
+            </View>
+
+            <Tr key='book' style={{marginBottom: 6}}>
+                <ThLeft width={80}>Balance per books</ThLeft>
+                <TdRight width={20}>{format(info.bookBalance)}</TdRight>
+            </Tr>
+
+            <Tr key='header' style={{marginBottom: 3}}>
+                <Th width={100}>Outstanding items</Th>
+            </Tr>
+            {info.outstanding.map(item => <Tr key={item.id}>
+                <TdLeft width={10} indent={2}>
+                    {!!Transaction.TypeInfo[item.txnType] && Transaction.TypeInfo[item.txnType].shortLabel} {item.transactionId}
+                </TdLeft>
+                <TdLeft width={12}>{formatDateOnly(item.date)}</TdLeft>
+                <TdLeft width={20} innerStyle={{maxLines: 1}}>{item.actorTitle}</TdLeft>
+                <TdLeft width={36} innerStyle={{maxLines: 2}}>{item.description}</TdLeft>
+                <TdRight width={20}>{format(item.amount)}</TdRight>
+            </Tr>)}
+            {info.outstanding.length == 0 && <Tr key='none'><TdLeft width={98} indent={2}>None</TdLeft></Tr>}
+            <Tr key='outstanding' style={{marginTop: 3, marginBottom: 6}}>
+                <ThLeft width={78} indent={2}>Total outstanding items</ThLeft>
+                <TdRight width={20} style={{borderTopWidth: 1, paddingTop: 3}}>{format(outstanding)}</TdRight>
+            </Tr>
+
+            <Tr key='reconciled' style={{marginBottom: 6}}>
+                <ThLeft width={80}>Reconciled balance (balance per books less outstanding items)</ThLeft>
+                <TdRight width={20} style={{borderTopWidth: 2, borderBottomWidth: 2, paddingVertical: 3}}>
+                    {format(info.reconciledBalance)}
+                </TdRight>
+            </Tr>
+
+            {info.statement ? <Tr key='statement'>
+                <ThLeft width={80}>Balance per statement ({formatDateOnly(info.statement.endDate!)})</ThLeft>
+                <TdRight width={20}>{format(info.statement.balance!)}</TdRight>
+            </Tr> : <Tr key='statement'>
+                <TdLeft width={100}><T>This account has not been reconciled</T></TdLeft>
+            </Tr>}
+        </Page></Document>
+    }, [info && nonce ? nonce : 0])
+
+    return <div>
+        <h1 className='title'>Reconciliation Report</h1>
+        <table className='horizontal-table-form'><tbody><tr className='row row-account'>
+            <th scope='row'>
+                <label htmlFor='accountId'>Account:</label>
+            </th><td>
+                <select name='accountId' value={accountId} onChange={e => setAccountId(Number(e.target.value))}>
+                    {accountOptions}
+                </select>
+            </td>
+        </tr><tr className='row row-date'>
+            <th scope='row'>
+                <label htmlFor='date'>Date:</label>
+            </th><td>
+                <DatePicker
+                    name='date'
+                    selected={date ? parseISO(date) : null}
+                    onChange={(date: Date) => setDate(date ? toDateOnly(date) : '')}
+                    dateFormat={dfs()}
+                />
+            </td>
+        </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={e => setCurrency(e.target.value)}>
+                    {currencySelectOptions(currency)}
+                </select>
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {report && <PDFView _key={nonce} filename='reconciliation.pdf'>{report}</PDFView>}
+    </div>
+}
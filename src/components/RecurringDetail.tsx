@@ -0,0 +1,272 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Controller, useForm, FormContextValues as FCV } from 'react-hook-form'
+import { Link, Redirect } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { Recurring, RecurringFrequency, Transaction, Actor,
+    dateFormatString as dfs, toDateOnly, parseISO, formatDateOnly } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { recurringFromTransaction } from './recurring'
+
+type Props = {
+    arg1?: string
+    // If true, arg1 is the id of a transaction to create a new template from
+    fromTransaction?: boolean
+}
+
+type FormData = {
+    title: string
+    frequency: RecurringFrequency
+    interval: string
+    startDate: Date
+    endDate: Date | ''
+    dueDays: string
+    submit?: string    // Only for displaying general submit error messages
+}
+
+export default function RecurringDetail(props: Props) {
+    // argId == 0 means creating a new object
+    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+
+    const [recurring, setRecurring] = React.useState<Recurring>()
+    const [actorTitle, setActorTitle] = React.useState<string>('')
+    const [redirectId, setRedirectId] = React.useState<number>(-1)
+
+    const form = useForm<FormData>()
+    const frequency = form.watch('frequency')
+
+    // Initialise a lot of stuff
+    React.useEffect(() => {
+        // Clear redirectId
+        setRedirectId(-1)
+
+        // Load object (if exists) and initialise form accordingly
+        const p: Promise<Recurring | undefined> = props.fromTransaction ?
+            Transaction.query().findById(argId).withGraphFetched('elements')
+                .then(t => t ? recurringFromTransaction(t) : undefined) :
+            Recurring.query().findById(argId)
+        p.then(r => {
+            setRecurring(r)
+            if (r) {
+                form.reset(extractFormValues(r))
+                if (r.data && r.data.actorId) {
+                    Actor.query().findById(r.data.actorId).then(a => {
+                        setActorTitle(a ? a.title! : '')
+                    })
+                }
+            }
+        })
+    }, [props.arg1, props.fromTransaction])
+
+    const onSubmit = (data: FormData) => {
+        if (!validateFormData(form, data)) {
+            playAlert()
+            return
+        }
+
+        saveFormData(recurring!, data).then(savedId => {
+            playSuccess()
+            form.reset(extractFormValues(recurring!))
+            if (savedId && (props.fromTransaction || argId != savedId)) {
+                setRedirectId(savedId)
+            }
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    const onDelete = () => {
+        recurring!.delete().then(() => {
+            playSuccess()
+            setRedirectId(0)
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    if (redirectId == 0 && !props.fromTransaction) {
+        return <Redirect to='/recurring' />
+    }
+    else if (redirectId > 0 && (props.fromTransaction || redirectId != argId)) {
+        return <Redirect to={`/recurring/${redirectId}`} />
+    }
+    else if (recurring) {
+        const typeInfo = Transaction.TypeInfo[recurring.type!]
+        return <div>
+            <div className='title-pane'>
+                <span className='breadcrumb'><Link to='/recurring'>Recurring transactions</Link> » </span>
+                <h1 className='title inline'>
+                    {recurring.id ? `Recurring transaction ${recurring.id}` : 'New recurring transaction'}
+                </h1>
+            </div>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+                <table className='horizontal-table-form'><tbody><tr className='row row-type'>
+                    <th scope='row'>
+                        Type:
+                    </th><td>
+                        {typeInfo ? typeInfo.label : recurring.type}
+                        {actorTitle && ` (${actorTitle})`}
+                    </td>
+                </tr><tr className='row row-title'>
+                    <th scope='row'>
+                        <label htmlFor='title'>Title:</label>
+                    </th><td>
+                        <input name='title' ref={form.register} />
+                        {form.errors.title && <span className='error'>
+                            {form.errors.title.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-frequency'>
+                    <th scope='row'>
+                        <label htmlFor='frequency'>Repeat:</label>
+                    </th><td>
+                        <select name='frequency' ref={form.register}>
+                        {Object.keys(Recurring.FrequencyInfo).map(f =>
+                            <option key={f} value={f}>{Recurring.FrequencyInfo[f].label}</option>
+                        )}
+                        </select>
+                        {frequency == Recurring.Days && <>
+                            &nbsp;<input name='interval' ref={form.register} size={4} /> days
+                        </>}
+                        {form.errors.interval && <span className='error'>
+                            {form.errors.interval.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-start-date'>
+                    <th scope='row'>
+                        <label htmlFor='startDate'>Start date:</label>
+                    </th><td>
+                        <Controller
+                            // No-op for DatePicker.onChange()
+                            as={<DatePicker dateFormat={dfs()} onChange={() => {}} />}
+                            control={form.control}
+                            register={form.register()}
+                            name='startDate'
+                            valueName='selected'
+                            onChange={([selected]) => {
+                                return selected
+                            }}
+                        />
+                        {form.errors.startDate && <span className='error'>
+                            {form.errors.startDate.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-end-date'>
+                    <th scope='row'>
+                        <label htmlFor='endDate'>End date (optional):</label>
+                    </th><td>
+                        <Controller
+                            // No-op for DatePicker.onChange()
+                            as={<DatePicker dateFormat={dfs()} onChange={() => {}} isClearable />}
+                            control={form.control}
+                            register={form.register()}
+                            name='endDate'
+                            valueName='selected'
+                            onChange={([selected]) => {
+                                return selected
+                            }}
+                        />
+                        {form.errors.endDate && <span className='error'>
+                            {form.errors.endDate.message}
+                        </span>}
+                    </td>
+                </tr>{(recurring.type == Transaction.Invoice || recurring.type == Transaction.Bill) &&
+                <tr className='row row-due-days'>
+                    <th scope='row'>
+                        <label htmlFor='dueDays'>Due after:</label>
+                    </th><td>
+                        <input name='dueDays' ref={form.register} size={4} /> days
+                        {form.errors.dueDays && <span className='error'>
+                            {form.errors.dueDays.message}
+                        </span>}
+                    </td>
+                </tr>}<tr className='row row-next'>
+                    <th scope='row'>
+                        Next date:
+                    </th><td>
+                        {recurring.id && recurring.nextDate ? formatDateOnly(recurring.nextDate) : '-'}
+                        {!!recurring.count && ` (${recurring.count} generated so far)`}
+                    </td>
+                </tr></tbody></table>
+                <div className='error'>
+                    {form.errors.submit && form.errors.submit.message}
+                </div><div className='buttons'>
+                    <input type='submit' value='Save' />
+                    {!!recurring.id && <input type='button' value='Delete' onClick={onDelete} />}
+                </div>
+            </form>
+        </div>
+    }
+
+    return null
+}
+
+function extractFormValues(r: Recurring): FormData {
+    return {
+        title: r.title!,
+        frequency: r.frequency!,
+        interval: String(r.interval || 1),
+        startDate: parseISO(r.startDate!),
+        endDate: r.endDate ? parseISO(r.endDate) : '',
+        dueDays: String(r.dueDays || 0),
+    }
+}
+
+// Returns true if validation succeeded, false otherwise
+function validateFormData(form: FCV<FormData>, data: FormData) {
+    if (!data.title) {
+        form.setError('title', '', 'Title is required')
+        return false
+    }
+    if (data.frequency == Recurring.Days && !(/^\d+$/.test(data.interval) && Number(data.interval) > 0)) {
+        form.setError('interval', '', 'Invalid number of days')
+        return false
+    }
+    if (!data.startDate) {
+        form.setError('startDate', '', 'Start date is required')
+        return false
+    }
+    if (data.endDate && data.endDate < data.startDate) {
+        form.setError('endDate', '', 'End date is before start date')
+        return false
+    }
+    if (data.dueDays != undefined && !/^\d+$/.test(data.dueDays)) {
+        form.setError('dueDays', '', 'Invalid number of days')
+        return false
+    }
+    return true
+}
+
+// Returns: id of the object that was saved/created, 0 otherwise
+async function saveFormData(recurring: Recurring, data: FormData): Promise<number> {
+    // Occurrences are counted from the start date. If the schedule changes, skip
+    // new occurrences before the previously scheduled one so that nothing is
+    // generated twice.
+    const next = recurring.count ? recurring.occurrence(recurring.count) : ''
+
+    Object.assign(recurring, {
+        title: data.title,
+        frequency: data.frequency,
+        interval: data.frequency == Recurring.Days ? Number(data.interval) : 1,
+        startDate: toDateOnly(data.startDate),
+        endDate: data.endDate ? toDateOnly(data.endDate) : '',
+    })
+    if (data.dueDays != undefined) {
+        recurring.dueDays = Number(data.dueDays)
+    }
+
+    if (next) {
+        recurring.count = 0
+        while (recurring.occurrence(recurring.count) < next) {
+            recurring.count++
+        }
+    }
+
+    await recurring.save()
+    return recurring.id!
+}
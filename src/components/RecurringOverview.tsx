@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Recurring, Transaction, formatDateOnly } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { generateDueTransactions, GenerateResult } from './recurring'
+import { transactionUrl } from './TransactionOverview'
+
+export default function RecurringOverview() {
+    const [templates, setTemplates] = React.useState<Recurring[]>()
+    const [result, setResult] = React.useState<GenerateResult>()
+    const [busy, setBusy] = React.useState<boolean>(false)
+
+    React.useEffect(() => {
+        Recurring.query().orderBy('id').then(rows => setTemplates(rows))
+    }, [result])
+
+    function onGenerate() {
+        setBusy(true)
+        generateDueTransactions().then(r => {
+            r.errors.length > 0 ? playAlert() : playSuccess()
+            setResult(r)
+        }).catch(e => {
+            playAlert()
+            setResult({transactions: [], errors: [e.toString()]})
+        }).finally(() => {
+            setBusy(false)
+        })
+    }
+
+    if (templates) {
+        return <div>
+            <h1 className='title'>Recurring transactions</h1>
+            <p>
+                To add a recurring transaction, open a sale, purchase or raw
+                journal entry and select "Make recurring".
+            </p>
+            <table className='data-table'><thead><tr>
+                <th>ID</th>
+                <th>Title</th>
+                <th>Type</th>
+                <th>Repeat</th>
+                <th>Next date</th>
+            </tr></thead><tbody>
+            {templates.map(r => <tr key={r.id}>
+                <td><Link to={`/recurring/${r.id}`}>{r.id}</Link></td>
+                <td><Link to={`/recurring/${r.id}`}>{r.title}</Link></td>
+                <td>{Transaction.TypeInfo[r.type!] ? Transaction.TypeInfo[r.type!].label : r.type}</td>
+                <td>{r.frequency == Recurring.Days ? `Every ${r.interval} days` : Recurring.FrequencyInfo[r.frequency!].label}</td>
+                <td>{r.nextDate ? formatDateOnly(r.nextDate) : 'Ended'}</td>
+            </tr>)}
+            </tbody></table>
+            <div className='buttons'>
+                <input type='button' value='Generate due transactions' onClick={onGenerate}
+                    disabled={busy || templates.length == 0} />
+            </div>
+            {result && <div className='results'>
+                {result.transactions.length == 0 ? 'No transactions were due.' :
+                <>Generated {result.transactions.length} transaction{result.transactions.length == 1 ? '' : 's'}:&nbsp;
+                    {result.transactions.map((t, index) => <React.Fragment key={t.id}>
+                        {index > 0 && ', '}<Link to={transactionUrl(t)}>{t.id}</Link>
+                    </React.Fragment>)}
+                </>}
+                {result.errors.map((e, index) => <div key={index} className='error'>{e}</div>)}
+            </div>}
+        </div>
+    }
+
+    return null
+}
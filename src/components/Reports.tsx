@@ -5,7 +5,7 @@
 import * as React from 'react'
 import { isFirstDayOfMonth, isLastDayOfMonth, isSameMonth, isSameYear } from 'date-fns'
 import DatePicker from 'react-datepicker'
-import { LOCALE, Project, parseISO, toDateOnly, dateFormatString as dfs } from '../core'
+import { LOCALE, Project, DatedRate, parseISO, toDateOnly, formatDateOnly, dateFormatString as dfs } from '../core'
 import { View } from '@react-pdf/renderer'
 import { B, T } from './PDFView'
 
@@ -64,6 +64,8 @@ type ReportHeaderProps = {
     title: string
     startDate?: string
     endDate: string
+    // Exchange rates which were used for currency conversion
+    rates?: DatedRate[]
     children?: any
 }
 
@@ -121,11 +123,27 @@ export function ReportHeader(props: ReportHeaderProps) {
             <B style={{fontSize: 12}}>{Project.variables.get('title')}</B>
             <B style={{fontSize: 18}}>{props.title}</B>
             <T style={{fontSize: 12}}>{interval}</T>
+            {props.rates && <RatesUsed rates={props.rates} />}
             {props.children}
         </View>
     </View>
 }
 
+// Lists exchange rates, one line per pair of currencies
+// eg. '1 USD = 0.91 EUR (from 1/1/2020), 0.89 EUR (from 1/2/2020)'
+function RatesUsed({rates}: {rates: DatedRate[]}) {
+    const pairs: Record<string, string[]> = {}
+    rates.forEach(rate => {
+        const key = `${rate.from}:${rate.to}`
+        pairs[key] = pairs[key] || []
+        pairs[key].push(`${rate.rate} ${rate.to}${rate.date ? ` (from ${formatDateOnly(rate.date)})` : ''}`)
+    })
+
+    return <>{Object.keys(pairs).map(key =>
+        <T key={key} style={{fontSize: 8}}>1 {key.split(':')[0]} = {pairs[key].join(', ')}</T>)
+    }</>
+}
+
 export function ExchangeRates({rates}: {rates: Record<string, Record<string, string>>}) {
     const lines: string[] = []
     Object.keys(rates || {}).forEach(primary => {
@@ -10,14 +10,18 @@ import { TransactionOrKnex, Model,
     Project, Transaction, TransactionType, Account, Actor, IElement,
     dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate,
     toFormatted, parseFormatted, TaxCodeInfo, hasActiveTaxAuthority } from '../core'
-import { validateElementAmounts, validateElementTaxAmounts } from '../util/util'
+import { validateElementAmounts, validateElementTaxAmounts, validateLockDate } from '../util/util'
 import { playSuccess, playAlert } from '../util/sound'
 import { MaybeSelect, hashSelectOptions, flatSelectOptions, currencySelectOptions, taxSelectOptions } from './SelectOptions'
 import { formCalculateTaxes } from './form'
 import InvoicePayment from './InvoicePayment'
+import Attachments from './Attachments'
+import History from './History'
 
 type Props = {
     arg1?: string
+    // If true, arg1 is the id of an invoice to be reversed by a new credit note
+    reverse?: boolean
 }
 
 export type FormData = {
@@ -27,6 +31,10 @@ export type FormData = {
     date: Date
     due?: Date | ''
     description?: string
+    // Only for cash sales/purchases
+    settlementAccountId?: number
+    // Only for credit notes: The invoice which is reversed
+    settleId?: number
     elements: {
         // `.id` is used by the form system so we have eId to store 'our' id
         eId?: number
@@ -51,7 +59,7 @@ export type FormData = {
 
 export default function Sale(props: Props) {
     // argId == 0 means creating a new transaction
-    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+    const argId = !props.reverse && /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
 
     const [transaction, setTransaction] = React.useState<Transaction>()
     const [prevId, setPrevId] = React.useState<number>(-1)
@@ -59,6 +67,8 @@ export default function Sale(props: Props) {
     const [revenueOptions, setRevenueOptions] = React.useState<{}>()
     const [customerOptions, setCustomerOptions] = React.useState<{}>()
     const [actorTitleEnable, setActorTitleEnable] = React.useState<boolean>(false)
+    const [settlementOptions, setSettlementOptions] = React.useState<{}>()
+    const [invoiceOptions, setInvoiceOptions] = React.useState<{}>()
     const [redirectId, setRedirectId] = React.useState<number>(-1)
     let action = ''
 
@@ -71,6 +81,7 @@ export default function Sale(props: Props) {
         form.reset({
             actorId: 0,
             date: lastSavedDate(),
+            settlementAccountId: Project.variables.get('settlementAccountId'),
             elements: [{currency}],
         })
     }
@@ -103,9 +114,30 @@ export default function Sale(props: Props) {
             }
         })
 
+        // Load bank/cash accounts
+        Account.settlementAccounts()
+        .then(rows => {
+            if (mounted) {
+                setSettlementOptions(flatSelectOptions(rows))
+            }
+        })
+
+        // Load invoices which can be reversed
+        Transaction.query().leftJoin('actor', 'txn.actorId', 'actor.id')
+        .select('txn.*', 'actor.title as actorTitle')
+        .where('txn.type', Transaction.Invoice)
+        .orderBy([{column: 'date', order: 'desc'}, {column: 'id', order: 'desc'}])
+        .then((rows: any[]) => {
+            if (mounted) {
+                setInvoiceOptions(flatSelectOptions([{id: 0, title: ''}, ...rows.map(row => {
+                    return {id: row.id, title: `${Transaction.TypeInfo[Transaction.Invoice].label} ${row.id}: ${row.actorTitle}`}
+                })]))
+            }
+        })
+
         // Load transaction (if exists) and initialise form accordingly
         if (argId > 0) {
-            Transaction.query().findById(argId).whereIn('type', [Transaction.Sale, Transaction.Invoice])
+            Transaction.query().findById(argId).whereIn('type', [Transaction.Sale, Transaction.Invoice, Transaction.CreditNote])
             .withGraphFetched('elements')
             .then(t => {
                 if (t && mounted) {
@@ -118,14 +150,14 @@ export default function Sale(props: Props) {
                         form.reset(extractFormValues(t))
 
                         // Prev
-                        Transaction.prevId(t, [Transaction.Sale, Transaction.Invoice]).then(id => {
+                        Transaction.prevId(t, [Transaction.Sale, Transaction.Invoice, Transaction.CreditNote]).then(id => {
                             if (mounted) {
                                 setPrevId(id)
                             }
                         })
 
                         // Next
-                        Transaction.nextId(t, [Transaction.Sale, Transaction.Invoice]).then(id => {
+                        Transaction.nextId(t, [Transaction.Sale, Transaction.Invoice, Transaction.CreditNote]).then(id => {
                             if (mounted) {
                                 setNextId(id)
                             }
@@ -139,7 +171,7 @@ export default function Sale(props: Props) {
             clearForm()
 
             // Prev
-            Transaction.prevId(undefined, [Transaction.Sale, Transaction.Invoice]).then(id => {
+            Transaction.prevId(undefined, [Transaction.Sale, Transaction.Invoice, Transaction.CreditNote]).then(id => {
                 if (mounted) {
                     setPrevId(id)
                 }
@@ -147,6 +179,17 @@ export default function Sale(props: Props) {
 
             // Next
             setNextId(0)
+
+            // Prefill a credit note with the lines of the invoice
+            if (props.reverse) {
+                Transaction.query().findById(Number(props.arg1)).where('type', Transaction.Invoice)
+                .withGraphFetched('elements')
+                .then(t => {
+                    if (t && mounted) {
+                        form.reset(creditNoteFormValues(t))
+                    }
+                })
+            }
         }
 
         return () => {mounted=false}
@@ -186,7 +229,7 @@ export default function Sale(props: Props) {
     if (redirectId >= 0 && redirectId != argId) {
         return <Redirect to={`/sales/${redirectId ? redirectId : 'new'}`} />
     }
-    else if (transaction && prevId >= 0 && nextId >= 0 && revenueOptions && customerOptions) {
+    else if (transaction && prevId >= 0 && nextId >= 0 && invoiceOptions && revenueOptions && settlementOptions && customerOptions) {
         const saleForm = <div>
             <div className='title-pane'>
                 <span className='breadcrumb'><Link to='/sales'>Sales</Link> » </span>
@@ -194,6 +237,10 @@ export default function Sale(props: Props) {
                     {transaction.id ? `${Transaction.TypeInfo[transaction.type!].label} ${transaction.id}` : 'New sale'}
                 </h1>
                 <span className='tasks'>
+                    {transaction.id && transaction.type == Transaction.Invoice &&
+                        <><Link to={`/sales/reverse/${transaction.id}`}>Credit note</Link>&nbsp;|&nbsp;</>}
+                    {transaction.id && transaction.type != Transaction.CreditNote &&
+                        <><Link to={`/recurring/from/${transaction.id}`}>Make recurring</Link>&nbsp;|&nbsp;</>}
                     {transaction.id && <><Link to={`/sales/${transaction.id}/pdf`}>PDF</Link>&nbsp;|&nbsp;</>}
                     {prevId ? <Link to={`/sales/${prevId}`}>Prev</Link> : <span className='disabled'>Prev</span>}
                     &nbsp;|&nbsp;
@@ -213,6 +260,9 @@ export default function Sale(props: Props) {
                             <option key={Transaction.Invoice} value={Transaction.Invoice}>
                                 {Transaction.TypeInfo[Transaction.Invoice].label}
                             </option>
+                            <option key={Transaction.CreditNote} value={Transaction.CreditNote}>
+                                {Transaction.TypeInfo[Transaction.CreditNote].label}
+                            </option>
                         </select>
                         {form.errors.type && <span className='error'>
                             {form.errors.type.message}
@@ -283,7 +333,26 @@ export default function Sale(props: Props) {
                     </th><td>
                         <input name='description' ref={form.register} />
                     </td>
-                </tr></tbody></table>
+                </tr>{type == TransactionType.Sale && <tr className='row row-settlement-account'>
+                    <th scope='row'>
+                        <label htmlFor='settlementAccountId'>Paid into:</label>
+                    </th><td>
+                        <select name='settlementAccountId' ref={form.register}>
+                            {settlementOptions}
+                        </select>
+                    </td>
+                </tr>}{type == TransactionType.CreditNote && <tr className='row row-settle'>
+                    <th scope='row'>
+                        <label htmlFor='settleId'>Reverses invoice:</label>
+                    </th><td>
+                        <select name='settleId' ref={form.register}>
+                            {invoiceOptions}
+                        </select>
+                        {form.errors.settleId && <span className='error'>
+                            {form.errors.settleId.message}
+                        </span>}
+                    </td>
+                </tr>}</tbody></table>
                 <table className='transaction-elements'><thead><tr>
                     <th rowSpan={2}>
                         Revenue type
@@ -331,6 +400,12 @@ export default function Sale(props: Props) {
             {!!transaction.id && transaction.type == Transaction.Invoice &&
             transaction.elements && transaction.elements.length > 0 &&
             <InvoicePayment transaction={transaction} />}
+            {!!transaction.id && <Attachments transactionId={transaction.id} />}
+            {!!transaction.id && <History
+                target={Transaction.tableName}
+                targetId={transaction.id}
+                nonce={transaction.updatedAt ? transaction.updatedAt.toString() : 0}
+            />}
         </div>
     }
 
@@ -540,14 +615,17 @@ export function extractFormValues(t: Transaction): FormData {
         description: t.description,
         actorId: t.actorId!,
         actorTitle: '',
+        settlementAccountId: Project.variables.get('settlementAccountId'),
         elements: [],
     }
 
     if (t.elements) {
+        // Credit notes are the reverse of invoices
+        const drcr = t.type == Transaction.CreditNote ? Transaction.Debit : Transaction.Credit
         const children = []
         for (let e of t.elements) {
-            if (e.drcr == Transaction.Credit) {
-                // Only populate credit elements
+            if (e.drcr == drcr) {
+                // Only populate credit elements (or the opposite for credit notes)
                 if (e.parentId == 0) {
                     values.elements.push({
                         eId: e.id,
@@ -565,6 +643,13 @@ export function extractFormValues(t: Transaction): FormData {
                     children.push(e)
                 }
             }
+            else if (t.type == Transaction.Sale && e.parentId == 0 && e.amount) {
+                // The balancing element is the bank/cash account
+                values.settlementAccountId = e.accountId!
+            }
+            else if (e.settleId) {
+                values.settleId = e.settleId
+            }
         }
 
         // Now populate child elements. Any orphans are promoted.
@@ -614,6 +699,24 @@ export function extractFormValues(t: Transaction): FormData {
     return values
 }
 
+// Returns form values for a new credit note which reverses all lines of an invoice
+export function creditNoteFormValues(t: Transaction): FormData {
+    const values = extractFormValues(t)
+    values.elements.forEach(e => {
+        delete e.eId
+        if (e.taxes) {
+            e.taxes.forEach(sub => delete sub.eId)
+        }
+    })
+
+    return {...values,
+        type: Transaction.CreditNote,
+        date: lastSavedDate(),
+        due: undefined,
+        settleId: t.id,
+    }
+}
+
 // Returns true if validation succeeded, false otherwise
 export function validateFormData(form: FCV<FormData>, data: FormData) {
     if (!data.type) {
@@ -632,6 +735,9 @@ export function validateFormData(form: FCV<FormData>, data: FormData) {
         form.setError('date', '', 'Date is required')
         return false
     }
+    if (!validateLockDate(form, data)) {
+        return false
+    }
     if (!data.elements || data.elements.length == 0) {
         form.setError('submit', '', 'Nothing to save')
         return false
@@ -668,14 +774,32 @@ export function validateFormData(form: FCV<FormData>, data: FormData) {
 
 // Returns: id of the transaction that was saved/created, 0 otherwise
 export async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+    // Check before creating anything (eg. a new actor)
+    await Transaction.checkLock(toDateOnly(data.date))
+    await Transaction.checkLock(transaction.date)
+
     if (data.actorId == Actor.NewCustomer) {
         const actor = Actor.construct({title: data.actorTitle!.trim(), type: Actor.Customer})
         await actor.save(trx)
         data.actorId = actor.id!
     }
 
+    // Credit notes are the reverse of invoices
+    const [lineDrcr, balanceDrcr] = data.type == Transaction.CreditNote ?
+        [Transaction.Debit, Transaction.Credit] : [Transaction.Credit, Transaction.Debit]
+    const settleId = data.type == Transaction.CreditNote ? Number(data.settleId || 0) : 0
+    if (settleId) {
+        const original = await Transaction.query(trx).findById(settleId).where('type', Transaction.Invoice)
+        if (!original) {
+            return Promise.reject('Invoice not found')
+        }
+        if (data.actorId != Actor.NewCustomer && original.actorId != data.actorId) {
+            return Promise.reject('Invoice is for a different customer')
+        }
+    }
+
     // Get a list of balancing IDs. Re-use them if available
-    const ids = transaction.getDrElementIds()
+    const ids = transaction.getCrElementIds(balanceDrcr)
 
     Object.assign(transaction, {
         description: data.description,
@@ -691,7 +815,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
         elements.push({
             id: e0.eId ? Number(e0.eId) : undefined,
             accountId: Number(e0.accountId),
-            drcr: Transaction.Credit,
+            drcr: lineDrcr,
             // Note: Use the currency value of the first item
             amount: parseFormatted(e0.amount, data.elements[0].currency),
             currency: data.elements[0].currency,
@@ -716,7 +840,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
                 elements.push({
                     id: sub.eId ? Number(sub.eId) : undefined,
                     accountId: Account.Reserved.TaxPayable,
-                    drcr: Transaction.Credit,
+                    drcr: lineDrcr,
                     // Note: Use the currency value of the first item
                     amount: parseFormatted(sub.amount, data.elements[0].currency),
                     currency: data.elements[0].currency,
@@ -731,16 +855,19 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
     })
 
     // Generate balancing elements.
-    for (let money of Transaction.getCreditBalances(elements)) {
+    const settlementAccountId = Number(data.settlementAccountId || Project.variables.get('settlementAccountId'))
+    const balances = lineDrcr == Transaction.Credit ?
+        Transaction.getCreditBalances(elements) : Transaction.getDebitBalances(elements)
+    for (let money of balances) {
         elements.push({
             id: ids.shift(),
-            accountId: data.type == Transaction.Sale ? Account.Reserved.Cash : Account.Reserved.AccountsReceivable,
-            drcr: Transaction.Debit,
+            accountId: data.type == Transaction.Sale ? settlementAccountId : Account.Reserved.AccountsReceivable,
+            drcr: balanceDrcr,
             amount: money.amount,
             currency: money.currency,
             useGross: 0,
             description: '',
-            settleId: 0,
+            settleId,
             taxCode: '',
         })
     }
@@ -749,7 +876,7 @@ export async function saveFormData(transaction: Transaction, data: FormData, trx
     for (let id of ids) {
         elements.push({
             id: id,
-            drcr: Transaction.Debit,
+            drcr: balanceDrcr,
             amount: 0,
             currency: '',
         })
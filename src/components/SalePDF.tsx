@@ -70,7 +70,7 @@ type ReportInfo = {
 
 async function reportInfo(id: number) : Promise<ReportInfo> {
     const transaction = await Transaction.query().findById(id)
-        .whereIn('type', [Transaction.Sale, Transaction.Invoice])
+        .whereIn('type', [Transaction.Sale, Transaction.Invoice, Transaction.CreditNote])
         .withGraphJoined('actor')
         .withGraphFetched('elements') as Transaction & { actor: Actor, settledBy?: Element[] }
 
@@ -109,10 +109,12 @@ async function reportInfo(id: number) : Promise<ReportInfo> {
     if (transaction.elements && transaction.elements.length > 0) {
         result.currency = transaction.elements[0].currency!
 
+        // Credit notes reverse the lines of an invoice
+        const drcr = transaction.type == Transaction.CreditNote ? Transaction.Debit : Transaction.Credit
         const children = []
         for (let e of transaction.elements) {
-            // Only populate credit elements
-            if (e.drcr == Transaction.Credit) {
+            // Only populate credit elements (or debit elements for credit notes)
+            if (e.drcr == drcr) {
                 if (e.currency != result.currency) {
                     return Promise.reject(`Must be single currency: ${e.currency}, ${result.currency}`)
                 }
@@ -235,7 +237,7 @@ async function reportInfo(id: number) : Promise<ReportInfo> {
         }
     }
 
-    result.paidAmount = transaction.type == Transaction.Sale ? result.total :
+    result.paidAmount = transaction.type != Transaction.Invoice ? result.total :
         // Transaction.Invoice
         result.payments.length > 0 ? addSubtractMoney(result.payments)[0].amount : 0
 
@@ -332,7 +334,7 @@ function renderReport(info: ReportInfo) {
             </Tr>}<Tr style={{marginBottom: 3}}>
                 <Td width={100}>&nbsp;</Td>
             </Tr><Tr style={{marginBottom: 3}}>
-                <ThLeft width={30}>Invoice No.:</ThLeft>
+                <ThLeft width={30}>{info.type == Transaction.CreditNote ? 'Credit Note No.:' : 'Invoice No.:'}</ThLeft>
                 <Td width={70}>{info.id}</Td>
             </Tr><Tr style={{marginBottom: 3}}>
                 <ThLeft width={30}>Issue Date:</ThLeft>
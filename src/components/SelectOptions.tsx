@@ -268,3 +268,12 @@ export function datePresetSelectOptions() {
         <option key='custom' value='custom'>Custom date range</option>
     </>
 }
+
+export function comparisonSelectOptions() {
+    return <>
+        <option key='prev-period' value='prev-period'>Previous periods</option>
+        <option key='prev-year' value='prev-year'>Same period in previous years</option>
+        <option key='month' value='month'>Monthly columns</option>
+        <option key='quarter' value='quarter'>Quarterly columns</option>
+    </>
+}
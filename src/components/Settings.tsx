@@ -3,16 +3,21 @@
  */
 
 import * as React from 'react'
-import { useForm, useFieldArray, FormContextValues as FCV } from 'react-hook-form'
-import { Project } from '../core'
+import { Controller, useForm, useFieldArray, FormContextValues as FCV } from 'react-hook-form'
+import DatePicker from 'react-datepicker'
+import { Link } from 'react-router-dom'
+import { Project, Account, dateFormatString as dfs, toDateOnly, parseISO } from '../core'
 import { playSuccess, playAlert } from '../util/sound'
-import { currencySelectOptionsAll } from './SelectOptions'
+import { currencySelectOptionsAll, flatSelectOptions } from './SelectOptions'
 import { refreshWindowTitle } from '../util/util'
 
 type FormData = {
     title: string
     address: string
     fiscalYear: string
+    lockDate: Date | ''
+    settlementAccountId: number
+    feeAccountId: number
     currency: string
     otherCurrencies: string[]
     exchangeRates: Record<string, Record<string, string>>
@@ -24,10 +29,21 @@ export default function Settings() {
         defaultValues: extractFormValues()
     })
     const {fields, append} = useFieldArray({control: form.control, name: 'otherCurrencies'})
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [expenseOptions, setExpenseOptions] = React.useState<{}>()
     const currency = form.watch('currency')
     const otherCurrencies0 = form.watch('otherCurrencies')
     const otherCurrencies = [...new Set(otherCurrencies0.filter(c => c != 'none' && c != currency))]
 
+    React.useEffect(() => {
+        Account.settlementAccounts().then(rows => {
+            setAccountOptions(flatSelectOptions(rows))
+        })
+        Account.query().whereIn('type', Account.TypeGroupInfo[Account.Expense].types).orderBy('title').then(rows => {
+            setExpenseOptions(flatSelectOptions(rows))
+        })
+    }, [])
+
     const onSubmit = async (data: FormData) => {
         if (!validateFormData(form, data)) {
             playAlert()
@@ -77,6 +93,41 @@ export default function Settings() {
                         <option key='0110' value='0110'>1 October to 30 September</option>
                     </select>
                 </td>
+            </tr><tr className='row row-lock-date'>
+                <th scope='row'>
+                    <label htmlFor='lockDate'>Lock date:</label>
+                </th><td>
+                    <Controller
+                        // No-op for DatePicker.onChange()
+                        as={<DatePicker dateFormat={dfs()} onChange={() => {}} isClearable />}
+                        control={form.control}
+                        register={form.register()}
+                        name='lockDate'
+                        valueName='selected'
+                        onChange={([selected]) => selected}
+                    />
+                    <span>Transactions on or before this date can not be changed</span>
+                </td>
+            </tr><tr className='row row-settlement-account'>
+                <th scope='row'>
+                    <label htmlFor='settlementAccountId'>Default bank account:</label>
+                </th><td>
+                    {accountOptions && <select name='settlementAccountId' ref={form.register}
+                        defaultValue={Project.variables.get('settlementAccountId')}>
+                        {accountOptions}
+                    </select>}
+                    <span>For cash sales, cash purchases and payments</span>
+                </td>
+            </tr><tr className='row row-fee-account'>
+                <th scope='row'>
+                    <label htmlFor='feeAccountId'>Bank fees account:</label>
+                </th><td>
+                    {expenseOptions && <select name='feeAccountId' ref={form.register}
+                        defaultValue={Project.variables.get('feeAccountId')}>
+                        {expenseOptions}
+                    </select>}
+                    <span>For fees charged on transfers</span>
+                </td>
             </tr>
 
             <tr><th colSpan={2}><h2>Currency</h2></th></tr>
@@ -118,6 +169,7 @@ export default function Settings() {
                     : <>&nbsp;</>}
                 </th><td>
                     {`1 ${currency} = `} <input key={name} name={name} ref={form.register()} size={10} /> {other}
+                    {index == 0 && <Link className='exchange-rate-history-link' to='/exchange-rates'>History</Link>}
                     {form.errors.exchangeRates && form.errors.exchangeRates[currency] &&
                         form.errors.exchangeRates[currency]![other] && <span className='error'>
                         {form.errors.exchangeRates[currency]![other]!.message}
@@ -140,11 +192,15 @@ function extractFormValues(): FormData {
         'title',
         'address',
         'fiscalYear',
+        'lockDate',
+        'settlementAccountId',
+        'feeAccountId',
         'currency',
         'otherCurrencies',
         'exchangeRates',
-    ]) as FormData
-    return values
+    ])
+    values.lockDate = values.lockDate ? parseISO(values.lockDate) : ''
+    return values as FormData
 }
 
 // Returns true if validation succeeded, false otherwise
@@ -170,7 +226,13 @@ export function validateFormData(form: FCV<FormData>, data: FormData) {
 }
 
 // Returns: positive for success, 0 otherwise
-async function saveFormData(data: FormData) {
+async function saveFormData(data0: FormData) {
+    const data = {...data0,
+        lockDate: data0.lockDate ? toDateOnly(data0.lockDate) : '',
+        settlementAccountId: Number(data0.settlementAccountId),
+        feeAccountId: Number(data0.feeAccountId),
+    }
+
     // Filter out $currency and 'none' from otherCurrencies.
     // Then remove duplicates and sort.
     data.otherCurrencies = data.otherCurrencies || []
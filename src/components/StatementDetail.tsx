@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link, Redirect } from 'react-router-dom'
+import { Account, Actor, Element, Transaction, TransactionType, Statement, StatementLine,
+    MatchCandidate, toFormatted, formatDateOnly } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { accountSelectOptions, actorSelectOptions } from './SelectOptions'
+import { lineTransactionTypes, createLineTransaction } from './statement'
+import { transactionUrl } from './TransactionOverview'
+
+type Props = {
+    arg1?: string
+}
+
+type Options = {
+    accounts: Account[]
+    actorOptions: {}
+}
+
+// The reconciliation screen of a statement: match each line to an existing
+// transaction, or create a new one
+export default function StatementDetail(props: Props) {
+    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+
+    const [statement, setStatement] = React.useState<Statement>()
+    const [accountTitle, setAccountTitle] = React.useState<string>('')
+    // Matched elements (including their transaction), by id
+    const [elements, setElements] = React.useState<Record<number, Element>>({})
+    const [candidates, setCandidates] = React.useState<Record<number, MatchCandidate[]>>({})
+    const [options, setOptions] = React.useState<Options>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+    const [deleted, setDeleted] = React.useState<boolean>(false)
+
+    React.useEffect(() => {
+        Promise.all([Account.query().orderBy('title'), Actor.query().orderBy('title')]).then(([accounts, actors]) => {
+            setOptions({accounts, actorOptions: actorSelectOptions(actors)})
+        })
+    }, [])
+
+    React.useEffect(() => {
+        Statement.query().findById(argId).withGraphFetched('lines(orderByDate)').modifiers({
+            orderByDate(builder) {
+                builder.orderBy(['date', 'id'])
+            }
+        }).then(async s => {
+            if (s) {
+                const account = await Account.query().findById(s.accountId!)
+                setAccountTitle(account ? account.title! : '')
+
+                const ids = s.lines!.filter(line => line.elementId).map(line => line.elementId!)
+                const rows = await Element.query().whereIn('id', ids).withGraphFetched('transaction')
+                const hash: Record<number, Element> = {}
+                rows.forEach(e => {
+                    hash[e.id!] = e
+                })
+                setElements(hash)
+
+                const hash2: Record<number, MatchCandidate[]> = {}
+                for (let line of s.lines!) {
+                    if (!line.reconciled) {
+                        hash2[line.id!] = await line.candidates(s.accountId!)
+                    }
+                }
+                setCandidates(hash2)
+            }
+            setStatement(s)
+        })
+    }, [props.arg1, nonce])
+
+    function run(p: Promise<any>) {
+        p.then(() => {
+            playSuccess()
+            setError('')
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    function onDelete() {
+        statement!.delete().then(() => {
+            playSuccess()
+            setDeleted(true)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    if (deleted) {
+        return <Redirect to='/statements' />
+    }
+    else if (statement && options) {
+        const reconciled = statement.lines!.filter(line => line.reconciled).length
+        return <div>
+            <div className='title-pane'>
+                <span className='breadcrumb'><Link to='/statements'>Bank statements</Link> » </span>
+                <h1 className='title inline'>Statement {statement.id}: {statement.title}</h1>
+            </div>
+            <p>
+                Account: {accountTitle}. {reconciled} of {statement.lines!.length} lines reconciled.
+            </p>
+            <div className='buttons'>
+                <input type='button' value='Match automatically' onClick={() => run(statement.autoMatch())}
+                    disabled={reconciled == statement.lines!.length} />
+                <input type='button' value='Delete statement' onClick={onDelete} />
+            </div>
+            <div className='error'>
+                {error}
+            </div>
+            <table className='data-table statement-lines'><thead><tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th>Reference</th>
+                <th>Money in</th>
+                <th>Money out</th>
+                <th>Reconciliation</th>
+            </tr></thead><tbody>
+            {statement.lines!.map(line => <tr key={line.id}>
+                <td>{formatDateOnly(line.date!)}</td>
+                <td>{line.description}</td>
+                <td>{line.reference}</td>
+                <td className='amount'>{line.amount! > 0 ? toFormatted(line.amount!, line.currency!) : ''}</td>
+                <td className='amount'>{line.amount! < 0 ? toFormatted(-line.amount!, line.currency!) : ''}</td>
+                <td>{line.reconciled ?
+                    <MatchedLine line={line} element={elements[line.elementId!]} run={run} /> :
+                    <UnmatchedLine key={nonce} statement={statement} line={line} candidates={candidates[line.id!] || []}
+                        options={options} run={run} />}
+                </td>
+            </tr>)}
+            </tbody></table>
+        </div>
+    }
+
+    return null
+}
+
+type MatchedLineProps = {
+    line: StatementLine
+    element?: Element
+    run: (p: Promise<any>) => void
+}
+
+function MatchedLine(props: MatchedLineProps) {
+    const t = props.element ? (props.element as any).transaction as Transaction : undefined
+    const url = t ? transactionUrl(t) : ''
+    return <>
+        {t ? <>Matched to {url ? <Link to={url}>{t.id}</Link> : t.id}</> : 'Reconciled'}
+        &nbsp;<button type='button' onClick={() => props.run(props.line.unmatch())}>Unmatch</button>
+    </>
+}
+
+type UnmatchedLineProps = {
+    statement: Statement
+    line: StatementLine
+    candidates: MatchCandidate[]
+    options: Options
+    run: (p: Promise<any>) => void
+}
+
+function UnmatchedLine(props: UnmatchedLineProps) {
+    const types = lineTransactionTypes(props.statement, props.line)
+    const [elementId, setElementId] = React.useState<number>(props.candidates.length > 0 ? props.candidates[0].elementId : 0)
+    const [type, setType] = React.useState<TransactionType>(types[0])
+    const [accountId, setAccountId] = React.useState<number>(0)
+    const [actorId, setActorId] = React.useState<number>(0)
+
+    // Offer revenue accounts for sales, expense accounts for purchases
+    const groups = type == Transaction.Sale ? [Account.Revenue] :
+        type == Transaction.Purchase ? [Account.Expense] : Object.keys(Account.TypeGroupInfo)
+    const accounts = props.options.accounts.filter(a => groups.indexOf(a.typeGroup) >= 0 && a.id != props.statement.accountId)
+
+    return <>
+        {props.candidates.length > 0 && <div className='match'>
+            <select value={elementId} onChange={e => setElementId(Number(e.target.value))}>
+                {props.candidates.map(c => <option key={c.elementId} value={c.elementId}>
+                    {c.transactionId}: {formatDateOnly(c.date)} {c.description}
+                </option>)}
+            </select>
+            &nbsp;<button type='button' onClick={() => props.run(props.line.match(elementId))}>Match</button>
+        </div>}
+        <div className='create'>
+            <select value={type} onChange={e => setType(e.target.value as TransactionType)}>
+                {types.map(t => <option key={t} value={t}>{Transaction.TypeInfo[t].label}</option>)}
+            </select>
+            <select value={accountId} onChange={e => setAccountId(Number(e.target.value))}>
+                <option key={0} value={0}>Account</option>
+                {accountSelectOptions(accounts)}
+            </select>
+            <select value={actorId} onChange={e => setActorId(Number(e.target.value))}>
+                {props.options.actorOptions}
+            </select>
+            &nbsp;<button type='button' onClick={() => props.run(
+                createLineTransaction(props.statement, props.line, type, accountId, actorId))}>Create</button>
+        </div>
+    </>
+}
@@ -0,0 +1,256 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { useForm } from 'react-hook-form'
+import { Link, Redirect } from 'react-router-dom'
+import { Model, Project, Account, Statement, StatementFormat, StatementLine, IStatementLine,
+    DateOrder, CsvMapping, parseCsv, csvStatementLines, parseOfx, parseQif } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+import { flatSelectOptions, currencySelectOptions, hashSelectOptions } from './SelectOptions'
+
+type FormData = {
+    accountId: number
+    currency: string
+    format: StatementFormat
+    dateOrder: DateOrder
+    header: boolean
+    // For CSV only: The field of each column
+    columns: string[]
+    submit?: string    // Only for displaying general submit error messages
+}
+
+const DateOrderOptions: Record<string, string> = {
+    ymd: 'Year Month Day',
+    dmy: 'Day Month Year',
+    mdy: 'Month Day Year',
+}
+
+const ColumnOptions: Record<string, string> = {
+    '': 'Ignore',
+    date: 'Date',
+    description: 'Description',
+    reference: 'Reference',
+    amount: 'Amount (money in is positive)',
+    moneyIn: 'Money in',
+    moneyOut: 'Money out',
+}
+
+// Number of CSV rows to show when mapping columns
+const PREVIEW_ROWS = 5
+
+export default function StatementImport() {
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [filename, setFilename] = React.useState<string>('')
+    const [text, setText] = React.useState<string>('')
+    const [redirectId, setRedirectId] = React.useState<number>(0)
+
+    const form = useForm<FormData>()
+    const format = form.watch('format')
+    const rows = React.useMemo(() => format == Statement.Csv && text ? parseCsv(text) : [], [format, text])
+    const columnCount = rows.length > 0 ? Math.max(...rows.slice(0, PREVIEW_ROWS).map(r => r.length)) : 0
+
+    React.useEffect(() => {
+        // Statements are for bank, credit card and similar accounts
+        Account.settlementAccounts()
+        .then(rows => {
+            setAccountOptions(flatSelectOptions(rows))
+        })
+
+        form.reset({
+            accountId: Project.variables.get('settlementAccountId'),
+            currency: Project.variables.get('currency'),
+            format: Statement.Csv,
+            dateOrder: 'ymd',
+            header: true,
+            columns: [],
+        })
+    }, [])
+
+    function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files && e.target.files[0]
+        if (file) {
+            const reader = new FileReader()
+            reader.onload = () => {
+                const content = reader.result as string
+                const extension = file.name.split('.').pop()!.toLowerCase()
+                if (extension == 'ofx' || extension == 'qfx') {
+                    form.setValue('format', Statement.Ofx)
+                    const currency = parseOfx(content).currency
+                    if (currency) {
+                        form.setValue('currency', currency)
+                    }
+                }
+                else if (extension == 'qif') {
+                    form.setValue('format', Statement.Qif)
+                    form.setValue('dateOrder', 'mdy')
+                }
+                else {
+                    form.setValue('format', Statement.Csv)
+                }
+                setFilename(file.name)
+                setText(content)
+            }
+            reader.readAsText(file)
+        }
+    }
+
+    const onSubmit = (data: FormData) => {
+        let lines: IStatementLine[]
+        try {
+            lines = statementLines(text, data)
+        }
+        catch (e) {
+            playAlert()
+            form.setError('submit', '', e.toString())
+            return
+        }
+        if (lines.length == 0) {
+            playAlert()
+            form.setError('submit', '', 'Nothing to import')
+            return
+        }
+
+        saveStatement(filename, data, lines).then(id => {
+            playSuccess()
+            setRedirectId(id)
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    if (redirectId > 0) {
+        return <Redirect to={`/statements/${redirectId}`} />
+    }
+    else if (accountOptions) {
+        return <div>
+            <div className='title-pane'>
+                <span className='breadcrumb'><Link to='/statements'>Bank statements</Link> » </span>
+                <h1 className='title inline'>Import statement</h1>
+            </div>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+                <table className='horizontal-table-form'><tbody><tr className='row row-file'>
+                    <th scope='row'>
+                        <label htmlFor='file'>File:</label>
+                    </th><td>
+                        <input type='file' name='file' accept='.csv,.txt,.ofx,.qfx,.qif' onChange={onFile} />
+                    </td>
+                </tr><tr className='row row-account'>
+                    <th scope='row'>
+                        <label htmlFor='accountId'>Account:</label>
+                    </th><td>
+                        <select name='accountId' ref={form.register}>
+                            {accountOptions}
+                        </select>
+                    </td>
+                </tr><tr className='row row-format'>
+                    <th scope='row'>
+                        <label htmlFor='format'>Format:</label>
+                    </th><td>
+                        <select name='format' ref={form.register}>
+                        {Object.keys(Statement.FormatInfo).map(f =>
+                            <option key={f} value={f}>{Statement.FormatInfo[f].label}</option>
+                        )}
+                        </select>
+                    </td>
+                </tr><tr className='row row-currency'>
+                    <th scope='row'>
+                        <label htmlFor='currency'>Currency:</label>
+                    </th><td>
+                        <select name='currency' ref={form.register}>
+                            {currencySelectOptions(form.getValues('currency'))}
+                        </select>
+                    </td>
+                </tr><tr className='row row-date-order' style={format == Statement.Ofx ? {display: 'none'} : {}}>
+                    <th scope='row'>
+                        <label htmlFor='dateOrder'>Date order:</label>
+                    </th><td>
+                        <select name='dateOrder' ref={form.register}>
+                            {hashSelectOptions(DateOrderOptions)}
+                        </select>
+                    </td>
+                </tr><tr className='row row-header' style={format == Statement.Csv ? {} : {display: 'none'}}>
+                    <th scope='row'>
+                        <label htmlFor='header'>First row is headings:</label>
+                    </th><td>
+                        <input name='header' type='checkbox' ref={form.register} />
+                    </td>
+                </tr></tbody></table>
+                {columnCount > 0 && <table className='data-table statement-columns'><thead><tr>
+                    {[...Array(columnCount).keys()].map(i => <th key={i}>
+                        <select name={`columns[${i}]`} ref={form.register}>
+                            {hashSelectOptions(ColumnOptions)}
+                        </select>
+                    </th>)}
+                </tr></thead><tbody>
+                    {rows.slice(0, PREVIEW_ROWS).map((row, index) => <tr key={index}>
+                        {[...Array(columnCount).keys()].map(i => <td key={i}>{row[i]}</td>)}
+                    </tr>)}
+                </tbody></table>}
+                <div className='error'>
+                    {form.errors.submit && form.errors.submit.message}
+                </div><div className='buttons'>
+                    <input type='submit' value='Import' disabled={!text} />
+                </div>
+            </form>
+        </div>
+    }
+
+    return null
+}
+
+// Parses the file according to the form settings
+function statementLines(text: string, data: FormData): IStatementLine[] {
+    switch (data.format) {
+        case Statement.Ofx:
+            return parseOfx(text).lines
+        case Statement.Qif:
+            return parseQif(text, data.currency, data.dateOrder)
+    }
+
+    const columns = data.columns || []
+    const column = (field: string) => columns.indexOf(field)
+    const mapping: CsvMapping = {
+        date: column('date'),
+        description: column('description'),
+        reference: column('reference'),
+        amount: column('amount'),
+        moneyIn: column('moneyIn'),
+        moneyOut: column('moneyOut'),
+        dateOrder: data.dateOrder,
+        header: !!data.header,
+    }
+    if (mapping.date < 0) {
+        throw 'Please select the date column'
+    }
+    if (mapping.amount < 0 && mapping.moneyIn < 0 && mapping.moneyOut < 0) {
+        throw 'Please select the amount column(s)'
+    }
+    return csvStatementLines(parseCsv(text), mapping, data.currency)
+}
+
+// Returns: id of the statement that was created
+async function saveStatement(filename: string, data: FormData, lines: IStatementLine[]): Promise<number> {
+    return Model.transaction(async trx => {
+        const statement = Statement.construct({
+            accountId: Number(data.accountId),
+            title: filename,
+            format: data.format,
+            currency: data.currency,
+        })
+        await statement.save(trx)
+
+        for (let line of lines) {
+            await StatementLine.construct({
+                ...line,
+                statementId: statement.id,
+                currency: data.currency,
+                elementId: 0,
+                reconciled: 0,
+            }).save(trx)
+        }
+        return statement.id!
+    })
+}
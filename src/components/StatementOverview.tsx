@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Account, Statement, StatementLine, LOCALE } from '../core'
+
+type Row = {
+    statement: Statement
+    account: string
+    lines: number
+    reconciled: number
+}
+
+export default function StatementOverview() {
+    const [rows, setRows] = React.useState<Row[]>()
+
+    React.useEffect(() => {
+        Promise.all([
+            Statement.query().orderBy('id', 'desc'),
+            Account.query(),
+            StatementLine.query().select('statementId')
+                .count('* as lines').sum('reconciled as reconciled').groupBy('statementId'),
+        ]).then(([statements, accounts, counts]) => {
+            const titles: Record<number, string> = {}
+            accounts.forEach(a => {
+                titles[a.id!] = a.title!
+            })
+            const totals: Record<number, any> = {}
+            counts.forEach((c: any) => {
+                totals[c.statementId] = c
+            })
+
+            setRows(statements.map(statement => ({
+                statement,
+                account: titles[statement.accountId!] || '',
+                lines: totals[statement.id!] ? Number(totals[statement.id!].lines) : 0,
+                reconciled: totals[statement.id!] ? Number(totals[statement.id!].reconciled) : 0,
+            })))
+        })
+    }, [])
+
+    if (rows) {
+        return <div>
+            <div className='title-pane'>
+                <h1 className='title inline'>Bank statements</h1>
+                <span className='tasks'>
+                    <Link to='/statements/import'>Import statement</Link>
+                </span>
+            </div>
+            <table className='data-table'><thead><tr>
+                <th>ID</th>
+                <th>File</th>
+                <th>Account</th>
+                <th>Imported</th>
+                <th>Reconciled</th>
+            </tr></thead><tbody>
+            {rows.map(row => <tr key={row.statement.id}>
+                <td><Link to={`/statements/${row.statement.id}`}>{row.statement.id}</Link></td>
+                <td><Link to={`/statements/${row.statement.id}`}>{row.statement.title}</Link></td>
+                <td>{row.account}</td>
+                <td>{row.statement.createdAt!.toLocaleDateString(LOCALE)}</td>
+                <td>{row.reconciled} of {row.lines}</td>
+            </tr>)}
+            </tbody></table>
+        </div>
+    }
+
+    return null
+}
@@ -6,8 +6,8 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
 import { Project, Transaction, toFormatted,
-    datePresetDates, convertCurrency, exchangeRates, TaxItemGroup, taxItems } from '../core'
-import { DateRange, ReportHeader, ExchangeRates } from './Reports'
+    datePresetDates, ExchangeRate, DatedRate, TaxItemGroup, taxItems } from '../core'
+import { DateRange, ReportHeader } from './Reports'
 import { TaxReport } from './TaxReports'
 import { debounce, validateAmountFieldsHelper } from '../util/util'
 import { GroupItems, GroupTotal } from './TransactionTaxes'
@@ -26,11 +26,12 @@ type ReportInfo = {
     inputTaxedPurchases: TaxItemGroup
     freePurchases: TaxItemGroup
     g: Record<number, number>
-    exchangeRates: {}
+    rates: DatedRate[]
 }
 
 async function reportInfo(startDate: string, endDate: string, accrual: boolean, g7: number, g15: number, g18: number) : Promise<ReportInfo> {
-    const items = await taxItems(startDate, endDate, accrual, ['AU:'])
+    const history = await ExchangeRate.history()
+    const items = await taxItems(startDate, endDate, accrual, ['AU:'], 'AUD', history)
     const result: ReportInfo = { startDate, endDate, accrual,
         sales: {items: [], taxTotals: [], totals: []},
         exportSales: {items: [], taxTotals: [], totals: []},
@@ -41,11 +42,10 @@ async function reportInfo(startDate: string, endDate: string, accrual: boolean,
         inputTaxedPurchases: {items: [], taxTotals: [], totals: []},
         freePurchases: {items: [], taxTotals: [], totals: []},
         g: {},
-        exchangeRates: exchangeRates(),
+        rates: history.usedRates(),
     }
 
     items.forEach(item => {
-        convertCurrency(item, 'AUD')
         if (item.drcr == Transaction.Credit) {
             result.sales.items.push(item)
 
@@ -225,7 +225,7 @@ function TaxReportGST() {
 function renderReport(info: ReportInfo, summary: boolean) {
     return <Document><Page size="A4" style={[Styles.page, {fontSize: summary ? 9 : 8}]}>
         <View fixed={true}>
-            <ReportHeader startDate={info.startDate} endDate={info.endDate} title={`GST calculation for BAS${summary ? '' : ': Detail'}`}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title={`GST calculation for BAS${summary ? '' : ': Detail'}`}>
                 <T style={{fontSize: 10}}>({info.accrual ? 'accruals' : 'cash'} basis)</T>
             </ReportHeader>
             {!summary && <Tr key='header' style={{marginBottom: 6}}>
@@ -349,8 +349,6 @@ function renderReport(info: ReportInfo, summary: boolean) {
             <G label='G20   GST on purchases (G19 divided by eleven)' amount={info.g[20]} marginBottom={0} />
             <Tr style={{marginBottom: 12}}><TdRight width={100}>(1B in the Summary section of the BAS)</TdRight></Tr>
         </>}
-
-        <ExchangeRates rates={info.exchangeRates} />
     </Page></Document>
 }
 
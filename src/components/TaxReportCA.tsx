@@ -6,8 +6,8 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, Tr, Th, ThLeft, ThRight } from './PDFView'
 import { Transaction, toFormatted,
-    datePresetDates, convertCurrency, exchangeRates, TaxItemGroup, taxItems } from '../core'
-import { DateRange, ReportHeader, ExchangeRates } from './Reports'
+    datePresetDates, ExchangeRate, DatedRate, TaxItemGroup, taxItems } from '../core'
+import { DateRange, ReportHeader } from './Reports'
 import { TaxReport } from './TaxReports'
 import { debounce, validateAmountFieldsHelper } from '../util/util'
 import { GroupItems, GroupTotal } from './TransactionTaxes'
@@ -24,21 +24,21 @@ type ReportInfo = {
     purchases: TaxItemGroup
     lines: Record<number | string, number>
     refund: boolean
-    exchangeRates: {}
+    rates: DatedRate[]
 }
 
 async function reportInfo(startDate: string, endDate: string, inputs: Inputs) : Promise<ReportInfo> {
-    const items = await taxItems(startDate, endDate, true, ['CA:'])
+    const history = await ExchangeRate.history()
+    const items = await taxItems(startDate, endDate, true, ['CA:'], 'CAD', history)
     const result: ReportInfo = { startDate, endDate,
         sales: {items: [], taxTotals: [], totals: []},
         purchases: {items: [], taxTotals: [], totals: []},
         lines: {},
         refund: false,
-        exchangeRates: exchangeRates(),
+        rates: history.usedRates(),
     }
 
     items.forEach(item => {
-        convertCurrency(item, 'CAD')
         if (item.drcr == Transaction.Credit) {
             result.sales.items.push(item)
         }
@@ -223,7 +223,7 @@ function TaxReportGST() {
 function renderReport(info: ReportInfo, summary: boolean) {
     return <Document><Page size="A4" style={[Styles.page, {fontSize: summary ? 9 : 8}]}>
         <View fixed={true}>
-            <ReportHeader startDate={info.startDate} endDate={info.endDate} title={`GST/HST Return Working Copy${summary ? '' : ': Detail'}`} />
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title={`GST/HST Return Working Copy${summary ? '' : ': Detail'}`} />
             {!summary && <Tr key='header' style={{marginBottom: 6}}>
                 <ThLeft width={14} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
                 <ThLeft width={10} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
@@ -295,8 +295,6 @@ function renderReport(info: ReportInfo, summary: boolean) {
                 : <LineItem label='Line 115 | Payment enclosed' amount={info.lines[115]} />
             }
         </>}
-
-        <ExchangeRates rates={info.exchangeRates} />
     </Page></Document>
 }
 
@@ -5,8 +5,8 @@
 import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, Tr, Th, ThLeft, ThRight } from './PDFView'
-import { Transaction, datePresetDates, convertCurrency, exchangeRates, TaxItemGroup, taxItems, TaxCodeInfo } from '../core'
-import { DateRange, ReportHeader, ExchangeRates } from './Reports'
+import { Transaction, datePresetDates, ExchangeRate, DatedRate, TaxItemGroup, taxItems, TaxCodeInfo } from '../core'
+import { DateRange, ReportHeader } from './Reports'
 import { TaxReport } from './TaxReports'
 import { LineItem, LineItemSummary } from './TaxReportCA'
 import { debounce, validateAmountFieldsHelper } from '../util/util'
@@ -23,20 +23,20 @@ type ReportInfo = {
     sales: TaxItemGroup
     purchases: TaxItemGroup
     lines: Record<string, number>
-    exchangeRates: {}
+    rates: DatedRate[]
 }
 
 async function reportInfo(startDate: string, endDate: string, inputs: Inputs) : Promise<ReportInfo> {
-    const items = await taxItems(startDate, endDate, true, ['CA-BC:'])
+    const history = await ExchangeRate.history()
+    const items = await taxItems(startDate, endDate, true, ['CA-BC:'], 'CAD', history)
     const result: ReportInfo = { startDate, endDate,
         sales: {items: [], taxTotals: [], totals: []},
         purchases: {items: [], taxTotals: [], totals: []},
         lines: {},
-        exchangeRates: exchangeRates(),
+        rates: history.usedRates(),
     }
 
     items.forEach(item => {
-        convertCurrency(item, 'CAD')
         if (new TaxCodeInfo(item.taxCode).useTax) {
             result.purchases.items.push(item)
         }
@@ -197,7 +197,7 @@ function TaxReportImpl() {
 function renderReport(info: ReportInfo, summary: boolean) {
     return <Document><Page size="A4" style={[Styles.page, {fontSize: summary ? 9 : 8}]}>
         <View fixed={true}>
-            <ReportHeader startDate={info.startDate} endDate={info.endDate} title={`British Columbia PST Return Worksheet${summary ? '' : ': Detail'}`} />
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title={`British Columbia PST Return Worksheet${summary ? '' : ': Detail'}`} />
             {!summary && <Tr key='header' style={{marginBottom: 6}}>
                 <ThLeft width={14} innerStyle={{borderBottomWidth: 1}}>Item</ThLeft>
                 <ThLeft width={10} innerStyle={{borderBottomWidth: 1}}>Date</ThLeft>
@@ -251,7 +251,5 @@ function renderReport(info: ReportInfo, summary: boolean) {
 
             <LineItem label='[ K ] Total Amount Due' amount={info.lines['k']} />
         </>}
-
-        <ExchangeRates rates={info.exchangeRates} />
     </Page></Document>
 }
@@ -6,8 +6,8 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight } from './PDFView'
 import { Project, Transaction, toFormatted,
-    datePresetDates, convertCurrency, exchangeRates, TaxItemGroup, taxItems } from '../core'
-import { DateRange, ReportHeader, ExchangeRates } from './Reports'
+    datePresetDates, ExchangeRate, DatedRate, TaxItemGroup, taxItems } from '../core'
+import { DateRange, ReportHeader } from './Reports'
 import { TaxReport } from './TaxReports'
 import { GroupItems, GroupTotal } from './TransactionTaxes'
 import { datePresetSelectOptions } from './SelectOptions'
@@ -23,11 +23,12 @@ type ReportInfo = {
     intraEuGoodsPurchases: TaxItemGroup
     intraEuServicesPurchases: TaxItemGroup
     lines: Record<string, number>
-    exchangeRates: {}
+    rates: DatedRate[]
 }
 
 async function reportInfo(startDate: string, endDate: string, cash: boolean) : Promise<ReportInfo> {
-    const items = await taxItems(startDate, endDate, !cash, ['IE:'])
+    const history = await ExchangeRate.history()
+    const items = await taxItems(startDate, endDate, !cash, ['IE:'], 'EUR', history)
     const result: ReportInfo = { startDate, endDate, cash,
         sales: {items: [], taxTotals: [], totals: []},
         intraEuGoodsSales: {items: [], taxTotals: [], totals: []},
@@ -36,11 +37,10 @@ async function reportInfo(startDate: string, endDate: string, cash: boolean) : P
         intraEuGoodsPurchases: {items: [], taxTotals: [], totals: []},
         intraEuServicesPurchases: {items: [], taxTotals: [], totals: []},
         lines: {},
-        exchangeRates: exchangeRates(),
+        rates: history.usedRates(),
     }
 
     items.forEach(item => {
-        convertCurrency(item, 'EUR')
         if (item.drcr == Transaction.Credit) {
             result.sales.items.push(item)
 
@@ -173,7 +173,7 @@ function TaxReportImpl() {
 function renderReport(info: ReportInfo, summary: boolean) {
     return <Document><Page size="A4" style={[Styles.page, {fontSize: summary ? 9 : 8}]}>
         <View fixed={true}>
-            <ReportHeader startDate={info.startDate} endDate={info.endDate} title={`VAT3 Return${summary ? '' : ': Detail'}`}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title={`VAT3 Return${summary ? '' : ': Detail'}`}>
                 <T style={{fontSize: 10}}>({info.cash ? 'cash receipts basis of accounting' : 'accrual'})</T>
             </ReportHeader>
             {!summary && <Tr key='header' style={{marginBottom: 6}}>
@@ -240,8 +240,6 @@ function renderReport(info: ReportInfo, summary: boolean) {
             </>}
             <LineItem label='ES2 - Intra-EU acquisition of services' amount={info.lines['es2']} />
         </>}
-
-        <ExchangeRates rates={info.exchangeRates} />
     </Page></Document>
 }
 
@@ -6,8 +6,8 @@ import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight } from './PDFView'
 import { Project, Transaction, toFormatted,
-    datePresetDates, convertCurrency, exchangeRates, TaxItemGroup, taxItems } from '../core'
-import { DateRange, ReportHeader, ExchangeRates } from './Reports'
+    datePresetDates, ExchangeRate, DatedRate, TaxItemGroup, taxItems } from '../core'
+import { DateRange, ReportHeader } from './Reports'
 import { TaxReport } from './TaxReports'
 import { debounce, validateAmountFieldsHelper } from '../util/util'
 import { GroupItems, GroupTotal } from './TransactionTaxes'
@@ -22,22 +22,22 @@ type ReportInfo = {
     purchases: TaxItemGroup
     lines: Record<number, number>
     refund: boolean
-    exchangeRates: {}
+    rates: DatedRate[]
 }
 
 async function reportInfo(startDate: string, endDate: string, accrual: boolean, line9: number, line13: number) : Promise<ReportInfo> {
-    const items = await taxItems(startDate, endDate, accrual, ['NZ:'])
+    const history = await ExchangeRate.history()
+    const items = await taxItems(startDate, endDate, accrual, ['NZ:'], 'NZD', history)
     const result: ReportInfo = { startDate, endDate, accrual,
         sales: {items: [], taxTotals: [], totals: []},
         zeroSales: {items: [], taxTotals: [], totals: []},
         purchases: {items: [], taxTotals: [], totals: []},
         lines: {},
         refund: false,
-        exchangeRates: exchangeRates(),
+        rates: history.usedRates(),
     }
 
     items.forEach(item => {
-        convertCurrency(item, 'NZD')
         if (item.drcr == Transaction.Credit) {
             result.sales.items.push(item)
 
@@ -188,7 +188,7 @@ function TaxReportGST() {
 function renderReport(info: ReportInfo, summary: boolean) {
     return <Document><Page size="A4" style={[Styles.page, {fontSize: summary ? 9 : 8}]}>
         <View fixed={true}>
-            <ReportHeader startDate={info.startDate} endDate={info.endDate} title={`GST101A${summary ? '' : ': Detail'}`}>
+            <ReportHeader startDate={info.startDate} endDate={info.endDate} rates={info.rates} title={`GST101A${summary ? '' : ': Detail'}`}>
                 <T style={{fontSize: 10}}>({info.accrual ? 'invoice' : 'payments'} basis)</T>
             </ReportHeader>
             {!summary && <Tr key='header' style={{marginBottom: 6}}>
@@ -254,8 +254,6 @@ function renderReport(info: ReportInfo, summary: boolean) {
                 <Tr><ThRight width={100}>({info.refund ? 'Refund' : 'GST to pay'})</ThRight></Tr>
             </View>
         </>}
-
-        <ExchangeRates rates={info.exchangeRates} />
     </Page></Document>
 }
 
@@ -10,15 +10,18 @@ import { TransactionOrKnex, Model,
     Project, Transaction, Account, Actor, IElement,
     dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate,
     toFormatted, parseFormatted } from '../core'
-import { validateElementDrCr } from '../util/util'
+import { validateElementDrCr, validateLockDate } from '../util/util'
 import { playSuccess, playAlert } from '../util/sound'
 import { MaybeSelect, accountSelectOptions, actorSelectOptions, currencySelectOptions } from './SelectOptions'
+import Attachments from './Attachments'
+import History from './History'
 
 type Props = {
     arg1?: string
 }
 
-type FormData = {
+export type FormData = {
+    type?: string
     actorId?: number
     actorTitle?: string
     date: Date
@@ -83,6 +86,7 @@ export default function TransactionDetail(props: Props) {
             setTransaction(Transaction.construct({}))
             const currency = Project.variables.get('currency')
             form.reset({
+                type: props.arg1 == 'exchange' ? Transaction.Exchange : Transaction.Raw,
                 actorId: 0,
                 date: lastSavedDate(),
                 elements: [{currency}, {currency}],
@@ -115,21 +119,34 @@ export default function TransactionDetail(props: Props) {
         return <Redirect to={`/transactions/${redirectId ? redirectId : 'new'}`} />
     }
     else if (transaction && accountOptions && actorOptions) {
+        // Raw journal entries and currency exchanges can be changed into each other
+        const editable = !transaction.type || transaction.type == Transaction.Raw || transaction.type == Transaction.Exchange
+        const rate = transaction.type == Transaction.Exchange && transaction.elements &&
+            transaction.elements.find(e => e.accountId == Account.Reserved.CurrencyTrading && e.amount)
+
         return <div>
             <div className='title-pane'>
                 <span className='breadcrumb'><Link to='/transactions'>Journal</Link> » </span>
                 <h1 className='title inline'>
-                    {transaction.id ? `Raw journal entry ${transaction.id}` : 'New raw journal entry'}
+                    {transaction.type == Transaction.Exchange || (!transaction.id && props.arg1 == 'exchange') ?
+                        (transaction.id ? `Currency exchange ${transaction.id}` : 'New currency exchange') :
+                        (transaction.id ? `Raw journal entry ${transaction.id}` : 'New raw journal entry')}
                 </h1>
+                {transaction.type == Transaction.Raw && <span className='tasks'>
+                    <Link to={`/recurring/from/${transaction.id}`}>Make recurring</Link>
+                </span>}
             </div>
             <form onSubmit={form.handleSubmit(onSubmit)} className='transaction-form'>
-                <table className='horizontal-table-form transaction-fields'><tbody>{!!transaction.id && <tr className='row row-type'>
+                <table className='horizontal-table-form transaction-fields'><tbody><tr className='row row-type'>
                     <th scope='row'>
                         <label htmlFor='type'>Type:</label>
                     </th><td>
-                        {transaction.type}
+                        {editable ? <select name='type' ref={form.register}>
+                            <option value={Transaction.Raw}>Raw journal entry</option>
+                            <option value={Transaction.Exchange}>{Transaction.TypeInfo[Transaction.Exchange].label}</option>
+                        </select> : transaction.type}
                     </td>
-                </tr>}<tr className='row row-actor'>
+                </tr><tr className='row row-actor'>
                     <th scope='row'>
                         <label htmlFor='actorId'>Customer or Supplier:</label>
                     </th><td>
@@ -231,6 +248,9 @@ export default function TransactionDetail(props: Props) {
                     </td></tr>
                 )}
                 </tbody></table>
+                {rate && <div className='exchange-rate'>
+                    Rate: {rate.description}
+                </div>}
                 <div className='more'>
                     <button type='button' onClick={() => append({name: 'elements'})}>
                         More rows
@@ -241,18 +261,25 @@ export default function TransactionDetail(props: Props) {
                     <input
                         type='submit'
                         value='Save'
-                        disabled={!!transaction.type && transaction.type != Transaction.Raw}
+                        disabled={!editable}
                     />
                 </div>
             </form>
+            {!!transaction.id && <Attachments transactionId={transaction.id} />}
+            {!!transaction.id && <History
+                target={Transaction.tableName}
+                targetId={transaction.id}
+                nonce={transaction.updatedAt ? transaction.updatedAt.toString() : 0}
+            />}
         </div>
     }
 
     return null
 }
 
-function extractFormValues(t: Transaction): FormData {
+export function extractFormValues(t: Transaction): FormData {
     const values: FormData = {
+        type: t.type,
         date: parseISO(t.date!),
         description: t.description,
         actorId: t.actorId,
@@ -262,6 +289,10 @@ function extractFormValues(t: Transaction): FormData {
 
     if (t.elements) {
         for (let e of t.elements) {
+            // The trading elements of a currency exchange are generated
+            if (t.type == Transaction.Exchange && e.accountId == Account.Reserved.CurrencyTrading) {
+                continue
+            }
             const formatted = toFormatted(e.amount!, e.currency!)
             values.elements.push({
                 eId: e.id,
@@ -286,6 +317,9 @@ function validateFormData(form: FCV<FormData>, data: FormData) {
         form.setError('date', '', 'Date is required')
         return false
     }
+    if (!validateLockDate(form, data)) {
+        return false
+    }
     if (!validateElementDrCr(form, data)) {
         return false
     }
@@ -303,7 +337,8 @@ function validateFormData(form: FCV<FormData>, data: FormData) {
         balances[currency] += parseFormatted(e.dr, currency) - parseFormatted(e.cr, currency)
     })
 
-    if (Object.keys(balances).some(currency => balances[currency] != 0)) {
+    // A currency exchange is balanced by trading elements when saved
+    if (data.type != Transaction.Exchange && Object.keys(balances).some(currency => balances[currency] != 0)) {
         form.setError('submit', '', 'Entries do not balance')
         return false
     }
@@ -311,7 +346,11 @@ function validateFormData(form: FCV<FormData>, data: FormData) {
 }
 
 // Returns: id of the transaction that was saved/created, 0 otherwise
-async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+export async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+    // Check before creating anything (eg. a new actor)
+    await Transaction.checkLock(toDateOnly(data.date))
+    await Transaction.checkLock(transaction.date)
+
     if (data.actorId == Actor.NewCustomer || data.actorId == Actor.NewSupplier) {
         const actor = Actor.construct({
             title: data.actorTitle!.trim(),
@@ -323,7 +362,7 @@ async function saveFormData(transaction: Transaction, data: FormData, trx?: Tran
 
     Object.assign(transaction, {
         description: data.description,
-        type: Transaction.Raw,
+        type: data.type == Transaction.Exchange ? Transaction.Exchange : Transaction.Raw,
         date: toDateOnly(data.date),
         actorId: data.actorId,
     })
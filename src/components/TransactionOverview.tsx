@@ -3,8 +3,8 @@
  */
 
 import * as React from 'react'
-import { Transaction, TransactionType, formatDateOnly, toFormatted, TaxCodeInfo } from '../core'
-import { Column, ReactTable, filterQuery, Filter, sortQuery, SelectFilter, DateRangeFilter } from './ReactTable'
+import { Transaction, TransactionType, Account, Cell, formatDateOnly, toFormatted, toNumber, TaxCodeInfo } from '../core'
+import { Column, ReactTable, State, filterQuery, Filter, sortQuery, SelectFilter, DateRangeFilter } from './ReactTable'
 import { QueryBuilder } from 'objection'
 import { Link } from 'react-router-dom'
 
@@ -17,18 +17,32 @@ const TransactionTypeOptions = <>
 const typePath: Record<string, string> = {
     '': 'transaction',
     [Transaction.Raw]: 'transaction',
+    [Transaction.Closing]: 'transaction',
+    [Transaction.Revaluation]: 'transaction',
+    [Transaction.Exchange]: 'transaction',
+    [Transaction.Drawing]: 'distribution',
+    [Transaction.Dividend]: 'distribution',
     [Transaction.Invoice]: 'sale',
+    [Transaction.CreditNote]: 'sale',
     [Transaction.Bill]: 'purchase',
+    [Transaction.DebitNote]: 'purchase',
+}
+
+// Returns the url of the page of a transaction, or '' if there is none
+export function transactionUrl(obj: {id?: number, type?: string}) {
+    const type = obj.type || ''
+    if (type != Transaction.InvoicePayment && type != Transaction.BillPayment) {
+        const path = typePath[type] ? typePath[type] : type
+        return `/${path}s/${obj.id}`
+    }
+    return ''
 }
 
 function maybeLink(obj: Transaction, text: string) {
-    let url: string | false = false
+    let url = ''
     const type = obj.type || ''
     if (text && obj instanceof Transaction && (!type || type.isEnum(TransactionType))) {
-        if (type != Transaction.InvoicePayment && type != Transaction.BillPayment) {
-            const path = typePath[type] ? typePath[type] : type
-            url = `/${path}s/${obj.id}`
-        }
+        url = transactionUrl(obj)
     }
 
     return url ? <Link to={url}>{text}</Link> : text
@@ -61,8 +75,25 @@ function renderDescription(data: any) {
     if (t.type == Transaction.InvoicePayment || t.type == Transaction.BillPayment) {
         const settledType = t.type == Transaction.InvoicePayment ? 'invoice' : 'bill'
         const urlPart = t.type == Transaction.InvoicePayment ? 'sale' : 'purchase'
+        const preposition = t.type == Transaction.InvoicePayment ? 'into' : 'from'
         part2 = <>
-            (payment for <Link to={`/${urlPart}s/${t.settleId}`}>{settledType} {t.settleId}</Link>)
+            (payment for <Link to={`/${urlPart}s/${t.settleId}`}>{settledType} {t.settleId}</Link>
+            {t.settlementAccountTitle && <> {preposition} <Link to={`/accounts/${t.settlementAccountId}`}>
+                {t.settlementAccountTitle}
+            </Link></>})
+        </>
+    }
+    else if ((t.type == Transaction.CreditNote || t.type == Transaction.DebitNote) && t.settleId) {
+        const settledType = t.type == Transaction.CreditNote ? 'invoice' : 'bill'
+        const urlPart = t.type == Transaction.CreditNote ? 'sale' : 'purchase'
+        part2 = <>
+            (reverses <Link to={`/${urlPart}s/${t.settleId}`}>{settledType} {t.settleId}</Link>)
+        </>
+    }
+    else if (t.type == Transaction.Transfer && t.transferFromTitle) {
+        part2 = <>
+            (from <Link to={`/accounts/${t.transferFromId}`}>{t.transferFromTitle}</Link>
+            {' '}to <Link to={`/accounts/${t.transferToId}`}>{t.transferToTitle}</Link>)
         </>
     }
     else {
@@ -89,15 +120,18 @@ function renderActor(data: any) {
     return data.cell.value
 }
 
-function renderTotal(data: any) {
-    const t: Transaction = data.row.original
-    const sums = Transaction.getSums(t.elements!.filter(e => {
+function transactionTotals(t: Transaction) {
+    return Transaction.getSums(t.elements!.filter(e => {
         // Reverse charges aren't included in the total
         if (e.taxCode && new TaxCodeInfo(e.taxCode).reverse) {
             return false
         }
         return e.drcr == Transaction.Debit
     }))
+}
+
+function renderTotal(data: any) {
+    const sums = transactionTotals(data.row.original)
 
     return <>
         {sums.map(money =>
@@ -121,9 +155,10 @@ type Props = {
     },
     viewRaw?: boolean,
     actorHeading?: string
+    exportFilename?: string
 }
 
-function TransactionTable({types, typesFilter, viewRaw = false, actorHeading = 'Customer / Supplier'}: Props) {
+function TransactionTable({types, typesFilter, viewRaw = false, actorHeading = 'Customer / Supplier', exportFilename = 'transactions'}: Props) {
     const columns = React.useMemo<Column<Transaction>[]>(() => {
         const columns: any = [
             { Header: 'Id', accessor: 'id', disableFilters: false, Cell: renderId },
@@ -148,24 +183,7 @@ function TransactionTable({types, typesFilter, viewRaw = false, actorHeading = '
     const [pageCount, setPageCount] = React.useState<number>(0)
 
     const fetchData = React.useCallback(state => {
-        const q = Transaction.query().leftJoin('actor', 'txn.actorId', 'actor.id')
-            .select('txn.*', 'actor.type as actorType', 'actor.title as actorTitle')
-
-        if (types.length > 0) {
-            q.whereIn('txn.type', types)
-        }
-        if (state.filters) {
-            state.filters.forEach((f: Filter) => {
-                if (f.id == 'type' && typesFilter && typesFilter.process) {
-                    typesFilter.process(q, f)
-                }
-                else {
-                    // Insert `txn` table prefix for most columns
-                    filterQuery(q, f, f.id != 'actorTitle' ? 'txn' : undefined)
-                }
-            })
-        }
-
+        const q = transactionQuery(types, typesFilter, state)
         q.clone().resultSize().then(total => {
             setPageCount(Math.ceil(total / state.pageSize))
         })
@@ -173,21 +191,129 @@ function TransactionTable({types, typesFilter, viewRaw = false, actorHeading = '
         sortQuery(q, state.sortBy)
         q.withGraphFetched('elements')
         q.orderBy('id', 'desc')     // Least significant sort order
-        q.offset(state.pageSize * state.pageIndex).limit(state.pageSize).then(data => {
-            data.forEach(t => {
-                // Hoist settleId from any elements, if any, to the parent transaction
-                for (let e of t.elements!) {
-                    if (e.settleId) {
-                        (t as any).settleId = e.settleId
-                        break
-                    }
-                }
-            })
+        q.offset(state.pageSize * state.pageIndex).limit(state.pageSize).then(async data => {
+            await hoistSettlements(data)
             setData(data)
         })
     }, [])
 
-    return <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState}} />
+    const exportData = React.useCallback(async state => {
+        const q = transactionQuery(types, typesFilter, state)
+        sortQuery(q, state.sortBy)
+        q.withGraphFetched('elements')
+        q.orderBy('id', 'desc')
+        const data = await q
+        await hoistSettlements(data)
+
+        const rows: Cell[][] = [['Id', 'Date', 'Description', 'Type', actorHeading, 'Currency', 'Amount']]
+        data.forEach(t => {
+            const info = Transaction.TypeInfo[t.type!]
+            transactionTotals(t).forEach(money => {
+                rows.push([t.id, t.date, exportDescription(t), info ? info.label : t.type, (t as any).actorTitle,
+                    money.currency, toNumber(money.amount, money.currency)])
+            })
+        })
+        return rows
+    }, [])
+
+    return <ReactTable className='data-table' {...{columns, data, fetchData, pageCount, initialState, exportData}}
+        exportFilename={exportFilename} />
+}
+
+function transactionQuery(types: TransactionType[], typesFilter: Props['typesFilter'], state: State) {
+    const q = Transaction.query().leftJoin('actor', 'txn.actorId', 'actor.id')
+        .select('txn.*', 'actor.type as actorType', 'actor.title as actorTitle')
+
+    if (types.length > 0) {
+        q.whereIn('txn.type', types)
+    }
+    if (state.filters) {
+        state.filters.forEach((f: Filter) => {
+            if (f.id == 'type' && typesFilter && typesFilter.process) {
+                typesFilter.process(q, f)
+            }
+            else {
+                // Insert `txn` table prefix for most columns
+                filterQuery(q, f, f.id != 'actorTitle' ? 'txn' : undefined)
+            }
+        })
+    }
+    return q
+}
+
+async function hoistSettlements(data: Transaction[]) {
+    const accountIds: number[] = []
+    data.forEach(t => {
+        // Hoist settleId from any elements, if any, to the parent transaction
+        for (let e of t.elements!) {
+            if (e.settleId) {
+                (t as any).settleId = e.settleId
+                break
+            }
+        }
+
+        // For payments, hoist the bank/cash account ie. the other side
+        if (t.type == Transaction.InvoicePayment || t.type == Transaction.BillPayment) {
+            for (let e of t.elements!) {
+                if (!e.settleId && e.amount) {
+                    (t as any).settlementAccountId = e.accountId
+                    accountIds.push(e.accountId!)
+                    break
+                }
+            }
+        }
+
+        // For transfers, hoist the 'from' and 'to' accounts
+        if (t.type == Transaction.Transfer) {
+            const from = t.elements!.find(e => e.drcr == Transaction.Credit)
+            const to = t.elements!.find(e => e.drcr == Transaction.Debit)
+            if (from && to) {
+                (t as any).transferFromId = from.accountId
+                ;(t as any).transferToId = to.accountId
+                accountIds.push(from.accountId!, to.accountId!)
+            }
+        }
+    })
+
+    if (accountIds.length > 0) {
+        const titles: Record<number, string> = {}
+        const accounts = await Account.query().whereIn('id', accountIds)
+        accounts.forEach(a => titles[a.id!] = a.title!)
+        data.forEach(t => {
+            const accountId = (t as any).settlementAccountId
+            if (accountId) {
+                (t as any).settlementAccountTitle = titles[accountId]
+            }
+            if ((t as any).transferFromId) {
+                (t as any).transferFromTitle = titles[(t as any).transferFromId]
+                ;(t as any).transferToTitle = titles[(t as any).transferToId]
+            }
+        })
+    }
+}
+
+// Plain text version of renderDescription()
+function exportDescription(t: any) {
+    let text = t.description
+    if (!text) {
+        const e = t.elements.find((e: any) => e.description)
+        text = e ? e.description : ''
+    }
+
+    if (t.type == Transaction.InvoicePayment || t.type == Transaction.BillPayment) {
+        const settledType = t.type == Transaction.InvoicePayment ? 'invoice' : 'bill'
+        const preposition = t.type == Transaction.InvoicePayment ? 'into' : 'from'
+        const account = t.settlementAccountTitle ? ` ${preposition} ${t.settlementAccountTitle}` : ''
+        text = `${text ? `${text} ` : ''}(payment for ${settledType} ${t.settleId}${account})`
+    }
+    else if ((t.type == Transaction.CreditNote || t.type == Transaction.DebitNote) && t.settleId) {
+        const settledType = t.type == Transaction.CreditNote ? 'invoice' : 'bill'
+        text = `${text ? `${text} ` : ''}(reverses ${settledType} ${t.settleId})`
+    }
+    else if (t.type == Transaction.Transfer && t.transferFromTitle) {
+        text = `${text ? `${text} ` : ''}(from ${t.transferFromTitle} to ${t.transferToTitle})`
+    }
+    return text
 }
 
 export function TransactionOverview() {
@@ -223,8 +349,9 @@ export function SalesOverview() {
     return <div>
         <h1 className='title'>List of sales</h1>
         <TransactionTable
-            types={[Transaction.Sale, Transaction.Invoice]}
+            types={[Transaction.Sale, Transaction.Invoice, Transaction.CreditNote]}
             actorHeading='Customer'
+            exportFilename='sales'
             typesFilter={{
                 filter: PaymentsFilter,
                 options: [Transaction.InvoicePayment],
@@ -238,8 +365,9 @@ export function PurchasesOverview() {
     return <div>
         <h1 className='title'>List of purchases</h1>
         <TransactionTable
-            types={[Transaction.Purchase, Transaction.Bill]}
+            types={[Transaction.Purchase, Transaction.Bill, Transaction.DebitNote]}
             actorHeading='Supplier'
+            exportFilename='purchases'
             typesFilter={{
                 filter: PaymentsFilter,
                 options: [Transaction.BillPayment],
@@ -248,3 +376,18 @@ export function PurchasesOverview() {
         />
     </div>
 }
+
+export function TransfersOverview() {
+    return <div>
+        <div className='title-pane'>
+            <h1 className='title inline'>List of transfers</h1>
+            <span className='tasks'>
+                <Link to='/transfers/new'>New transfer</Link>
+            </span>
+        </div>
+        <TransactionTable
+            types={[Transaction.Transfer]}
+            exportFilename='transfers'
+        />
+    </div>
+}
@@ -5,8 +5,9 @@
 import * as React from 'react'
 import { Document, Page, View } from '@react-pdf/renderer'
 import { PDFView, Styles, T, Tr, Th, ThLeft, ThRight, Td, TdLeft, TdRight } from './PDFView'
-import { Transaction, formatDateOnly, toFormatted, datePresetDates, TaxAuthority, taxAuthorities, TaxItemGroup, taxItems } from '../core'
+import { Transaction, formatDateOnly, toFormatted, datePresetDates, TaxAuthority, taxAuthorities, TaxItem, TaxItemGroup, taxItems, taxItemRows } from '../core'
 import { CURRENCY_TOTALS_WRAP, DateRange, ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
 import { orderByField } from '../util/util'
 import { datePresetSelectOptions } from './SelectOptions'
 
@@ -168,6 +169,9 @@ export function TransactionTaxesDetail() {
         </tr></tbody></table>
 
         {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename='transaction-tax-detail' rows={() => taxItemRows(info.authorities.reduce((acc: TaxItem[], division) => {
+            return [...acc, ...division.outputs.items, ...division.inputs.items]
+        }, []))} />}
         {report && <PDFView _key={nonce} filename='transaction-tax-detail.pdf'>{report}</PDFView>}
     </div>
 }
@@ -0,0 +1,287 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Controller, useForm, FormContextValues as FCV } from 'react-hook-form'
+import { Link, Redirect } from 'react-router-dom'
+import DatePicker from 'react-datepicker'
+import { TransactionOrKnex, Model,
+    Project, Transaction, Account, IElement,
+    dateFormatString as dfs, toDateOnly, parseISO, lastSavedDate,
+    toFormatted, parseFormatted } from '../core'
+import { validateLockDate, validateAmountFieldsHelper } from '../util/util'
+import { playSuccess, playAlert } from '../util/sound'
+import { MaybeSelect, flatSelectOptions, currencySelectOptions } from './SelectOptions'
+
+type Props = {
+    arg1?: string
+}
+
+type FormData = {
+    date: Date
+    description?: string
+    fromAccountId: number
+    toAccountId: number
+    currency: string
+    amount: string
+    fee: string
+    submit?: string    // Only for displaying general submit error messages
+}
+
+export default function Transfer(props: Props) {
+    // argId == 0 means creating a new transaction
+    const argId = /^\d+$/.test(props.arg1!) ? Number(props.arg1) : 0
+
+    const [transaction, setTransaction] = React.useState<Transaction>()
+    const [accountOptions, setAccountOptions] = React.useState<{}>()
+    const [redirectId, setRedirectId] = React.useState<number>(-1)
+
+    const form = useForm<FormData>()
+
+    // Initialise a lot of stuff
+    React.useEffect(() => {
+        // Clear redirectId
+        setRedirectId(-1)
+
+        // Load bank/cash accounts
+        Account.settlementAccounts()
+        .then(rows => {
+            setAccountOptions(flatSelectOptions(rows))
+        })
+
+        // Load transaction (if exists) and initialise form accordingly
+        if (argId > 0) {
+            Transaction.query().findById(argId).where('type', Transaction.Transfer).withGraphFetched('elements')
+            .then(t => {
+                setTransaction(t)
+                if (t) {
+                    form.reset(extractFormValues(t))
+                }
+            })
+        }
+        else {
+            setTransaction(Transaction.construct({}))
+            form.reset({
+                date: lastSavedDate(),
+                fromAccountId: Project.variables.get('settlementAccountId'),
+                currency: Project.variables.get('currency'),
+                amount: '',
+                fee: '',
+            })
+        }
+    }, [props.arg1, transaction && transaction.id && transaction.updatedAt ? transaction.updatedAt.toString() : 0])
+
+    const onSubmit = (data: FormData) => {
+        if (!validateFormData(form, data)) {
+            playAlert()
+            return
+        }
+
+        Model.transaction(trx => saveFormData(transaction!, data, trx)).then(savedId => {
+            if (savedId) {
+                playSuccess()
+                form.reset(extractFormValues(transaction!))
+                if (argId != savedId) {
+                    setRedirectId(savedId)
+                }
+            }
+        }).catch(e => {
+            playAlert()
+            form.setError('submit', '', e.toString())
+        })
+    }
+
+    if (redirectId >= 0 && redirectId != argId) {
+        return <Redirect to={`/transfers/${redirectId ? redirectId : 'new'}`} />
+    }
+    else if (transaction && accountOptions) {
+        return <div>
+            <div className='title-pane'>
+                <span className='breadcrumb'><Link to='/transfers'>Transfers</Link> » </span>
+                <h1 className='title inline'>
+                    {transaction.id ? `Transfer ${transaction.id}` : 'New transfer'}
+                </h1>
+            </div>
+            <form onSubmit={form.handleSubmit(onSubmit)} className='transaction-form'>
+                <table className='horizontal-table-form transaction-fields'><tbody><tr className='row row-date'>
+                    <th scope='row'>
+                        <label htmlFor='date'>Date:</label>
+                    </th><td>
+                        <Controller
+                            // No-op for DatePicker.onChange()
+                            as={<DatePicker dateFormat={dfs()} onChange={() => {}} />}
+                            control={form.control}
+                            register={form.register()}
+                            name='date'
+                            valueName='selected'
+                            onChange={([selected]) => selected}
+                        />
+                        {form.errors.date && <span className='error'>
+                            {form.errors.date.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-description'>
+                    <th scope='row'>
+                        <label htmlFor='description'>Description:</label>
+                    </th><td>
+                        <input name='description' ref={form.register} />
+                    </td>
+                </tr><tr className='row row-from'>
+                    <th scope='row'>
+                        <label htmlFor='fromAccountId'>From:</label>
+                    </th><td>
+                        <select name='fromAccountId' ref={form.register}>
+                            {accountOptions}
+                        </select>
+                    </td>
+                </tr><tr className='row row-to'>
+                    <th scope='row'>
+                        <label htmlFor='toAccountId'>To:</label>
+                    </th><td>
+                        <select name='toAccountId' ref={form.register}>
+                            {accountOptions}
+                        </select>
+                        {form.errors.toAccountId && <span className='error'>
+                            {form.errors.toAccountId.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-amount'>
+                    <th scope='row'>
+                        <label htmlFor='amount'>Amount:</label>
+                    </th><td>
+                        <MaybeSelect name='currency' forwardRef={form.register()}>
+                            {currencySelectOptions(transaction.elements && transaction.elements.length > 0 ?
+                                transaction.elements[0].currency : undefined)}
+                        </MaybeSelect>
+                        <input name='amount' ref={form.register} />
+                        {form.errors.amount && <span className='error'>
+                            {form.errors.amount.message}
+                        </span>}
+                    </td>
+                </tr><tr className='row row-fee'>
+                    <th scope='row'>
+                        <label htmlFor='fee'>Fee:</label>
+                    </th><td>
+                        <input name='fee' ref={form.register} />
+                        {form.errors.fee && <span className='error'>
+                            {form.errors.fee.message}
+                        </span>}
+                    </td>
+                </tr></tbody></table>
+                <div className='error'>
+                    {form.errors.submit && <span className='error'>{form.errors.submit.message}</span>}
+                </div><div className='buttons'>
+                    <input type='submit' value='Save' />
+                </div>
+            </form>
+        </div>
+    }
+
+    return null
+}
+
+// The transfer is credited from one account and debited to the other.
+// A fee is paid from the 'from' account, in addition to the amount. It is the
+// debit which follows the 'to' one (as they are saved in that order).
+function transferElements(t: Transaction) {
+    const elements = t.elements || []
+    const debits = elements.filter(e => e.drcr == Transaction.Debit).sort((a, b) => (a.id || 0) - (b.id || 0))
+    return {
+        from: elements.find(e => e.drcr == Transaction.Credit),
+        to: debits[0],
+        fee: debits[1],
+    }
+}
+
+function extractFormValues(t: Transaction): FormData {
+    const {from, to, fee} = transferElements(t)
+    const currency = to ? to.currency! : Project.variables.get('currency')
+    return {
+        date: parseISO(t.date!),
+        description: t.description,
+        fromAccountId: from ? from.accountId! : 0,
+        toAccountId: to ? to.accountId! : 0,
+        currency,
+        amount: to ? toFormatted(to.amount!, currency) : '',
+        fee: fee ? toFormatted(fee.amount!, currency) : '',
+    }
+}
+
+// Returns true if validation succeeded, false otherwise
+function validateFormData(form: FCV<FormData>, data: FormData) {
+    if (!data.date) {
+        form.setError('date', '', 'Date is required')
+        return false
+    }
+    if (!validateLockDate(form, data)) {
+        return false
+    }
+    if (Number(data.fromAccountId) == Number(data.toAccountId)) {
+        form.setError('toAccountId', '', 'Must be different from the \'from\' account')
+        return false
+    }
+
+    const errors = validateAmountFieldsHelper(['amount', 'fee'], data.currency, {amount: data.amount, fee: data.fee})
+    if (Object.keys(errors).length > 0) {
+        Object.keys(errors).forEach(field => {
+            form.setError(field as keyof FormData, '', errors[field])
+        })
+        return false
+    }
+    if (!(parseFormatted(data.amount, data.currency) > 0)) {
+        form.setError('amount', '', 'Amount is required')
+        return false
+    }
+    return true
+}
+
+// Returns: id of the transaction that was saved/created, 0 otherwise
+async function saveFormData(transaction: Transaction, data: FormData, trx?: TransactionOrKnex): Promise<number> {
+    Object.assign(transaction, {
+        description: data.description,
+        type: Transaction.Transfer,
+        date: toDateOnly(data.date)
+    })
+
+    // Re-use existing elements if available
+    const {from, to, fee} = transferElements(transaction)
+    const amount = parseFormatted(data.amount, data.currency)
+    const feeAmount = parseFormatted(data.fee, data.currency)
+
+    const elements: IElement[] = [{
+        id: to ? to.id : undefined,
+        accountId: Number(data.toAccountId),
+        drcr: Transaction.Debit,
+        amount,
+        currency: data.currency,
+        settleId: 0,
+    }, {
+        id: from ? from.id : undefined,
+        accountId: Number(data.fromAccountId),
+        drcr: Transaction.Credit,
+        amount: amount + feeAmount,
+        currency: data.currency,
+        settleId: 0,
+    }]
+
+    // A zero amount removes an existing fee
+    if (feeAmount || fee) {
+        elements.push({
+            id: fee ? fee.id : undefined,
+            accountId: fee ? fee.accountId : Project.variables.get('feeAccountId'),
+            drcr: Transaction.Debit,
+            amount: feeAmount,
+            currency: data.currency,
+            description: 'Transfer fee',
+            settleId: 0,
+        })
+    }
+
+    // Merge and save.
+    await transaction.mergeElements(elements)
+    await transaction.save(trx)
+    transaction.condenseElements()
+
+    return transaction.id!
+}
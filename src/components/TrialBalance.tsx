@@ -0,0 +1,137 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { Document, Page, View } from '@react-pdf/renderer'
+import DatePicker from 'react-datepicker'
+import { PDFView, Styles, T, Tr, ThLeft, ThRight, TdLeft, TdRight } from './PDFView'
+import { TrialBalance as Report, trialBalance,
+    dateFormatString as dfs, toDateOnly, parseISO, toFormatted, trialBalanceRows } from '../core'
+import { ReportHeader } from './Reports'
+import { ExportLinks } from './Export'
+import { currencySelectOptions } from './SelectOptions'
+
+export function TrialBalance() {
+    const [date, setDate] = React.useState<string>(toDateOnly(new Date()))
+    const [currency, setCurrency] = React.useState<string>('')
+    const [pdf, setPdf] = React.useState<boolean>(false)
+    const [info, setInfo] = React.useState<Report>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    React.useEffect(() => {
+        if (date) {
+            trialBalance(date, currency).then(data => {
+                setInfo(data)
+                setError('')
+                setNonce(Date.now())
+            }).catch(e => {
+                setError(e.toString())
+            })
+        }
+    }, [date, currency])
+
+    const report = React.useMemo(() => {
+        return info && pdf ? renderReport(info) : null
+    }, [info && nonce ? nonce : 0, pdf])
+
+    return <div>
+        <h1 className='title'>Trial Balance</h1>
+        <table className='horizontal-table-form'><tbody><tr className='row row-date'>
+            <th scope='row'>
+                <label htmlFor='date'>As at:</label>
+            </th><td>
+                <DatePicker
+                    name='date'
+                    selected={date ? parseISO(date) : null}
+                    onChange={(date: Date) => setDate(date ? toDateOnly(date) : '')}
+                    dateFormat={dfs()}
+                />
+            </td>
+        </tr><tr className='row row-currency'>
+            <th scope='row'>
+                <label htmlFor='currency'>Currency:</label>
+            </th><td>
+                <select name='currency' value={currency} onChange={e => {setCurrency(e.target.value)}}>
+                    <option key='' value=''>All currencies</option>
+                    {currencySelectOptions()}
+                </select>
+            </td>
+        </tr><tr className='row row-pdf'>
+            <th scope='row'>
+                <label htmlFor='pdf'>PDF:</label>
+            </th><td>
+                <input type='checkbox' name='pdf' checked={pdf} onChange={e => {setPdf(e.target.checked)}} />
+            </td>
+        </tr></tbody></table>
+
+        {error && <div className='error'>{error}</div>}
+        {info && <ExportLinks filename='trial-balance' rows={() => trialBalanceRows(info)} />}
+        {info && !pdf && <TrialBalanceTable info={info} />}
+        {report && <PDFView _key={nonce} filename='trial-balance.pdf'>{report}</PDFView>}
+    </div>
+}
+
+function TrialBalanceTable({info}: {info: Report}) {
+    if (info.lines.length == 0) {
+        return <div>No transactions</div>
+    }
+
+    return <table className='data-table trial-balance'><thead><tr>
+        <th>Account</th>
+        <th>Currency</th>
+        <th>Debit</th>
+        <th>Credit</th>
+    </tr></thead><tbody>
+    {info.lines.map(line => <tr key={`${line.accountId}-${line.currency}`}>
+        <td><Link to={`/accounts/${line.accountId}`}>{line.accountId} {line.accountTitle}</Link></td>
+        <td>{line.currency}</td>
+        <td>{line.debit ? toFormatted(line.debit, line.currency) : ''}</td>
+        <td>{line.credit ? toFormatted(line.credit, line.currency) : ''}</td>
+    </tr>)}
+    {info.totals.map(total => <tr key={total.currency} className='total'>
+        <th>Total</th>
+        <th>{total.currency}</th>
+        <th>{toFormatted(total.debit, total.currency)}</th>
+        <th>{toFormatted(total.credit, total.currency)}</th>
+    </tr>)}
+    </tbody></table>
+}
+
+function renderReport(info: Report) {
+    return <Document><Page size='A4' style={[Styles.page, {fontSize: 9}]}>
+        <View fixed={true}>
+            <ReportHeader endDate={info.date} rates={info.rates} title='Trial Balance' />
+            <Tr key='header' style={{marginBottom: 6}}>
+                <ThLeft width={10} innerStyle={{borderBottomWidth: 1}}>Code</ThLeft>
+                <ThLeft width={40} innerStyle={{borderBottomWidth: 1}}>Account</ThLeft>
+                <ThLeft width={10} innerStyle={{borderBottomWidth: 1}}>Currency</ThLeft>
+                <ThRight width={20} innerStyle={{borderBottomWidth: 1}}>Debit</ThRight>
+                <ThRight width={20} innerStyle={{borderBottomWidth: 1}}>Credit</ThRight>
+            </Tr>
+        </View>
+
+        {info.lines.length == 0 && <Tr key='none'><TdLeft width={100}><T>No transactions</T></TdLeft></Tr>}
+
+        {info.lines.map(line => <Tr key={`${line.accountId}-${line.currency}`}>
+            <TdLeft width={10}>{line.accountId}</TdLeft>
+            <TdLeft width={40} innerStyle={{maxLines: 1}}>{line.accountTitle}</TdLeft>
+            <TdLeft width={10}>{line.currency}</TdLeft>
+            <TdRight width={20}>{line.debit ? toFormatted(line.debit, line.currency) : ''}</TdRight>
+            <TdRight width={20}>{line.credit ? toFormatted(line.credit, line.currency) : ''}</TdRight>
+        </Tr>)}
+
+        {info.totals.map((total, index) => <Tr key={total.currency} style={index == 0 ? {marginTop: 6} : {}}>
+            <ThLeft width={50}>{index == 0 ? 'Total' : ''}</ThLeft>
+            <ThLeft width={10}>{total.currency}</ThLeft>
+            <ThRight width={20} innerStyle={{borderTopWidth: 1, borderBottomWidth: 2, paddingVertical: 3}}>
+                {toFormatted(total.debit, total.currency)}
+            </ThRight>
+            <ThRight width={20} innerStyle={{borderTopWidth: 1, borderBottomWidth: 2, paddingVertical: 3}}>
+                {toFormatted(total.credit, total.currency)}
+            </ThRight>
+        </Tr>)}
+    </Page></Document>
+}
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as React from 'react'
+import { Link } from 'react-router-dom'
+import { addDays } from 'date-fns'
+import { Transaction, toDateOnly, parseISO, formatDateOnly, fiscalYearDates,
+    closeYear, reopenYear } from '../core'
+import { playSuccess, playAlert } from '../util/sound'
+
+type FiscalYear = {
+    startDate: string
+    endDate: string
+    closingId: number
+}
+
+export default function YearEndClose() {
+    const [years, setYears] = React.useState<FiscalYear[]>()
+    const [error, setError] = React.useState<string>('')
+    const [nonce, setNonce] = React.useState<number>(0)
+
+    React.useEffect(() => {
+        Promise.all([
+            Transaction.query().min('date as minDate').first(),
+            Transaction.query().where('type', Transaction.Closing),
+        ]).then(([row, closings]) => {
+            const closingIds: Record<string, number> = {}
+            closings.forEach(t => {
+                closingIds[t.date!] = t.id!
+            })
+
+            // List every fiscal year from the earliest transaction until now.
+            // The most recent is first.
+            const today = toDateOnly(new Date())
+            const minDate: string = (row as any).minDate || today
+            const list: FiscalYear[] = []
+            let [startDate, endDate] = fiscalYearDates(minDate)
+            while (startDate <= today) {
+                list.unshift({startDate, endDate, closingId: closingIds[endDate] || 0})
+                ;[startDate, endDate] = fiscalYearDates(toDateOnly(addDays(parseISO(endDate), 1)))
+            }
+            setYears(list)
+        })
+    }, [nonce])
+
+    function onClick(year: FiscalYear) {
+        const p: Promise<any> = year.closingId ? reopenYear(year.endDate) : closeYear(year.endDate)
+        p.then(() => {
+            playSuccess()
+            setError('')
+            setNonce(nonce + 1)
+        }).catch(e => {
+            playAlert()
+            setError(e.toString())
+        })
+    }
+
+    if (years) {
+        // Only the most recently closed year can be reopened. Only years after
+        // it can be closed.
+        const latestClosed = years.findIndex(year => year.closingId > 0)
+
+        return <div>
+            <h1 className='title'>Year-end close</h1>
+            <p>
+                Closing a fiscal year transfers the balances of all revenue and
+                expense accounts, and dividends, into Retained Earnings. Owner
+                drawings are transferred into Equity.
+            </p>
+            <table className='data-table'><thead><tr>
+                <th>Fiscal year</th>
+                <th>Status</th>
+                <th>&nbsp;</th>
+            </tr></thead><tbody>
+            {years.map((year, index) => <tr key={year.endDate}>
+                <td>{formatDateOnly(year.startDate)} to {formatDateOnly(year.endDate)}</td>
+                <td>{year.closingId ? <Link to={`/transactions/${year.closingId}`}>Closed</Link> : 'Open'}</td>
+                <td>
+                    {(latestClosed < 0 || index <= latestClosed) &&
+                    <button type='button' onClick={() => onClick(year)}>
+                        {year.closingId ? 'Reopen' : 'Close'}
+                    </button>}
+                </td>
+            </tr>)}
+            </tbody></table>
+            <div className='error'>
+                {error}
+            </div>
+        </div>
+    }
+
+    return null
+}
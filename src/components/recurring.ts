@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// Functions for creating recurring templates and generating their transactions.
+// These live here (rather than in core) because transactions are generated
+// using the same `saveFormData()` functions as the forms.
+
+import { addDays, differenceInCalendarDays } from 'date-fns'
+import { Model, TransactionOrKnex, Transaction, Recurring, toDateOnly, parseISO } from '../core'
+import * as Sale from './Sale'
+import * as Purchase from './Purchase'
+import * as TransactionDetail from './TransactionDetail'
+
+// Returns a new (unsaved) recurring template based on a transaction
+// Returns undefined if the transaction type can't be used as a template
+export function recurringFromTransaction(t: Transaction): Recurring | undefined {
+    let data: any
+    switch (t.type) {
+        case Transaction.Sale:
+        case Transaction.Invoice:
+            data = Sale.extractFormValues(t)
+            break
+        case Transaction.Purchase:
+        case Transaction.Bill:
+            data = Purchase.extractFormValues(t)
+            break
+        case Transaction.Raw:
+            data = TransactionDetail.extractFormValues(t)
+            break
+        default:
+            return undefined
+    }
+
+    // Remove ids, dates and calculation-only fields
+    data = JSON.parse(JSON.stringify(data, (key, value) =>
+        ['eId', '_amount', 'date', 'due', 'actorTitle', 'submit'].indexOf(key) >= 0 ? undefined : value))
+
+    return Recurring.construct({
+        title: t.description || Transaction.TypeInfo[t.type!].label,
+        type: t.type,
+        data,
+        frequency: Recurring.Monthly,
+        interval: 1,
+        startDate: t.date,
+        endDate: '',
+        dueDays: t.due ? differenceInCalendarDays(parseISO(t.due), parseISO(t.date!)) : 0,
+        count: 0,
+    })
+}
+
+// Saves a transaction for one occurrence of a template
+// Returns: id of the transaction that was created
+export async function saveOccurrence(r: Recurring, date: string, trx?: TransactionOrKnex): Promise<number> {
+    // Make a copy so that the template isn't modified
+    const data = JSON.parse(JSON.stringify(r.data))
+    data.type = r.type
+    data.date = parseISO(date)
+    data.due = (r.type == Transaction.Invoice || r.type == Transaction.Bill) ?
+        addDays(data.date, r.dueDays || 0) : ''
+
+    const t = Transaction.construct({})
+    switch (r.type) {
+        case Transaction.Sale:
+        case Transaction.Invoice:
+            return Sale.saveFormData(t, data, trx)
+        case Transaction.Purchase:
+        case Transaction.Bill:
+            return Purchase.saveFormData(t, data, trx)
+        case Transaction.Raw:
+            return TransactionDetail.saveFormData(t, data, trx)
+    }
+    return Promise.reject(`Unsupported transaction type: ${r.type}`)
+}
+
+export type GenerateResult = {
+    // The transactions which were created
+    transactions: {id: number, type: string}[]
+    errors: string[]
+}
+
+// Generates every occurrence of every template up to and including `date`
+// (default: today). Each occurrence is saved in it's own database transaction.
+// A template stops at it's first error (eg. the date is locked).
+export async function generateDueTransactions(date?: string): Promise<GenerateResult> {
+    const upTo = date || toDateOnly(new Date())
+    const result: GenerateResult = {transactions: [], errors: []}
+
+    const templates = await Recurring.query().orderBy('id')
+    for (let r of templates) {
+        for (let d of r.dueDates(upTo)) {
+            const count = r.count || 0
+            try {
+                const id = await Model.transaction(async trx => {
+                    const id = await saveOccurrence(r, d, trx)
+                    r.count = count + 1
+                    await r.save(trx)
+                    return id
+                })
+                result.transactions.push({id, type: r.type!})
+            }
+            catch (e) {
+                r.count = count
+                result.errors.push(`${r.title}: ${e}`)
+                break
+            }
+        }
+    }
+
+    return result
+}
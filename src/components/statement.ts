@@ -0,0 +1,65 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// Functions for creating transactions from bank statement lines. These live
+// here (rather than in core) because transactions are created using the same
+// `saveFormData()` functions as the forms.
+
+import { Model, TransactionOrKnex, Transaction, TransactionType,
+    Statement, StatementLine, toFormatted, parseISO } from '../core'
+import * as Sale from './Sale'
+import * as Purchase from './Purchase'
+import * as TransactionDetail from './TransactionDetail'
+
+// Returns the transaction types which can be created for a line
+export function lineTransactionTypes(statement: Statement, line: StatementLine): TransactionType[] {
+    return [line.amount! > 0 ? Transaction.Sale : Transaction.Purchase, Transaction.Raw]
+}
+
+// Creates a transaction for an unmatched statement line and matches the line to it.
+// `accountId` is the other side of the transaction (eg. a revenue account for a sale)
+// Returns: id of the transaction that was created
+export async function createLineTransaction(statement: Statement, line: StatementLine,
+    type: TransactionType, accountId: number, actorId: number, trx?: TransactionOrKnex): Promise<number> {
+    if (!trx) {
+        return Model.transaction(trx => createLineTransaction(statement, line, type, accountId, actorId, trx))
+    }
+
+    if (line.reconciled) {
+        return Promise.reject('This line is already reconciled')
+    }
+    if (lineTransactionTypes(statement, line).indexOf(type) < 0) {
+        return Promise.reject(`Cannot create a ${Transaction.TypeInfo[type].label.toLowerCase()} for this line`)
+    }
+    if (!accountId) {
+        return Promise.reject('Account is required')
+    }
+
+    const t = Transaction.construct({})
+    const date = parseISO(line.date!)
+    const description = line.description
+    const currency = line.currency!
+    const amount = toFormatted(Math.abs(line.amount!), currency)
+
+    if (type == Transaction.Sale || type == Transaction.Purchase) {
+        const save = type == Transaction.Sale ? Sale.saveFormData : Purchase.saveFormData
+        await save(t, {type, actorId, date, description, settlementAccountId: statement.accountId, elements: [
+            {accountId, amount, currency, useGross: 0, grossAmount: amount, taxes: []},
+        ]}, trx)
+    }
+    else {
+        const [dr, cr] = line.amount! > 0 ? ['dr', 'cr'] : ['cr', 'dr']
+        await TransactionDetail.saveFormData(t, {actorId, date, description, elements: [
+            {accountId: statement.accountId, [dr]: amount, currency},
+            {accountId, [cr]: amount, currency},
+        ]}, trx)
+    }
+
+    const e = t.elements!.find(e => e.accountId == statement.accountId && e.drcr == (line.amount! > 0 ? Transaction.Debit : Transaction.Credit))
+    if (!e) {
+        return Promise.reject('No element for the statement account')
+    }
+    await line.match(e.id!, trx)
+    return t.id!
+}
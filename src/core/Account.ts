@@ -3,6 +3,7 @@
  */
 
 import { Base, TransactionOrKnex } from './Base'
+import { AuditLog } from './AuditLog'
 import { prefixPreservingIncrement } from '../util/util'
 
 export enum AccountType {
@@ -84,8 +85,14 @@ const ReservedAccountIds = {
     TaxReceivable: 13,
     AccountsPayable: 20,
     TaxPayable: 22,
+    DividendsPayable: 23,
     Equity: 30,
     RetainedEarnings: 31,
+    CurrencyTrading: 32,
+    Drawings: 33,
+    Dividends: 34,
+    ExchangeGain: 40,
+    ExchangeLoss: 54,
 }
 
 export const PrepopulatedAccounts = [
@@ -97,12 +104,18 @@ export const PrepopulatedAccounts = [
     {id: ReservedAccountIds.AccountsPayable, title: 'Accounts Payable', type: 'liability'},
     {id: 21, title: 'Long Term Liabilities', type: 'long-term-liability'},
     {id: ReservedAccountIds.TaxPayable, title: 'Tax Payable', type: 'liability'},
+    {id: ReservedAccountIds.DividendsPayable, title: 'Dividends Payable', type: 'liability'},
     {id: ReservedAccountIds.Equity, title: 'Equity', type: 'equity'},
     {id: ReservedAccountIds.RetainedEarnings, title: 'Retained Earnings', type: 'equity'},
+    {id: ReservedAccountIds.CurrencyTrading, title: 'Currency Trading', type: 'equity'},
+    {id: ReservedAccountIds.Drawings, title: 'Owner Drawings', type: 'equity'},
+    {id: ReservedAccountIds.Dividends, title: 'Dividends', type: 'equity'},
+    {id: ReservedAccountIds.ExchangeGain, title: 'Foreign Exchange Gain', type: 'gain'},
     {id: 50, title: 'Cost of Goods Sold', type: 'gross-expense'},
     {id: 51, title: 'Interest Expense', type: 'interest-expense'},
     {id: 52, title: 'Income Tax Expense', type: 'tax-expense'},
     {id: 53, title: 'Depreciation Expense', type: 'depreciation-expense'},
+    {id: ReservedAccountIds.ExchangeLoss, title: 'Foreign Exchange Loss', type: 'loss'},
 
     // Unreserved accounts
     {id: 200, title: 'Credit Card', type: 'liability'},
@@ -153,6 +166,22 @@ export class Account extends Base {
 
     static tableName = 'account'
 
+    // Returns a query for accounts which payments can be made from or into
+    // ie. bank, cash and similar accounts, and credit cards
+    static settlementAccounts(trx?: TransactionOrKnex) {
+        return Account.query(trx)
+            .whereIn('type', [Account.Asset, Account.Liability])
+            .whereNotIn('id', [ReservedAccountIds.AccountsReceivable, ReservedAccountIds.TaxReceivable,
+                ReservedAccountIds.AccountsPayable, ReservedAccountIds.TaxPayable, ReservedAccountIds.DividendsPayable])
+            .orderBy(['type', 'title'])
+    }
+
+    // Returns true if the account is used for exchange gains and losses
+    static isExchangeAccount(accountId: number) {
+        return accountId == ReservedAccountIds.CurrencyTrading ||
+            accountId == ReservedAccountIds.ExchangeGain || accountId == ReservedAccountIds.ExchangeLoss
+    }
+
     get isReserved() {
         return this.id! <= RESERVED_ACCOUNT_ID_MAX
     }
@@ -180,7 +209,7 @@ export class Account extends Base {
                 return Promise.reject('Cannot modify a reserved account.')
             }
             else {
-                return Account.query(trx).patch(this).where('id', this.id)
+                return super.save(trx)
             }
         }
     }
@@ -196,7 +225,9 @@ export class Account extends Base {
         const floor: number = highest.length > 0 ? highest[0].id! : 0
         this.id = prefixPreservingIncrement(
             Math.max(floor, RESERVED_ACCOUNT_ID_MAX), groupInfo.prefix)
-        return Account.query(trx).insert(this)
+        const result = await Account.query(trx).insert(this)
+        await Account.audit(trx, AuditLog.Insert, this.id)
+        return result
     }
 
     static isDebitBalanceType(t: AccountType) {
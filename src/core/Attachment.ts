@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+
+// Largest file which can be attached (in bytes)
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024
+
+// Columns other than the (potentially large) content
+const INFO_COLUMNS = ['id', 'transactionId', 'actorId', 'filename', 'mimeType', 'size', 'updatedAt', 'createdAt']
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const BASE64_INDEX: Record<string, number> = {}
+BASE64.split('').forEach((c, i) => BASE64_INDEX[c] = i)
+
+function toBase64(bytes: Uint8Array): string {
+    const chunks: string[] = []
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+        chunks.push(BASE64[n >> 18 & 63] + BASE64[n >> 12 & 63] +
+            (i + 1 < bytes.length ? BASE64[n >> 6 & 63] : '=') + (i + 2 < bytes.length ? BASE64[n & 63] : '='))
+    }
+    return chunks.join('')
+}
+
+function fromBase64(s: string): Uint8Array {
+    const t = s.replace(/=+$/, '')
+    const bytes = new Uint8Array(Math.floor(t.length * 3 / 4))
+    for (let i = 0, j = 0; i < t.length; i += 4) {
+        const n = ((BASE64_INDEX[t[i]] || 0) << 18) | ((BASE64_INDEX[t[i + 1]] || 0) << 12) |
+            ((BASE64_INDEX[t[i + 2]] || 0) << 6) | (BASE64_INDEX[t[i + 3]] || 0)
+        for (let shift = 16; shift >= 0 && j < bytes.length; shift -= 8) {
+            bytes[j++] = n >> shift & 255
+        }
+    }
+    return bytes
+}
+
+// A file (eg. a receipt) which is attached to a transaction or to a customer
+// or supplier. It is stored in the project file.
+export class Attachment extends Base {
+    id?: number
+    transactionId?: number
+    actorId?: number
+    filename?: string
+    mimeType?: string
+    // Size of the file (in bytes)
+    size?: number
+    // Content of the file. It is stored base64 encoded as it is not known whether
+    // binary values survive the bridge to the desktop edition's database (gosqlite).
+    // Text is known to.
+    data?: Uint8Array
+
+    static tableName = 'attachment'
+
+    get isPdf() {
+        return this.mimeType == 'application/pdf'
+    }
+
+    get isImage() {
+        return /^image\//.test(this.mimeType || '')
+    }
+
+    async save(trx?: TransactionOrKnex) {
+        if (!this.transactionId && !this.actorId) {
+            return Promise.reject('An attachment must belong to a transaction, customer or supplier')
+        }
+        if (this.size! > MAX_ATTACHMENT_SIZE) {
+            return Promise.reject(`Attachment is too large. The maximum is ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB.`)
+        }
+        return super.save(trx)
+    }
+
+    $formatDatabaseJson(json: any) {
+        json = super.$formatDatabaseJson(json)
+        if (json.data instanceof Uint8Array) {
+            json.data = toBase64(json.data)
+        }
+        return json
+    }
+
+    $parseDatabaseJson(json: any) {
+        json = super.$parseDatabaseJson(json)
+        if (typeof json.data == 'string') {
+            json.data = fromBase64(json.data)
+        }
+        return json
+    }
+
+    // Returns attachments without their content
+    static list(target: {transactionId?: number, actorId?: number}, trx?: TransactionOrKnex) {
+        const query = Attachment.query(trx).select(INFO_COLUMNS).orderBy('id')
+        return target.transactionId ? query.where('transactionId', target.transactionId) :
+            query.where('actorId', target.actorId!)
+    }
+
+    // Leave content out of the audit log
+    static async snapshot(id: any, trx?: TransactionOrKnex): Promise<any> {
+        return Attachment.query(trx).select(INFO_COLUMNS).findById(id)
+    }
+}
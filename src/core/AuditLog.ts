@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Model, TransactionOrKnex } from 'objection'
+
+// A record of a change to the database.
+// This extends Model directly (rather than Base) as Base depends on it.
+export class AuditLog extends Model {
+    static Insert = 'insert'
+    static Patch = 'patch'
+    static Delete = 'delete'
+    static Undo = 'undo'
+    static Redo = 'redo'
+
+    // The name of whoever is making changes. Set by the user interface
+    static user = ''
+
+    id?: number
+    action?: string
+    // Table name and id (or name) of the record which was changed
+    target?: string
+    targetId?: string
+    // JSON snapshots of the record before and after the change
+    before?: string
+    after?: string
+    user?: string
+    createdAt?: Date
+
+    static tableName = 'auditLog'
+
+    static async record(trx: TransactionOrKnex | undefined, action: string, target: string, targetId: any, before?: any, after?: any) {
+        return AuditLog.query(trx).insert({
+            action,
+            target,
+            targetId: String(targetId),
+            before: before === undefined ? '' : JSON.stringify(before),
+            after: after === undefined ? '' : JSON.stringify(after),
+            user: AuditLog.user,
+            createdAt: new Date(),
+        })
+    }
+
+    // Returns a list of top-level fields which differ between before and after
+    get changedFields(): string[] {
+        const before = this.before ? JSON.parse(this.before) : {}
+        const after = this.after ? JSON.parse(this.after) : {}
+        const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        return fields.filter(field => field != 'updatedAt' &&
+            JSON.stringify(before[field]) != JSON.stringify(after[field]))
+    }
+
+    $afterFind() {
+        if ('createdAt' in this && !(this.createdAt instanceof Date)) {
+            this.createdAt = new Date(this.createdAt!)
+        }
+    }
+}
+
+export default AuditLog
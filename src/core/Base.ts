@@ -4,6 +4,7 @@
 
 import { Model, TransactionOrKnex, QueryBuilder } from 'objection'
 export { Model, TransactionOrKnex } from 'objection'
+import { AuditLog } from './AuditLog'
 
 // https://stackoverflow.com/questions/45123761
 type StaticThis<T> = { new (): T }
@@ -29,20 +30,64 @@ export class Base extends Model {
 
     static get useLimitInFirst() { return true }
 
-    async save(trx?: TransactionOrKnex) {
+    // Set this to false in subclasses whose changes shouldn't be recorded in
+    // the audit log
+    static auditable = true
+
+    async save(trx?: TransactionOrKnex): Promise<any> {
+        const model = this.constructor as any
+        // The change and it's audit log entry go together
+        if (model.auditable && !trx) {
+            return Base.transaction(trx => this.save(trx))
+        }
+
         this.updatedAt = new Date()
         // ToDo: This doesn't handle composite keys
-        const idColumn: string = (this.constructor as any).idColumn
+        const idColumn: string = model.idColumn
         const id: any = (this as any)[idColumn]
-        return id == undefined ? (this.constructor as any).query(trx).insert(this)
-            : (this.constructor as any).query(trx).patch(this).where(idColumn, id)
+        if (id == undefined) {
+            const result = await model.query(trx).insert(this)
+            if (model.auditable) {
+                await model.audit(trx, AuditLog.Insert, (this as any)[idColumn])
+            }
+            return result
+        }
+        else {
+            const before = model.auditable ? await model.snapshot(id, trx) : undefined
+            const result = await model.query(trx).patch(this).where(idColumn, id)
+            if (model.auditable) {
+                await model.audit(trx, AuditLog.Patch, id, before)
+            }
+            return result
+        }
     }
 
-    async delete(trx?: TransactionOrKnex) {
+    async delete(trx?: TransactionOrKnex): Promise<any> {
+        const model = this.constructor as any
+        if (model.auditable && !trx) {
+            return Base.transaction(trx => this.delete(trx))
+        }
+
         // ToDo: This doesn't handle composite keys
-        const idColumn: string = (this.constructor as any).idColumn
+        const idColumn: string = model.idColumn
         const id: any = (this as any)[idColumn]
-        return (this.constructor as any).query(trx).deleteById(id)
+        const before = model.auditable ? await model.snapshot(id, trx) : undefined
+        const result = await model.query(trx).deleteById(id)
+        if (model.auditable) {
+            await model.audit(trx, AuditLog.Delete, id, before)
+        }
+        return result
+    }
+
+    // Returns a snapshot of a record (for the audit log)
+    static async snapshot(id: any, trx?: TransactionOrKnex): Promise<any> {
+        return (this as any).query(trx).findById(id)
+    }
+
+    // Records a change (which has just taken place) in the audit log
+    static async audit(trx: TransactionOrKnex | undefined, action: string, id: any, before?: any) {
+        const after = action == AuditLog.Delete ? undefined : await this.snapshot(id, trx)
+        await AuditLog.record(trx, action, this.tableName, id, before, after)
     }
 
     // When loading from the database, datetime/timestamp fields are ISO strings.
@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+import { fiscalYearDates, comparisonDates } from './date'
+
+// A budgeted amount for one account for one month (of a fiscal year)
+export class Budget extends Base {
+    id?: number
+    accountId?: number
+    // The first date of the month (of the fiscal year). Stored as a ten
+    // character string ie. '2020-01-01'
+    date?: string
+    // Amount in currency subunits. Revenue and expenses are both positive
+    amount?: number
+    currency?: string
+
+    static tableName = 'budget'
+
+    // Returns [startDate, endDate] pairs for each month of the fiscal year
+    // which contains the supplied 'date-only' string
+    static months(dateOnly: string): string[][] {
+        const [startDate, endDate] = fiscalYearDates(dateOnly)
+        return comparisonDates(startDate, endDate, 'month')
+    }
+
+    // Returns budgeted amounts for the fiscal year which contains `dateOnly`,
+    // keyed by account id. There is one amount for each month.
+    static async loadYear(dateOnly: string, currency: string, trx?: TransactionOrKnex): Promise<Record<number, number[]>> {
+        const months = Budget.months(dateOnly)
+        const rows = await Budget.query(trx)
+            .where('date', '>=', months[0][0]).where('date', '<=', months[months.length - 1][1])
+            .where('currency', currency)
+
+        const result: Record<number, number[]> = {}
+        rows.forEach(row => {
+            const index = months.findIndex(([startDate]) => startDate == row.date)
+            if (index >= 0) {
+                if (!result[row.accountId!]) {
+                    result[row.accountId!] = months.map(() => 0)
+                }
+                result[row.accountId!][index] += row.amount!
+            }
+        })
+        return result
+    }
+
+    // Saves budgeted amounts for the fiscal year which contains `dateOnly`.
+    // Only accounts in `amounts` are changed. Months which are zero are removed.
+    static async saveYear(dateOnly: string, currency: string, amounts: Record<number, number[]>, trx?: TransactionOrKnex): Promise<void> {
+        if (!trx) {
+            return Base.transaction(trx => Budget.saveYear(dateOnly, currency, amounts, trx))
+        }
+
+        const months = Budget.months(dateOnly)
+        const existing: Record<string, Budget> = {}
+        ;(await Budget.query(trx)
+            .where('date', '>=', months[0][0]).where('date', '<=', months[months.length - 1][1])
+            .where('currency', currency)
+            .whereIn('accountId', Object.keys(amounts).map(Number))
+        ).forEach(row => {
+            existing[`${row.accountId}-${row.date}`] = row
+        })
+
+        for (let accountId of Object.keys(amounts).map(Number)) {
+            for (let index = 0; index < months.length; index++) {
+                const amount = amounts[accountId][index] || 0
+                const row = existing[`${accountId}-${months[index][0]}`]
+                if (row) {
+                    if (amount == 0) {
+                        await row.delete(trx)
+                    }
+                    else if (amount != row.amount) {
+                        row.amount = amount
+                        await row.save(trx)
+                    }
+                }
+                else if (amount != 0) {
+                    await Budget.construct({accountId, date: months[index][0], amount, currency}).save(trx)
+                }
+            }
+        }
+    }
+}
@@ -2,9 +2,15 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { Base, Model } from './Base'
+import { Base, Model, TransactionOrKnex } from './Base'
 import { Transaction } from './Transaction'
 
+export enum ReconcileStatus {
+    Uncleared = '',
+    Cleared = 'cleared',
+    Reconciled = 'reconciled',
+}
+
 export interface IElement {
     id?: number
     transactionId?: number
@@ -23,6 +29,9 @@ export interface IElement {
 export class Element extends Base {
     static Debit = 1
     static Credit = -1
+    static Uncleared = ReconcileStatus.Uncleared
+    static Cleared = ReconcileStatus.Cleared
+    static Reconciled = ReconcileStatus.Reconciled
 
     id?: number
     transactionId?: number
@@ -44,6 +53,38 @@ export class Element extends Base {
     // If gross != 0, then the user entered a gross amount instead of a net-tax amount
     useGross?: number
 
+    // Bank reconciliation. A cleared element has appeared on a statement.
+    // A reconciled element is part of a completed reconciliation (ie.
+    // `statementId`) with statement date `reconcileDate`.
+    reconcileStatus?: ReconcileStatus
+    reconcileDate?: string
+    statementId?: number
+
+    async delete(trx?: TransactionOrKnex) {
+        if (this.transactionId) {
+            const t = await Transaction.query(trx).findById(this.transactionId)
+            if (t) {
+                await Transaction.checkLock(t.date)
+            }
+        }
+        return super.delete(trx)
+    }
+
+    // Reconciliation fields are omitted unless set. Elements which were never
+    // reconciled look the same as before these fields existed.
+    $parseDatabaseJson(json: any) {
+        json = super.$parseDatabaseJson(json)
+        for (let field of ['reconcileStatus', 'reconcileDate', 'statementId']) {
+            if (!json[field]) {
+                delete json[field]
+            }
+        }
+        return json
+    }
+
+    // Changes to elements are recorded as part of their parent transaction
+    static auditable = false
+
     static tableName = 'txnElement'
     static get relationMappings() {
         return {
@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+import { DatedRate, RateHistory, getCurrencyInfo } from './currency'
+import { isDateOnly } from './date'
+import { parseCsv, parseStatementDate } from './bank-import'
+
+// An exchange rate which is effective from a date (until the next rate for
+// the same currencies). One unit of `from` is worth `rate` units of `to`.
+export class ExchangeRate extends Base {
+    id?: number
+    // Stored as a ten character string ie. '2020-01-01'
+    date?: string
+    from?: string
+    to?: string
+    // A decimal string, to avoid floating point surprises
+    rate?: string
+
+    static tableName = 'exchangeRate'
+
+    async save(trx?: TransactionOrKnex) {
+        if (!this.date || !isDateOnly(this.date)) {
+            return Promise.reject('Invalid date')
+        }
+        for (let currency of [this.from, this.to]) {
+            try {
+                getCurrencyInfo(currency!)
+            }
+            catch (e) {
+                return Promise.reject(`Unknown currency: ${currency}`)
+            }
+        }
+        if (this.from == this.to) {
+            return Promise.reject('Currencies must be different')
+        }
+        if (!/^[0-9]*\.?[0-9]*$/.test(this.rate || '') || !(parseFloat(this.rate!) > 0)) {
+            return Promise.reject(`Invalid rate: ${this.rate}`)
+        }
+        return super.save(trx)
+    }
+
+    // Returns all rates as a history which can be used for conversion
+    static async history(trx?: TransactionOrKnex): Promise<RateHistory> {
+        const rows = await ExchangeRate.query(trx).orderBy(['date', 'id'])
+        return new RateHistory(rows.map(row => ({date: row.date!, from: row.from!, to: row.to!, rate: row.rate!})))
+    }
+
+    // Adds rates. A rate with the same date and currencies as an existing
+    // one replaces it. Returns the number of rates which were added or changed.
+    static async import(rates: DatedRate[], trx?: TransactionOrKnex): Promise<number> {
+        if (!trx) {
+            return Base.transaction(trx => ExchangeRate.import(rates, trx))
+        }
+
+        const existing: Record<string, ExchangeRate> = {}
+        ;(await ExchangeRate.query(trx)).forEach(row => {
+            existing[`${row.date}:${row.from}:${row.to}`] = row
+        })
+
+        let count = 0
+        for (let rate of rates) {
+            const row = existing[`${rate.date}:${rate.from}:${rate.to}`]
+            if (row) {
+                if (row.rate != rate.rate) {
+                    row.rate = rate.rate
+                    await row.save(trx)
+                    count++
+                }
+            }
+            else {
+                const added = ExchangeRate.construct(rate)
+                await added.save(trx)
+                existing[`${rate.date}:${rate.from}:${rate.to}`] = added
+                count++
+            }
+        }
+        return count
+    }
+}
+
+// Parses CSV rows of date, from currency, to currency and rate eg.
+// '2020-01-31,USD,EUR,0.9021'. A heading row is skipped.
+// Throws an error if invalid
+export function parseExchangeRates(text: string): DatedRate[] {
+    const rows = parseCsv(text)
+    const header = rows.length > 0 && !parseStatementDate(rows[0][0] || '')
+
+    return rows.slice(header ? 1 : 0).map((row, index) => {
+        const [date0, from, to, rate] = row.map(field => field.trim())
+        const date = parseStatementDate(date0 || '')
+        if (!date) {
+            throw new Error(`Invalid date on row ${index + (header ? 2 : 1)}: ${date0}`)
+        }
+        if (!from || !to || !rate || !/^[0-9]*\.?[0-9]*$/.test(rate) || !(parseFloat(rate) > 0)) {
+            throw new Error(`Invalid rate on row ${index + (header ? 2 : 1)}`)
+        }
+        return {date, from: from.toUpperCase(), to: to.toUpperCase(), rate}
+    })
+}
@@ -7,6 +7,7 @@ const makeKnex = require('../util/knex-integration')
 import { Model } from 'objection'
 import { prepopulate, maybeMigrate } from './database'
 import { Variables } from './Variables'
+import { UndoHistory } from './undo'
 
 const defaultVariables = {
     title: '',
@@ -20,6 +21,15 @@ const defaultVariables = {
     taxAuthority: 'none',
     otherTaxAuthorities: [],
 
+    // Transactions on or before this date can not be changed
+    lockDate: '',
+
+    // The default account for cash sales, cash purchases and payments
+    settlementAccountId: 10,
+
+    // The account which bank fees (eg. of transfers) are charged to
+    feeAccountId: 500,
+
     mru: '/settings',
     // lastSavedDate
 }
@@ -29,6 +39,7 @@ const defaultVariables = {
 export class Project {
     knex?: Knex
     variables?: Variables
+    history?: UndoHistory
     isModified: boolean
     changeListener: any
 
@@ -41,12 +52,18 @@ export class Project {
         this.variables = new Variables(this.knex!, defaultVariables)
         await this.variables.init()
 
+        this.history = new UndoHistory(this.knex!)
+        await this.history.init()
+
         // Clear .isModified again as it was probably set during prepopulation or maybe migration
         this.isModified = false
     }
 
     onChange() {
         this.isModified = true
+        if (this.history) {
+            this.history.onChange()
+        }
         if (this.changeListener) {
             this.changeListener(...arguments)
         }
@@ -100,6 +117,9 @@ export class Project {
         const p = Project.project!
         Project.project = undefined
         p.filename = ''
+        if (p.history) {
+            p.history.stop()
+        }
         return p.database.close()
     }
 
@@ -126,6 +146,28 @@ export class Project {
         }
     }
 
+    // Undo/redo the most recent change (if any).
+    // Returns a promise which resolves to true if anything was undone/redone.
+    static async undo(redo = false): Promise<boolean> {
+        const p = Project.project!
+        // Transactions on or before the lock date can not be changed this way either
+        const lockDate: string = p.variables!.get('lockDate') || ''
+        const changed = await (redo ? p.history!.redo(lockDate) : p.history!.undo(lockDate))
+        if (changed) {
+            // Variables may have changed too
+            await p.variables!.reload()
+            p.isModified = true
+            if (p.changeListener) {
+                p.changeListener()
+            }
+        }
+        return changed
+    }
+
+    static async redo(): Promise<boolean> {
+        return Project.undo(true)
+    }
+
     static isOpen() {
         return Project.project != undefined
     }
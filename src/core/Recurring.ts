@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { parseISO, addDays, addMonths, addYears } from 'date-fns'
+import { Base } from './Base'
+import { TransactionType } from './Transaction'
+import { toDateOnly } from './date'
+
+export enum RecurringFrequency {
+    Monthly = 'monthly',
+    Quarterly = 'quarterly',
+    Yearly = 'yearly',
+    Days = 'days',
+}
+
+export const RecurringFrequencyInfo: Record<string, {label: string}> = {
+    [RecurringFrequency.Monthly]: { label: 'Monthly' },
+    [RecurringFrequency.Quarterly]: { label: 'Quarterly' },
+    [RecurringFrequency.Yearly]: { label: 'Yearly' },
+    [RecurringFrequency.Days]: { label: 'Every N days' },
+}
+
+// A template for a transaction which recurs on a schedule
+export class Recurring extends Base {
+    static Monthly = RecurringFrequency.Monthly
+    static Quarterly = RecurringFrequency.Quarterly
+    static Yearly = RecurringFrequency.Yearly
+    static Days = RecurringFrequency.Days
+    static FrequencyInfo = RecurringFrequencyInfo
+
+    // Transaction types which can be used as templates
+    static Types = [TransactionType.Sale, TransactionType.Invoice,
+        TransactionType.Purchase, TransactionType.Bill, TransactionType.Raw]
+
+    id?: number
+    title?: string
+    type?: TransactionType
+    // Form data of the transaction (without date, due date and ids)
+    data?: Record<string, any>
+    frequency?: RecurringFrequency
+    // Number of days between occurrences. Only used when frequency is 'days'
+    interval?: number
+    // Dates are stored as ten character strings ie. '2020-01-01'
+    startDate?: string
+    // Optional. Occurrences after this date are not generated
+    endDate?: string
+    // Invoices and bills are due this many days after their date
+    dueDays?: number
+    // The number of occurrences generated so far
+    count?: number
+
+    static tableName = 'recurring'
+    static get jsonAttributes() {
+        return ['data']
+    }
+
+    // Returns the date of the n-th occurrence (starting from 0)
+    // Each occurrence is computed from the start date so that, for example,
+    // monthly occurrences starting on the 31st stay at the end of each month
+    occurrence(n: number): string {
+        const start = parseISO(this.startDate!)
+        switch (this.frequency) {
+            case Recurring.Monthly: return toDateOnly(addMonths(start, n))
+            case Recurring.Quarterly: return toDateOnly(addMonths(start, 3 * n))
+            case Recurring.Yearly: return toDateOnly(addYears(start, n))
+            default: return toDateOnly(addDays(start, Math.max(this.interval || 1, 1) * n))
+        }
+    }
+
+    // Returns the date of the next occurrence to be generated, or '' if there is none
+    get nextDate(): string {
+        const date = this.occurrence(this.count || 0)
+        return this.endDate && date > this.endDate ? '' : date
+    }
+
+    // Returns the dates of occurrences which have not been generated, up to and
+    // including the supplied date
+    dueDates(date: string): string[] {
+        const dates: string[] = []
+        for (let n = this.count || 0; ; n++) {
+            const d = this.occurrence(n)
+            if (d > date || (this.endDate && d > this.endDate)) {
+                break
+            }
+            dates.push(d)
+        }
+        return dates
+    }
+}
+
+export default Recurring
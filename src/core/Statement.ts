@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, Model, TransactionOrKnex } from './Base'
+import { StatementLine } from './StatementLine'
+import { Element } from './Element'
+import { formatDateOnly } from './date'
+
+export enum StatementFormat {
+    Csv = 'csv',
+    Ofx = 'ofx',
+    Qif = 'qif',
+    // Created when an account is reconciled by hand. Has no lines
+    Manual = 'manual',
+}
+
+export const StatementFormatInfo: Record<string, {label: string}> = {
+    [StatementFormat.Csv]: { label: 'CSV' },
+    [StatementFormat.Ofx]: { label: 'OFX' },
+    [StatementFormat.Qif]: { label: 'QIF' },
+}
+
+// A bank statement. Imported statements have lines which are staged (ie. they
+// don't affect the books) until they are matched to, or used to create,
+// transactions. Completing a reconciliation also records a statement.
+export class Statement extends Base {
+    static Csv = StatementFormat.Csv
+    static Ofx = StatementFormat.Ofx
+    static Qif = StatementFormat.Qif
+    static Manual = StatementFormat.Manual
+    static FormatInfo = StatementFormatInfo
+
+    id?: number
+    // The account (usually Cash) which this statement is for
+    accountId?: number
+    title?: string
+    format?: StatementFormat
+    currency?: string
+    // Only for reconciliations: Statement date and closing balance
+    endDate?: string
+    balance?: number
+    lines?: StatementLine[]
+
+    // Matches every unreconciled line to it's best candidate (if any)
+    // Returns a promise which resolves to the number of lines matched
+    async autoMatch(trx?: TransactionOrKnex): Promise<number> {
+        if (!trx) {
+            return Base.transaction(trx => this.autoMatch(trx))
+        }
+
+        let count = 0
+        const lines = await StatementLine.query(trx)
+            .where('statementId', this.id!).where('reconciled', 0).orderBy(['date', 'id'])
+        for (let line of lines) {
+            const candidates = await line.candidates(this.accountId!, trx)
+            if (candidates.length > 0) {
+                await line.match(candidates[0].elementId, trx)
+                count++
+            }
+        }
+        return count
+    }
+
+    async delete(trx?: TransactionOrKnex): Promise<any> {
+        if (!trx) {
+            return Base.transaction(trx => this.delete(trx))
+        }
+
+        // Later reconciliations start from this one's balance, so only the most recent can go
+        const existing = await Statement.query(trx).findById(this.id!)
+        if (existing && existing.format == Statement.Manual) {
+            const later = await Statement.query(trx)
+                .where('accountId', existing.accountId!)
+                .where('currency', existing.currency!)
+                .where('format', Statement.Manual)
+                .where('endDate', '>', existing.endDate!)
+                .orderBy('endDate', 'desc')
+                .first()
+            if (later) {
+                return Promise.reject(`Only the most recent reconciliation (${formatDateOnly(later.endDate!)}) can be deleted`)
+            }
+        }
+
+        await StatementLine.query(trx).where('statementId', this.id!).delete()
+        // Elements reconciled by this statement go back to being cleared
+        await Element.query(trx).where('statementId', this.id!).patch({
+            reconcileStatus: Element.Cleared,
+            reconcileDate: '',
+            statementId: 0,
+        })
+        return super.delete(trx)
+    }
+
+    static tableName = 'statement'
+    static get relationMappings() {
+        return {
+            lines: {
+                relation: Model.HasManyRelation,
+                modelClass: StatementLine,
+                join: {
+                    from: 'statement.id',
+                    to: 'statementLine.statementId'
+                }
+            }
+        }
+    }
+}
+
+export default Statement
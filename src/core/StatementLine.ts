@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { parseISO, addDays, subDays, differenceInCalendarDays } from 'date-fns'
+import { Base, TransactionOrKnex } from './Base'
+import { Element } from './Element'
+import { Transaction } from './Transaction'
+import { toDateOnly } from './date'
+
+export interface IStatementLine {
+    date: string
+    description: string
+    reference: string
+    // Amount in currency subunits. Positive amounts are money in, negative
+    // amounts are money out
+    amount: number
+}
+
+export type MatchCandidate = {
+    elementId: number
+    transactionId: number
+    date: string
+    description: string
+}
+
+export class StatementLine extends Base {
+    // Candidate elements are dated within this many days of the line
+    static MatchDays = 7
+
+    id?: number
+    statementId?: number
+    // Date is stored as a ten character string ie. '2020-01-01'
+    date?: string
+    description?: string
+    // Bank reference (eg. OFX FITID or cheque number)
+    reference?: string
+    // Amount in currency subunits. Positive amounts are money in
+    amount?: number
+    currency?: string
+    // The element which this line is matched to, 0 if none
+    elementId?: number
+    // reconciled != 0 means it has been matched (or otherwise dealt with) and
+    // should not be matched again
+    reconciled?: number
+
+    // Returns a list of elements (of the supplied account) which could be
+    // matched to this line, best candidate first.
+    // The amount and currency must be the same, and the date close by.
+    // Elements which are already matched are excluded.
+    async candidates(accountId: number, trx?: TransactionOrKnex): Promise<MatchCandidate[]> {
+        const date = parseISO(this.date!)
+        const rows: any[] = await Element.query(trx)
+            .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+            .select('txnElement.id as elementId', 'txnElement.transactionId', 'txn.date',
+                'txn.description', 'txnElement.description as elementDescription')
+            .where('txnElement.accountId', accountId)
+            .where('txnElement.currency', this.currency!)
+            .where('txnElement.drcr', this.amount! > 0 ? Transaction.Debit : Transaction.Credit)
+            .where('txnElement.amount', Math.abs(this.amount!))
+            .whereBetween('txn.date', [toDateOnly(subDays(date, StatementLine.MatchDays)),
+                toDateOnly(addDays(date, StatementLine.MatchDays))])
+            .whereNotIn('txnElement.id', StatementLine.query(trx).select('elementId').where('elementId', '>', 0))
+
+        const candidates = rows.map(row => ({
+            elementId: row.elementId,
+            transactionId: row.transactionId,
+            date: row.date,
+            description: row.elementDescription || row.description || '',
+            days: Math.abs(differenceInCalendarDays(parseISO(row.date), date)),
+            common: commonWords(this.description || '', `${row.description || ''} ${row.elementDescription || ''}`),
+        }))
+
+        // Closest date first. For the same date, the most similar description first
+        candidates.sort((a, b) => a.days - b.days || b.common - a.common || a.elementId - b.elementId)
+        return candidates.map(({days, common, ...rest}) => rest)
+    }
+
+    // Matches this line to an element and marks it as reconciled.
+    // The element is marked as cleared
+    async match(elementId: number, trx?: TransactionOrKnex) {
+        await Element.query(trx).findById(elementId).patch({reconcileStatus: Element.Cleared})
+            .where(q => q.whereNull('reconcileStatus').orWhere('reconcileStatus', Element.Uncleared))
+        this.elementId = elementId
+        this.reconciled = 1
+        return this.save(trx)
+    }
+
+    // Reverses a match (or any other reconciliation)
+    async unmatch(trx?: TransactionOrKnex) {
+        if (this.elementId) {
+            await Element.query(trx).findById(this.elementId).patch({reconcileStatus: Element.Uncleared})
+                .where('reconcileStatus', Element.Cleared)
+        }
+        this.elementId = 0
+        this.reconciled = 0
+        return this.save(trx)
+    }
+
+    // Lines are staging data so changes aren't recorded in the audit log
+    static auditable = false
+
+    static tableName = 'statementLine'
+}
+
+// Returns the number of (case-insensitive) words with three or more letters
+// which appear in both strings
+function commonWords(a: string, b: string) {
+    const words = (s: string) => s.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 3)
+    const set = new Set(words(a))
+    return words(b).filter(w => set.has(w)).length
+}
+
+export default StatementLine
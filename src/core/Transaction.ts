@@ -5,9 +5,12 @@
 import { QueryBuilder } from 'objection'
 import { Base, Model, TransactionOrKnex } from './Base'
 import { Element, IElement } from './Element'
-import { isDateOnly } from './date'
+import { Attachment } from './Attachment'
+import { ExchangeRate } from './ExchangeRate'
+import { AuditLog } from './AuditLog'
+import { isDateOnly, isLocked, lockDate, formatDateOnly } from './date'
 import { orderByField } from '../util/util'
-import { Money } from './currency'
+import { Money, getCurrencyInfo } from './currency'
 import { Project } from './Project'
 import Account from './Account'
 import Actor from './Actor'
@@ -18,25 +21,39 @@ type TElement = Element & { _parent?: TElement }
 export enum TransactionType {
     Raw = 'raw',
     Contribution = 'contribution',
-    // Dividend = 'dividend',
+    Drawing = 'drawing',
+    Dividend = 'dividend',
     Sale = 'sale',
     Invoice = 'invoice',
     InvoicePayment = 'invoice-payment',
+    CreditNote = 'credit-note',
     Purchase = 'purchase',
     Bill = 'bill',
     BillPayment = 'bill-payment',
+    DebitNote = 'debit-note',
+    Closing = 'closing',
+    Revaluation = 'revaluation',
+    Exchange = 'exchange',
+    Transfer = 'transfer',
 }
 
 export const TransactionTypeInfo: Record<string, {label: string, shortLabel: string}> = {
     [TransactionType.Raw]: { label: 'Raw', shortLabel: 'Raw' },
     [TransactionType.Contribution]: { label: 'Contribution', shortLabel: 'Contrib' },
-    // [TransactionType.Dividend]: { label: 'Dividend' },
+    [TransactionType.Drawing]: { label: 'Drawing', shortLabel: 'Draw' },
+    [TransactionType.Dividend]: { label: 'Dividend', shortLabel: 'Div' },
     [TransactionType.Sale]: { label: 'Cash sale', shortLabel: 'Sale' },
     [TransactionType.Invoice]: { label: 'Invoice', shortLabel: 'Inv' },
     [TransactionType.InvoicePayment]: { label: 'Invoice payment', shortLabel: 'Inv pay' },
+    [TransactionType.CreditNote]: { label: 'Credit note', shortLabel: 'Credit' },
     [TransactionType.Purchase]: { label: 'Cash purchase', shortLabel: 'Purch' },
     [TransactionType.Bill]: { label: 'Bill', shortLabel: 'Bill' },
     [TransactionType.BillPayment]: { label: 'Bill payment', shortLabel: 'Bill pay' },
+    [TransactionType.DebitNote]: { label: 'Debit note', shortLabel: 'Debit' },
+    [TransactionType.Closing]: { label: 'Year-end close', shortLabel: 'Close' },
+    [TransactionType.Revaluation]: { label: 'Exchange revaluation', shortLabel: 'Reval' },
+    [TransactionType.Exchange]: { label: 'Currency exchange', shortLabel: 'Exch' },
+    [TransactionType.Transfer]: { label: 'Transfer', shortLabel: 'Xfer' },
 }
 
 export class Transaction extends Base {
@@ -45,13 +62,20 @@ export class Transaction extends Base {
 
     static Raw = TransactionType.Raw
     static Contribution = TransactionType.Contribution
-    // static Dividend = TransactionType.Dividend
+    static Drawing = TransactionType.Drawing
+    static Dividend = TransactionType.Dividend
     static Sale = TransactionType.Sale
     static Invoice = TransactionType.Invoice
     static InvoicePayment = TransactionType.InvoicePayment
+    static CreditNote = TransactionType.CreditNote
     static Purchase = TransactionType.Purchase
     static Bill = TransactionType.Bill
     static BillPayment = TransactionType.BillPayment
+    static DebitNote = TransactionType.DebitNote
+    static Closing = TransactionType.Closing
+    static Revaluation = TransactionType.Revaluation
+    static Exchange = TransactionType.Exchange
+    static Transfer = TransactionType.Transfer
     static TypeInfo = TransactionTypeInfo
 
     id?: number
@@ -93,7 +117,7 @@ export class Transaction extends Base {
         }
 
         // Don't assign or modify this.elements until after validation.
-        const elements = this.elements ? [...this.elements] : []
+        let elements = this.elements ? [...this.elements] : []
         let parent: TElement
         for (let i in list) {
             const e: TElement = Element.construct(list[i])
@@ -125,6 +149,11 @@ export class Transaction extends Base {
             }
         }
 
+        // Currency exchanges are balanced by trading elements
+        if (this.type == Transaction.Exchange) {
+            elements = await Transaction.withTradingElements(elements)
+        }
+
         if (!Transaction.isBalanced(elements)) {
             return Promise.reject('Not balanced')
         }
@@ -222,6 +251,15 @@ export class Transaction extends Base {
     }
 
     async _save(trx: TransactionOrKnex) {
+        // Check both the new date and the date currently in the database
+        await Transaction.checkLock(this.date)
+        const before = this.id != undefined ? await Transaction.snapshot(this.id, trx) : undefined
+        if (before) {
+            await Transaction.checkLock(before.date)
+        }
+
+        await this.updateExchangeElements(trx)
+
         if (this.id == undefined) {
             await Transaction.query(trx).insert(this)
         }
@@ -286,6 +324,134 @@ export class Transaction extends Base {
                 }
             }
         }
+
+        await Transaction.audit(trx, before ? AuditLog.Patch : AuditLog.Insert, this.id, before)
+    }
+
+    // Deletes this transaction and all of it's elements
+    async delete(trx?: TransactionOrKnex): Promise<any> {
+        if (!trx) {
+            return Base.transaction(trx => this.delete(trx))
+        }
+
+        const existing = await Transaction.query(trx).findById(this.id!)
+        if (existing) {
+            await Transaction.checkLock(existing.date)
+        }
+        const result = await super.delete(trx)
+        await Element.query(trx).delete().where('transactionId', this.id!)
+        // One at a time so that each removal is audited
+        for (let attachment of await Attachment.list({transactionId: this.id!}, trx)) {
+            await attachment.delete(trx)
+        }
+        return result
+    }
+
+    // A payment of a foreign currency invoice (or bill) realises an exchange
+    // gain or loss if the exchange rate has changed since the invoice date.
+    // The gain (or loss) is added to the payment in the primary currency.
+    // Payments which don't settle anything (yet) are left alone.
+    async updateExchangeElements(trx?: TransactionOrKnex) {
+        if ((this.type != Transaction.InvoicePayment && this.type != Transaction.BillPayment) || !this.elements) {
+            return
+        }
+        const settling = this.elements.filter(e => e.settleId && e.amount &&
+            (e.accountId == Account.Reserved.AccountsReceivable || e.accountId == Account.Reserved.AccountsPayable))
+        if (settling.length == 0) {
+            return
+        }
+
+        const primary: string = Project.variables.get('currency')
+        const history = await ExchangeRate.history(trx)
+        let gain = 0
+        for (let e of settling) {
+            const settled = e.currency != primary ? await Transaction.query(trx).findById(e.settleId!) : undefined
+            if (settled) {
+                const before = history.rate(e.currency!, primary, settled.date)
+                const after = history.rate(e.currency!, primary, this.date)
+                if (before !== undefined && after !== undefined) {
+                    // Receiving more (or paying less) than when invoiced is a gain
+                    gain -= e.drcr! * (Math.round(e.amount! * after) - Math.round(e.amount! * before))
+                }
+            }
+        }
+
+        // Re-use existing exchange elements. Unused ones are removed (when saved)
+        const existing = this.elements.filter(e => Account.isExchangeAccount(e.accountId!))
+        existing.forEach(e => {
+            e.amount = 0
+        })
+        Transaction.exchangeElements(gain, primary, 'Realised exchange').forEach(item => {
+            const e = existing.find(e => e.accountId == item.accountId)
+            if (e) {
+                Object.assign(e, item)
+            }
+            else {
+                this.elements!.push(Element.construct(item))
+            }
+        })
+    }
+
+    // Returns elements which post an exchange gain (or loss, if negative)
+    static exchangeElements(gain: number, currency: string, description: string): IElement[] {
+        if (gain > 0) {
+            return [
+                {accountId: Account.Reserved.CurrencyTrading, drcr: Transaction.Debit, amount: gain, currency, description: `${description} gain`},
+                {accountId: Account.Reserved.ExchangeGain, drcr: Transaction.Credit, amount: gain, currency, description: `${description} gain`},
+            ]
+        }
+        else if (gain < 0) {
+            return [
+                {accountId: Account.Reserved.ExchangeLoss, drcr: Transaction.Debit, amount: -gain, currency, description: `${description} loss`},
+                {accountId: Account.Reserved.CurrencyTrading, drcr: Transaction.Credit, amount: -gain, currency, description: `${description} loss`},
+            ]
+        }
+        return []
+    }
+
+    // A currency exchange converts one currency into another. Each currency is
+    // balanced by a Currency Trading element, which also records the rate.
+    // Existing trading elements are re-used, or zeroed so that they are removed.
+    // Returns a promise which resolves to the new list of elements
+    static async withTradingElements(elements: Element[]): Promise<Element[]> {
+        const Trading = Account.Reserved.CurrencyTrading
+        const others = elements.filter(e => e.accountId != Trading)
+        const balances = Transaction.getDebitBalances(others).filter(balance => balance.amount != 0)
+        if (balances.length != 2 || balances[0].amount * balances[1].amount > 0) {
+            return Promise.reject('A currency exchange must convert one currency into another')
+        }
+
+        // The currency which is credited (ie. given up) is converted into the other
+        const [from, to] = balances[0].amount < 0 ? balances : [balances[1], balances[0]]
+        const rate = (to.amount / getCurrencyInfo(to.currency).scale) /
+            (-from.amount / getCurrencyInfo(from.currency).scale)
+        const description = `1 ${from.currency} = ${Number(rate.toPrecision(6))} ${to.currency}`
+
+        // Copies, so that the original elements are not modified
+        const existing = elements.filter(e => e.accountId == Trading && e.id != undefined)
+            .map(e => Element.construct({...e, amount: 0}))
+        const added: Element[] = []
+        ;[from, to].forEach(balance => {
+            const fields = {
+                drcr: balance.amount > 0 ? Transaction.Credit : Transaction.Debit,
+                amount: Math.abs(balance.amount),
+                currency: balance.currency,
+                description,
+            }
+            const e = existing.find(e => e.amount == 0)
+            if (e) {
+                Object.assign(e, fields)
+            }
+            else {
+                added.push(Element.construct({...fields, accountId: Trading, parentId: 0}))
+            }
+        })
+        return [...others, ...existing, ...added]
+    }
+
+    // Include elements in snapshots
+    static async snapshot(id: any, trx?: TransactionOrKnex): Promise<any> {
+        return Transaction.query(trx).findById(id).withGraphFetched('elements')
     }
 
     // Removes non-child elements with zero amounts
@@ -352,6 +518,7 @@ export class Transaction extends Base {
     }
 
     // Helper function to insert an SQL WHERE condition to retrieve unpaid invoices.
+    // Payments and credit notes both settle an invoice (via settleId).
     // However, this will also retrieve overpaid invoices too.
     // Call like this: `.where(Transaction.unpaidInvoices)`
     static unpaidInvoices(builder: QueryBuilder<Transaction, Transaction[]>,
@@ -434,6 +601,14 @@ export class Transaction extends Base {
         })
     }
 
+    // Returns a promise which rejects if the supplied 'date-only' string is
+    // within a locked period, and resolves otherwise
+    static async checkLock(date?: string) {
+        if (date && isLocked(date)) {
+            return Promise.reject(`Transactions dated on or before the lock date (${formatDateOnly(lockDate())}) can not be changed`)
+        }
+    }
+
     // Calculates totals for each currency and returns them as an array
     static getSums(elements: IElement[]) {
         return Transaction._getBalances(elements, true)
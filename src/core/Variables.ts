@@ -4,6 +4,8 @@
 
 import Knex = require('knex');
 import cloneDeep = require('lodash/cloneDeep')
+import isEqual = require('lodash/isEqual')
+import { AuditLog } from './AuditLog'
 
 // This is going to be used in a raw query so use snake_case
 const upsertSuffix = ' on conflict(`name`) do update set' +
@@ -32,6 +34,12 @@ export class Variables {
         }
     }
 
+    // Discards the cache and re-initialises it from the database
+    async reload() {
+        this.cache = cloneDeep(this.defaults)
+        await this.init()
+    }
+
     async set(name: string, value: any, sessionOnly = false, skipOnChange = false) {
         if (!sessionOnly) {
             const now = new Date()
@@ -47,6 +55,11 @@ export class Variables {
                 p.options({skipOnChange: true})
             }
             await p
+
+            // Changes which don't trigger onChange aren't interesting enough to record
+            if (!skipOnChange) {
+                await this.audit(name, value)
+            }
         }
 
         // Update the cache
@@ -70,12 +83,25 @@ export class Variables {
 
             const q = this.knex('variable').insert(variables).toSQL().toNative()
             await this.knex.raw(q.sql + upsertSuffix, q.bindings)
+
+            for (let name of Object.keys(obj)) {
+                await this.audit(name, obj[name])
+            }
         }
 
         // Update the cache
         Object.assign(this.cache, obj)
     }
 
+    // Records a change of value (if any) in the audit log
+    async audit(name: string, value: any) {
+        const before = this.cache[name]
+        if (!isEqual(before, value)) {
+            await AuditLog.record(this.knex, before === undefined ? AuditLog.Insert : AuditLog.Patch,
+                'variable', name, before, value)
+        }
+    }
+
     get(name: string): any {
         return cloneDeep(this.cache[name])
     }
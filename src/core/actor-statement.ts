@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { TransactionOrKnex } from './Base'
+import { Account } from './Account'
+import { Actor } from './Actor'
+import { Element } from './Element'
+import { TransactionType } from './Transaction'
+
+export type ActorStatementItem = {
+    transactionId: number
+    txnType: TransactionType
+    date: string
+    due: string
+    description: string
+    // Positive amounts increase the amount owing (ie. by the customer, or to the supplier)
+    amount: number
+    // Running balance after this item
+    balance: number
+}
+
+export type ActorStatementCurrency = {
+    currency: string
+    openingBalance: number
+    items: ActorStatementItem[]
+    closingBalance: number
+}
+
+export type ActorStatement = {
+    actorId: number
+    actorType: string
+    actorTitle: string
+    actorAddress: string
+    startDate: string
+    endDate: string
+    // Accounts Receivable (customers) or Accounts Payable (suppliers)
+    accountId: number
+    currencies: ActorStatementCurrency[]
+}
+
+// Returns the statement of account of a customer or supplier ie. the opening
+// balance, every transaction in the date range and the running balance of
+// Accounts Receivable/Payable. Each currency is listed separately.
+export async function actorStatement(actorId: number, startDate: string, endDate: string, trx?: TransactionOrKnex): Promise<ActorStatement> {
+    const actor = await Actor.query(trx).findById(actorId)
+    if (!actor) {
+        return Promise.reject(`Customer or supplier ${actorId} not found`)
+    }
+
+    const isCustomer = actor.type == Actor.Customer
+    const accountId = isCustomer ? Account.Reserved.AccountsReceivable : Account.Reserved.AccountsPayable
+    // Receivables are debit balances, payables are credit balances
+    const sign = isCustomer ? 1 : -1
+
+    const rows: any[] = await Element.query(trx)
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .select('txnElement.*', 'txn.type as txnType', 'txn.date', 'txn.due', 'txn.description as txnDescription')
+        .where('txnElement.accountId', accountId)
+        .where('txn.actorId', actorId)
+        .where('txn.date', '<=', endDate)
+        .orderBy(['txn.date', 'txn.id', 'txnElement.id'])
+
+    const result: ActorStatement = {
+        actorId,
+        actorType: actor.type!,
+        actorTitle: actor.title!,
+        actorAddress: actor.address || '',
+        startDate,
+        endDate,
+        accountId,
+        currencies: [],
+    }
+
+    const currencies: Record<string, ActorStatementCurrency> = {}
+    rows.forEach(row => {
+        if (!currencies[row.currency]) {
+            currencies[row.currency] = {currency: row.currency, openingBalance: 0, items: [], closingBalance: 0}
+        }
+        const c = currencies[row.currency]
+        const amount = row.drcr * row.amount * sign
+
+        if (row.date < startDate) {
+            c.openingBalance += amount
+        }
+        else {
+            // Combine elements of the same transaction into one item
+            const last = c.items.length > 0 ? c.items[c.items.length - 1] : undefined
+            if (last && last.transactionId == row.transactionId) {
+                last.amount += amount
+            }
+            else {
+                c.items.push({
+                    transactionId: row.transactionId,
+                    txnType: row.txnType,
+                    date: row.date,
+                    due: row.due || '',
+                    description: row.txnDescription || row.description || '',
+                    amount,
+                    balance: 0,
+                })
+            }
+        }
+    })
+
+    Object.keys(currencies).sort().forEach(currency => {
+        const c = currencies[currency]
+        let balance = c.openingBalance
+        c.items.forEach(item => {
+            balance += item.amount
+            item.balance = balance
+        })
+        c.closingBalance = balance
+
+        if (c.openingBalance != 0 || c.items.length > 0) {
+            result.currencies.push(c)
+        }
+    })
+
+    return result
+}
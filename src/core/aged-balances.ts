@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { Account } from './Account'
+import { Actor } from './Actor'
+import { Element } from './Element'
+import { Transaction, TransactionType } from './Transaction'
+import { Money } from './currency'
+
+// Labels of the ageing buckets, by days past due
+export const AgedBuckets = ['Current', '1-30', '31-60', '61-90', '90+']
+
+export type AgedItem = {
+    transactionId: number
+    txnType: TransactionType
+    date: string
+    due: string
+    description: string
+    // The unpaid amount
+    amount: number
+    currency: string
+    // Days past due (or past date if there is no due date)
+    days: number
+    bucket: number
+}
+
+export type AgedActorBalance = {
+    actorId: number
+    actorTitle: string
+    currency: string
+    items: AgedItem[]
+    // One amount per bucket
+    buckets: number[]
+    total: number
+}
+
+export type AgedBalances = {
+    date: string
+    // Accounts Receivable or Accounts Payable
+    accountId: number
+    actors: AgedActorBalance[]
+    // Per currency
+    totals: (Money & {buckets: number[]})[]
+}
+
+// Returns the bucket index for a number of days past due
+function bucketOf(days: number) {
+    return days <= 0 ? 0 : days <= 30 ? 1 : days <= 60 ? 2 : days <= 90 ? 3 : 4
+}
+
+// Returns invoices (or bills, if payables is true) which were unpaid as at
+// `date`, bucketed by how long they are overdue and grouped by
+// customer/supplier and currency. Payments made after `date` are ignored.
+export async function agedBalances(date: string, payables = false): Promise<AgedBalances> {
+    const [type, accountId] = payables ?
+        [Transaction.Bill, Account.Reserved.AccountsPayable] :
+        [Transaction.Invoice, Account.Reserved.AccountsReceivable]
+
+    // Invoices paid since `date` are still needed, so don't use `unpaidInvoices()`
+    const rows = await Transaction.query()
+        .where('type', type)
+        .where('date', '<=', date)
+        .withGraphFetched('elements')
+        .withGraphFetched('settledBy') as (Transaction & {settledBy: (Element & {date: string})[]})[]
+
+    const actorIds = [...new Set(rows.map(t => t.actorId!))]
+    const actors: Record<number, string> = {}
+    ;(await Actor.query().whereIn('id', actorIds)).forEach(a => actors[a.id!] = a.title!)
+
+    const result: AgedBalances = {date, accountId, actors: [], totals: []}
+    const groups: Record<string, AgedActorBalance> = {}
+    const totals: Record<string, Money & {buckets: number[]}> = {}
+
+    rows.forEach(t => {
+        // Receivables are debit balances, payables are credit balances
+        const settledBy = t.settledBy.filter(e => e.date <= date)
+        const elements = [...t.elements!, ...settledBy].filter(e => e.accountId == accountId)
+        const balances = payables ? Transaction.getCreditBalances(elements) : Transaction.getDebitBalances(elements)
+        const days = differenceInCalendarDays(parseISO(date), parseISO(t.due || t.date!))
+        const bucket = bucketOf(days)
+
+        balances.forEach(money => {
+            if (money.amount == 0) {
+                return
+            }
+
+            const key = `${t.actorId}-${money.currency}`
+            if (!groups[key]) {
+                groups[key] = {
+                    actorId: t.actorId!,
+                    actorTitle: actors[t.actorId!] || '',
+                    currency: money.currency,
+                    items: [],
+                    buckets: AgedBuckets.map(() => 0),
+                    total: 0,
+                }
+            }
+            if (!totals[money.currency]) {
+                totals[money.currency] = {amount: 0, currency: money.currency, buckets: AgedBuckets.map(() => 0)}
+            }
+
+            groups[key].items.push({
+                transactionId: t.id!,
+                txnType: t.type!,
+                date: t.date!,
+                due: t.due || '',
+                description: t.description || '',
+                amount: money.amount,
+                currency: money.currency,
+                days,
+                bucket,
+            })
+            groups[key].buckets[bucket] += money.amount
+            groups[key].total += money.amount
+            totals[money.currency].buckets[bucket] += money.amount
+            totals[money.currency].amount += money.amount
+        })
+    })
+
+    result.actors = Object.values(groups).sort((a, b) => {
+        if (a.actorTitle == b.actorTitle) {
+            return a.currency < b.currency ? -1 : a.currency > b.currency ? 1 : 0
+        }
+        return a.actorTitle < b.actorTitle ? -1 : 1
+    })
+    result.actors.forEach(group => {
+        group.items.sort((a, b) => a.date == b.date ? a.transactionId - b.transactionId : (a.date < b.date ? -1 : 1))
+    })
+    result.totals = Object.keys(totals).sort().map(currency => totals[currency])
+    return result
+}
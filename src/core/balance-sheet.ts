@@ -2,7 +2,8 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { CurrencyConvertable, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+import { CurrencyConvertable, DatedRate, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+import { ExchangeRate } from './ExchangeRate'
 import { Account } from './Account'
 import { Element } from './Element'
 import { Transaction } from './Transaction'
@@ -34,6 +35,8 @@ export type BalanceSheet = {
     startDate: string
     endDate: string
     exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
     assets: Division
     liabilities: Division
     equity: {
@@ -45,7 +48,9 @@ export type BalanceSheet = {
     netAssets: Money[]
 }
 
-export async function balanceSheet(startDate: string, endDate: string, currency?: string) : Promise<BalanceSheet> {
+// If `currency` is supplied, amounts are converted using the exchange rate on each
+// transaction's date or, if supplied, on `rateDate`
+export async function balanceSheet(startDate: string, endDate: string, currency?: string, rateDate?: string) : Promise<BalanceSheet> {
     const money0 = {currency: Project.variables.get('currency'), amount: 0}
     const reAccount: Account = await Account.query().findById(Account.Reserved.RetainedEarnings)
     const elements = await Element.query()
@@ -63,6 +68,7 @@ export async function balanceSheet(startDate: string, endDate: string, currency?
         startDate,
         endDate,
         exchangeRates: {},
+        rates: [],
         assets: { current: {groups: [], totals: []}, nonCurrent: {groups: [], totals: []}, totals: [] },
         liabilities: { current: {groups: [], totals: []}, nonCurrent: {groups: [], totals: []}, totals: [] },
         equity: { accounts: {groups: [], totals: []} },
@@ -117,11 +123,13 @@ export async function balanceSheet(startDate: string, endDate: string, currency?
 
     // Maybe convert currency
     if (currency) {
+        const history = await ExchangeRate.history()
         elements.forEach(element => {
-            convertCurrency(element as CurrencyConvertable, currency)
+            convertCurrency(element as CurrencyConvertable, currency, rateDate || (element as any).txnDate, history)
         })
 
         result.exchangeRates = exchangeRates()
+        result.rates = history.usedRates()
     }
 
     elements.forEach(element => {
@@ -192,6 +200,14 @@ export async function balanceSheet(startDate: string, endDate: string, currency?
         sub.groups.sort(orderByField('accountTitle'))
     })
 
+    // Drawings and dividends are listed last, as deductions from equity
+    const isDistribution = (group: Group) =>
+        group.accountId == Account.Reserved.Drawings || group.accountId == Account.Reserved.Dividends
+    result.equity.accounts.groups = [
+        ...result.equity.accounts.groups.filter((group: Group) => !isDistribution(group)),
+        ...result.equity.accounts.groups.filter(isDistribution),
+    ]
+
     result.assets.totals = addSubtractMoney([
         ...result.assets.current.totals,
         ...result.assets.nonCurrent.totals,
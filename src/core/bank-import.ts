@@ -0,0 +1,234 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// Parsers for bank statement files. Each returns a list of statement lines
+// (which are not yet saved).
+
+import { parseISO, isValid } from 'date-fns'
+import { getCurrencyInfo } from './currency'
+import { IStatementLine } from './StatementLine'
+
+// Order of day, month and year in dates
+export type DateOrder = 'ymd' | 'dmy' | 'mdy'
+
+// Column numbers (starting from 0) of each field. -1 means not present.
+// Either `amount` (positive is money in) or `moneyIn`/`moneyOut` are required
+export type CsvMapping = {
+    date: number
+    description: number
+    reference: number
+    amount: number
+    moneyIn: number
+    moneyOut: number
+    dateOrder: DateOrder
+    // If true, the first row contains column headings
+    header: boolean
+}
+
+// Parses CSV text into rows of fields. Handles quoted fields (which may
+// contain delimiters, newlines and doubled quotes)
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i]
+        if (quoted) {
+            if (c == '"') {
+                if (text[i + 1] == '"') {
+                    field += '"'
+                    i++
+                }
+                else {
+                    quoted = false
+                }
+            }
+            else {
+                field += c
+            }
+        }
+        else if (c == '"') {
+            quoted = true
+        }
+        else if (c == delimiter) {
+            row.push(field)
+            field = ''
+        }
+        else if (c == '\n' || c == '\r') {
+            if (c == '\r' && text[i + 1] == '\n') {
+                i++
+            }
+            row.push(field)
+            field = ''
+            rows.push(row)
+            row = []
+        }
+        else {
+            field += c
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    // Omit blank lines
+    return rows.filter(r => r.length > 1 || r[0].trim() != '')
+}
+
+// Parses a date such as '31/01/2020', '2020-01-31' or "1/31'20" into '2020-01-31'
+// Returns '' if invalid
+export function parseStatementDate(s: string, order: DateOrder = 'ymd'): string {
+    const parts = s.trim().split(/[^0-9]+/).filter(p => p != '')
+    if (parts.length == 1 && parts[0].length == 8) {
+        // eg. '20200131'
+        const p = parts[0]
+        parts.splice(0, 1, p.substring(0, 4), p.substring(4, 6), p.substring(6, 8))
+    }
+    if (parts.length != 3) {
+        return ''
+    }
+
+    // A leading four digit year is unambiguous
+    let [y, m, d] = parts[0].length == 4 ? parts :
+        order == 'dmy' ? [parts[2], parts[1], parts[0]] :
+        order == 'mdy' ? [parts[2], parts[0], parts[1]] : parts
+    if (y.length <= 2) {
+        y = String(2000 + Number(y))
+    }
+
+    const date = `${y.padStart(4, '0')}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date)) ? date : ''
+}
+
+// Parses a decimal amount such as '-1,234.56', '(12.00)' or '$5' into currency subunits
+// Throws an error if invalid
+export function parseStatementAmount(s: string, currency: string): number {
+    const info = getCurrencyInfo(currency)
+    let t = s.trim()
+    const negative = /^\(.*\)$/.test(t) || t.indexOf('-') >= 0
+    t = t.replace(/[^0-9.,]/g, '')
+
+    // The last separator is the decimal point if it is followed by 1 or 2
+    // digits. Three digits are a fraction too for currencies with three decimal
+    // places (eg. KWD), unless the separator also appears earlier (eg. '1,234,567').
+    // Otherwise it is a group separator
+    const digits = Math.round(Math.log10(info.scale))
+    const match = /^(.*?)([.,])(\d+)$/.exec(t)
+    const decimal = match && (match[3].length <= 2 ||
+        (match[3].length <= digits && match[1].indexOf(match[2]) < 0))
+    const number = decimal ? `${match![1].replace(/[.,]/g, '')}.${match![3]}` : t.replace(/[.,]/g, '')
+    if (!/^\d+(\.\d+)?$/.test(number)) {
+        throw new Error(`Invalid amount: ${s}`)
+    }
+
+    const amount = Math.round(parseFloat(number) * info.scale)
+    return negative ? -amount : amount
+}
+
+// Converts CSV rows into statement lines according to the mapping
+export function csvStatementLines(rows: string[][], mapping: CsvMapping, currency: string): IStatementLine[] {
+    const lines: IStatementLine[] = []
+    const field = (row: string[], column: number) => column >= 0 && row[column] ? row[column].trim() : ''
+
+    rows.forEach((row, index) => {
+        if (index == 0 && mapping.header) {
+            return
+        }
+
+        const date = parseStatementDate(field(row, mapping.date), mapping.dateOrder)
+        if (!date) {
+            throw new Error(`Row ${index + 1}: Invalid date: ${field(row, mapping.date)}`)
+        }
+
+        let amount = 0
+        if (mapping.amount >= 0) {
+            amount = parseStatementAmount(field(row, mapping.amount), currency)
+        }
+        else {
+            const moneyIn = field(row, mapping.moneyIn)
+            const moneyOut = field(row, mapping.moneyOut)
+            amount = (moneyIn ? Math.abs(parseStatementAmount(moneyIn, currency)) : 0) -
+                (moneyOut ? Math.abs(parseStatementAmount(moneyOut, currency)) : 0)
+        }
+
+        if (amount != 0) {
+            lines.push({
+                date,
+                description: field(row, mapping.description),
+                reference: field(row, mapping.reference),
+                amount,
+            })
+        }
+    })
+
+    return lines
+}
+
+// Parses an OFX (v1 SGML or v2 XML) statement
+// Returns the lines and the statement currency (if found)
+export function parseOfx(text: string): {lines: IStatementLine[], currency: string} {
+    // Returns the value of a tag. SGML tags may not be closed
+    const value = (block: string, tag: string) => {
+        const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+        return match ? match[1].trim() : ''
+    }
+
+    const currency = value(text, 'CURDEF').toUpperCase()
+    const lines: IStatementLine[] = []
+    const re = /<STMTTRN>([\s\S]*?)(<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi
+    let match
+    while ((match = re.exec(text)) !== null) {
+        const block = match[1]
+        const date = parseStatementDate(value(block, 'DTPOSTED').substring(0, 8))
+        if (!date) {
+            throw new Error(`Invalid date: ${value(block, 'DTPOSTED')}`)
+        }
+
+        const name = value(block, 'NAME')
+        const memo = value(block, 'MEMO')
+        lines.push({
+            date,
+            description: name && memo && name != memo ? `${name} ${memo}` : (name || memo),
+            reference: value(block, 'FITID') || value(block, 'CHECKNUM'),
+            amount: parseStatementAmount(value(block, 'TRNAMT'), currency || 'USD'),
+        })
+    }
+
+    return {lines, currency}
+}
+
+// Parses a QIF statement
+export function parseQif(text: string, currency: string, dateOrder: DateOrder = 'mdy'): IStatementLine[] {
+    const lines: IStatementLine[] = []
+    let item: Record<string, string> = {}
+
+    for (let row of text.split(/\r?\n/)) {
+        const code = row[0]
+        const data = row.substring(1).trim()
+        if (code == '^') {
+            if (item.D) {
+                const date = parseStatementDate(item.D, dateOrder)
+                if (!date) {
+                    throw new Error(`Invalid date: ${item.D}`)
+                }
+                lines.push({
+                    date,
+                    description: item.P && item.M ? `${item.P} ${item.M}` : (item.P || item.M || ''),
+                    reference: item.N || '',
+                    amount: parseStatementAmount(item.T || item.U || '0', currency),
+                })
+            }
+            item = {}
+        }
+        else if (code && code != '!') {
+            item[code] = data
+        }
+    }
+
+    return lines
+}
@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { lastDayOfMonth, parseISO } from 'date-fns'
+import { CurrencyConvertable, DatedRate, convertCurrency, exchangeRates } from './currency'
+import { ExchangeRate } from './ExchangeRate'
+import { Account } from './Account'
+import { toDateOnly } from './date'
+import { Budget } from './Budget'
+import { Variance, variance } from './comparative'
+import { profitAndLoss } from './profit-and-loss'
+
+export type BudgetLine = {
+    accountId: number
+    accountTitle: string
+    currency: string
+    actual: number
+    budget: number
+    // Actual minus budget
+    variance: Variance
+}
+
+export type BudgetTotal = {
+    currency: string
+    actual: number
+    budget: number
+    variance: Variance
+}
+
+export type BudgetVsActual = {
+    startDate: string
+    endDate: string
+    exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
+    revenues: {
+        lines: BudgetLine[]
+        totals: BudgetTotal[]
+    }
+    expenses: {
+        lines: BudgetLine[]
+        totals: BudgetTotal[]
+    }
+    netProfit: BudgetTotal[]
+}
+
+// Compares actual revenue and expenses (from the profit and loss) against
+// budgeted amounts. Budgeted months which start within the period are included.
+export async function budgetVsActual(startDate: string, endDate: string, currency?: string) : Promise<BudgetVsActual> {
+    const history = currency ? await ExchangeRate.history() : undefined
+    const pl = await profitAndLoss(startDate, endDate, currency, undefined, history)
+    const budgets: any[] = await Budget.query()
+        .leftJoin('account', 'budget.accountId', 'account.id')
+        .select('budget.*', 'account.title as accountTitle', 'account.type as accountType')
+        .where('budget.date', '>=', startDate).where('budget.date', '<=', endDate)
+
+    const result: BudgetVsActual = {
+        startDate,
+        endDate,
+        exchangeRates: pl.exchangeRates,
+        rates: pl.rates,
+        revenues: {lines: [], totals: []},
+        expenses: {lines: [], totals: []},
+        netProfit: [],
+    }
+
+    // Maybe convert currency. Budgets use the exchange rate at the end of their month.
+    if (currency) {
+        budgets.forEach(budget => {
+            convertCurrency(budget as CurrencyConvertable, currency, toDateOnly(lastDayOfMonth(parseISO(budget.date))), history)
+        })
+
+        result.exchangeRates = exchangeRates()
+        result.rates = history!.usedRates()
+    }
+
+    const lines: Record<'revenues' | 'expenses', Record<string, BudgetLine>> = {revenues: {}, expenses: {}}
+    function line(half: 'revenues' | 'expenses', accountId: number, accountTitle: string, currency: string) {
+        const key = `${accountId}-${currency}`
+        if (!lines[half][key]) {
+            lines[half][key] = {accountId, accountTitle, currency, actual: 0, budget: 0, variance: {amount: 0}}
+        }
+        return lines[half][key]
+    }
+
+    // Actual amounts, using the grouping of the profit and loss
+    ;[pl.operations, pl.depreciation, pl.interestTax].forEach(division => {
+        ;(['revenues', 'expenses'] as const).forEach(half => {
+            division[half].groups.forEach(group => {
+                group.totals.forEach(money => {
+                    line(half, group.accountId, group.accountTitle, money.currency).actual += money.amount
+                })
+            })
+        })
+    })
+
+    // Budgeted amounts
+    budgets.forEach(budget => {
+        const half = Account.TypeGroupInfo[Account.Revenue].types.includes(budget.accountType) ? 'revenues' : 'expenses'
+        line(half, budget.accountId, budget.accountTitle, budget.currency).budget += budget.amount
+    })
+
+    const netProfit: Record<string, BudgetTotal> = {}
+    ;(['revenues', 'expenses'] as const).forEach(half => {
+        const totals: Record<string, BudgetTotal> = {}
+        result[half].lines = Object.values(lines[half]).sort((a, b) => {
+            if (a.accountTitle == b.accountTitle) {
+                return a.currency < b.currency ? -1 : a.currency > b.currency ? 1 : 0
+            }
+            return a.accountTitle < b.accountTitle ? -1 : 1
+        })
+
+        result[half].lines.forEach(line => {
+            line.variance = variance(line.actual, line.budget)
+
+            if (!totals[line.currency]) {
+                totals[line.currency] = {currency: line.currency, actual: 0, budget: 0, variance: {amount: 0}}
+            }
+            totals[line.currency].actual += line.actual
+            totals[line.currency].budget += line.budget
+
+            // Expenses reduce profit
+            const sign = half == 'revenues' ? 1 : -1
+            if (!netProfit[line.currency]) {
+                netProfit[line.currency] = {currency: line.currency, actual: 0, budget: 0, variance: {amount: 0}}
+            }
+            netProfit[line.currency].actual += sign * line.actual
+            netProfit[line.currency].budget += sign * line.budget
+        })
+
+        result[half].totals = Object.keys(totals).sort().map(currency => totals[currency])
+        result[half].totals.forEach(total => total.variance = variance(total.actual, total.budget))
+    })
+
+    result.netProfit = Object.keys(netProfit).sort().map(currency => netProfit[currency])
+    result.netProfit.forEach(total => total.variance = variance(total.actual, total.budget))
+    return result
+}
@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { CurrencyConvertable, DatedRate, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+import { ExchangeRate } from './ExchangeRate'
+import { Account } from './Account'
+import { Element } from './Element'
+import { Transaction } from './Transaction'
+import { Project } from './Project'
+import { orderByField } from '../util/util'
+
+export type CashFlowLine = {
+    accountId: number
+    accountTitle: string
+    // Cash inflows are positive, outflows are negative
+    amounts: Money[]
+}
+
+type Section = {
+    lines: CashFlowLine[]
+    totals: Money[]
+}
+
+export type CashFlow = {
+    startDate: string
+    endDate: string
+    exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
+    operating: Section & {
+        netProfit: Money[]
+    }
+    investing: Section
+    financing: Section
+    netChange: Money[]
+    openingCash: Money[]
+    closingCash: Money[]
+}
+
+// Returns true if the account type and id is considered to be cash (or a cash equivalent)
+// ie. current assets other than receivables
+export function isCashAccount(accountId: number, accountType: string) {
+    return accountType == Account.Asset &&
+        accountId != Account.Reserved.AccountsReceivable &&
+        accountId != Account.Reserved.TaxReceivable
+}
+
+// Statement of cash flows using the indirect method: Net profit is adjusted by
+// changes in all other non-cash accounts, which are then grouped into
+// operating, investing and financing activities.
+export async function cashFlow(startDate: string, endDate: string, currency?: string) : Promise<CashFlow> {
+    const money0 = {currency: Project.variables.get('currency'), amount: 0}
+    const elements = await Element.query()
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('account', 'txnElement.accountId', 'account.id')
+        .select('txnElement.*', 'txn.date as txnDate',
+            'account.Id as accountId', 'account.title as accountTitle', 'account.type as accountType')
+        .where('txn.date', '<=', endDate)
+        // Closing transactions move profit into Retained Earnings and don't involve cash. Ignore them.
+        .where('txn.type', '<>', Transaction.Closing)
+        .orderBy([{column: 'txn.date', order: 'asc'}, {column: 'txn.id', order: 'asc'}])
+
+    const result: CashFlow = {
+        startDate,
+        endDate,
+        exchangeRates: {},
+        rates: [],
+        operating: {netProfit: [], lines: [], totals: []},
+        investing: {lines: [], totals: []},
+        financing: {lines: [], totals: []},
+        netChange: [],
+        openingCash: [],
+        closingCash: [],
+    }
+
+    // Maybe convert currency, using the exchange rate on each transaction's date
+    if (currency) {
+        const history = await ExchangeRate.history()
+        elements.forEach(element => {
+            convertCurrency(element as CurrencyConvertable, currency, (element as any).txnDate, history)
+        })
+
+        result.exchangeRates = exchangeRates()
+        result.rates = history.usedRates()
+    }
+
+    const netProfitItems: Element[] = []
+    const openingCashItems: Element[] = []
+    const cashItems: Element[] = []
+    const lines: Record<'operating' | 'investing' | 'financing', Record<number, Element[]>> = {
+        operating: {}, investing: {}, financing: {},
+    }
+    const titles: Record<number, string> = {}
+
+    elements.forEach(element => {
+        const e: any = element
+        if (isCashAccount(e.accountId, e.accountType)) {
+            ;(e.txnDate < startDate ? openingCashItems : cashItems).push(element)
+            return
+        }
+        if (e.txnDate < startDate) {
+            return
+        }
+
+        let section: 'operating' | 'investing' | 'financing'
+        if (Account.TypeGroupInfo[Account.Revenue].types.includes(e.accountType) ||
+            Account.TypeGroupInfo[Account.Expense].types.includes(e.accountType)) {
+            netProfitItems.push(element)
+            return
+        }
+        else if (e.accountType == Account.LongTermAsset) {
+            section = 'investing'
+        }
+        else if (e.accountType == Account.LongTermLiability || e.accountId == Account.Reserved.DividendsPayable ||
+            Account.TypeGroupInfo[Account.Equity].types.includes(e.accountType)) {
+            section = 'financing'
+        }
+        else {
+            // Receivables, payables, tax accounts and other current liabilities
+            section = 'operating'
+        }
+
+        if (!lines[section][e.accountId]) {
+            lines[section][e.accountId] = []
+            titles[e.accountId] = e.accountTitle
+        }
+        lines[section][e.accountId].push(element)
+    })
+
+    // For every non-cash account, a net credit is a cash inflow and a net debit is a cash outflow
+    ;(['operating', 'investing', 'financing'] as const).forEach(section => {
+        const sub = result[section]
+        Object.keys(lines[section]).forEach((accountId: any) => {
+            const amounts = Transaction.getCreditBalances(lines[section][accountId]).filter(m => m.amount != 0)
+            if (amounts.length > 0) {
+                sub.lines.push({accountId: Number(accountId), accountTitle: titles[accountId], amounts})
+            }
+        })
+        sub.lines.sort(orderByField('accountTitle'))
+        sub.totals = sub.lines.reduce((acc: Money[], cur) => addSubtractMoney([...acc, ...cur.amounts]), [])
+    })
+
+    result.operating.netProfit = addSubtractMoney([money0, ...Transaction.getCreditBalances(netProfitItems)])
+    result.operating.totals = addSubtractMoney([...result.operating.netProfit, ...result.operating.totals])
+
+    result.netChange = addSubtractMoney([
+        ...result.operating.totals,
+        ...result.investing.totals,
+        ...result.financing.totals,
+    ])
+    result.openingCash = addSubtractMoney([money0, ...Transaction.getDebitBalances(openingCashItems)])
+    result.closingCash = addSubtractMoney([...result.openingCash, ...Transaction.getDebitBalances(cashItems)])
+    return result
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Money } from './currency'
+
+// One row of a multi-column report: An account (or a total) in one currency,
+// with one amount per period
+export type ComparativeLine = {
+    accountId: number
+    accountTitle: string
+    currency: string
+    amounts: number[]
+}
+
+export type Variance = {
+    amount: number
+    // Undefined if there is nothing to compare against
+    percent?: number
+}
+
+// Lines up account groups from several reports (one per period) into rows.
+// `groups` has one list of groups per period. Each group must have either
+// `totals` (profit and loss) or `closingBalance` (balance sheet).
+export function comparativeLines(groups: {accountId: number, accountTitle: string, totals?: Money[], closingBalance?: Money[]}[][]): ComparativeLine[] {
+    const lines: Record<string, ComparativeLine> = {}
+    const order: string[] = []
+
+    groups.forEach((periodGroups, index) => {
+        periodGroups.forEach(group => {
+            (group.totals || group.closingBalance || []).forEach(money => {
+                const key = `${group.accountId}-${money.currency}`
+                if (!lines[key]) {
+                    lines[key] = {
+                        accountId: group.accountId,
+                        accountTitle: group.accountTitle,
+                        currency: money.currency,
+                        amounts: groups.map(() => 0),
+                    }
+                    order.push(key)
+                }
+                lines[key].amounts[index] = money.amount
+            })
+        })
+    })
+
+    return order.map(key => lines[key]).sort((a, b) => {
+        if (a.accountTitle == b.accountTitle) {
+            return a.currency < b.currency ? -1 : a.currency > b.currency ? 1 : 0
+        }
+        return a.accountTitle < b.accountTitle ? -1 : 1
+    })
+}
+
+// Lines up totals from several reports (one per period) into one row per currency
+export function comparativeTotals(totals: Money[][]): {currency: string, amounts: number[]}[] {
+    const rows: Record<string, {currency: string, amounts: number[]}> = {}
+    totals.forEach((periodTotals, index) => {
+        periodTotals.forEach(money => {
+            if (!rows[money.currency]) {
+                rows[money.currency] = {currency: money.currency, amounts: totals.map(() => 0)}
+            }
+            rows[money.currency].amounts[index] += money.amount
+        })
+    })
+    return Object.keys(rows).sort().map(currency => rows[currency])
+}
+
+// Returns the change from `previous` to `current`
+export function variance(current: number, previous: number): Variance {
+    const amount = current - previous
+    return previous == 0 ? {amount} : {amount, percent: amount * 100 / Math.abs(previous)}
+}
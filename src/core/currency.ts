@@ -131,40 +131,100 @@ export type CurrencyConvertable = {
     currency: string
 }
 
+// An exchange rate: One unit of `from` is worth `rate` units of `to`.
+// Rates from settings have no date.
+export type DatedRate = {
+    date: string
+    from: string
+    to: string
+    rate: string
+}
+
+// Looks up exchange rates by date. Dated rates come from the exchange rate
+// history. Rates in settings are used when there is no dated rate.
+// Rates which are looked up are recorded so that reports can show them.
+export class RateHistory {
+    // Dated rates keyed by currency pair eg. 'USD:EUR', oldest first
+    pairs: Record<string, DatedRate[]> = {}
+    used: Record<string, DatedRate> = {}
+
+    constructor(rates: DatedRate[] = []) {
+        rates.forEach(rate => {
+            const key = `${rate.from}:${rate.to}`
+            this.pairs[key] = this.pairs[key] || []
+            this.pairs[key].push(rate)
+        })
+        Object.keys(this.pairs).forEach(key => {
+            this.pairs[key].sort(orderByField('date'))
+        })
+    }
+
+    // Returns the number of `to` units per `from` unit which is effective on
+    // `date`. Without a date, rates in settings take precedence over the
+    // latest dated rates.
+    rate(from: string, to: string, date?: string): number | undefined {
+        const settings = this.settingsRate(from, to) || this.settingsRate(to, from)
+        const dated = [this.datedRate(from, to, date), this.datedRate(to, from, date)]
+            .filter(r => r).sort(orderByField('date')).pop()
+        const rate = date ? dated || settings : settings || dated
+
+        if (rate) {
+            this.used[`${rate.date} ${rate.from} ${rate.to}`] = rate
+            return rate.from == from ? parseFloat(rate.rate) : 1 / parseFloat(rate.rate)
+        }
+        return undefined
+    }
+
+    // Returns the rates which have been looked up. Rates from settings come first.
+    usedRates(): DatedRate[] {
+        return Object.keys(this.used).sort().map(key => this.used[key])
+    }
+
+    // Returns the most recent rate which is not after `date`
+    private datedRate(from: string, to: string, date?: string) {
+        const rates = (this.pairs[`${from}:${to}`] || []).filter(r => !date || r.date <= date)
+        return rates[rates.length - 1]
+    }
+
+    // Settings only have rates from the primary currency
+    private settingsRate(from: string, to: string): DatedRate | undefined {
+        const primary: string = Project.variables.get('currency')
+        const rates: Record<string, Record<string, string>> = Project.variables.get('exchangeRates')
+        if (from == primary && rates[primary] && rates[primary][to]) {
+            return {date: '', from, to, rate: `${rates[primary][to]}`}
+        }
+        return undefined
+    }
+}
+
 // Converts an item to another currency in-place (ie. modifies the caller's value)
 // Converts to integers only (ie. has rounding)
-export function convertCurrency(item: CurrencyConvertable, dest: string) {
+// If `date` is supplied, uses the rate which was effective on that date.
+export function convertCurrency(item: CurrencyConvertable, dest: string, date?: string, history = new RateHistory()) {
     const primary: string = Project.variables.get('currency')
-    const rates: Record<string, Record<string, string>> = Project.variables.get('exchangeRates')
     const src = item.currency
 
     if (src != dest) {
-        // Only use rates to/from the primary currency
-        if (!rates[primary]) {
-            throw new Error(`No exchange rates for primary currency ${primary}`)
-        }
+        let rate = history.rate(src, dest, date)
 
-        let multRate = 1.0
-        let divRate = 1.0
-
-        if (dest != primary) {
-            if (!rates[primary][dest]) {
-                throw new Error(`No exchange rate for converting ${primary} to ${dest}`)
+        // Otherwise, convert via the primary currency
+        if (rate === undefined) {
+            const toPrimary = src == primary ? 1 : history.rate(src, primary, date)
+            if (toPrimary === undefined) {
+                throw new Error(`No exchange rate for converting ${src} to ${primary}`)
             }
-            multRate = parseFloat(rates[primary][dest])
-        }
 
-        if (src != primary) {
-            if (!rates[primary][src]) {
-                throw new Error(`No exchange rate for converting ${src} to ${primary}`)
+            const fromPrimary = dest == primary ? 1 : history.rate(primary, dest, date)
+            if (fromPrimary === undefined) {
+                throw new Error(`No exchange rate for converting ${primary} to ${dest}`)
             }
-            divRate = parseFloat(rates[primary][src])
+            rate = toPrimary * fromPrimary
         }
 
         ;['amount', 'grossAmount', 'parentAmount'].forEach((field: string) => {
             const record: Record<string, number> = item as any     // typecast
             if (typeof record[field] === 'number') {
-                record[field] = Math.round(record[field] * multRate / divRate)
+                record[field] = Math.round(record[field] * rate!)
             }
         })
 
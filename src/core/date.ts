@@ -2,8 +2,8 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { parseISO, addDays, subDays,
-    endOfMonth, startOfMonth, addMonths, subMonths,
+import { parseISO, addDays, subDays, differenceInCalendarDays, differenceInCalendarMonths,
+    isFirstDayOfMonth, isLastDayOfMonth, endOfMonth, startOfMonth, addMonths, subMonths,
     endOfQuarter, startOfQuarter, addQuarters, subQuarters,
     addYears, subYears } from 'date-fns'
 import { LOCALE } from './locale'
@@ -67,6 +67,18 @@ export function fiscalYearStart() {
     }
 }
 
+// Returns the lock date as a 'date-only' string, or '' if there is none.
+// Transactions dated on or before the lock date can not be changed.
+export function lockDate(): string {
+    return Project.variables.get('lockDate') || ''
+}
+
+// Returns true if the supplied 'date-only' string is on or before the lock date
+export function isLocked(dateOnly: string): boolean {
+    const lock = lockDate()
+    return lock != '' && dateOnly <= lock
+}
+
 export function lastSavedDate() {
     const dateOnly = Project.variables.get('lastSavedDate')
     return dateOnly ? parseISO(dateOnly) : new Date()
@@ -142,3 +154,60 @@ export function datePresetDates(preset: DatePreset, date0? : Date): string[] {
 
     return [toDateOnly(startDate), toDateOnly(endDate)]
 }
+
+// Returns the [startDate, endDate] of the fiscal year which contains the
+// supplied 'date-only' string
+export function fiscalYearDates(dateOnly: string): string[] {
+    return datePresetDates('this-year', parseISO(dateOnly))
+}
+
+// How to compare a date range with other periods:
+// * prev-period: The same length of time immediately before
+// * prev-year: The same dates in previous years
+// * month, quarter: Split the date range into months or quarters
+export type DateComparison = 'prev-period' | 'prev-year' | 'month' | 'quarter'
+
+// Returns a list of [startDate, endDate] pairs of 'date-only' string values.
+// For prev-period and prev-year, the first pair is the supplied date range,
+// followed by `count` earlier periods. For month and quarter, the pairs cover
+// the supplied date range in order.
+export function comparisonDates(startDate0: string, endDate0: string, comparison: DateComparison, count = 1): string[][] {
+    const startDate = parseISO(startDate0)
+    const endDate = parseISO(endDate0)
+    const result: string[][] = []
+
+    if (comparison == 'month' || comparison == 'quarter') {
+        const months = comparison == 'month' ? 1 : 3
+        for (let date = startDate; date <= endDate; date = addMonths(date, months)) {
+            const nextDate = subDays(addMonths(date, months), 1)
+            result.push([toDateOnly(date), toDateOnly(nextDate < endDate ? nextDate : endDate)])
+        }
+        return result
+    }
+
+    // Whole months are stepped by month so that month ends line up
+    const wholeMonths = isFirstDayOfMonth(startDate) && isLastDayOfMonth(endDate)
+    const months = differenceInCalendarMonths(endDate, startDate) + 1
+    const days = differenceInCalendarDays(endDate, startDate) + 1
+
+    for (let i = 0; i <= count; i++) {
+        let start, end
+        if (comparison == 'prev-year') {
+            start = subYears(startDate, i)
+            end = subYears(endDate, i)
+            if (isLastDayOfMonth(endDate)) {
+                end = endOfMonth(end)
+            }
+        }
+        else if (wholeMonths) {
+            start = subMonths(startDate, months * i)
+            end = endOfMonth(addMonths(start, months - 1))
+        }
+        else {
+            start = subDays(startDate, days * i)
+            end = subDays(endDate, days * i)
+        }
+        result.push([toDateOnly(start), toDateOnly(end)])
+    }
+    return result
+}
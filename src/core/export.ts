@@ -0,0 +1,225 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Money, getCurrencyInfo } from './currency'
+import { Transaction, TransactionType } from './Transaction'
+import { ProfitAndLoss, Item } from './profit-and-loss'
+import { BalanceSheet } from './balance-sheet'
+import { CashFlow } from './cash-flow'
+import { TrialBalance } from './trial-balance'
+import { GeneralLedger } from './general-ledger'
+import { AgedBuckets, AgedBalances } from './aged-balances'
+import { BudgetVsActual, BudgetLine, BudgetTotal } from './budget-vs-actual'
+import { TaxItem } from './transaction-taxes'
+import { Cell } from './spreadsheet'
+
+// Converts reports into rows of spreadsheet cells (see `toCsv()` and `toXlsx()`).
+// Amounts are converted from subunits into numbers eg. 1234 USD -> 12.34
+
+export function toNumber(amount: number, currency: string): number {
+    return amount / getCurrencyInfo(currency).scale
+}
+
+function itemLabel(txnType: TransactionType | undefined, txnId: number) {
+    const info = txnType ? Transaction.TypeInfo[txnType] : undefined
+    return info ? `${info.shortLabel} ${txnId}` : `${txnId}`
+}
+
+function itemDescription(item: {txnDescription?: string, description?: string}) {
+    return !item.txnDescription ? item.description :
+        !item.description ? item.txnDescription :
+        `${item.txnDescription}: ${item.description}`
+}
+
+// Appends one row per currency. The label goes in the first column and
+// the amount in the last column.
+function pushTotals(rows: Cell[][], width: number, label: string, totals: Money[]) {
+    totals.forEach(money => {
+        const row: Cell[] = [label, ...Array(width - 3).fill(''), money.currency, toNumber(money.amount, money.currency)]
+        rows.push(row)
+    })
+}
+
+export function profitAndLossRows(pl: ProfitAndLoss, detail = false): Cell[][] {
+    const width = detail ? 7 : 3
+    const rows: Cell[][] = [detail ?
+        ['Account', 'Item', 'Date', 'Name', 'Description', 'Currency', 'Amount'] :
+        ['Account', 'Currency', 'Amount']]
+
+    const divisions: [ProfitAndLoss['operations'], string, string][] = [
+        [pl.operations, 'Ordinary revenue / expense', 'Earnings before interest, tax, depreciation and amortisation (EBITDA)'],
+        [pl.depreciation, 'Depreciation and amortisation', 'Net depreciation and amortisation'],
+        [pl.interestTax, 'Interest and tax', 'Net interest and tax'],
+    ]
+    divisions.forEach(([division, label, netLabel], index) => {
+        if (index > 0 && division.revenues.groups.length == 0 && division.expenses.groups.length == 0) {
+            return
+        }
+
+        rows.push([label])
+        ;([['revenues', 'Revenue', Transaction.Credit], ['expenses', 'Expenses', Transaction.Debit]] as const).forEach(([half, halfLabel, drcr]) => {
+            if (division[half].groups.length == 0) {
+                return
+            }
+            rows.push([halfLabel])
+            division[half].groups.forEach(group => {
+                if (detail) {
+                    group.items.forEach((item: Item) => {
+                        // Revenue items are normally credits and expense items are normally debits
+                        const amount = item.drcr == drcr ? item.amount : -item.amount
+                        rows.push([group.accountTitle, itemLabel(item.txnType, item.txnId), item.txnDate, item.actorTitle,
+                            itemDescription(item), item.currency, toNumber(amount, item.currency)])
+                    })
+                    pushTotals(rows, width, `Total ${group.accountTitle}`, group.totals)
+                }
+                else {
+                    pushTotals(rows, width, group.accountTitle, group.totals)
+                }
+            })
+            pushTotals(rows, width, `Total ${halfLabel}`, division[half].totals)
+        })
+        pushTotals(rows, width, netLabel, division.netTotals)
+
+        if (division == pl.depreciation || (division == pl.operations && !pl.hasDepreciation)) {
+            pushTotals(rows, width, 'Earnings before interest and tax (EBIT)', pl.ebit)
+        }
+    })
+    pushTotals(rows, width, 'Net profit', pl.netProfit)
+    return rows
+}
+
+export function balanceSheetRows(bs: BalanceSheet, detail = false): Cell[][] {
+    const width = detail ? 7 : 3
+    const rows: Cell[][] = [detail ?
+        ['Account', 'Item', 'Date', 'Name', 'Description', 'Currency', 'Amount'] :
+        ['Account', 'Currency', 'Amount']]
+
+    function subdivision(sub: BalanceSheet['equity']['accounts'], drcr: number) {
+        sub.groups.forEach(group => {
+            if (detail && group.items.length > 0) {
+                group.openingBalance.forEach(money => {
+                    rows.push([group.accountTitle, 'Opening balance', bs.startDate, '', '', money.currency, toNumber(money.amount, money.currency)])
+                })
+                group.items.forEach(item => {
+                    // If the item's drcr and the division's drcr don't match, then negate amount
+                    const amount = drcr == item.drcr ? item.amount : -item.amount
+                    rows.push([group.accountTitle, itemLabel(item.txnType, item.txnId), item.txnDate, item.actorTitle,
+                        itemDescription(item), item.currency, toNumber(amount, item.currency)])
+                })
+            }
+            group.closingBalance.forEach(money => {
+                rows.push(detail ?
+                    [group.accountTitle, 'Closing balance', bs.endDate, '', '', money.currency, toNumber(money.amount, money.currency)] :
+                    [group.accountTitle, money.currency, toNumber(money.amount, money.currency)])
+            })
+        })
+    }
+
+    ;([['assets', 'ASSETS', 'assets', Transaction.Debit], ['liabilities', 'LIABILITIES', 'liabilities', Transaction.Credit]] as const).forEach(([key, label, name, drcr]) => {
+        rows.push([label])
+        ;([['current', 'Current'], ['nonCurrent', 'Non-current']] as const).forEach(([subkey, sublabel]) => {
+            rows.push([`${sublabel} ${name}`])
+            subdivision(bs[key][subkey], drcr)
+            pushTotals(rows, width, `Total ${sublabel.toLowerCase()} ${name}`, bs[key][subkey].totals)
+        })
+        pushTotals(rows, width, `TOTAL ${label}`, bs[key].totals)
+    })
+    pushTotals(rows, width, 'NET ASSETS', bs.netAssets)
+
+    rows.push(['EQUITY'])
+    subdivision(bs.equity.accounts, Transaction.Credit)
+    pushTotals(rows, width, 'TOTAL EQUITY', bs.equity.accounts.totals)
+    return rows
+}
+
+export function cashFlowRows(cf: CashFlow): Cell[][] {
+    const rows: Cell[][] = [['Account', 'Currency', 'Amount']]
+
+    ;(['operating', 'investing', 'financing'] as const).forEach(key => {
+        rows.push([`Cash flows from ${key} activities`])
+        if (key == 'operating') {
+            pushTotals(rows, 3, 'Net profit', cf.operating.netProfit)
+        }
+        cf[key].lines.forEach(line => pushTotals(rows, 3, line.accountTitle, line.amounts))
+        pushTotals(rows, 3, `Net cash from ${key} activities`, cf[key].totals)
+    })
+
+    pushTotals(rows, 3, 'Net increase (decrease) in cash', cf.netChange)
+    pushTotals(rows, 3, 'Cash at beginning of period', cf.openingCash)
+    pushTotals(rows, 3, 'Cash at end of period', cf.closingCash)
+    return rows
+}
+
+export function trialBalanceRows(tb: TrialBalance): Cell[][] {
+    const rows: Cell[][] = [['Account ID', 'Account', 'Currency', 'Debit', 'Credit']]
+    tb.lines.forEach(line => {
+        rows.push([line.accountId, line.accountTitle, line.currency,
+            line.debit ? toNumber(line.debit, line.currency) : '',
+            line.credit ? toNumber(line.credit, line.currency) : ''])
+    })
+    tb.totals.forEach(total => {
+        rows.push(['', 'Total', total.currency, toNumber(total.debit, total.currency), toNumber(total.credit, total.currency)])
+    })
+    return rows
+}
+
+export function generalLedgerRows(gl: GeneralLedger): Cell[][] {
+    const rows: Cell[][] = [['Account ID', 'Account', 'Item', 'Date', 'Name', 'Description', 'Currency', 'Debit', 'Credit', 'Balance']]
+    gl.accounts.forEach(account => {
+        const n = (amount: number) => toNumber(amount, account.currency)
+        rows.push([account.accountId, account.accountTitle, 'Opening balance', gl.startDate, '', '', account.currency,
+            '', '', n(account.openingBalance)])
+        account.items.forEach(item => {
+            rows.push([account.accountId, account.accountTitle, itemLabel(item.txnType, item.txnId), item.txnDate,
+                item.actorTitle, itemDescription(item), account.currency,
+                item.debit ? n(item.debit) : '', item.credit ? n(item.credit) : '', n(item.balance)])
+        })
+        rows.push([account.accountId, account.accountTitle, 'Closing balance', gl.endDate, '', '', account.currency,
+            n(account.totalDebits), n(account.totalCredits), n(account.closingBalance)])
+    })
+    return rows
+}
+
+export function agedBalancesRows(aged: AgedBalances): Cell[][] {
+    const rows: Cell[][] = [['Name', 'Currency', ...AgedBuckets, 'Total']]
+    aged.actors.forEach(actor => {
+        rows.push([actor.actorTitle, actor.currency,
+            ...actor.buckets.map(amount => toNumber(amount, actor.currency)), toNumber(actor.total, actor.currency)])
+    })
+    aged.totals.forEach(total => {
+        rows.push(['Total', total.currency,
+            ...total.buckets.map(amount => toNumber(amount, total.currency)), toNumber(total.amount, total.currency)])
+    })
+    return rows
+}
+
+export function budgetVsActualRows(report: BudgetVsActual): Cell[][] {
+    const rows: Cell[][] = [['Account', 'Currency', 'Actual', 'Budget', 'Variance', '%']]
+    function amounts(line: BudgetLine | BudgetTotal): Cell[] {
+        return [line.currency, toNumber(line.actual, line.currency), toNumber(line.budget, line.currency),
+            toNumber(line.variance.amount, line.currency),
+            line.variance.percent == undefined ? '' : Math.round(line.variance.percent * 10) / 10]
+    }
+
+    ;([['revenues', 'Revenue'], ['expenses', 'Expenses']] as const).forEach(([half, label]) => {
+        rows.push([label])
+        report[half].lines.forEach(line => rows.push([line.accountTitle, ...amounts(line)]))
+        report[half].totals.forEach(total => rows.push([`Total ${label}`, ...amounts(total)]))
+    })
+    report.netProfit.forEach(total => rows.push(['Net profit', ...amounts(total)]))
+    return rows
+}
+
+// Amount is the amount the tax applies to (or the gross amount if `gross` is true)
+export function taxItemRows(items: TaxItem[], gross = false): Cell[][] {
+    const rows: Cell[][] = [['Item', 'Date', 'Name', 'Description', 'Tax Code', 'Rate', 'Currency', 'Tax', 'Amount']]
+    items.forEach(item => {
+        rows.push([itemLabel(item.txnType, item.txnId), item.txnDate, item.actorTitle,
+            itemDescription({txnDescription: item.txnDescription, description: item.parentDescription}),
+            item.taxInfo.reportLabel, item.taxInfo.rate ? Number(item.taxInfo.rate) : '', item.currency,
+            toNumber(item.amount, item.currency),
+            toNumber(gross ? item.grossAmount : item.parentAmount, item.currency)])
+    })
+    return rows
+}
@@ -0,0 +1,709 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// Importers for books kept in other accounting software. Each one converts
+// the foreign data into an interchange document (which is then imported
+// using `importInterchange()`) and a list of accounts whose type could not be
+// worked out.
+
+import { Account, AccountType, PrepopulatedAccounts } from './Account'
+import { ActorType } from './Actor'
+import { TransactionType } from './Transaction'
+import { getCurrencyInfo } from './currency'
+import { parseStatementDate, parseStatementAmount } from './bank-import'
+import { INTERCHANGE_FORMAT, INTERCHANGE_VERSION, InterchangeDocument, InterchangeElement } from './interchange'
+
+export type ForeignFormat = 'ledger' | 'gnucash' | 'iif'
+
+export const ForeignFormatInfo: Record<ForeignFormat, {label: string, extensions: string[]}> = {
+    ledger: {label: 'Ledger/hledger journal', extensions: ['ledger', 'journal', 'hledger', 'dat']},
+    gnucash: {label: 'GnuCash book', extensions: ['gnucash', 'xml', 'sqlite', 'sqlite3']},
+    iif: {label: 'QuickBooks IIF', extensions: ['iif']},
+}
+
+export type UnmappedAccount = {
+    // Id of the account within the document
+    id: number
+    name: string
+    foreignType: string
+}
+
+export type ForeignImport = {
+    document: InterchangeDocument
+    // Accounts which have been given a default type
+    unmapped: UnmappedAccount[]
+}
+
+// Synthetic (document) ids of unreserved accounts start from here
+const FIRST_ACCOUNT_ID = 1000
+
+// Accounts which can't be mapped are given this type
+const DEFAULT_TYPE = AccountType.Asset
+
+// Top level account names used by Ledger and (by default) GnuCash
+const TopLevelTypes: Record<string, AccountType> = {
+    asset: AccountType.Asset,
+    assets: AccountType.Asset,
+    liability: AccountType.Liability,
+    liabilities: AccountType.Liability,
+    equity: AccountType.Equity,
+    income: AccountType.Revenue,
+    revenue: AccountType.Revenue,
+    revenues: AccountType.Revenue,
+    expense: AccountType.Expense,
+    expenses: AccountType.Expense,
+}
+
+// hledger account type codes
+const LedgerTypes: Record<string, AccountType> = {
+    A: AccountType.Asset,
+    C: AccountType.Asset,
+    L: AccountType.Liability,
+    E: AccountType.Equity,
+    R: AccountType.Revenue,
+    X: AccountType.Expense,
+}
+
+// A number is a reserved account id
+const GnucashTypes: Record<string, AccountType | number> = {
+    BANK: AccountType.Asset,
+    CASH: AccountType.Asset,
+    ASSET: AccountType.Asset,
+    STOCK: AccountType.Asset,
+    MUTUAL: AccountType.Asset,
+    RECEIVABLE: Account.Reserved.AccountsReceivable,
+    PAYABLE: Account.Reserved.AccountsPayable,
+    CREDIT: AccountType.Liability,
+    LIABILITY: AccountType.Liability,
+    EQUITY: AccountType.Equity,
+    INCOME: AccountType.Revenue,
+    EXPENSE: AccountType.Expense,
+}
+
+const IifTypes: Record<string, AccountType | number> = {
+    BANK: AccountType.Asset,
+    AR: Account.Reserved.AccountsReceivable,
+    OCASSET: AccountType.Asset,
+    FIXASSET: AccountType.LongTermAsset,
+    OASSET: AccountType.LongTermAsset,
+    AP: Account.Reserved.AccountsPayable,
+    CCARD: AccountType.Liability,
+    OCLIAB: AccountType.Liability,
+    LTLIAB: AccountType.LongTermLiability,
+    EQUITY: AccountType.Equity,
+    INC: AccountType.Revenue,
+    EXINC: AccountType.Revenue,
+    COGS: AccountType.GrossExpense,
+    EXP: AccountType.Expense,
+    EXEXP: AccountType.Expense,
+}
+
+// Common currency symbols. '$' (and no symbol) means the primary currency.
+const CurrencySymbols: Record<string, string> = {
+    '€': 'EUR',
+    '£': 'GBP',
+    '¥': 'JPY',
+    '₹': 'INR',
+}
+
+type ForeignPosting = {
+    account: number
+    // Positive is debit, negative is credit
+    amount: number
+    currency: string
+    description?: string
+}
+
+type ForeignTransaction = {
+    date: string
+    payee: string
+    description: string
+    postings: ForeignPosting[]
+}
+
+// Accumulates accounts, customers/suppliers and transactions into a document
+class DocumentBuilder {
+    accounts: Record<number, {title: string, type: AccountType}> = {}
+    accountIds: Record<string, number> = {}
+    unmapped: UnmappedAccount[] = []
+    nextAccountId = FIRST_ACCOUNT_ID
+    actors: {id: number, title: string, type: ActorType, address?: string}[] = []
+    transactions: ForeignTransaction[] = []
+
+    constructor(public generator: string) {}
+
+    // Returns the (document) id of an account, adding it if necessary.
+    // `mapped` is an account type, a reserved account id or undefined if unknown.
+    account(name: string, title: string, mapped: AccountType | number | undefined, foreignType = '') {
+        if (this.accountIds[name] == undefined) {
+            let id = typeof mapped == 'number' ? mapped : 0
+            if (!id) {
+                // Use a reserved account with the same title if possible
+                const group = mapped ? Account.TypeGroupInfo[Account.TypeInfo[mapped].group] : undefined
+                const reserved = group && PrepopulatedAccounts.find(a => a.title.toLowerCase() == title.toLowerCase() &&
+                    group.types.includes(a.type as AccountType) && Account.construct({id: a.id}).isReserved)
+
+                id = reserved ? reserved.id : this.nextAccountId++
+                if (!reserved) {
+                    this.accounts[id] = {title, type: (mapped as AccountType) || DEFAULT_TYPE}
+                }
+                if (!mapped) {
+                    this.unmapped.push({id, name, foreignType})
+                }
+            }
+            if (!this.accounts[id]) {
+                const reserved = PrepopulatedAccounts.find(a => a.id == id)!
+                this.accounts[id] = {title: reserved.title, type: reserved.type as AccountType}
+            }
+            this.accountIds[name] = id
+        }
+        return this.accountIds[name]
+    }
+
+    actor(title: string, type: ActorType, address = '') {
+        const key = title.trim().toLowerCase()
+        let actor = this.actors.find(a => a.type == type && a.title.trim().toLowerCase() == key)
+        if (!actor) {
+            actor = {id: this.actors.length + 1, title: title.trim(), type}
+            if (address) {
+                actor.address = address
+            }
+            this.actors.push(actor)
+        }
+        return actor.id
+    }
+
+    transaction(t: ForeignTransaction) {
+        t.postings = t.postings.filter(p => p.amount != 0)
+        if (t.postings.length > 0) {
+            this.transactions.push(t)
+        }
+    }
+
+    // Cash sales and purchases are recognised by their shape: A single bank
+    // or cash account paying for (or receiving money for) revenue or expenses
+    transactionType(t: ForeignTransaction): TransactionType {
+        const isMapped = (p: ForeignPosting) => !this.unmapped.some(u => u.id == p.account)
+        const isType = (p: ForeignPosting, types: AccountType[]) => types.includes(this.accounts[p.account].type)
+        const isSettlement = (p: ForeignPosting) => isType(p, [AccountType.Asset, AccountType.Liability]) &&
+            ![Account.Reserved.AccountsReceivable, Account.Reserved.TaxReceivable,
+                Account.Reserved.AccountsPayable, Account.Reserved.TaxPayable].includes(p.account)
+
+        if (t.payee && t.postings.every(isMapped) && t.postings.every(p => p.currency == t.postings[0].currency)) {
+            const debits = t.postings.filter(p => p.amount > 0)
+            const credits = t.postings.filter(p => p.amount < 0)
+            if (debits.length == 1 && isSettlement(debits[0]) &&
+                credits.every(p => isType(p, Account.TypeGroupInfo[Account.Revenue].types))) {
+                return TransactionType.Sale
+            }
+            if (credits.length == 1 && isSettlement(credits[0]) &&
+                debits.every(p => isType(p, [AccountType.LongTermAsset, ...Account.TypeGroupInfo[Account.Expense].types]))) {
+                return TransactionType.Purchase
+            }
+        }
+        return TransactionType.Raw
+    }
+
+    finish(): ForeignImport {
+        const transactions = this.transactions.slice().sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0)
+        return {
+            document: {
+                format: INTERCHANGE_FORMAT,
+                version: INTERCHANGE_VERSION,
+                generator: this.generator,
+                variables: {},
+                accounts: Object.keys(this.accounts).map(Number).sort((a, b) => a - b).map(id => ({id, ...this.accounts[id]})),
+                actors: this.actors,
+                transactions: transactions.map((t, index) => {
+                    const type = this.transactionType(t)
+                    const actorId = type == TransactionType.Sale ? this.actor(t.payee, ActorType.Customer) :
+                        type == TransactionType.Purchase ? this.actor(t.payee, ActorType.Supplier) : 0
+                    const description = actorId ? t.description :
+                        [t.payee, t.description].filter(s => s).join(': ')
+
+                    return {
+                        id: index + 1,
+                        type,
+                        date: t.date,
+                        ...(description ? {description} : {}),
+                        ...(actorId ? {actorId} : {}),
+                        elements: t.postings.map(p => {
+                            const e: InterchangeElement = {
+                                accountId: p.account,
+                                drcr: p.amount > 0 ? 1 : -1,
+                                amount: Math.abs(p.amount),
+                                currency: p.currency,
+                            }
+                            if (p.description) {
+                                e.description = p.description
+                            }
+                            return e
+                        }),
+                    }
+                }),
+            },
+            unmapped: this.unmapped,
+        }
+    }
+}
+
+// Returns the format of a file, based on its extension
+export function foreignFormat(filename: string): ForeignFormat | undefined {
+    const extension = filename.substring(filename.lastIndexOf('.') + 1).toLowerCase()
+    return (Object.keys(ForeignFormatInfo) as ForeignFormat[]).find(f => ForeignFormatInfo[f].extensions.includes(extension))
+}
+
+// Parses a file of the specified format. `currency` is the currency of
+// amounts which don't specify one (only applicable to some formats)
+export async function parseForeign(format: ForeignFormat, data: Uint8Array, currency: string): Promise<ForeignImport> {
+    try {
+        if (format == 'gnucash') {
+            return await parseGnucash(data)
+        }
+        const text = new TextDecoder().decode(data)
+        return format == 'ledger' ? parseLedger(text, currency) : parseIif(text, currency)
+    }
+    catch (e) {
+        return Promise.reject(e instanceof Error ? e.message : e)
+    }
+}
+
+// Converts a decimal number into currency subunits
+function toSubunits(s: string, currency: string) {
+    return Math.round(parseFloat(s) * getCurrencyInfo(currency).scale)
+}
+
+// Parses a Ledger amount such as '$-1,234.56', '10.00 EUR' or '5 AAPL @ $12'
+// Amounts in non-currency commodities must have a price.
+function parseLedgerAmount(s: string, currency: string): {amount: number, currency: string} {
+    const [quantity, price] = s.split(/@@?/)
+    const total = s.includes('@@')
+    const match = /^(-?)\s*([^\d\s.,-]*)\s*(-?[\d,]*\.?\d+)\s*([^\d\s.,-]*)$/.exec(quantity.trim())
+    if (!match) {
+        throw new Error(`Invalid amount: ${s}`)
+    }
+
+    const number = match[3].replace(/,/g, '')
+    const sign = match[1] == '-' ? -1 : 1
+    const commodity = (match[2] || match[4]).replace(/"/g, '')
+    if (price != undefined) {
+        const cost = parseLedgerAmount(price, currency)
+        const amount = total ? Math.abs(cost.amount) : Math.round(Math.abs(cost.amount) * parseFloat(number))
+        return {amount: sign * Math.sign(parseFloat(number)) * amount, currency: cost.currency}
+    }
+
+    const code = commodity == '' || commodity == '$' ? currency : (CurrencySymbols[commodity] || commodity)
+    try {
+        return {amount: sign * toSubunits(number, code), currency: code}
+    }
+    catch (e) {
+        throw new Error(`Unknown currency (and no price): ${s}`)
+    }
+}
+
+// Parses a Ledger or hledger journal. Periodic and automated transactions,
+// virtual postings and most directives are ignored.
+export function parseLedger(text: string, currency: string): ForeignImport {
+    const builder = new DocumentBuilder('Ledger')
+    const declared: Record<string, AccountType> = {}
+    let year = String(new Date().getFullYear())
+    let current: {line: number, t: ForeignTransaction, blank: number[]} | undefined
+    let skipping = false
+
+    function account(name: string) {
+        const segments = name.split(':').map(s => s.trim())
+        const top = TopLevelTypes[segments[0].toLowerCase()]
+        const type = declared[name] || top
+        const title = top && segments.length > 1 ? segments.slice(1).join(':') : name
+        return builder.account(name, title, type, segments[0])
+    }
+
+    function finishTransaction() {
+        if (current) {
+            const {line, t, blank} = current
+            const balances: Record<string, number> = {}
+            t.postings.forEach(p => {
+                balances[p.currency] = (balances[p.currency] || 0) + p.amount
+            })
+            const unbalanced = Object.keys(balances).filter(c => balances[c] != 0)
+
+            if (blank.length > 1) {
+                throw new Error(`Line ${line}: Only one posting may omit its amount`)
+            }
+            if (blank.length == 1) {
+                // The posting without an amount takes up the balance(s)
+                const [p] = t.postings.splice(blank[0], 1)
+                unbalanced.forEach(c => {
+                    t.postings.push({...p, amount: -balances[c], currency: c})
+                })
+            }
+            else if (unbalanced.length > 0) {
+                throw new Error(`Line ${line}: Transaction is not balanced`)
+            }
+            builder.transaction(t)
+            current = undefined
+        }
+    }
+
+    text.split(/\r?\n/).forEach((row, index) => {
+        const line = index + 1
+        if (skipping) {
+            skipping = !/^end\s+comment/.test(row)
+            return
+        }
+
+        if (/^\s+\S/.test(row)) {
+            // A posting (or comment or sub-directive)
+            let posting = row.trim()
+            if (!current || /^[;#%|*]/.test(posting) && !/^[*!]\s+[^;\s]/.test(posting)) {
+                return
+            }
+
+            posting = posting.replace(/^[*!]\s*/, '')
+            const commentIndex = posting.indexOf(';')
+            const comment = commentIndex >= 0 ? posting.substring(commentIndex + 1).trim() : ''
+            posting = (commentIndex >= 0 ? posting.substring(0, commentIndex) : posting).trim()
+
+            const [, name, rest] = /^(.+?)(?:(?:\s{2,}|\t)\s*(.*))?$/.exec(posting)!
+            if (/^\(.*\)$/.test(name)) {
+                // Unbalanced virtual posting
+                return
+            }
+
+            const p: ForeignPosting = {
+                account: account(name.replace(/^\[(.*)\]$/, '$1').trim()),
+                amount: 0,
+                currency,
+                description: comment,
+            }
+            const amount = (rest || '').split('=')[0].trim()
+            if (amount) {
+                Object.assign(p, parseLedgerAmount(amount, currency))
+            }
+            else {
+                current.blank.push(current.t.postings.length)
+            }
+            current.t.postings.push(p)
+            return
+        }
+
+        finishTransaction()
+
+        const header = /^(\d[\d/.-]*)(?:=\S+)?(?:\s+(?:[*!]\s*)?(?:\([^)]*\)\s*)?(.*))?$/.exec(row)
+        if (header) {
+            const parts = header[1].split(/[/.-]/)
+            const date = parseStatementDate(parts.length == 2 ? `${year}-${parts[0]}-${parts[1]}` : header[1], 'ymd')
+            if (!date) {
+                throw new Error(`Line ${line}: Invalid date ${header[1]}`)
+            }
+
+            const [payee, ...note] = (header[2] || '').replace(/(^|\s{2,}|\t);.*$/, '').split('|')
+            current = {line, blank: [], t: {
+                date,
+                payee: payee.trim(),
+                description: note.join('|').trim(),
+                postings: [],
+            }}
+        }
+        else if (/^(year|Y)\s*\d{4}/.test(row)) {
+            year = row.replace(/^(year|Y)\s*/, '').trim()
+        }
+        else if (/^account\s/.test(row)) {
+            // hledger account type declarations eg. 'account Assets:Bank  ; type: A'
+            const match = /^account\s+(.+?)(?:\s{2,}|\t|$).*?type:\s*([A-Z])/.exec(row)
+            if (match && LedgerTypes[match[2]]) {
+                declared[match[1]] = LedgerTypes[match[2]]
+            }
+        }
+        else if (/^comment/.test(row)) {
+            skipping = true
+        }
+        else if (/^[~=]/.test(row)) {
+            // Periodic and automated transactions: Skip their postings
+            current = undefined
+        }
+    })
+    finishTransaction()
+
+    return builder.finish()
+}
+
+// Splits a line of an IIF file into fields
+function iifFields(row: string) {
+    return row.split('\t').map(f => f.trim().replace(/^"(.*)"$/, '$1'))
+}
+
+// Parses a QuickBooks IIF file. Accounts, customers, vendors and transactions
+// are imported. Other lists are ignored.
+export function parseIif(text: string, currency: string): ForeignImport {
+    const builder = new DocumentBuilder('QuickBooks IIF')
+    const headers: Record<string, string[]> = {}
+    const types: Record<string, string> = {}
+    let current: ForeignTransaction | undefined
+
+    text.split(/\r?\n/).forEach((row, index) => {
+        const line = index + 1
+        const fields = iifFields(row)
+        const record = fields[0]
+        if (!record) {
+            return
+        }
+        if (record[0] == '!') {
+            headers[record.substring(1)] = fields
+            return
+        }
+
+        const item: Record<string, string> = {}
+        ;(headers[record] || []).forEach((name, i) => {
+            item[name] = fields[i] || ''
+        })
+
+        if (record == 'ACCNT') {
+            types[item.NAME] = item.ACCNTTYPE
+        }
+        else if (record == 'CUST' || record == 'VEND') {
+            const address = [1, 2, 3, 4, 5].map(i => item[`${record == 'CUST' ? 'B' : ''}ADDR${i}`])
+                .filter(s => s).join('\n')
+            builder.actor(item.NAME, record == 'CUST' ? ActorType.Customer : ActorType.Supplier, address)
+        }
+        else if (record == 'TRNS' || record == 'SPL') {
+            if (record == 'TRNS') {
+                const date = parseStatementDate(item.DATE, 'mdy')
+                if (!date) {
+                    throw new Error(`Line ${line}: Invalid date ${item.DATE}`)
+                }
+                current = {date, payee: item.NAME, description: item.MEMO, postings: []}
+            }
+            if (!current) {
+                throw new Error(`Line ${line}: Split without a transaction`)
+            }
+
+            const type = types[item.ACCNT]
+            const mapped = IifTypes[type]
+            current.postings.push({
+                account: builder.account(item.ACCNT, item.ACCNT, mapped, type),
+                amount: parseStatementAmount(item.AMOUNT || '0', currency),
+                currency,
+                description: record == 'SPL' ? item.MEMO : '',
+            })
+        }
+        else if (record == 'ENDTRNS' && current) {
+            const sum = current.postings.reduce((total, p) => total + p.amount, 0)
+            if (sum != 0) {
+                throw new Error(`Line ${line}: Transaction is not balanced`)
+            }
+            builder.transaction(current)
+            current = undefined
+        }
+    })
+
+    return builder.finish()
+}
+
+// The parts of a GnuCash book which are imported
+type GnucashBook = {
+    root: string
+    accounts: {id: string, name: string, type: string, parent: string}[]
+    customers: string[]
+    vendors: string[]
+    transactions: {
+        date: string
+        description: string
+        // Namespace and code eg. 'CURRENCY:USD'
+        currency: string
+        // Amounts are rationals eg. '12345/100'
+        splits: {account: string, memo: string, value: string}[]
+    }[]
+}
+
+// Converts '20200131103000' or '2020-01-31 10:30:00 +0000' into '2020-01-31'
+function gnucashDate(s: string) {
+    const digits = s.replace(/\D/g, '')
+    return digits.length >= 8 ? `${digits.substring(0, 4)}-${digits.substring(4, 6)}-${digits.substring(6, 8)}` : ''
+}
+
+function gnucashImport(book: GnucashBook): ForeignImport {
+    const builder = new DocumentBuilder('GnuCash')
+    const accounts: Record<string, {name: string, type: string, parent: string}> = {}
+    book.accounts.forEach(a => {
+        accounts[a.id] = a
+    })
+
+    // Returns the path of an account (excluding the root) or undefined if
+    // it is not part of the book (ie. a template)
+    function path(id: string): string[] | undefined {
+        const segments = []
+        for (let a = accounts[id]; a; a = accounts[a.parent]) {
+            if (a.type == 'ROOT') {
+                return id == book.root || a == accounts[book.root] ? segments : undefined
+            }
+            segments.unshift(a.name)
+        }
+        return undefined
+    }
+
+    book.customers.forEach(name => builder.actor(name, ActorType.Customer))
+    book.vendors.forEach(name => builder.actor(name, ActorType.Supplier))
+
+    for (let t of book.transactions) {
+        const [space, currency] = t.currency.split(':')
+        if (space != 'CURRENCY' && space != 'ISO4217') {
+            throw new Error(`Unsupported transaction currency: ${t.currency}`)
+        }
+        const date = gnucashDate(t.date)
+        if (!date) {
+            throw new Error(`Invalid date: ${t.date}`)
+        }
+        if (!t.splits.every(s => path(s.account))) {
+            continue
+        }
+
+        builder.transaction({date, payee: t.description, description: '', postings: t.splits.map(s => {
+            const segments = path(s.account)!
+            const {type} = accounts[s.account]
+            const name = segments.join(':')
+            const title = segments.length > 1 && TopLevelTypes[segments[0].toLowerCase()] ?
+                segments.slice(1).join(':') : name
+            const [num, denom] = s.value.split('/')
+            return {
+                account: builder.account(name, title, GnucashTypes[type], type),
+                amount: Math.round(Number(num) * getCurrencyInfo(currency).scale / Number(denom || 1)),
+                currency,
+                description: s.memo,
+            }
+        })})
+    }
+
+    return builder.finish()
+}
+
+// Returns the text content of the first child element with the specified tag name
+function childText(node: Element, tagName: string) {
+    for (let i = 0; i < node.children.length; i++) {
+        if (node.children[i].tagName == tagName) {
+            return node.children[i].textContent || ''
+        }
+    }
+    return ''
+}
+
+function commodityText(node: Element | undefined) {
+    return node ? `${childText(node, 'cmdty:space')}:${childText(node, 'cmdty:id')}` : ''
+}
+
+function childElement(node: Element, tagName: string): Element | undefined {
+    return Array.from(node.children).find(c => c.tagName == tagName)
+}
+
+// Parses an (uncompressed) GnuCash XML book
+export function parseGnucashXml(text: string): ForeignImport {
+    const xml = new DOMParser().parseFromString(text, 'text/xml')
+    if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.tagName != 'gnc-v2') {
+        throw new Error('Not a GnuCash XML file')
+    }
+
+    // Skip anything which is part of scheduled transactions
+    const bookElements = (tagName: string) => Array.from(xml.getElementsByTagName(tagName))
+        .filter(node => !node.parentElement || node.parentElement.tagName != 'gnc:template-transactions')
+
+    const accounts = bookElements('gnc:account').map(node => ({
+        id: childText(node, 'act:id'),
+        name: childText(node, 'act:name'),
+        type: childText(node, 'act:type'),
+        parent: childText(node, 'act:parent'),
+    }))
+    const root = accounts.find(a => a.type == 'ROOT')
+
+    return gnucashImport({
+        root: root ? root.id : '',
+        accounts,
+        customers: bookElements('gnc:GncCustomer').map(node => childText(node, 'cust:name')),
+        vendors: bookElements('gnc:GncVendor').map(node => childText(node, 'vendor:name')),
+        transactions: bookElements('gnc:transaction').map(node => {
+            const posted = childElement(node, 'trn:date-posted')
+            const splits = childElement(node, 'trn:splits')
+            return {
+                date: posted ? childText(posted, 'ts:date') : '',
+                description: childText(node, 'trn:description'),
+                currency: commodityText(childElement(node, 'trn:currency')),
+                splits: (splits ? Array.from(splits.children) : []).map(split => ({
+                    account: childText(split, 'split:account'),
+                    memo: childText(split, 'split:memo'),
+                    value: childText(split, 'split:value'),
+                })),
+            }
+        }),
+    })
+}
+
+// Parses a GnuCash sqlite book
+export async function parseGnucashSqlite(data: Uint8Array): Promise<ForeignImport> {
+    // sql.js is large, so only load it when needed
+    const {default: initSqlJs} = await import('sql.js/dist/sql-asm.js')
+    const SQL = await initSqlJs()
+    const db = new SQL.Database(data)
+    try {
+        const select = (sql: string): Record<string, any>[] => {
+            const [result] = db.exec(sql)
+            return result ? result.values.map(values => {
+                const row: Record<string, any> = {}
+                result.columns.forEach((column, i) => {
+                    row[column] = values[i]
+                })
+                return row
+            }) : []
+        }
+
+        const tables = select(`SELECT name FROM sqlite_master WHERE type = 'table'`).map(row => row.name)
+        if (!['books', 'accounts', 'transactions', 'splits', 'commodities'].every(name => tables.includes(name))) {
+            throw new Error('Not a GnuCash file')
+        }
+
+        const splits: Record<string, GnucashBook['transactions'][0]['splits']> = {}
+        select('SELECT tx_guid, account_guid, memo, value_num, value_denom FROM splits ORDER BY rowid').forEach(row => {
+            splits[row.tx_guid] = splits[row.tx_guid] || []
+            splits[row.tx_guid].push({account: row.account_guid, memo: row.memo || '',
+                value: `${row.value_num}/${row.value_denom}`})
+        })
+
+        return gnucashImport({
+            root: select('SELECT root_account_guid FROM books')[0].root_account_guid,
+            accounts: select('SELECT guid, name, account_type, parent_guid FROM accounts').map(row => ({
+                id: row.guid, name: row.name, type: row.account_type, parent: row.parent_guid || '',
+            })),
+            customers: tables.includes('customers') ? select('SELECT name FROM customers').map(row => row.name) : [],
+            vendors: tables.includes('vendors') ? select('SELECT name FROM vendors').map(row => row.name) : [],
+            transactions: select(`SELECT t.guid, t.post_date, t.description, c.namespace, c.mnemonic
+                FROM transactions t LEFT JOIN commodities c ON c.guid = t.currency_guid
+                ORDER BY t.post_date, t.enter_date`).map(row => ({
+                date: row.post_date || '',
+                description: row.description || '',
+                currency: `${row.namespace}:${row.mnemonic}`,
+                splits: splits[row.guid] || [],
+            })),
+        })
+    }
+    finally {
+        db.close()
+    }
+}
+
+// Parses a GnuCash book, which may be sqlite, XML or compressed XML
+export async function parseGnucash(data: Uint8Array): Promise<ForeignImport> {
+    const magic = String.fromCharCode(...Array.from(data.subarray(0, 15)))
+    if (magic == 'SQLite format 3') {
+        return parseGnucashSqlite(data)
+    }
+
+    if (data[0] == 0x1f && data[1] == 0x8b) {
+        const Decompressor = typeof window != 'undefined' && (window as any).DecompressionStream
+        if (!Decompressor) {
+            return Promise.reject('Compressed GnuCash files are not supported. ' +
+                'In GnuCash, turn off compression in Preferences and save the book again.')
+        }
+        const stream = new Blob([data]).stream().pipeThrough<Uint8Array>(new Decompressor('gzip'))
+        data = new Uint8Array(await new Response(stream).arrayBuffer())
+    }
+    return parseGnucashXml(new TextDecoder().decode(data))
+}
@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { DatedRate, exchangeRates } from './currency'
+import { ExchangeRate } from './ExchangeRate'
+import { convertElements } from './year-end-close'
+import { AccountType } from './Account'
+import { Element } from './Element'
+import { TransactionType } from './Transaction'
+
+export type GeneralLedgerItem = {
+    id: number
+    txnId: number
+    txnType: TransactionType
+    txnDate: string
+    txnDescription: string
+    actorTitle: string
+    description: string
+    // Only one of debit or credit is non-zero
+    debit: number
+    credit: number
+    // Running balance. Debit balances are positive, credit balances are negative.
+    balance: number
+}
+
+export type GeneralLedgerAccount = {
+    accountId: number
+    accountTitle: string
+    accountType: AccountType
+    currency: string
+    openingBalance: number
+    items: GeneralLedgerItem[]
+    closingBalance: number
+    totalDebits: number
+    totalCredits: number
+}
+
+export type GeneralLedger = {
+    startDate: string
+    endDate: string
+    exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
+    accounts: GeneralLedgerAccount[]
+}
+
+// Lists every element of every account (or just `accountId`), with opening,
+// running and closing balances, for each currency
+export async function generalLedger(startDate: string, endDate: string, accountId?: number, currency?: string) : Promise<GeneralLedger> {
+    const query = Element.query()
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('account', 'txnElement.accountId', 'account.id')
+        .leftJoin('actor', 'txn.actorId', 'actor.id')
+        .select('txnElement.*',
+            'txn.id as txnId', 'txn.type as txnType', 'txn.date as txnDate', 'txn.description as txnDescription',
+            'actor.title as actorTitle',
+            'account.Id as accountId', 'account.title as accountTitle', 'account.type as accountType')
+        .where('txn.date', '<=', endDate)
+        .orderBy([{column: 'txn.date', order: 'asc'}, {column: 'txn.id', order: 'asc'}, {column: 'txnElement.id', order: 'asc'}])
+    // Converting closing transactions involves every account they close
+    if (accountId && !currency) {
+        query.where('txnElement.accountId', accountId)
+    }
+    let elements = await query
+
+    const result: GeneralLedger = {startDate, endDate, exchangeRates: {}, rates: [], accounts: []}
+
+    // Maybe convert currency, using the exchange rate on each transaction's date
+    if (currency) {
+        const history = await ExchangeRate.history()
+        convertElements(elements, currency, history)
+
+        result.exchangeRates = exchangeRates()
+        result.rates = history.usedRates()
+        if (accountId) {
+            elements = elements.filter(e => e.accountId == accountId)
+        }
+    }
+
+    const accounts: Record<string, GeneralLedgerAccount> = {}
+    elements.forEach(element => {
+        const e: any = element
+        const key = `${e.accountId}-${e.currency}`
+        if (!accounts[key]) {
+            accounts[key] = {
+                accountId: e.accountId,
+                accountTitle: e.accountTitle,
+                accountType: e.accountType,
+                currency: e.currency,
+                openingBalance: 0,
+                items: [],
+                closingBalance: 0,
+                totalDebits: 0,
+                totalCredits: 0,
+            }
+        }
+
+        const account = accounts[key]
+        account.closingBalance += e.drcr * e.amount
+        if (e.txnDate < startDate) {
+            // Before startDate: Only counts towards the opening balance
+            account.openingBalance = account.closingBalance
+            return
+        }
+
+        const debit = e.drcr > 0 ? e.amount : 0
+        const credit = e.drcr > 0 ? 0 : e.amount
+        account.totalDebits += debit
+        account.totalCredits += credit
+        account.items.push({
+            id: e.id,
+            txnId: e.txnId,
+            txnType: e.txnType,
+            txnDate: e.txnDate,
+            txnDescription: e.txnDescription || '',
+            actorTitle: e.actorTitle || '',
+            description: e.description || '',
+            debit,
+            credit,
+            balance: account.closingBalance,
+        })
+    })
+
+    result.accounts = Object.values(accounts).filter(account => {
+        return account.items.length > 0 || account.openingBalance != 0
+    }).sort((a, b) => {
+        if (a.accountId == b.accountId) {
+            return a.currency < b.currency ? -1 : a.currency > b.currency ? 1 : 0
+        }
+        return a.accountId - b.accountId
+    })
+    return result
+}
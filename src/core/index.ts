@@ -7,18 +7,49 @@ export * from './settings'
 export {default as Preferences} from './preferences'
 export { Project } from './Project'
 export { Variables } from './Variables'
+export { UndoHistory } from './undo'
 export { Base } from './Base'
 export { Account, AccountType } from './Account'
 export { Actor, ActorType } from './Actor'
 export { Transaction, TransactionType } from './Transaction'
-export { Element, IElement } from './Element'
+export { Element, IElement, ReconcileStatus } from './Element'
+export { AuditLog } from './AuditLog'
+export { Recurring, RecurringFrequency } from './Recurring'
+export { Budget } from './Budget'
+export { ExchangeRate, parseExchangeRates } from './ExchangeRate'
+export { Attachment, MAX_ATTACHMENT_SIZE } from './Attachment'
+export { Statement, StatementFormat } from './Statement'
+export { StatementLine, IStatementLine, MatchCandidate } from './StatementLine'
 export { LOCALE } from './locale'
 export { dateFormatString, isDateOnly, toDateOnly, formatDateOnly,
-  fiscalYearStart, lastSavedDate, DatePreset, datePresetDates } from './date'
+  fiscalYearStart, fiscalYearDates, lockDate, isLocked, lastSavedDate, DatePreset, datePresetDates,
+  DateComparison, comparisonDates } from './date'
 export { parseISO } from 'date-fns'
 export { getCurrencyInfo, toFormatted, toFormattedAbs, parseFormatted,
-  CurrencyConvertable, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+  CurrencyConvertable, DatedRate, RateHistory, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
 export { regionName, TaxCodeInfo, TaxAuthority, taxAuthorities, activeTaxAuthorities, hasActiveTaxAuthority, baseTaxCodes, TaxInputs, TaxOutputs, calculateTaxes } from './tax'
 export { ProfitAndLoss, profitAndLoss } from './profit-and-loss'
 export { BalanceSheet, balanceSheet } from './balance-sheet'
+export { CashFlowLine, CashFlow, isCashAccount, cashFlow } from './cash-flow'
+export { TrialBalanceLine, TrialBalance, trialBalance } from './trial-balance'
+export { GeneralLedgerItem, GeneralLedgerAccount, GeneralLedger, generalLedger } from './general-ledger'
+export { ComparativeLine, Variance, comparativeLines, comparativeTotals, variance } from './comparative'
+export { BudgetLine, BudgetTotal, BudgetVsActual, budgetVsActual } from './budget-vs-actual'
 export { TaxItem, TaxItemGroup, taxItems } from './transaction-taxes'
+export { closingTransaction, closeYear, reopenYear } from './year-end-close'
+export { RevaluationItem, revaluationTransactions, unrealisedGains, revalue, removeRevaluation } from './revaluation'
+export { DateOrder, CsvMapping, parseCsv, parseStatementDate, parseStatementAmount,
+  csvStatementLines, parseOfx, parseQif } from './bank-import'
+export { AgedBuckets, AgedItem, AgedActorBalance, AgedBalances, agedBalances } from './aged-balances'
+export { ActorStatementItem, ActorStatementCurrency, ActorStatement, actorStatement } from './actor-statement'
+export { ReconcileItem, Reconciliation, ReconciliationReport, lastReconciliation, reconciliation,
+  setCleared, reconcile, reconciliationReport } from './reconciliation'
+export { Cell, toCsv, toXlsx } from './spreadsheet'
+export { toNumber, profitAndLossRows, balanceSheetRows, cashFlowRows, trialBalanceRows, generalLedgerRows,
+  agedBalancesRows, budgetVsActualRows, taxItemRows } from './export'
+export { INTERCHANGE_FORMAT, INTERCHANGE_VERSION, InterchangeAccount, InterchangeActor, InterchangeTax, InterchangeElement,
+  InterchangeTransaction, InterchangeDocument, InterchangeImportResult,
+  exportInterchange, validateInterchange, importInterchange } from './interchange'
+export { ForeignFormat, ForeignFormatInfo, UnmappedAccount, ForeignImport, foreignFormat, parseForeign,
+  parseLedger, parseIif, parseGnucashXml, parseGnucashSqlite, parseGnucash } from './foreign-import'
+export { ledgerAccountName, ledgerAmount, exportLedger } from './ledger-export'
@@ -0,0 +1,372 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+import { Project } from './Project'
+import { Account, AccountType } from './Account'
+import { Actor, ActorType } from './Actor'
+import { Element, IElement } from './Element'
+import { Transaction, TransactionType } from './Transaction'
+import { isDateOnly } from './date'
+import { VERSION } from './settings'
+
+// An open (JSON) interchange format for a whole set of books. Ids within a
+// document are only used for cross-referencing. They are remapped on import.
+
+export const INTERCHANGE_FORMAT = 'gigobooks'
+export const INTERCHANGE_VERSION = 1
+
+// Variables which are specific to a session or a file, and hence not exported
+const LOCAL_VARIABLES = ['mru', 'lastSavedDate']
+
+export type InterchangeAccount = {
+    id: number
+    title: string
+    type: AccountType
+}
+
+export type InterchangeActor = {
+    id: number
+    title: string
+    type: ActorType
+    taxIdLabel?: string
+    taxId?: string
+    address?: string
+}
+
+export type InterchangeTax = {
+    description?: string
+    accountId: number
+    drcr: number
+    amount: number
+    currency: string
+    taxCode: string
+}
+
+export type InterchangeElement = {
+    description?: string
+    accountId: number
+    drcr: number
+    amount: number
+    currency: string
+    // Id of the (document) transaction which this element settles
+    settleId?: number
+    taxCode?: string
+    useGross?: number
+    // Tax components of this element
+    taxes?: InterchangeTax[]
+}
+
+export type InterchangeTransaction = {
+    id: number
+    type: TransactionType
+    date: string
+    due?: string
+    description?: string
+    actorId?: number
+    elements: InterchangeElement[]
+}
+
+export type InterchangeDocument = {
+    format: string
+    version: number
+    generator?: string
+    exportedAt?: string
+    variables: Record<string, any>
+    accounts: InterchangeAccount[]
+    actors: InterchangeActor[]
+    transactions: InterchangeTransaction[]
+}
+
+export type InterchangeImportResult = {
+    // Number of records created
+    accounts: number
+    actors: number
+    transactions: number
+}
+
+// Removes undefined, null and empty string fields
+function compact<T extends object>(obj: T): T {
+    const result: any = {}
+    Object.keys(obj).forEach(key => {
+        const value = (obj as any)[key]
+        if (value != undefined && value !== '') {
+            result[key] = value
+        }
+    })
+    return result
+}
+
+export async function exportInterchange(trx?: TransactionOrKnex): Promise<InterchangeDocument> {
+    const variables: Record<string, any> = {}
+    Object.keys(Project.variables.cache).forEach(name => {
+        if (!LOCAL_VARIABLES.includes(name)) {
+            variables[name] = Project.variables.get(name)
+        }
+    })
+
+    const accounts = await Account.query(trx).orderBy('id')
+    const actors = await Actor.query(trx).orderBy('id')
+    const transactions = await Transaction.query(trx).orderBy('id').withGraphFetched('elements')
+
+    return {
+        format: INTERCHANGE_FORMAT,
+        version: INTERCHANGE_VERSION,
+        generator: VERSION,
+        exportedAt: new Date().toISOString(),
+        variables,
+        accounts: accounts.map(a => ({id: a.id!, title: a.title!, type: a.type!})),
+        actors: actors.map(a => compact({
+            id: a.id!, title: a.title!, type: a.type!,
+            taxIdLabel: a.taxIdLabel, taxId: a.taxId, address: a.address,
+        })),
+        transactions: transactions.map(t => {
+            const elements: InterchangeElement[] = []
+            const parents: Record<number, InterchangeElement> = {}
+            t.elements!.forEach(e => {
+                if (!e.parentId) {
+                    parents[e.id!] = compact({
+                        description: e.description,
+                        accountId: e.accountId!,
+                        drcr: e.drcr!,
+                        amount: e.amount!,
+                        currency: e.currency!,
+                        settleId: e.settleId || undefined,
+                        taxCode: e.taxCode,
+                        useGross: e.useGross || undefined,
+                    })
+                    elements.push(parents[e.id!])
+                }
+            })
+            t.elements!.forEach(e => {
+                if (e.parentId && parents[e.parentId]) {
+                    const parent = parents[e.parentId]
+                    parent.taxes = parent.taxes || []
+                    parent.taxes.push(compact({
+                        description: e.description,
+                        accountId: e.accountId!,
+                        drcr: e.drcr!,
+                        amount: e.amount!,
+                        currency: e.currency!,
+                        taxCode: e.taxCode!,
+                    }))
+                }
+            })
+
+            return compact({
+                id: t.id!,
+                type: t.type!,
+                date: t.date!,
+                due: t.due,
+                description: t.description,
+                actorId: t.actorId || undefined,
+                elements,
+            })
+        }),
+    }
+}
+
+// Checks the structure and integrity of a document. Rejects with a description
+// of the first problem found.
+export async function validateInterchange(doc: any): Promise<InterchangeDocument> {
+    if (!doc || typeof doc != 'object' || doc.format != INTERCHANGE_FORMAT) {
+        return Promise.reject('Not a Gig\'o\'Books interchange document')
+    }
+    if (typeof doc.version != 'number' || doc.version > INTERCHANGE_VERSION) {
+        return Promise.reject(`Unsupported version: ${doc.version}`)
+    }
+    for (let field of ['accounts', 'actors', 'transactions']) {
+        if (!Array.isArray(doc[field])) {
+            return Promise.reject(`Missing ${field}`)
+        }
+    }
+    if (doc.variables != undefined && typeof doc.variables != 'object') {
+        return Promise.reject('Invalid variables')
+    }
+
+    const accountIds = new Set<number>()
+    for (let a of doc.accounts) {
+        if (typeof a.id != 'number' || !a.title || !Account.TypeInfo[a.type]) {
+            return Promise.reject(`Invalid account: ${JSON.stringify(a)}`)
+        }
+        accountIds.add(a.id)
+    }
+
+    const actorIds = new Set<number>()
+    for (let a of doc.actors) {
+        if (typeof a.id != 'number' || !a.title || !Actor.TypeInfo[a.type]) {
+            return Promise.reject(`Invalid customer or supplier: ${JSON.stringify(a)}`)
+        }
+        actorIds.add(a.id)
+    }
+
+    const transactionIds = new Set<number>(doc.transactions.map((t: any) => t.id))
+    for (let t of doc.transactions) {
+        const label = `Transaction ${t.id}`
+        if (typeof t.id != 'number' || !Transaction.TypeInfo[t.type]) {
+            return Promise.reject(`${label}: Invalid id or type`)
+        }
+        if (!isDateOnly(t.date) || (t.due && !isDateOnly(t.due))) {
+            return Promise.reject(`${label}: Invalid date`)
+        }
+        if (t.actorId && !actorIds.has(t.actorId)) {
+            return Promise.reject(`${label}: Unknown customer or supplier ${t.actorId}`)
+        }
+        if (!Array.isArray(t.elements) || t.elements.length == 0) {
+            return Promise.reject(`${label}: No elements`)
+        }
+
+        const flat: IElement[] = []
+        for (let e of t.elements) {
+            for (let item of [e, ...(Array.isArray(e.taxes) ? e.taxes : [])]) {
+                if (!accountIds.has(item.accountId)) {
+                    return Promise.reject(`${label}: Unknown account ${item.accountId}`)
+                }
+                if ((item.drcr != Transaction.Debit && item.drcr != Transaction.Credit) ||
+                    !Number.isInteger(item.amount) || typeof item.currency != 'string' || !item.currency) {
+                    return Promise.reject(`${label}: Invalid element`)
+                }
+                flat.push(item)
+            }
+            if (e.settleId && !transactionIds.has(e.settleId)) {
+                return Promise.reject(`${label}: Unknown settled transaction ${e.settleId}`)
+            }
+        }
+        if (!Transaction.isBalanced(flat)) {
+            return Promise.reject(`${label}: Not balanced`)
+        }
+    }
+
+    return doc as InterchangeDocument
+}
+
+// Imports a document. By default, the project must not have any transactions
+// and the document's settings (variables) replace the project's settings.
+// If `merge` is true, transactions are added to the existing ones and project
+// settings are kept (except that any new currencies are added).
+//
+// Reserved accounts are matched by id. Other accounts, and customers/suppliers,
+// are matched by title and type. Anything not matched is created.
+export async function importInterchange(data: any, merge = false): Promise<InterchangeImportResult> {
+    const doc = await validateInterchange(data)
+    const {result, currencies} = await Base.transaction(trx => importRecords(doc, merge, trx))
+
+    // Variables are not part of the database transaction, so do them afterwards
+    if (merge) {
+        const currency = Project.variables.get('currency')
+        const others: string[] = Project.variables.get('otherCurrencies')
+        const added = currencies.filter(c => c != currency && !others.includes(c)).sort()
+        if (added.length > 0) {
+            await Project.variables.set('otherCurrencies', [...others, ...added])
+        }
+    }
+    else if (doc.variables) {
+        const variables: Record<string, any> = {}
+        Object.keys(doc.variables).forEach(name => {
+            if (!LOCAL_VARIABLES.includes(name)) {
+                variables[name] = doc.variables[name]
+            }
+        })
+        await Project.variables.setMultiple(variables)
+    }
+
+    return result
+}
+
+async function importRecords(doc: InterchangeDocument, merge: boolean, trx: TransactionOrKnex) {
+    if (!merge) {
+        const count = await Transaction.query(trx).resultSize()
+        if (count > 0) {
+            return Promise.reject('This project already has transactions. Merge instead.')
+        }
+    }
+
+    const result: InterchangeImportResult = {accounts: 0, actors: 0, transactions: 0}
+    const key = (title: string, type: string) => `${type}:${title.trim().toLowerCase()}`
+
+    // Accounts
+    const accountMap: Record<number, number> = {}
+    const existingAccounts: Record<string, number> = {}
+    ;(await Account.query(trx)).forEach(a => {
+        existingAccounts[a.isReserved ? `${a.id}` : key(a.title!, a.type!)] = a.id!
+    })
+    for (let a of doc.accounts) {
+        const reserved = Account.construct({id: a.id}).isReserved
+        const existing = existingAccounts[reserved ? `${a.id}` : key(a.title, a.type)]
+        if (existing) {
+            accountMap[a.id] = existing
+        }
+        else if (reserved) {
+            return Promise.reject(`Unknown reserved account ${a.id}`)
+        }
+        else {
+            const account = Account.construct({title: a.title, type: a.type})
+            await account.save(trx)
+            accountMap[a.id] = account.id!
+            existingAccounts[key(a.title, a.type)] = account.id!
+            result.accounts++
+        }
+    }
+
+    // Customers and suppliers
+    const actorMap: Record<number, number> = {}
+    const existingActors: Record<string, number> = {}
+    ;(await Actor.query(trx)).forEach(a => {
+        existingActors[key(a.title!, a.type!)] = a.id!
+    })
+    for (let a of doc.actors) {
+        const existing = existingActors[key(a.title, a.type)]
+        if (existing) {
+            actorMap[a.id] = existing
+        }
+        else {
+            const actor = Actor.construct({title: a.title, type: a.type, taxIdLabel: a.taxIdLabel || '',
+                taxId: a.taxId || '', address: a.address || ''})
+            await actor.save(trx)
+            actorMap[a.id] = actor.id!
+            existingActors[key(a.title, a.type)] = actor.id!
+            result.actors++
+        }
+    }
+
+    // Transactions. Settlements may refer to transactions which haven't been
+    // imported yet, so they are filled in afterwards.
+    const transactionMap: Record<number, number> = {}
+    const settlements: {element: Element, settleId: number}[] = []
+    const currencies = new Set<string>()
+    for (let t of doc.transactions) {
+        const list: IElement[] = []
+        t.elements.forEach(e => {
+            list.push({description: e.description || '', accountId: accountMap[e.accountId], drcr: e.drcr,
+                amount: e.amount, currency: e.currency, taxCode: e.taxCode || '', useGross: e.useGross || 0})
+            ;(e.taxes || []).forEach(tax => {
+                list.push({description: tax.description || '', accountId: accountMap[tax.accountId], drcr: tax.drcr,
+                    amount: tax.amount, currency: tax.currency, taxCode: tax.taxCode || '', parentId: -1})
+            })
+            currencies.add(e.currency)
+        })
+
+        const transaction = Transaction.construct({type: t.type, date: t.date, due: t.due || '',
+            description: t.description || '', actorId: t.actorId ? actorMap[t.actorId] : 0})
+        await transaction.mergeElements(list)
+        await transaction.save(trx)
+        transactionMap[t.id] = transaction.id!
+        result.transactions++
+
+        // Parents are saved in order, so they line up with the document's elements
+        const parents = transaction.elements!.filter(e => !e.parentId)
+        t.elements.forEach((e, index) => {
+            // Zero amount elements are not saved
+            if (e.settleId && parents[index].id) {
+                settlements.push({element: parents[index], settleId: e.settleId})
+            }
+        })
+    }
+
+    for (let {element, settleId} of settlements) {
+        await Element.query(trx).patch({settleId: transactionMap[settleId]}).where('id', element.id!)
+    }
+
+    return {result, currencies: [...currencies]}
+}
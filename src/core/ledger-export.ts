@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// Exports books as a plain-text journal which can be read by Ledger and
+// hledger. Account names are '<type group>:<title>' eg. 'Asset:Cash'.
+
+import { TransactionOrKnex } from './Base'
+import { Project } from './Project'
+import { Account } from './Account'
+import { Actor } from './Actor'
+import { Element } from './Element'
+import { Transaction } from './Transaction'
+import { getCurrencyInfo } from './currency'
+import { VERSION } from './settings'
+
+// hledger account type codes for each type group
+const LedgerTypes: Record<string, string> = {
+    [Account.Asset]: 'A',
+    [Account.Liability]: 'L',
+    [Account.Equity]: 'E',
+    [Account.Revenue]: 'R',
+    [Account.Expense]: 'X',
+}
+
+// Amounts are right aligned to this column
+const AMOUNT_COLUMN = 60
+
+// Returns the journal name of an account. Runs of whitespace would end the
+// name, so they are collapsed. ':' separates subaccounts, so it is replaced.
+export function ledgerAccountName(account: Account) {
+    const label = Account.TypeGroupInfo[account.typeGroup].label
+    return `${label}:${account.title!.replace(/\s*:\s*/g, ' - ').replace(/\s+/g, ' ').trim()}`
+}
+
+// Formats an amount (in subunits) eg. '-1234.50 USD'
+export function ledgerAmount(amount: number, currency: string) {
+    const scale = getCurrencyInfo(currency).scale
+    const digits = String(scale).length - 1
+    const abs = Math.abs(amount)
+    const fraction = digits > 0 ? `.${String(abs % scale).padStart(digits, '0')}` : ''
+    return `${amount < 0 ? '-' : ''}${Math.floor(abs / scale)}${fraction} ${currency}`
+}
+
+// Single line text which can't be mistaken for a comment
+function singleLine(s: string | undefined) {
+    return (s || '').replace(/\s+/g, ' ').trim()
+}
+
+function posting(name: string, amount: number, currency: string, comments: string[] = []) {
+    const value = ledgerAmount(amount, currency)
+    const padding = ' '.repeat(Math.max(2, AMOUNT_COLUMN - 4 - name.length - value.length))
+    const comment = comments.filter(c => c).join(', ')
+    return `    ${name}${padding}${value}${comment ? `  ; ${comment}` : ''}`
+}
+
+// Exports transactions dated between `startDate` and `endDate` (inclusive).
+// Either can be omitted. If there is a start date, balances before then are
+// exported as a single opening balances entry, with previous profit (or loss)
+// going to Retained Earnings.
+export async function exportLedger(startDate?: string, endDate?: string, trx?: TransactionOrKnex): Promise<string> {
+    const accounts: Record<number, Account> = {}
+    ;(await Account.query(trx).orderBy('id')).forEach(a => {
+        accounts[a.id!] = a
+    })
+    // Accounts with the same name would be merged, so the id is appended
+    // to tell them apart
+    const names: Record<number, string> = {}
+    const counts: Record<string, number> = {}
+    Object.values(accounts).forEach(a => {
+        names[a.id!] = ledgerAccountName(a)
+        counts[names[a.id!]] = (counts[names[a.id!]] || 0) + 1
+    })
+    Object.values(accounts).forEach(a => {
+        if (counts[names[a.id!]] > 1) {
+            names[a.id!] = `${names[a.id!]} (${a.id})`
+        }
+    })
+    const name = (id: number) => names[id]
+    const actors: Record<number, string> = {}
+    ;(await Actor.query(trx)).forEach(a => {
+        actors[a.id!] = a.title!
+    })
+
+    const lines = [
+        `; ${singleLine(Project.variables.get('title'))}`,
+        `; Exported by Gig'o'Books ${VERSION}`,
+        '',
+        ...Object.keys(accounts).map(id => {
+            const account = accounts[Number(id)]
+            return `account ${name(account.id!)}  ; type: ${LedgerTypes[account.typeGroup]}`
+        }),
+        '',
+    ]
+
+    if (startDate) {
+        const elements = await Element.query(trx)
+            .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+            .select('txnElement.*')
+            .where('txn.date', '<', startDate)
+
+        // Balances by account and currency. Revenue and expenses are closed
+        // to Retained Earnings.
+        const balances: Record<number, Record<string, number>> = {}
+        elements.forEach(e => {
+            const group = accounts[e.accountId!].typeGroup
+            const accountId = group == Account.Revenue || group == Account.Expense ?
+                Account.Reserved.RetainedEarnings : e.accountId!
+            balances[accountId] = balances[accountId] || {}
+            balances[accountId][e.currency!] = (balances[accountId][e.currency!] || 0) + e.drcr! * e.amount!
+        })
+
+        const postings: string[] = []
+        Object.keys(balances).map(Number).sort((a, b) => a - b).forEach(accountId => {
+            Object.keys(balances[accountId]).sort().forEach(currency => {
+                if (balances[accountId][currency] != 0) {
+                    postings.push(posting(name(accountId), balances[accountId][currency], currency))
+                }
+            })
+        })
+        if (postings.length > 0) {
+            lines.push(`${startDate} Opening balances`, ...postings, '')
+        }
+    }
+
+    let query = Transaction.query(trx).orderBy(['date', 'id']).withGraphFetched('elements')
+    if (startDate) {
+        query = query.where('date', '>=', startDate)
+    }
+    if (endDate) {
+        query = query.where('date', '<=', endDate)
+    }
+
+    for (let t of await query) {
+        const postings = t.elements!.filter(e => e.amount != 0).map(e => {
+            return posting(name(e.accountId!), e.drcr! * e.amount!, e.currency!,
+                [singleLine(e.description), e.taxCode ? `tax:${e.taxCode}` : ''])
+        })
+        if (postings.length == 0) {
+            continue
+        }
+
+        const description = singleLine(t.description)
+        const payee = singleLine(actors[t.actorId!])
+        const tags = [`type:${t.type}`, t.due ? `due:${t.due}` : ''].filter(tag => tag).join(', ')
+        const header = `${t.date} (${t.id}) ${payee && description ? `${payee} | ${description}` : payee || description}`
+        lines.push(`${header.trim()}  ; ${tags}`, ...postings, '')
+    }
+
+    return lines.join('\n')
+}
@@ -0,0 +1,24 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    const exists = await knex.schema.hasTable('audit_log')
+    if (!exists) {
+        await knex.schema.createTable('audit_log', t => {
+            t.integer('id').notNullable().primary()
+            t.text('action')
+            t.text('target')
+            t.text('targetId')
+            t.text('before')
+            t.text('after')
+            t.text('user')
+            t.text('createdAt')
+            t.index(['target', 'targetId'])
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    const exists = await knex.schema.hasTable('recurring')
+    if (!exists) {
+        await knex.schema.createTable('recurring', t => {
+            t.integer('id').notNullable().primary()
+            t.text('title')
+            t.text('type')
+            t.text('data')
+            t.text('frequency')
+            t.integer('interval').defaultTo(1)
+            t.text('startDate')
+            t.text('endDate')
+            t.integer('dueDays').defaultTo(0)
+            t.integer('count').defaultTo(0)
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,37 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    if (!await knex.schema.hasTable('statement')) {
+        await knex.schema.createTable('statement', t => {
+            t.integer('id').notNullable().primary()
+            t.integer('accountId').index()
+            t.text('title')
+            t.text('format')
+            t.text('currency')
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+
+    if (!await knex.schema.hasTable('statement_line')) {
+        await knex.schema.createTable('statement_line', t => {
+            t.integer('id').notNullable().primary()
+            t.integer('statementId').index()
+            t.text('date')
+            t.text('description')
+            t.text('reference')
+            t.integer('amount')
+            t.text('currency')
+            t.integer('elementId').index().defaultTo(0)
+            t.integer('reconciled').defaultTo(0)
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,18 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+import { maybeAddColumn } from '../database'
+
+export async function up(knex: Knex): Promise<any> {
+    await maybeAddColumn(knex, 'txn_element', 'reconcile_status', 'text')
+    await maybeAddColumn(knex, 'txn_element', 'reconcile_date', 'text')
+    await maybeAddColumn(knex, 'txn_element', 'statement_id', 'integer', {index: true})
+
+    // A statement is also created when an account is reconciled by hand
+    await maybeAddColumn(knex, 'statement', 'end_date', 'text')
+    await maybeAddColumn(knex, 'statement', 'balance', 'integer')
+}
+
+export async function down(knex: Knex): Promise<any> {}
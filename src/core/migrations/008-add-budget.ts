@@ -0,0 +1,21 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    if (!await knex.schema.hasTable('budget')) {
+        await knex.schema.createTable('budget', t => {
+            t.integer('id').notNullable().primary()
+            t.integer('accountId').index()
+            t.text('date').index()
+            t.integer('amount')
+            t.text('currency')
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,24 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    if (!await knex.schema.hasTable('attachment')) {
+        await knex.schema.createTable('attachment', t => {
+            t.integer('id').notNullable().primary()
+            t.integer('transactionId').index()
+            t.integer('actorId').index()
+            t.text('filename')
+            t.text('mimeType')
+            t.integer('size')
+            // Base64 encoded. See Attachment.ts
+            t.text('data')
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,21 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+
+export async function up(knex: Knex): Promise<any> {
+    if (!await knex.schema.hasTable('exchange_rate')) {
+        await knex.schema.createTable('exchange_rate', t => {
+            t.integer('id').notNullable().primary()
+            t.text('date').index()
+            t.text('from')
+            t.text('to')
+            t.text('rate')
+            t.text('updatedAt')
+            t.text('createdAt')
+        })
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
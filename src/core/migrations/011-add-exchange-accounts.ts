@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+import Account from '../Account'
+
+// Accounts for foreign exchange gains and losses
+const data = [
+    {id: Account.Reserved.CurrencyTrading, title: 'Currency Trading', type: 'equity'},
+    {id: Account.Reserved.ExchangeGain, title: 'Foreign Exchange Gain', type: 'gain'},
+    {id: Account.Reserved.ExchangeLoss, title: 'Foreign Exchange Loss', type: 'loss'},
+]
+
+export async function up(knex: Knex): Promise<any> {
+    const now = new Date()
+    for (let item of data) {
+        const a = await Account.query(knex).findById(item.id)
+        if (!a) {
+            await knex('account').insert({...item, updatedAt: now, createdAt: now })
+        }
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import * as Knex from 'knex'
+import Account from '../Account'
+
+// Accounts for owner drawings and dividends
+const data = [
+    {id: Account.Reserved.DividendsPayable, title: 'Dividends Payable', type: 'liability'},
+    {id: Account.Reserved.Drawings, title: 'Owner Drawings', type: 'equity'},
+    {id: Account.Reserved.Dividends, title: 'Dividends', type: 'equity'},
+]
+
+export async function up(knex: Knex): Promise<any> {
+    const now = new Date()
+    for (let item of data) {
+        const a = await Account.query(knex).findById(item.id)
+        if (!a) {
+            await knex('account').insert({...item, updatedAt: now, createdAt: now })
+        }
+    }
+}
+
+export async function down(knex: Knex): Promise<any> {}
@@ -2,7 +2,8 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { CurrencyConvertable, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+import { CurrencyConvertable, DatedRate, RateHistory, convertCurrency, exchangeRates, Money, addSubtractMoney } from './currency'
+import { ExchangeRate } from './ExchangeRate'
 import { Account, AccountType } from './Account'
 import { Element } from './Element'
 import { Transaction, TransactionType } from './Transaction'
@@ -61,6 +62,8 @@ type ProfitAndLoss = {
     startDate: string
     endDate: string
     exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
     hasOperations: boolean
     operations: Division
     hasDepreciation: boolean
@@ -74,7 +77,10 @@ type ProfitAndLoss = {
 
 export { Item, Money, Account, Division, ProfitAndLoss }
 
-export async function profitAndLoss(startDate: string, endDate: string, currency?: string) : Promise<ProfitAndLoss> {
+// If `currency` is supplied, amounts are converted using the exchange rate on each
+// transaction's date or, if supplied, on `rateDate`. An already loaded `history`
+// may be supplied.
+export async function profitAndLoss(startDate: string, endDate: string, currency?: string, rateDate?: string, history0?: RateHistory) : Promise<ProfitAndLoss> {
     const elements = await Element.query()
         .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
         .leftJoin('account', 'txnElement.accountId', 'account.id')
@@ -89,12 +95,15 @@ export async function profitAndLoss(startDate: string, endDate: string, currency
             ...Account.TypeGroupInfo[Account.Expense].types
         ])
         .where('txn.date', '>=', startDate).where('txn.date', '<=', endDate)
+        // Closing transactions zero out revenue and expenses. Ignore them.
+        .where('txn.type', '<>', Transaction.Closing)
         .orderBy([{column: 'txn.date', order: 'asc'}, {column: 'txn.id', order: 'asc'}])
 
     const result: any = {
         startDate,
         endDate,
         exchangeRates: {},
+        rates: [],
         hasOperations: false,
         operations: { revenues: {groups: [], totals: []}, expenses: {groups: [], totals: []}, netTotals: []},
         hasDepreciation: false,
@@ -130,11 +139,13 @@ export async function profitAndLoss(startDate: string, endDate: string, currency
 
     // Maybe convert currency
     if (currency) {
+        const history = history0 || await ExchangeRate.history()
         elements.forEach(element => {
-            convertCurrency(element as CurrencyConvertable, currency)
+            convertCurrency(element as CurrencyConvertable, currency, rateDate || (element as any).txnDate, history)
         })
 
         result.exchangeRates = exchangeRates()
+        result.rates = history.usedRates()
     }
 
     // Allocate items to buckets
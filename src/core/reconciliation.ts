@@ -0,0 +1,205 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+import { Account } from './Account'
+import { Element, ReconcileStatus } from './Element'
+import { Statement } from './Statement'
+import { TransactionType } from './Transaction'
+import { formatDateOnly } from './date'
+import { toFormatted } from './currency'
+
+export type ReconcileItem = {
+    id: number
+    transactionId: number
+    txnType: TransactionType
+    date: string
+    description: string
+    actorTitle: string
+    // Positive amounts increase the account balance (ie. debits for assets,
+    // credits for liabilities)
+    amount: number
+    currency: string
+    status: ReconcileStatus
+}
+
+export type Reconciliation = {
+    accountId: number
+    currency: string
+    endDate: string
+    // The balance of all previously reconciled items
+    openingBalance: number
+    // Unreconciled items up to endDate
+    items: ReconcileItem[]
+    // openingBalance plus cleared items
+    clearedBalance: number
+    // The most recent reconciliation, if any
+    lastStatement?: Statement
+}
+
+export type ReconciliationReport = {
+    accountId: number
+    accountTitle: string
+    currency: string
+    date: string
+    // The balance of all items up to date
+    bookBalance: number
+    // Items up to date which were not reconciled as of date
+    outstanding: ReconcileItem[]
+    // bookBalance less outstanding items
+    reconciledBalance: number
+    // The most recent reconciliation up to date, if any
+    statement?: Statement
+}
+
+// Returns 1 if positive balances of this account are debits, -1 otherwise
+async function accountSign(accountId: number, trx?: TransactionOrKnex) {
+    const account = await Account.query(trx).findById(accountId)
+    if (!account) {
+        return Promise.reject(`Account ${accountId} not found`)
+    }
+    return account.typeGroup == Account.Asset || account.typeGroup == Account.Expense ? 1 : -1
+}
+
+// Returns elements of an account (in one currency) up to and including date
+async function accountItems(accountId: number, currency: string, date: string, trx?: TransactionOrKnex) {
+    const sign = await accountSign(accountId, trx)
+    const rows: any[] = await Element.query(trx)
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('actor', 'txn.actorId', 'actor.id')
+        .select('txnElement.*', 'txn.type as txnType', 'txn.date', 'txn.description as txnDescription',
+            'actor.title as actorTitle')
+        .where('txnElement.accountId', accountId)
+        .where('txnElement.currency', currency)
+        .where('txn.date', '<=', date)
+        .orderBy(['txn.date', 'txnElement.id'])
+
+    return rows.map(row => ({
+        item: {
+            id: row.id,
+            transactionId: row.transactionId,
+            txnType: row.txnType,
+            date: row.date,
+            description: row.txnDescription && row.description ? `${row.txnDescription}: ${row.description}` :
+                (row.txnDescription || row.description || ''),
+            actorTitle: row.actorTitle || '',
+            amount: row.drcr * row.amount * sign,
+            currency: row.currency,
+            status: row.reconcileStatus || Element.Uncleared,
+        } as ReconcileItem,
+        reconcileDate: row.reconcileDate as string,
+    }))
+}
+
+// Returns the most recent reconciliation of an account (in one currency),
+// optionally up to date
+export async function lastReconciliation(accountId: number, currency: string, date?: string, trx?: TransactionOrKnex) {
+    const q = Statement.query(trx)
+        .where('accountId', accountId)
+        .where('currency', currency)
+        .where('format', Statement.Manual)
+        .orderBy('endDate', 'desc')
+        .first()
+    if (date) {
+        q.where('endDate', '<=', date)
+    }
+    return q
+}
+
+// Returns information for reconciling an account against a statement ending on endDate
+export async function reconciliation(accountId: number, currency: string, endDate: string, trx?: TransactionOrKnex): Promise<Reconciliation> {
+    const rows = await accountItems(accountId, currency, endDate, trx)
+    const result: Reconciliation = {
+        accountId,
+        currency,
+        endDate,
+        openingBalance: 0,
+        items: [],
+        clearedBalance: 0,
+        lastStatement: await lastReconciliation(accountId, currency, undefined, trx),
+    }
+
+    rows.forEach(({item}) => {
+        if (item.status == Element.Reconciled) {
+            result.openingBalance += item.amount
+        }
+        else {
+            result.items.push(item)
+            if (item.status == Element.Cleared) {
+                result.clearedBalance += item.amount
+            }
+        }
+    })
+    result.clearedBalance += result.openingBalance
+    return result
+}
+
+// Marks unreconciled elements as cleared (or not)
+export async function setCleared(elementIds: number[], cleared: boolean, trx?: TransactionOrKnex) {
+    await Element.query(trx).whereIn('id', elementIds)
+        .where(q => q.whereNull('reconcileStatus').orWhereNot('reconcileStatus', Element.Reconciled))
+        .patch({reconcileStatus: cleared ? Element.Cleared : Element.Uncleared})
+}
+
+// Completes a reconciliation: All cleared items up to endDate become reconciled.
+// The cleared balance must agree with the statement balance.
+// Returns a promise which resolves to the id of the statement that was recorded
+export async function reconcile(accountId: number, currency: string, endDate: string, balance: number, trx?: TransactionOrKnex): Promise<number> {
+    if (!trx) {
+        return Base.transaction(trx => reconcile(accountId, currency, endDate, balance, trx))
+    }
+
+    const info = await reconciliation(accountId, currency, endDate, trx)
+    if (info.lastStatement && info.lastStatement.endDate! >= endDate) {
+        return Promise.reject(`Statement date must be after the last reconciliation (${formatDateOnly(info.lastStatement.endDate!)})`)
+    }
+    if (info.clearedBalance != balance) {
+        return Promise.reject(`Cleared balance differs from the statement balance by ${toFormatted(balance - info.clearedBalance, currency)}`)
+    }
+
+    const statement = Statement.construct({
+        accountId,
+        title: `Reconciliation to ${formatDateOnly(endDate)}`,
+        format: Statement.Manual,
+        currency,
+        endDate,
+        balance,
+    })
+    await statement.save(trx)
+
+    const ids = info.items.filter(item => item.status == Element.Cleared).map(item => item.id)
+    await Element.query(trx).whereIn('id', ids).patch({
+        reconcileStatus: Element.Reconciled,
+        reconcileDate: endDate,
+        statementId: statement.id,
+    })
+    return statement.id!
+}
+
+// Returns the reconciliation of an account as of date
+export async function reconciliationReport(accountId: number, currency: string, date: string, trx?: TransactionOrKnex): Promise<ReconciliationReport> {
+    const account = await Account.query(trx).findById(accountId)
+    const rows = await accountItems(accountId, currency, date, trx)
+    const result: ReconciliationReport = {
+        accountId,
+        accountTitle: account ? account.title! : '',
+        currency,
+        date,
+        bookBalance: 0,
+        outstanding: [],
+        reconciledBalance: 0,
+        statement: await lastReconciliation(accountId, currency, date, trx),
+    }
+
+    rows.forEach(({item, reconcileDate}) => {
+        result.bookBalance += item.amount
+        if (item.status == Element.Reconciled && reconcileDate <= date) {
+            result.reconciledBalance += item.amount
+        }
+        else {
+            result.outstanding.push(item)
+        }
+    })
+    return result
+}
@@ -0,0 +1,182 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { addDays, parseISO } from 'date-fns'
+import { Base, TransactionOrKnex } from './Base'
+import { Account } from './Account'
+import { Element, IElement } from './Element'
+import { Transaction } from './Transaction'
+import { ExchangeRate } from './ExchangeRate'
+import { Project } from './Project'
+import { isCashAccount } from './cash-flow'
+import { toDateOnly, formatDateOnly } from './date'
+
+// An unrealised gain (or loss, if negative) in the primary currency
+export type RevaluationItem = {
+    description: string
+    gain: number
+}
+
+// Returns the revaluation dated `date` and it's reversal (if they exist)
+export async function revaluationTransactions(date: string, trx?: TransactionOrKnex): Promise<Transaction[]> {
+    const revaluations = await Transaction.query(trx).where('type', Transaction.Revaluation).where('date', date)
+    const result: Transaction[] = []
+    for (let t of revaluations) {
+        // A reversal settles the revaluation which it reverses
+        const isReversal = await Element.query(trx).where('transactionId', t.id!).where('settleId', '>', 0).first()
+        if (!isReversal) {
+            result.push(t)
+            const reversals = await Transaction.query(trx).where('type', Transaction.Revaluation).where(t.settlements())
+            result.push(...reversals)
+        }
+    }
+    return result
+}
+
+// Returns unrealised gains and losses on foreign currency balances as at
+// `date`, ie. the change in their value (in the primary currency) since they
+// were recorded. This covers unpaid invoices and bills, and cash (and bank)
+// accounts.
+export async function unrealisedGains(date: string, trx?: TransactionOrKnex): Promise<RevaluationItem[]> {
+    const primary: string = Project.variables.get('currency')
+    const history = await ExchangeRate.history(trx)
+    const items: RevaluationItem[] = []
+
+    // Value in the primary currency on `date0`
+    function value(amount: number, currency: string, date0: string) {
+        const rate = history.rate(currency, primary, date0)
+        if (rate === undefined) {
+            throw new Error(`No exchange rate for converting ${currency} to ${primary}`)
+        }
+        return Math.round(amount * rate)
+    }
+
+    const elements = await Element.query(trx)
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('account', 'txnElement.accountId', 'account.id')
+        .select('txnElement.*', 'txn.date as txnDate', 'txn.type as txnType',
+            'account.title as accountTitle', 'account.type as accountType')
+        .where('txn.date', '<=', date)
+        .where('txnElement.currency', '<>', primary)
+        .orderBy(['txn.date', 'txnElement.id'])
+
+    // Unpaid invoices and bills are revalued from their own date
+    const invoices: Record<number, {type: string, date: string, balances: Record<string, number>}> = {}
+    const settling: Element[] = []
+    elements.forEach(element => {
+        const e: any = element
+        if (e.accountId != Account.Reserved.AccountsReceivable && e.accountId != Account.Reserved.AccountsPayable) {
+            return
+        }
+        if (e.txnType == Transaction.Invoice || e.txnType == Transaction.Bill) {
+            invoices[e.transactionId] = invoices[e.transactionId] || {type: e.txnType, date: e.txnDate, balances: {}}
+            const balances = invoices[e.transactionId].balances
+            balances[e.currency] = (balances[e.currency] || 0) + e.drcr * e.amount
+        }
+        else if (e.settleId) {
+            settling.push(element)
+        }
+    })
+    settling.forEach(e => {
+        const invoice = invoices[e.settleId!]
+        if (invoice) {
+            invoice.balances[e.currency!] = (invoice.balances[e.currency!] || 0) + e.drcr! * e.amount!
+        }
+    })
+
+    Object.keys(invoices).map(Number).sort((a, b) => a - b).forEach(id => {
+        const invoice = invoices[id]
+        Object.keys(invoice.balances).forEach(currency => {
+            const balance = invoice.balances[currency]
+            if (balance != 0) {
+                const gain = value(balance, currency, date) - value(balance, currency, invoice.date)
+                if (gain != 0) {
+                    const label = invoice.type == Transaction.Invoice ? 'Invoice' : 'Bill'
+                    items.push({description: `${label} ${id} (${currency})`, gain})
+                }
+            }
+        })
+    })
+
+    // Cash accounts: Each amount was recorded at the rate on it's own date
+    const accounts: Record<number, {title: string, balances: Record<string, {balance: number, recorded: number}>}> = {}
+    elements.forEach(element => {
+        const e: any = element
+        if (isCashAccount(e.accountId, e.accountType)) {
+            accounts[e.accountId] = accounts[e.accountId] || {title: e.accountTitle, balances: {}}
+            const balances = accounts[e.accountId].balances
+            balances[e.currency] = balances[e.currency] || {balance: 0, recorded: 0}
+            balances[e.currency].balance += e.drcr * e.amount
+            balances[e.currency].recorded += value(e.drcr * e.amount, e.currency, e.txnDate)
+        }
+    })
+
+    Object.keys(accounts).map(Number).sort((a, b) => a - b).forEach(id => {
+        const account = accounts[id]
+        Object.keys(account.balances).sort().forEach(currency => {
+            const {balance, recorded} = account.balances[currency]
+            const gain = value(balance, currency, date) - recorded
+            if (gain != 0) {
+                items.push({description: `${account.title} (${currency})`, gain})
+            }
+        })
+    })
+
+    return items
+}
+
+// Posts unrealised exchange gains and losses as at `date`. They are reversed
+// the following day so that they don't accumulate. Revaluing the same date
+// again replaces the previous revaluation.
+// Returns a promise which resolves to the id of the revaluation transaction,
+// or 0 if there was nothing to revalue
+export async function revalue(date: string, trx?: TransactionOrKnex): Promise<number> {
+    if (!trx) {
+        return Base.transaction(trx => revalue(date, trx))
+    }
+
+    await removeRevaluation(date, trx)
+    const items = await unrealisedGains(date, trx)
+    const primary: string = Project.variables.get('currency')
+
+    const list: IElement[] = []
+    items.forEach(item => {
+        // Describe which balance the gain (or loss) is on
+        Transaction.exchangeElements(item.gain, primary, 'Unrealised exchange').forEach(e => {
+            list.push(e.accountId == Account.Reserved.CurrencyTrading ? e : {...e, description: item.description})
+        })
+    })
+    if (list.length == 0) {
+        return 0
+    }
+
+    const t = Transaction.construct({
+        type: Transaction.Revaluation,
+        date,
+        description: `Exchange revaluation on ${formatDateOnly(date)}`,
+    })
+    await t.mergeElements(list)
+    await t.save(trx)
+
+    const reversal = Transaction.construct({
+        type: Transaction.Revaluation,
+        date: toDateOnly(addDays(parseISO(date), 1)),
+        description: `Reversal of exchange revaluation on ${formatDateOnly(date)}`,
+    })
+    await reversal.mergeElements(list.map(e => ({...e, drcr: -e.drcr!, settleId: t.id})))
+    await reversal.save(trx)
+
+    return t.id!
+}
+
+// Removes the revaluation dated `date` and it's reversal
+export async function removeRevaluation(date: string, trx?: TransactionOrKnex): Promise<void> {
+    if (!trx) {
+        return Base.transaction(trx => removeRevaluation(date, trx))
+    }
+
+    for (let t of await revaluationTransactions(date, trx)) {
+        await t.delete(trx)
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+// A spreadsheet cell. Empty cells are undefined or null.
+export type Cell = string | number | undefined | null
+
+// Encodes rows as CSV (RFC 4180)
+export function toCsv(rows: Cell[][]): string {
+    return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function csvCell(cell: Cell) {
+    const s = cellText(cell)
+    return /[",\r\n]/.test(s) || s != s.trim() ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+function cellText(cell: Cell) {
+    if (typeof cell == 'number') {
+        return Number.isFinite(cell) ? `${cell}` : ''
+    }
+    return cell == undefined ? '' : cell
+}
+
+// Encodes rows as a single worksheet XLSX file. Numbers are stored as numbers
+// and everything else as (inline) strings.
+export function toXlsx(rows: Cell[][], sheetName = 'Sheet1'): Uint8Array {
+    // Sheet names are limited to 31 characters and can't contain some characters
+    const name = sheetName.replace(/[\[\]:*?/\\]/g, ' ').substring(0, 31) || 'Sheet1'
+
+    const sheetRows = rows.map((row, r) => {
+        const cells = row.map((cell, c) => {
+            const ref = `${columnName(c)}${r + 1}`
+            if (typeof cell == 'number') {
+                return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : ''
+            }
+            if (cell == undefined || cell === '') {
+                return ''
+            }
+            return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell)}</t></is></c>`
+        })
+        return `<row r="${r + 1}">${cells.join('')}</row>`
+    })
+
+    const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    const ns = 'http://schemas.openxmlformats.org'
+    return zip([
+        ['[Content_Types].xml', `${header}<Types xmlns="${ns}/package/2006/content-types">` +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '</Types>'],
+        ['_rels/.rels', `${header}<Relationships xmlns="${ns}/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+            '</Relationships>'],
+        ['xl/workbook.xml', `${header}<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships">` +
+            `<sheets><sheet name="${xmlEscape(name)}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>'],
+        ['xl/_rels/workbook.xml.rels', `${header}<Relationships xmlns="${ns}/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+            '</Relationships>'],
+        ['xl/worksheets/sheet1.xml', `${header}<worksheet xmlns="${ns}/spreadsheetml/2006/main">` +
+            `<sheetData>${sheetRows.join('')}</sheetData>` +
+            '</worksheet>'],
+    ])
+}
+
+// Returns the column name (ie. A, B, ... Z, AA, AB ...) of a zero-based column index
+export function columnName(index: number): string {
+    let name = ''
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + (n - 1) % 26) + name
+    }
+    return name
+}
+
+function xmlEscape(s: string) {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML
+        .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+}
+
+// TextEncoder isn't available everywhere (ie. older test environments)
+export function utf8Encode(s: string): Uint8Array {
+    const bytes: number[] = []
+    for (let i = 0; i < s.length; i++) {
+        let c = s.charCodeAt(i)
+        // Combine surrogate pairs
+        if (c >= 0xd800 && c < 0xdc00 && i + 1 < s.length) {
+            const c2 = s.charCodeAt(i + 1)
+            if (c2 >= 0xdc00 && c2 < 0xe000) {
+                c = 0x10000 + ((c - 0xd800) << 10) + (c2 - 0xdc00)
+                i++
+            }
+        }
+
+        if (c < 0x80) {
+            bytes.push(c)
+        }
+        else if (c < 0x800) {
+            bytes.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f))
+        }
+        else if (c < 0x10000) {
+            bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f))
+        }
+        else {
+            bytes.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 0x3f), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f))
+        }
+    }
+    return new Uint8Array(bytes)
+}
+
+let crcTable: number[]
+
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = []
+        for (let n = 0; n < 256; n++) {
+            let c = n
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+            }
+            crcTable.push(c >>> 0)
+        }
+    }
+
+    let crc = 0xffffffff
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+// Builds a zip archive of uncompressed (stored) files
+function zip(files: [string, string][]): Uint8Array {
+    const chunks: Uint8Array[] = []
+    const central: Uint8Array[] = []
+    let offset = 0
+
+    files.forEach(([filename, content]) => {
+        const name = utf8Encode(filename)
+        const data = utf8Encode(content)
+        const crc = crc32(data)
+
+        // Local file header
+        const local = new DataView(new ArrayBuffer(30))
+        local.setUint32(0, 0x04034b50, true)
+        local.setUint16(4, 20, true)            // version needed to extract
+        local.setUint16(6, 0x0800, true)        // flags: utf-8 filenames
+        local.setUint16(8, 0, true)             // compression: stored
+        local.setUint16(10, 0, true)            // modification time
+        local.setUint16(12, 0x21, true)         // modification date: 1980-01-01
+        local.setUint32(14, crc, true)
+        local.setUint32(18, data.length, true)  // compressed size
+        local.setUint32(22, data.length, true)  // uncompressed size
+        local.setUint16(26, name.length, true)
+        local.setUint16(28, 0, true)            // extra field length
+        chunks.push(new Uint8Array(local.buffer), name, data)
+
+        // Central directory header
+        const entry = new DataView(new ArrayBuffer(46))
+        entry.setUint32(0, 0x02014b50, true)
+        entry.setUint16(4, 20, true)            // version made by
+        entry.setUint16(6, 20, true)
+        entry.setUint16(8, 0x0800, true)
+        entry.setUint16(10, 0, true)
+        entry.setUint16(12, 0, true)
+        entry.setUint16(14, 0x21, true)
+        entry.setUint32(16, crc, true)
+        entry.setUint32(20, data.length, true)
+        entry.setUint32(24, data.length, true)
+        entry.setUint16(28, name.length, true)
+        // Extra field, comment, disk number, attributes are all zero
+        entry.setUint32(42, offset, true)
+        central.push(new Uint8Array(entry.buffer), name)
+
+        offset += 30 + name.length + data.length
+    })
+
+    const centralSize = central.reduce((acc, chunk) => acc + chunk.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, files.length, true)
+    end.setUint16(10, files.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)]
+    const result = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0))
+    let position = 0
+    parts.forEach(part => {
+        result.set(part, position)
+        position += part.length
+    })
+    return result
+}
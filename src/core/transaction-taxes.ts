@@ -2,7 +2,8 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { Money } from './currency'
+import { Money, RateHistory, convertCurrency } from './currency'
+import { ExchangeRate } from './ExchangeRate'
 import { TaxCodeInfo } from './tax'
 import { Account, AccountType } from './Account'
 import { Element } from './Element'
@@ -46,7 +47,11 @@ export type TaxItemGroup = {
     totals: Money[]
 }
 
-export async function taxItems(startDate: string, endDate: string, accrual: boolean, prefixes: string[] = []): Promise<TaxItem[]> {
+// If `currency` is supplied, amounts are converted using the exchange rate on each
+// item's date. Rates are looked up in `history` (if supplied) so that the
+// caller can tell which rates were used.
+export async function taxItems(startDate: string, endDate: string, accrual: boolean, prefixes: string[] = [],
+    currency?: string, history?: RateHistory): Promise<TaxItem[]> {
     const paid: Transaction[] = []  // Sparse array, only for non-accrual
     const query = Element.query()
         .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
@@ -67,6 +72,7 @@ export async function taxItems(startDate: string, endDate: string, accrual: bool
         // unless they were fully paid during the date range. Transactions which were
         // partly paid (but not fully paid) during the date range are not included.
         // In other words, partial payments don't count.
+        // Credit/debit notes are counted on their own date.
         //
         // The logic to do this is a bit crazy and probably too hard to do in SQL.
         // Instead, retrieve all transactions (and settling payments) which had a
@@ -88,16 +94,18 @@ export async function taxItems(startDate: string, endDate: string, accrual: bool
                 const allElements = [...t.elements!, ...t.settledBy]
                 let balances: Money[]
 
-                if (settlement.accountId == Account.Reserved.AccountsReceivable) {
+                // Payments can be made from/into any account so look at
+                // the receivable/payable side only
+                if (t.type == Transaction.Invoice) {
                     balances = Transaction.getDebitBalances(allElements.filter(
                         e => e.accountId == Account.Reserved.AccountsReceivable))
                 }
-                else if (settlement.accountId == Account.Reserved.AccountsPayable) {
+                else {
                     balances = Transaction.getCreditBalances(allElements.filter(
                         e => e.accountId == Account.Reserved.AccountsPayable))
                 }
 
-                if (balances!.every(b => { return b.amount <= 0 })) {
+                if (balances.every(b => { return b.amount <= 0 })) {
                     // Inject settlement date
                     t.date = settlement.date
                     paid[t.id!] = t
@@ -146,8 +154,21 @@ export async function taxItems(startDate: string, endDate: string, accrual: bool
         return a.txnDate < b.txnDate ? -1 : 1
     })
     elements.forEach(item => {
+        // Credit/debit notes are reported as negative sales/purchases
+        if (item.txnType == Transaction.CreditNote || item.txnType == Transaction.DebitNote) {
+            item.drcr = -item.drcr
+            item.amount = -item.amount
+            item.parentAmount = -item.parentAmount
+        }
         item.grossAmount = item.amount + item.parentAmount
         item.taxInfo = new TaxCodeInfo(item.taxCode)
     })
+
+    if (currency) {
+        const rates = history || await ExchangeRate.history()
+        elements.forEach(item => {
+            convertCurrency(item, currency, item.txnDate, rates)
+        })
+    }
     return elements
 }
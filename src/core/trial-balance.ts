@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { DatedRate, exchangeRates } from './currency'
+import { ExchangeRate } from './ExchangeRate'
+import { convertElements } from './year-end-close'
+import { AccountType } from './Account'
+import { Element } from './Element'
+
+export type TrialBalanceLine = {
+    accountId: number
+    accountTitle: string
+    accountType: AccountType
+    currency: string
+    // Only one of debit or credit is non-zero
+    debit: number
+    credit: number
+}
+
+export type TrialBalance = {
+    date: string
+    exchangeRates: Record<string, Record<string, string>>
+    // Exchange rates which were used for conversion
+    rates: DatedRate[]
+    lines: TrialBalanceLine[]
+    // Per currency. Debits and credits must agree.
+    totals: {currency: string, debit: number, credit: number}[]
+}
+
+// Returns the debit or credit balance of every account (which has any
+// transactions) as at `date`, in order of account id
+export async function trialBalance(date: string, currency?: string) : Promise<TrialBalance> {
+    const elements = await Element.query()
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('account', 'txnElement.accountId', 'account.id')
+        .select('txnElement.*', 'txn.type as txnType', 'txn.date as txnDate',
+            'account.Id as accountId', 'account.title as accountTitle', 'account.type as accountType')
+        .where('txn.date', '<=', date)
+        .orderBy([{column: 'txn.date', order: 'asc'}, {column: 'txn.id', order: 'asc'}])
+
+    const result: TrialBalance = {date, exchangeRates: {}, rates: [], lines: [], totals: []}
+
+    // Maybe convert currency, using the exchange rate on each transaction's date
+    if (currency) {
+        const history = await ExchangeRate.history()
+        convertElements(elements, currency, history)
+
+        result.exchangeRates = exchangeRates()
+        result.rates = history.usedRates()
+    }
+
+    const lines: Record<string, TrialBalanceLine & {balance: number}> = {}
+    elements.forEach(element => {
+        const e: any = element
+        const key = `${e.accountId}-${e.currency}`
+        if (!lines[key]) {
+            lines[key] = {
+                accountId: e.accountId,
+                accountTitle: e.accountTitle,
+                accountType: e.accountType,
+                currency: e.currency,
+                debit: 0,
+                credit: 0,
+                balance: 0,
+            }
+        }
+        lines[key].balance += e.drcr * e.amount
+    })
+
+    const totals: Record<string, {currency: string, debit: number, credit: number}> = {}
+    Object.values(lines).sort((a, b) => {
+        if (a.accountId == b.accountId) {
+            return a.currency < b.currency ? -1 : a.currency > b.currency ? 1 : 0
+        }
+        return a.accountId - b.accountId
+    }).forEach(({balance, ...line}) => {
+        if (balance == 0) {
+            return
+        }
+        if (balance > 0) {
+            line.debit = balance
+        }
+        else {
+            line.credit = -balance
+        }
+        result.lines.push(line)
+
+        if (!totals[line.currency]) {
+            totals[line.currency] = {currency: line.currency, debit: 0, credit: 0}
+        }
+        totals[line.currency].debit += line.debit
+        totals[line.currency].credit += line.credit
+    })
+
+    result.totals = Object.keys(totals).sort().map(currency => totals[currency])
+    return result
+}
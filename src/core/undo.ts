@@ -0,0 +1,253 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import Knex = require('knex');
+import { AuditLog } from './AuditLog'
+import { Account } from './Account'
+import { Actor } from './Actor'
+import { Attachment } from './Attachment'
+import { Budget } from './Budget'
+import { ExchangeRate } from './ExchangeRate'
+import { Recurring } from './Recurring'
+import { Statement } from './Statement'
+import { Transaction } from './Transaction'
+import { formatDateOnly } from './date'
+
+type Step = {
+    begin: number
+    end: number
+}
+
+// Tables which are not undoable. The audit log is a permanent record, which
+// undo and redo are themselves recorded in.
+const ExcludedTables = ['audit_log', 'undo_log']
+
+// Variables which are not undoable: Session state (which is saved without
+// triggering onChange) and the lock date (which protects against undo)
+const ExcludedVariables = ['mru', 'lockDate']
+
+// Rows of some tables are audited as part of another record: table and column of it's id
+const AuditedAs: Record<string, [string, string]> = {
+    txn_element: ['txn', 'transaction_id'],
+}
+
+type Audited = {
+    tableName: string
+    snapshot(id: any, trx: Knex.Transaction): Promise<any>
+}
+
+// Variables are audited by name, with their (parsed) value as the snapshot
+const VariableAudited: Audited = {
+    tableName: 'variable',
+    async snapshot(name: string, trx: Knex.Transaction) {
+        const rows = await trx.raw('SELECT `value` FROM `variable` WHERE `name` = ?', [name])
+        return rows.length > 0 ? JSON.parse(rows[0].value) : undefined
+    }
+}
+
+// Returns whatever is audited for changes to rows of a table
+function audited(table: string): Audited | undefined {
+    const models: Record<string, Audited> = {
+        account: Account, actor: Actor, attachment: Attachment, budget: Budget, exchange_rate: ExchangeRate,
+        recurring: Recurring, statement: Statement, txn: Transaction, variable: VariableAudited,
+    }
+    return models[table]
+}
+
+// Undo/redo history of changes to the database.
+//
+// Temporary triggers record (in a temporary table) the SQL statements which
+// reverse each inserted, updated or deleted row. Nothing is written to the
+// project file as temporary objects are not part of backups.
+//
+// Changes are grouped into steps. A step ends when there are no further changes
+// for `delay` milliseconds ie. a burst of changes (such as saving a sale) is
+// undone in one go. `.onChange()` must be called whenever the database changes.
+//
+// Undoing a step executes it's recorded statements in reverse order. These, in
+// turn, are recorded and become the step to redo (and vice versa). A step which
+// would change transactions dated on or before the lock date is refused.
+//
+// Each affected record is recorded in the audit log, in the same way as any
+// other change to it. The log records which record each statement affects.
+export class UndoHistory {
+    undoStack: Step[] = []
+    redoStack: Step[] = []
+    // The last log entry which belongs to a step
+    mark = 0
+    timer: any = undefined
+    busy = false
+
+    constructor(public knex: Knex, public delay = 300) {
+    }
+
+    async init() {
+        // Raw queries: use snake case
+        // `target` and `target_id` identify the audited record which is affected
+        await this.knex.raw(`CREATE TEMP TABLE IF NOT EXISTS \`undo_log\` (\`seq\` INTEGER PRIMARY KEY, \`sql\` TEXT,
+            \`target\` TEXT, \`target_id\`)`)
+
+        const tables: {name: string}[] = await this.knex.raw(`SELECT \`name\` FROM \`sqlite_master\`
+            WHERE \`type\` = 'table' AND \`name\` NOT LIKE 'sqlite_%' AND \`name\` NOT LIKE 'knex_%'`)
+        for (let table of tables.filter(table => !ExcludedTables.includes(table.name))) {
+            const columns: {name: string, pk: number}[] = await this.knex.raw(`PRAGMA table_info(\`${table.name}\`)`)
+            await this.createTriggers(table.name, columns)
+        }
+
+        this.mark = await this.lastSeq()
+    }
+
+    async createTriggers(table: string, columns: {name: string, pk: number}[]) {
+        const pks = columns.filter(c => c.pk)
+        const key = pks.length == 1 ? pks[0].name : 'rowid'
+        const names = columns.map(c => `"${c.name}"`).join(',')
+        const oldValues = columns.map(c => `quote(old."${c.name}")`).join(`||','||`)
+        const assignments = columns.map(c => `'"${c.name}"='||quote(old."${c.name}")`).join(`||','||`)
+        const log = 'INSERT INTO `undo_log` (`sql`, `target`, `target_id`) VALUES'
+        const [target, targetKey] = AuditedAs[table] || [table, key]
+        const when = (row: string) => table != 'variable' ? '' :
+            `WHEN ${row}."name" NOT IN (${ExcludedVariables.map(name => `'${name}'`).join(',')})`
+
+        await this.knex.raw(`CREATE TEMP TRIGGER IF NOT EXISTS "undo_${table}_insert" AFTER INSERT ON "${table}" ${when('new')} BEGIN
+            ${log} ('DELETE FROM "${table}" WHERE "${key}"='||quote(new."${key}"), '${target}', new."${targetKey}");
+        END`)
+        await this.knex.raw(`CREATE TEMP TRIGGER IF NOT EXISTS "undo_${table}_update" AFTER UPDATE ON "${table}" ${when('new')} BEGIN
+            ${log} ('UPDATE "${table}" SET '||${assignments}||' WHERE "${key}"='||quote(new."${key}"), '${target}', new."${targetKey}");
+        END`)
+        await this.knex.raw(`CREATE TEMP TRIGGER IF NOT EXISTS "undo_${table}_delete" BEFORE DELETE ON "${table}" ${when('old')} BEGIN
+            ${log} ('INSERT INTO "${table}" (${names}) VALUES ('||${oldValues}||')', '${target}', old."${targetKey}");
+        END`)
+    }
+
+    async lastSeq(trx?: Knex.Transaction): Promise<number> {
+        const rows = await (trx || this.knex).raw('SELECT MAX(`seq`) AS `seq` FROM `undo_log`')
+        return rows[0].seq || 0
+    }
+
+    onChange() {
+        if (!this.busy) {
+            clearTimeout(this.timer)
+            this.timer = setTimeout(() => this.checkpoint(), this.delay)
+        }
+    }
+
+    // Stops any pending checkpoint
+    stop() {
+        clearTimeout(this.timer)
+        this.timer = undefined
+    }
+
+    // Ends the current step (if any)
+    // This waits for any ongoing (database) transaction to finish
+    async checkpoint() {
+        this.stop()
+
+        const seq = await this.lastSeq()
+        if (seq > this.mark) {
+            // Changes have been made so the redo history is no longer valid
+            for (let step of this.redoStack) {
+                await this.knex.raw('DELETE FROM `undo_log` WHERE `seq` BETWEEN ? AND ?', [step.begin, step.end])
+                    .options({skipOnChange: true})
+            }
+            this.redoStack = []
+
+            this.undoStack.push({begin: this.mark + 1, end: seq})
+            this.mark = seq
+        }
+    }
+
+    get canUndo() {
+        return this.undoStack.length > 0 || this.timer != undefined
+    }
+
+    get canRedo() {
+        return this.redoStack.length > 0 && this.timer == undefined
+    }
+
+    // Returns a promise which resolves to true if a step was undone
+    async undo(lockDate = ''): Promise<boolean> {
+        await this.checkpoint()
+        const step = this.undoStack.pop()
+        if (step) {
+            try {
+                this.redoStack.push(await this.replay(step, 'undo', lockDate))
+            }
+            catch (e) {
+                // Leave the step where it was
+                this.undoStack.push(step)
+                throw e
+            }
+        }
+        return !!step
+    }
+
+    // Returns a promise which resolves to true if a step was redone
+    async redo(lockDate = ''): Promise<boolean> {
+        await this.checkpoint()
+        const step = this.redoStack.pop()
+        if (step) {
+            try {
+                this.undoStack.push(await this.replay(step, 'redo', lockDate))
+            }
+            catch (e) {
+                this.redoStack.push(step)
+                throw e
+            }
+        }
+        return !!step
+    }
+
+    // Returns transactions (and their elements) dated on or before `lockDate`,
+    // serialised so that they can be compared
+    async lockedRows(trx: Knex.Transaction, lockDate: string): Promise<string> {
+        const txns = await trx.raw('SELECT * FROM `txn` WHERE `date` <= ? ORDER BY `id`', [lockDate])
+        const elements = await trx.raw(`SELECT \`txn_element\`.* FROM \`txn_element\`
+            JOIN \`txn\` ON \`txn_element\`.\`transaction_id\` = \`txn\`.\`id\`
+            WHERE \`txn\`.\`date\` <= ? ORDER BY \`txn_element\`.\`id\``, [lockDate])
+        return JSON.stringify([txns, elements])
+    }
+
+    // Executes the recorded statements of a step (in reverse order) and
+    // returns the step which reverses them. Affected records are recorded in the audit log.
+    async replay(step: Step, action: string, lockDate = ''): Promise<Step> {
+        this.busy = true
+        try {
+            return await this.knex.transaction(async trx => {
+                const rows: {seq: number, sql: string, target: string, targetId: any}[] = await trx.raw(
+                    'SELECT `seq`, `sql`, `target`, `target_id` AS `targetId` FROM `undo_log` WHERE `seq` BETWEEN ? AND ? ORDER BY `seq` DESC',
+                    [step.begin, step.end])
+                await trx.raw('DELETE FROM `undo_log` WHERE `seq` BETWEEN ? AND ?', [step.begin, step.end])
+                    .options({skipOnChange: true})
+
+                // Affected records, and what they were beforehand
+                const targets: {model: Audited, id: any, before: any}[] = []
+                for (let row of rows) {
+                    const model = audited(row.target)
+                    if (model && !targets.find(t => t.model == model && t.id == row.targetId)) {
+                        targets.push({model, id: row.targetId, before: await model.snapshot(row.targetId, trx)})
+                    }
+                }
+
+                const locked = lockDate ? await this.lockedRows(trx, lockDate) : ''
+                const begin = await this.lastSeq(trx) + 1
+                for (let row of rows) {
+                    await trx.raw(row.sql).options({skipOnChange: true})
+                }
+                if (lockDate && await this.lockedRows(trx, lockDate) != locked) {
+                    return Promise.reject(`Transactions dated on or before the lock date (${formatDateOnly(lockDate)}) can not be changed`)
+                }
+
+                for (let {model, id, before} of targets) {
+                    await AuditLog.record(trx, action, model.tableName, id, before, await model.snapshot(id, trx))
+                }
+                const end = await this.lastSeq(trx)
+                this.mark = end
+                return {begin, end}
+            })
+        }
+        finally {
+            this.busy = false
+        }
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright (c) 2020-present Beng Tan
+ */
+
+import { Base, TransactionOrKnex } from './Base'
+import { Account } from './Account'
+import { Element, IElement } from './Element'
+import { Transaction } from './Transaction'
+import { CurrencyConvertable, RateHistory, convertCurrency } from './currency'
+import { fiscalYearDates, formatDateOnly } from './date'
+
+// Returns the closing transaction of the fiscal year which contains `date`,
+// or undefined if the fiscal year is not closed
+export async function closingTransaction(date: string, trx?: TransactionOrKnex): Promise<Transaction | undefined> {
+    const endDate = fiscalYearDates(date)[1]
+    const rows = await Transaction.query(trx).where('type', Transaction.Closing).where('date', endDate)
+    return rows.length > 0 ? rows[0] : undefined
+}
+
+// Returns true if a fiscal year after the one ending on `endDate` is closed
+async function laterYearClosed(endDate: string, trx?: TransactionOrKnex) {
+    const rows = await Transaction.query(trx).where('type', Transaction.Closing).where('date', '>', endDate).limit(1)
+    return rows.length > 0
+}
+
+// Closes the fiscal year which contains `date`.
+// Posts a closing transaction (dated the last day of the fiscal year) which
+// zeroes every revenue and expense account into Retained Earnings. Owner
+// drawings and dividends are also zeroed.
+// Each currency is closed separately.
+// Returns a promise which resolves to the id of the closing transaction
+export async function closeYear(date: string, trx?: TransactionOrKnex): Promise<number> {
+    if (!trx) {
+        return Base.transaction(trx => closeYear(date, trx))
+    }
+
+    const [startDate, endDate] = fiscalYearDates(date)
+    const description = `Close fiscal year ${formatDateOnly(startDate)} to ${formatDateOnly(endDate)}`
+    if (await closingTransaction(date, trx)) {
+        return Promise.reject(`Fiscal year ${formatDateOnly(startDate)} to ${formatDateOnly(endDate)} is already closed`)
+    }
+    if (await laterYearClosed(endDate, trx)) {
+        return Promise.reject('A later fiscal year is closed. Reopen it first.')
+    }
+
+    // Include everything up to the end of the year. This also sweeps up any
+    // balances left over from earlier years which were never closed.
+    const elements = await Element.query(trx)
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .leftJoin('account', 'txnElement.accountId', 'account.id')
+        .select('txnElement.*')
+        .whereIn('account.type', [
+            ...Account.TypeGroupInfo[Account.Revenue].types,
+            ...Account.TypeGroupInfo[Account.Expense].types
+        ])
+        .where('txn.date', '<=', endDate)
+        .orderBy('txnElement.accountId')
+
+    const accounts: Record<number, Element[]> = {}
+    elements.forEach(e => {
+        if (!accounts[e.accountId!]) {
+            accounts[e.accountId!] = []
+        }
+        accounts[e.accountId!].push(e)
+    })
+
+    // Reverse the balance of each account. Retained Earnings absorbs the difference
+    const list: IElement[] = []
+    Object.keys(accounts).forEach((accountId: any) => {
+        Transaction.getDebitBalances(accounts[accountId]).forEach(balance => {
+            if (balance.amount != 0) {
+                list.push({
+                    accountId: Number(accountId),
+                    drcr: balance.amount > 0 ? Transaction.Credit : Transaction.Debit,
+                    amount: Math.abs(balance.amount),
+                    currency: balance.currency,
+                })
+            }
+        })
+    })
+
+    Transaction.getDebitBalances(list).forEach(balance => {
+        if (balance.amount != 0) {
+            list.push({
+                accountId: Account.Reserved.RetainedEarnings,
+                drcr: balance.amount > 0 ? Transaction.Credit : Transaction.Debit,
+                amount: Math.abs(balance.amount),
+                currency: balance.currency,
+            })
+        }
+    })
+
+    // Drawings are closed into Equity and dividends into Retained Earnings
+    const distributions = await Element.query(trx)
+        .leftJoin('txn', 'txnElement.transactionId', 'txn.id')
+        .select('txnElement.*')
+        .whereIn('txnElement.accountId', [Account.Reserved.Drawings, Account.Reserved.Dividends])
+        .where('txn.date', '<=', endDate)
+
+    ;[[Account.Reserved.Drawings, Account.Reserved.Equity],
+      [Account.Reserved.Dividends, Account.Reserved.RetainedEarnings]].forEach(([accountId, intoAccountId]) => {
+        Transaction.getDebitBalances(distributions.filter(e => e.accountId == accountId)).forEach(balance => {
+            if (balance.amount != 0) {
+                const drcr = balance.amount > 0 ? Transaction.Credit : Transaction.Debit
+                const amount = Math.abs(balance.amount)
+                list.push(
+                    {accountId, drcr, amount, currency: balance.currency},
+                    {accountId: intoAccountId, drcr: -drcr, amount, currency: balance.currency},
+                )
+            }
+        })
+    })
+
+    if (list.length == 0) {
+        return Promise.reject('Nothing to close')
+    }
+
+    const t = Transaction.construct({
+        type: Transaction.Closing,
+        date: endDate,
+        description,
+    })
+    await t.mergeElements(list)
+    await t.save(trx)
+    return t.id!
+}
+
+// Converts elements (sorted by date and transaction) into `currency` at the
+// exchange rate on their transaction's date. Elements must include `txnType` and
+// `txnDate`. A closing transaction has no rate of it's own: Instead, it zeroes
+// the converted balances of the accounts it closes. Otherwise converted reports
+// would show residual revenue and expenses after a year is closed.
+export function convertElements(elements: Element[], currency: string, history: RateHistory) {
+    // Converted balances, debits are positive. Keyed by account and original currency
+    const balances: Record<string, number> = {}
+    const closings: Record<number, Element[]> = {}
+    elements.forEach(e => {
+        if ((e as any).txnType == Transaction.Closing) {
+            closings[e.transactionId!] = closings[e.transactionId!] || []
+            closings[e.transactionId!].push(e)
+        }
+    })
+
+    const setAmount = (e: Element, amount: number) => {
+        e.drcr = amount < 0 ? Transaction.Credit : Transaction.Debit
+        e.amount = Math.abs(amount)
+        e.currency = currency
+    }
+
+    elements.forEach(e => {
+        if ((e as any).txnType != Transaction.Closing) {
+            const key = `${e.accountId}-${e.currency}`
+            convertCurrency(e as CurrencyConvertable, currency, (e as any).txnDate, history)
+            balances[key] = (balances[key] || 0) + e.drcr! * e.amount!
+            return
+        }
+
+        const legs = closings[e.transactionId!]
+        if (!legs) {
+            return
+        }
+        delete closings[e.transactionId!]
+
+        // Close each account. Drawings go into Equity and everything else into Retained Earnings
+        const into: Record<string, {legs: Element[], amount: number}> = {}
+        const intoIds: number[] = [Account.Reserved.Equity, Account.Reserved.RetainedEarnings]
+        legs.filter(leg => !intoIds.includes(leg.accountId!)).forEach(leg => {
+            const key = `${leg.accountId}-${leg.currency}`
+            const intoKey = `${leg.accountId == Account.Reserved.Drawings ? intoIds[0] : intoIds[1]}-${leg.currency}`
+            const amount = -(balances[key] || 0)
+            balances[key] = 0
+            into[intoKey] = into[intoKey] || {legs: [], amount: 0}
+            into[intoKey].amount -= amount
+            setAmount(leg, amount)
+        })
+        legs.filter(leg => intoIds.includes(leg.accountId!)).forEach(leg => {
+            const intoKey = `${leg.accountId}-${leg.currency}`
+            into[intoKey] = into[intoKey] || {legs: [], amount: 0}
+            into[intoKey].legs.push(leg)
+        })
+
+        // Where there are several legs, share the amount in proportion to their original amounts
+        Object.values(into).forEach(({legs, amount}) => {
+            const total = legs.reduce((acc, leg) => acc + leg.drcr! * leg.amount!, 0)
+            let remaining = amount
+            legs.forEach((leg, index) => {
+                const share = index == legs.length - 1 ? remaining :
+                    total ? Math.round(amount * leg.drcr! * leg.amount! / total) : 0
+                remaining -= share
+                setAmount(leg, share)
+            })
+        })
+    })
+}
+
+// Reopens the fiscal year which contains `date` by removing it's closing transaction
+export async function reopenYear(date: string, trx?: TransactionOrKnex): Promise<void> {
+    if (!trx) {
+        return Base.transaction(trx => reopenYear(date, trx))
+    }
+
+    const t = await closingTransaction(date, trx)
+    if (!t) {
+        const [startDate, endDate] = fiscalYearDates(date)
+        return Promise.reject(`Fiscal year ${formatDateOnly(startDate)} to ${formatDateOnly(endDate)} is not closed`)
+    }
+    if (await laterYearClosed(t.date!, trx)) {
+        return Promise.reject('A later fiscal year is closed. Reopen it first.')
+    }
+
+    await t.delete(trx)
+}
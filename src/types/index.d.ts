@@ -4,3 +4,9 @@ declare var __CE__: boolean
 
 declare var __COMMITDATE__: string
 declare var __COMMITHASH__: string
+
+// The asm.js build of sql.js doesn't need a separate .wasm file
+declare module 'sql.js/dist/sql-asm.js' {
+    import initSqlJs = require('sql.js')
+    export = initSqlJs
+}
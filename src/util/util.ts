@@ -2,7 +2,7 @@
  * Copyright (c) 2020-present Beng Tan
  */
 
-import { APP_NAME, Project } from '../core'
+import { APP_NAME, Project, isLocked, lockDate, toDateOnly, formatDateOnly } from '../core'
 import { parseFormatted } from '../core/currency'
 import { useDebounce } from 'use-debounce'
 
@@ -176,6 +176,16 @@ export function validateElementTaxAmounts(form: any, data: any) {
     return true
 }
 
+// Rejects `data.date` if it is on or before the lock date
+// Returns true if validation succeeded, false otherwise
+export function validateLockDate(form: any, data: any, field = 'date') {
+    if (data[field] && isLocked(toDateOnly(data[field]))) {
+        form.setError(field, '', `Date is on or before the lock date (${formatDateOnly(lockDate())})`)
+        return false
+    }
+    return true
+}
+
 // This one is different from those above.
 // It validates member variables instead of a list of elements.
 // It returns a list of error messages (ie. an intermediate result) rather than a single boolean.